@@ -25,14 +25,35 @@ const envSchema = z.object({
   // Redis
   REDIS_URL: z.string().url(),
 
-  // MinIO (S3-Compatible Storage)
-  MINIO_ENDPOINT: z.string(),
-  MINIO_ACCESS_KEY: z.string().min(1),
-  MINIO_SECRET_KEY: z.string().min(1),
+  // Blob storage driver - see storage/blobStore.ts
+  STORAGE_DRIVER: z.enum(['s3', 'local']).default('s3'),
+  STORAGE_LOCAL_PATH: z.string().default('data/storage'),
+
+  // MinIO (S3-Compatible Storage, required when STORAGE_DRIVER is s3)
+  MINIO_ENDPOINT: z.string().min(1).optional(),
+  MINIO_ACCESS_KEY: z.string().min(1).optional(),
+  MINIO_SECRET_KEY: z.string().min(1).optional(),
   MINIO_BUCKET_NAME: z.string().default('vintagevision'),
 
-  // OpenAI
-  OPENAI_API_KEY: z.string().min(1),
+  // OpenAI (required when VISION_PROVIDER is openai)
+  OPENAI_API_KEY: z.string().min(1).optional(),
+
+  // Vision model provider - see services/visionProvider.ts
+  VISION_PROVIDER: z.enum(['openai', 'openai-compatible', 'fixture']).default('openai'),
+  VISION_BASE_URL: z.string().url().optional(), // openai-compatible server, e.g. http://localhost:11434/v1
+  VISION_API_KEY: z.string().min(1).optional(),
+  VISION_MODEL: z.string().min(1).optional(),
+  VISION_REASONING_MODEL: z.string().min(1).optional(),
+  VISION_CHAT_MODEL: z.string().min(1).optional(),
+  VISION_FIXTURE_PATH: z.string().default('test-data/vision-fixtures.json'),
+  VISION_FIXTURE_STRICT: z.string().transform(v => v === 'true' || v === '1').default('false'),
+  VISION_RECORD_FIXTURES: z.string().transform(v => v === 'true' || v === '1').default('false'),
+
+  // Market data providers - see services/marketDataProviders.ts
+  MARKET_DATA_TRANSPORT: z.enum(['live', 'fixture']).default('live'),
+  MARKET_DATA_FIXTURE_PATH: z.string().default('test-data/market-data-fixtures.json'),
+  MARKET_DATA_RECORD_FIXTURES: z.string().transform(v => v === 'true' || v === '1').default('false'),
+  MARKET_DATA_CACHE_HOURS: z.string().default('12'),
 
   // Session
   SESSION_SECRET: z.string().min(32),
@@ -44,6 +65,9 @@ const envSchema = z.object({
   // App URLs
   FRONTEND_URL: z.string().url(),
   API_URL: z.string().default('http://localhost:3000'),
+  // Reverse proxies in front of the API that append to X-Forwarded-For
+  // (Traefik + nginx in production); 0 = clients connect directly
+  TRUSTED_PROXY_HOPS: z.string().default('1'),
 
   // Stripe (Subscription payments)
   STRIPE_SECRET_KEY: z.string().min(1).optional(),
@@ -53,8 +77,42 @@ const envSchema = z.object({
   STRIPE_PRICE_PROFESSIONAL_MONTHLY: z.string().optional(),
   STRIPE_PRICE_PROFESSIONAL_ANNUAL: z.string().optional(),
 
+  // Batch analysis (items analyzed in parallel per API process)
+  BATCH_CONCURRENCY: z.string().default('3'),
+
+  // Price alerts (hours between re-pricing each watched item)
+  PRICE_ALERT_CHECK_HOURS: z.string().default('24'),
+
+  // Collection valuation (days before an item's latest snapshot is re-appraised)
+  VALUATION_STALE_DAYS: z.string().default('30'),
+
+  // Notification delivery (email via Resend, or logged to the console)
+  EMAIL_TRANSPORT: z.enum(['log', 'resend']).default('log'),
+  EMAIL_FROM: z.string().default('VintageVision <alerts@vintagevision.space>'),
+  RESEND_API_KEY: z.string().min(1).optional(),
+
+  // Admin access (comma-separated emails allowed to manage experts and reference data)
+  ADMIN_EMAILS: z.string().optional(),
+
   // Sentry (Error Monitoring - Optional)
   SENTRY_DSN: z.string().url().optional(),
+}).superRefine((config, ctx) => {
+  if (config.VISION_PROVIDER === 'openai' && !config.OPENAI_API_KEY && !config.VISION_API_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['OPENAI_API_KEY'], message: 'Required when VISION_PROVIDER is openai' });
+  }
+  if (config.EMAIL_TRANSPORT === 'resend' && !config.RESEND_API_KEY) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['RESEND_API_KEY'], message: 'Required when EMAIL_TRANSPORT is resend' });
+  }
+  if (config.VISION_PROVIDER === 'openai-compatible' && !config.VISION_BASE_URL) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['VISION_BASE_URL'], message: 'Required when VISION_PROVIDER is openai-compatible' });
+  }
+  if (config.STORAGE_DRIVER === 's3') {
+    for (const key of ['MINIO_ENDPOINT', 'MINIO_ACCESS_KEY', 'MINIO_SECRET_KEY'] as const) {
+      if (!config[key]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: 'Required when STORAGE_DRIVER is s3' });
+      }
+    }
+  }
 });
 
 export type Env = z.infer<typeof envSchema>;
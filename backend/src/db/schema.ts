@@ -2,7 +2,7 @@
 // PostgreSQL Database Schema (migrated from Cloudflare D1)
 // October 2025 - TypeScript-first approach
 
-import { pgTable, uuid, text, integer, real, boolean, timestamp, jsonb, varchar, json, check } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, integer, real, boolean, timestamp, jsonb, varchar, json, check, index, uniqueIndex } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 
 // Users Table (Self-Hosted Auth)
@@ -36,6 +36,9 @@ export const sessions = pgTable('sessions', {
 // World-Class Implementation - January 2026
 export const itemAnalyses = pgTable('item_analyses', {
   id: uuid('id').defaultRandom().primaryKey(),
+  userId: text('user_id'), // Owner (null for anonymous analyses)
+  visibility: text('visibility').default('private').notNull(), // 'private' | 'unlisted' | 'public'
+  claimTokenHash: text('claim_token_hash'), // SHA-256 of the token given to an anonymous creator; cleared once claimed
   name: text('name').notNull(),
   era: text('era'),
   style: text('style'),
@@ -45,6 +48,12 @@ export const itemAnalyses = pgTable('item_analyses', {
   estimatedValueMax: integer('estimated_value_max'),
   confidence: real('confidence').notNull(),
   imageUrl: text('image_url').notNull(),
+  imageWidth: integer('image_width'), // Stored original, after orientation
+  imageHeight: integer('image_height'),
+  imageContentHash: text('image_content_hash'), // sha256 of the bytes as uploaded
+  imagePhash: text('image_phash'), // 64-bit perceptual hashes as hex, for duplicate detection
+  imageDhash: text('image_dhash'),
+  analysisOptionsKey: text('analysis_options_key'), // Request options the result was produced with
   stylingSuggestions: jsonb('styling_suggestions'),
 
   // Product identification (Jan 2026)
@@ -103,10 +112,15 @@ export const itemAnalyses = pgTable('item_analyses', {
   expertReferralRecommended: boolean('expert_referral_recommended'),
   expertReferralReason: text('expert_referral_reason'),
   authenticationAssessment: text('authentication_assessment'), // Overall auth assessment text
+  suggestedCaptures: jsonb('suggested_captures'), // Follow-up photos that would improve the analysis
 
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
+  userIdx: index('idx_item_analyses_user_id').on(table.userId, table.createdAt),
+  userPhashIdx: index('idx_item_analyses_user_phash').on(table.userId, table.imagePhash),
+  phashIdx: index('idx_item_analyses_phash').on(table.imagePhash),
+  visibilityCheck: check('visibility_check', sql`${table.visibility} IN ('private', 'unlisted', 'public')`),
   confidenceCheck: check('confidence_check', sql`${table.confidence} >= 0 AND ${table.confidence} <= 1`),
   authConfidenceCheck: check('auth_confidence_check', sql`${table.authenticationConfidence} IS NULL OR (${table.authenticationConfidence} >= 0 AND ${table.authenticationConfidence} <= 1)`),
 }));
@@ -118,10 +132,71 @@ export const collectionItems = pgTable('collection_items', {
   itemAnalysisId: uuid('item_analysis_id').notNull().references(() => itemAnalyses.id, { onDelete: 'cascade' }),
   notes: text('notes'),
   location: text('location'),
+  valuationClaimedUntil: timestamp('valuation_claimed_until', { withTimezone: true }), // Re-appraisal in progress elsewhere until then
   savedAt: timestamp('saved_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// Valuation Snapshots (value history per collection item, for portfolio trends)
+export const valuationSnapshots = pgTable('valuation_snapshots', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  collectionItemId: uuid('collection_item_id').references(() => collectionItems.id, { onDelete: 'cascade' }).notNull(),
+  userId: text('user_id').notNull(),
+  estimatedValueMin: integer('estimated_value_min').notNull(),
+  estimatedValueMax: integer('estimated_value_max').notNull(),
+  confidence: real('confidence').notNull(),
+  source: text('source').notNull(), // 'analysis' (model estimate) | 'market' (sold comparables) | 'expert'
+  sampleSize: integer('sample_size'), // Sold listings behind a 'market' valuation
+  capturedAt: timestamp('captured_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  itemCapturedIdx: index('idx_valuation_snapshots_item_captured').on(table.collectionItemId, table.capturedAt),
+  userCapturedIdx: index('idx_valuation_snapshots_user_captured').on(table.userId, table.capturedAt),
+  sourceCheck: check('valuation_snapshots_source_check', sql`${table.source} IN ('analysis', 'market', 'expert')`),
+  rangeCheck: check('valuation_snapshots_range_check', sql`${table.estimatedValueMin} <= ${table.estimatedValueMax}`),
+}));
+
+// Sold Listings (imported auction results - real comparables for market data)
+// Search relies on the pg_trgm extension (see database/schema.sql)
+export const soldListings = pgTable('sold_listings', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  title: text('title').notNull(),
+  description: text('description'),
+  hammerPrice: integer('hammer_price').notNull(), // Cents
+  currency: text('currency').default('USD').notNull(),
+  soldDate: timestamp('sold_date', { withTimezone: true }).notNull(),
+  auctionHouse: text('auction_house'),
+  category: text('category'),
+  maker: text('maker'),
+  era: text('era'),
+  lotNumber: text('lot_number'),
+  lotUrl: text('lot_url'),
+  fingerprint: text('fingerprint').notNull(), // Dedupes re-imports of the same sale
+  importId: uuid('import_id').notNull(), // All rows from one import, so a bad import can be removed
+  importedBy: text('imported_by'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  fingerprintIdx: uniqueIndex('idx_sold_listings_fingerprint').on(table.fingerprint),
+  importIdx: index('idx_sold_listings_import').on(table.importId),
+  soldDateIdx: index('idx_sold_listings_sold_date').on(table.soldDate),
+  titleTrgmIdx: index('idx_sold_listings_title_trgm').using('gin', table.title.op('gin_trgm_ops')),
+  searchIdx: index('idx_sold_listings_search').using('gin', sql`to_tsvector('english', ${table.title} || ' ' || coalesce(${table.maker}, '') || ' ' || coalesce(${table.description}, ''))`),
+  priceCheck: check('sold_listings_price_check', sql`${table.hammerPrice} > 0`),
+}));
+
+// Market Data Cache (provider results keyed by normalized query; Redis holds the hot copy)
+export const marketDataCache = pgTable('market_data_cache', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  cacheKey: text('cache_key').notNull(), // '<provider>:<normalized query>'
+  provider: text('provider').notNull(),
+  query: text('query').notNull(),
+  listings: jsonb('listings').notNull(), // SoldListing[] as returned by the provider
+  fetchedAt: timestamp('fetched_at', { withTimezone: true }).notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+}, (table) => ({
+  cacheKeyIdx: uniqueIndex('idx_market_data_cache_key').on(table.cacheKey),
+  expiresIdx: index('idx_market_data_cache_expires').on(table.expiresAt),
+}));
+
 // User Preferences
 export const userPreferences = pgTable('user_preferences', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -130,6 +205,10 @@ export const userPreferences = pgTable('user_preferences', {
   roomTypes: jsonb('room_types'),
   budgetRangeMin: integer('budget_range_min'),
   budgetRangeMax: integer('budget_range_max'),
+  // Price alert delivery (the in-app feed is always on)
+  alertEmailEnabled: boolean('alert_email_enabled').default(true).notNull(),
+  alertWebhookUrl: text('alert_webhook_url'),
+  alertWebhookSecret: text('alert_webhook_secret'), // Signs this user's webhook payloads; shown to them to verify
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 });
@@ -142,8 +221,11 @@ export const analysisFeedback = pgTable('analysis_feedback', {
   isCorrect: boolean('is_correct').notNull(),
   correctionText: text('correction_text'),
   feedbackType: text('feedback_type'),
+  corrections: jsonb('corrections'), // Structured field corrections: [{ field, correctedValue, notes }]
+  learningWeight: real('learning_weight'), // Moderation weight applied when forwarded to self-learning (null = not forwarded)
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => ({
+  userIdx: index('idx_analysis_feedback_user_id').on(table.userId, table.createdAt),
   feedbackTypeCheck: check('feedback_type_check', sql`${table.feedbackType} IN ('accuracy', 'styling', 'value')`),
 }));
 
@@ -178,13 +260,346 @@ export const marketplaceLinks = pgTable('marketplace_links', {
 export const additionalPhotos = pgTable('additional_photos', {
   id: uuid('id').defaultRandom().primaryKey(),
   itemAnalysisId: uuid('item_analysis_id').notNull().references(() => itemAnalyses.id, { onDelete: 'cascade' }),
-  photoType: text('photo_type').notNull(), // 'caseback', 'movement', 'signature', 'detail', etc.
+  photoType: text('photo_type').notNull(), // Image role: 'marks', 'underside', 'detail', etc.
+  captureLabel: text('capture_label'), // Label of the suggested capture this photo answers
   imageUrl: text('image_url').notNull(),
   analysisResult: jsonb('analysis_result'), // AI analysis of this specific photo
   findingsFor: jsonb('findings_for'), // Evidence supporting authenticity
   findingsAgainst: jsonb('findings_against'), // Evidence against authenticity
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
-});
+}, (table) => ({
+  analysisIdx: index('idx_additional_photos_analysis').on(table.itemAnalysisId, table.createdAt),
+}));
+
+// Analysis Revisions
+// Every result an analysis has had, with what caused the change
+export const analysisRevisions = pgTable('analysis_revisions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  itemAnalysisId: uuid('item_analysis_id').notNull().references(() => itemAnalyses.id, { onDelete: 'cascade' }),
+  revisionNumber: integer('revision_number').notNull(), // 1 = first recorded result
+  trigger: text('trigger').notNull(), // 'initial' | 'user_answer' | 'new_photo' | 'expert_correction' | 'model_upgrade'
+  reason: text('reason'), // Human-readable why, e.g. "Follow-up marks photo (Caseback)"
+  sourceId: text('source_id'), // Session, photo or expert request that caused it
+  createdBy: text('created_by'), // User who triggered it, if any
+  snapshot: jsonb('snapshot').notNull(), // Tracked fields as of this revision
+  changedFields: jsonb('changed_fields').notNull(), // Fields that differ from the previous revision
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  analysisRevisionIdx: uniqueIndex('idx_analysis_revisions_analysis_number').on(table.itemAnalysisId, table.revisionNumber),
+  triggerCheck: check('analysis_revisions_trigger_check', sql`${table.trigger} IN ('initial', 'user_answer', 'new_photo', 'expert_correction', 'model_upgrade')`),
+}));
+
+// Vera Interactive Sessions
+// Persisted so conversations survive restarts and work across API replicas
+export const interactiveSessions = pgTable('interactive_sessions', {
+  id: text('id').primaryKey(), // 'vera-<timestamp>-<random>'
+  itemAnalysisId: uuid('item_analysis_id').notNull().references(() => itemAnalyses.id, { onDelete: 'cascade' }),
+  userId: text('user_id'),
+  status: text('status').notNull(), // 'gathering_info' | 'processing' | 'complete' | 'abandoned'
+  currentAnalysis: jsonb('current_analysis').notNull(), // Latest ItemAnalysis snapshot
+  informationNeeds: jsonb('information_needs').notNull(),
+  confidenceProgress: jsonb('confidence_progress').notNull(),
+  version: integer('version').default(0).notNull(), // Bumped on every save; a stale save is rejected
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  analysisIdx: index('idx_interactive_sessions_analysis_id').on(table.itemAnalysisId),
+  userIdx: index('idx_interactive_sessions_user_id').on(table.userId),
+  statusCheck: check('interactive_session_status_check', sql`${table.status} IN ('gathering_info', 'processing', 'complete', 'abandoned')`),
+}));
+
+// Vera conversation messages (append-only, ordered by position)
+export const interactiveSessionMessages = pgTable('interactive_session_messages', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  sessionId: text('session_id').notNull().references(() => interactiveSessions.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull(),
+  role: text('role').notNull(), // 'assistant' | 'user' | 'system'
+  content: text('content').notNull(),
+  relatedNeedId: text('related_need_id'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  sessionIdx: uniqueIndex('idx_interactive_session_messages_session_id').on(table.sessionId, table.position),
+}));
+
+// Information the user supplied in answer to Vera's needs (append-only)
+export const interactiveSessionResponses = pgTable('interactive_session_responses', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  sessionId: text('session_id').notNull().references(() => interactiveSessions.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull(),
+  needId: text('need_id').notNull(),
+  responseType: text('response_type').notNull(), // 'photo' | 'text' | 'measurement' | 'document'
+  content: text('content').notNull(),
+  providedAt: timestamp('provided_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  sessionIdx: uniqueIndex('idx_interactive_session_responses_session_id').on(table.sessionId, table.position),
+}));
+
+// Expert Network
+// Human appraisers who review escalated analyses (expertEscalation.ts)
+export const experts = pgTable('experts', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: text('user_id').notNull().unique(), // Expert's VintageVision account
+  name: text('name').notNull(),
+  email: text('email').notNull(),
+  specializations: jsonb('specializations').notNull(), // DomainExpert[]
+  certifications: jsonb('certifications').notNull(), // string[]
+  rating: real('rating').default(0).notNull(), // 0-5
+  completedReviews: integer('completed_reviews').default(0).notNull(),
+  averageTurnaround: real('average_turnaround').default(48).notNull(), // hours
+  isActive: boolean('is_active').default(false).notNull(), // Activated by an admin
+  joinedAt: timestamp('joined_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  ratingCheck: check('expert_rating_check', sql`${table.rating} >= 0 AND ${table.rating} <= 5`),
+}));
+
+// Expert Review Requests
+export const expertRequests = pgTable('expert_requests', {
+  id: text('id').primaryKey(), // 'exp-<timestamp>-<random>'
+  itemAnalysisId: uuid('item_analysis_id').notNull().references(() => itemAnalyses.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull(),
+  tierId: text('tier_id').notNull(),
+  tierName: text('tier_name').notNull(),
+  price: integer('price').notNull(), // cents
+  status: text('status').notNull(),
+  assignedExpertId: uuid('assigned_expert_id').references(() => experts.id, { onDelete: 'set null' }),
+  itemName: text('item_name').notNull(),
+  itemCategory: text('item_category').notNull(), // DomainExpert
+  estimatedValueMin: integer('estimated_value_min').notNull(),
+  estimatedValueMax: integer('estimated_value_max').notNull(),
+  userNotes: text('user_notes'),
+  expertNotes: text('expert_notes'),
+  finalReport: text('final_report'),
+  stripeCheckoutSessionId: text('stripe_checkout_session_id'),
+  submittedAt: timestamp('submitted_at', { withTimezone: true }).defaultNow().notNull(),
+  paidAt: timestamp('paid_at', { withTimezone: true }),
+  assignedAt: timestamp('assigned_at', { withTimezone: true }),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  dueAt: timestamp('due_at', { withTimezone: true }).notNull(), // Turnaround clock starts at payment
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  statusDueIdx: index('idx_expert_requests_status_due_at').on(table.status, table.dueAt),
+  userIdx: index('idx_expert_requests_user_id').on(table.userId),
+  expertIdx: index('idx_expert_requests_assigned_expert_id').on(table.assignedExpertId),
+  statusCheck: check('expert_request_status_check', sql`${table.status} IN ('pending_payment', 'pending_assignment', 'assigned', 'in_review', 'completed', 'cancelled')`),
+}));
+
+// Expert Feedback (one answer per request)
+export const expertFeedback = pgTable('expert_feedback', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  requestId: text('request_id').notNull().unique().references(() => expertRequests.id, { onDelete: 'cascade' }),
+  expertId: uuid('expert_id').notNull().references(() => experts.id),
+  corrections: jsonb('corrections').notNull(), // ExpertCorrection[]
+  overallAssessment: text('overall_assessment').notNull(),
+  confidenceLevel: real('confidence_level').notNull(),
+  authenticityVerified: boolean('authenticity_verified').notNull(),
+  additionalNotes: text('additional_notes'),
+  marketInsights: text('market_insights'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  confidenceLevelCheck: check('expert_feedback_confidence_check', sql`${table.confidenceLevel} >= 0 AND ${table.confidenceLevel} <= 1`),
+}));
+
+// Self-Learning Feedback (selfLearning.ts FeedbackEntry history)
+// analysisId is free text - ground truth runs use fixture IDs, not item_analyses rows
+export const learningFeedback = pgTable('learning_feedback', {
+  id: text('id').primaryKey(), // 'fb-<timestamp>-<random>'
+  analysisId: text('analysis_id').notNull(),
+  imageHash: text('image_hash').notNull(),
+  source: text('source').notNull(), // 'expert' | 'user' | 'auction' | 'ground_truth' | 'system'
+  field: text('field').notNull(),
+  original: jsonb('original').notNull(),
+  correction: jsonb('correction').notNull(),
+  metadata: jsonb('metadata').notNull(),
+  recordedAt: timestamp('recorded_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  recordedAtIdx: index('idx_learning_feedback_recorded_at').on(table.recordedAt),
+  fieldIdx: index('idx_learning_feedback_field').on(table.field),
+  sourceCheck: check('learning_feedback_source_check', sql`${table.source} IN ('expert', 'user', 'auction', 'ground_truth', 'system')`),
+}));
+
+// Self-Learning Insights (merged on type + description)
+export const learningInsights = pgTable('learning_insights', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  type: text('type').notNull(), // 'pattern' | 'confusion' | 'calibration' | 'gap'
+  severity: text('severity').notNull(), // 'high' | 'medium' | 'low'
+  description: text('description').notNull(),
+  evidence: jsonb('evidence').notNull(), // string[]
+  suggestedAction: text('suggested_action').notNull(),
+  frequency: integer('frequency').notNull(),
+  lastOccurred: timestamp('last_occurred', { withTimezone: true }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  typeDescriptionIdx: uniqueIndex('idx_learning_insights_type_description').on(table.type, table.description),
+}));
+
+// Self-Learning Prompt Adjustments
+export const learningPromptAdjustments = pgTable('learning_prompt_adjustments', {
+  id: text('id').primaryKey(), // 'pa-<timestamp>-<random>' or 'pa-baseline-<condition>'
+  category: text('category'),
+  condition: text('condition').notNull(),
+  adjustment: text('adjustment').notNull(),
+  effectiveness: real('effectiveness').notNull(),
+  active: boolean('active').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  effectivenessCheck: check('learning_prompt_adjustment_effectiveness_check', sql`${table.effectiveness} >= 0 AND ${table.effectiveness} <= 1`),
+}));
+
+// Expert Knowledge Entries (maker marks, patterns, criteria, value ranges, famous pieces, domain prompts)
+// Seeded from services/expertKnowledgeSeed.ts, then edited by admins through /api/knowledge
+export const knowledgeEntries = pgTable('knowledge_entries', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  kind: text('kind').notNull(), // 'maker_mark' | 'identification_pattern' | 'authentication_criteria' | 'value_range' | 'famous_item' | 'domain_prompt'
+  key: text('key').notNull(), // Stable within a kind, e.g. 'furniture-stickley-gustav' or 'watches'
+  category: text('category'), // Domain the entry applies to, when it has one
+  data: jsonb('data').notNull(), // The entry itself, validated per kind
+  version: integer('version').default(1).notNull(),
+  updatedBy: text('updated_by'),
+  deletedAt: timestamp('deleted_at', { withTimezone: true }), // Soft delete - history is kept
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  kindKeyIdx: uniqueIndex('idx_knowledge_entries_kind_key').on(table.kind, table.key),
+  kindCategoryIdx: index('idx_knowledge_entries_kind_category').on(table.kind, table.category),
+  kindCheck: check('knowledge_entries_kind_check', sql`${table.kind} IN ('maker_mark', 'identification_pattern', 'authentication_criteria', 'value_range', 'famous_item', 'domain_prompt')`),
+}));
+
+// Expert Knowledge Revisions
+// Every version an entry has had, with who changed it and why
+export const knowledgeEntryRevisions = pgTable('knowledge_entry_revisions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  entryId: uuid('entry_id').notNull().references(() => knowledgeEntries.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(),
+  action: text('action').notNull(), // 'seed' | 'create' | 'update' | 'delete' | 'restore'
+  data: jsonb('data').notNull(), // Entry as of this version (the last data, for deletes)
+  changedFields: jsonb('changed_fields').notNull(), // Top-level fields that differ from the previous version
+  reason: text('reason'),
+  changedBy: text('changed_by'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  entryVersionIdx: uniqueIndex('idx_knowledge_entry_revisions_entry_version').on(table.entryId, table.version),
+  actionCheck: check('knowledge_entry_revisions_action_check', sql`${table.action} IN ('seed', 'create', 'update', 'delete', 'restore')`),
+}));
+
+// Batch Analysis Jobs (durable queue - items are claimed with FOR UPDATE SKIP LOCKED)
+export const batchJobs = pgTable('batch_jobs', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: text('user_id').notNull(),
+  name: text('name'), // e.g. "Henderson estate sale"
+  status: text('status').default('queued').notNull(), // 'queued' | 'running' | 'completed' | 'cancelled'
+  totalItems: integer('total_items').notNull(),
+  completedItems: integer('completed_items').default(0).notNull(),
+  failedItems: integer('failed_items').default(0).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  startedAt: timestamp('started_at', { withTimezone: true }),
+  finishedAt: timestamp('finished_at', { withTimezone: true }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userCreatedIdx: index('idx_batch_jobs_user_created').on(table.userId, table.createdAt),
+  statusCheck: check('batch_jobs_status_check', sql`${table.status} IN ('queued', 'running', 'completed', 'cancelled')`),
+}));
+
+export const batchJobItems = pgTable('batch_job_items', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  jobId: uuid('job_id').references(() => batchJobs.id, { onDelete: 'cascade' }).notNull(),
+  position: integer('position').notNull(),
+  label: text('label'), // Original filename or lot number
+  imageKey: text('image_key').notNull(),
+  status: text('status').default('pending').notNull(), // 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+  attempts: integer('attempts').default(0).notNull(),
+  lastError: text('last_error'),
+  itemAnalysisId: uuid('item_analysis_id').references(() => itemAnalyses.id, { onDelete: 'set null' }),
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }).defaultNow().notNull(),
+  startedAt: timestamp('started_at', { withTimezone: true }),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+}, (table) => ({
+  jobPositionIdx: uniqueIndex('idx_batch_job_items_job_position').on(table.jobId, table.position),
+  queueIdx: index('idx_batch_job_items_queue').on(table.status, table.nextAttemptAt),
+  statusCheck: check('batch_job_items_status_check', sql`${table.status} IN ('pending', 'processing', 'completed', 'failed', 'cancelled')`),
+}));
+
+// Price Alerts (market watches re-priced on a schedule)
+export const priceAlerts = pgTable('price_alerts', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: text('user_id').notNull(),
+  itemAnalysisId: uuid('item_analysis_id').references(() => itemAnalyses.id, { onDelete: 'set null' }),
+  itemName: text('item_name').notNull(), // Item or category searched for comparables
+  maker: text('maker'),
+  era: text('era'),
+  category: text('category'),
+  condition: text('condition').notNull(), // 'above' | 'below' | 'any_change'
+  targetValue: integer('target_value'), // USD, required for above/below
+  changeThreshold: real('change_threshold').default(5).notNull(), // Percent, for any_change
+  isActive: boolean('is_active').default(true).notNull(),
+  lastValue: integer('last_value'), // Average sold price at the last check
+  baselineValue: integer('baseline_value'), // Value any_change compares against (reset when it fires)
+  lastPercentChange: real('last_percent_change'),
+  lastCheckedAt: timestamp('last_checked_at', { withTimezone: true }),
+  lastTriggeredAt: timestamp('last_triggered_at', { withTimezone: true }),
+  nextCheckAt: timestamp('next_check_at', { withTimezone: true }).defaultNow().notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index('idx_price_alerts_user').on(table.userId),
+  dueIdx: index('idx_price_alerts_due').on(table.isActive, table.nextCheckAt),
+  conditionCheck: check('price_alerts_condition_check', sql`${table.condition} IN ('above', 'below', 'any_change')`),
+  targetCheck: check('price_alerts_target_check', sql`${table.condition} = 'any_change' OR ${table.targetValue} IS NOT NULL`),
+}));
+
+// Notifications (in-app feed; email/webhook delivery results recorded per channel)
+export const notifications = pgTable('notifications', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: text('user_id').notNull(),
+  type: text('type').notNull(), // 'price_alert'
+  title: text('title').notNull(),
+  body: text('body').notNull(),
+  data: jsonb('data'), // Type-specific payload, e.g. { alertId, previousValue, currentValue }
+  deliveries: jsonb('deliveries'), // { email: 'sent' | 'failed' | 'skipped', webhook: ... }
+  readAt: timestamp('read_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userCreatedIdx: index('idx_notifications_user_created').on(table.userId, table.createdAt),
+}));
+
+// Usage Counters (monthly quota tracking per user, or per client IP for anonymous use)
+export const usageCounters = pgTable('usage_counters', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  subject: text('subject').notNull(), // user ID, or 'ip:<address>' for anonymous requests
+  metric: text('metric').notNull(), // 'analyses' | 'consensus_runs' | 'multi_image_captures' | 'vera_messages'
+  period: text('period').notNull(), // 'YYYY-MM' (UTC)
+  count: integer('count').default(0).notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  subjectMetricPeriodIdx: uniqueIndex('idx_usage_counters_subject_metric_period').on(table.subject, table.metric, table.period),
+  metricCheck: check('usage_counters_metric_check', sql`${table.metric} IN ('analyses', 'consensus_runs', 'multi_image_captures', 'vera_messages')`),
+  countCheck: check('usage_counters_count_check', sql`${table.count} >= 0`),
+}));
+
+// Model Usage (one row per model call: tokens, latency and cost, for spend per user, tier and domain)
+export const modelUsage = pgTable('model_usage', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  traceId: uuid('trace_id').notNull(), // Groups the calls made for one request
+  userId: text('user_id'), // null for anonymous requests
+  tier: text('tier').notNull(), // Plan at the time of the call
+  itemAnalysisId: uuid('item_analysis_id').references(() => itemAnalyses.id, { onDelete: 'set null' }),
+  sessionId: text('session_id'), // Vera interactive session
+  domainExpert: text('domain_expert'),
+  task: text('task').notNull(), // VisionTask: 'triage' | 'deep_analysis' | 'additional_photo' | 'reasoning_synthesis' | 'conversation'
+  provider: text('provider').notNull(),
+  model: text('model').notNull(),
+  promptTokens: integer('prompt_tokens').default(0).notNull(),
+  completionTokens: integer('completion_tokens').default(0).notNull(),
+  latencyMs: integer('latency_ms').notNull(),
+  costMicros: integer('cost_micros').default(0).notNull(), // Millionths of a USD
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  userCreatedIdx: index('idx_model_usage_user_created').on(table.userId, table.createdAt),
+  createdIdx: index('idx_model_usage_created').on(table.createdAt),
+  traceIdx: index('idx_model_usage_trace').on(table.traceId),
+  analysisIdx: index('idx_model_usage_analysis').on(table.itemAnalysisId),
+}));
 
 // Analytics Events
 export const analyticsEvents = pgTable('analytics_events', {
@@ -228,3 +643,26 @@ export type ErrorLog = typeof errorLogs.$inferSelect;
 export type NewErrorLog = typeof errorLogs.$inferInsert;
 export type AdditionalPhoto = typeof additionalPhotos.$inferSelect;
 export type NewAdditionalPhoto = typeof additionalPhotos.$inferInsert;
+export type AnalysisRevision = typeof analysisRevisions.$inferSelect;
+export type InteractiveSessionRecord = typeof interactiveSessions.$inferSelect;
+export type NewInteractiveSessionRecord = typeof interactiveSessions.$inferInsert;
+export type InteractiveSessionMessage = typeof interactiveSessionMessages.$inferSelect;
+export type InteractiveSessionResponse = typeof interactiveSessionResponses.$inferSelect;
+export type ExpertRecord = typeof experts.$inferSelect;
+export type ExpertRequestRecord = typeof expertRequests.$inferSelect;
+export type ExpertFeedbackRecord = typeof expertFeedback.$inferSelect;
+export type LearningFeedbackRecord = typeof learningFeedback.$inferSelect;
+export type LearningInsightRecord = typeof learningInsights.$inferSelect;
+export type LearningPromptAdjustmentRecord = typeof learningPromptAdjustments.$inferSelect;
+export type UsageCounter = typeof usageCounters.$inferSelect;
+export type ModelUsageRecord = typeof modelUsage.$inferSelect;
+export type BatchJob = typeof batchJobs.$inferSelect;
+export type BatchJobItem = typeof batchJobItems.$inferSelect;
+export type PriceAlert = typeof priceAlerts.$inferSelect;
+export type NotificationRecord = typeof notifications.$inferSelect;
+export type ValuationSnapshot = typeof valuationSnapshots.$inferSelect;
+export type SoldListingRecord = typeof soldListings.$inferSelect;
+export type NewSoldListingRecord = typeof soldListings.$inferInsert;
+export type MarketDataCacheRecord = typeof marketDataCache.$inferSelect;
+export type KnowledgeEntryRecord = typeof knowledgeEntries.$inferSelect;
+export type KnowledgeEntryRevisionRecord = typeof knowledgeEntryRevisions.$inferSelect;
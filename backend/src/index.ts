@@ -23,9 +23,15 @@ import { checkDatabaseHealth, closeDatabaseConnection } from './db/client.js';
 import { checkStorageHealth, initializeBucket } from './storage/client.js';
 import { checkOpenAIHealth } from './services/openai.js';
 import { errorHandler } from './middleware/error.js';
-import { requireAuth, requireCurrentUser } from './middleware/auth.js';
+import { requireAuth, requireCurrentUser, getClientIp } from './middleware/auth.js';
 import { initializeSessionStore, createSession, deleteSession } from './services/session.js';
+import { initializeLearningSystem } from './services/selfLearning.js';
+import { backfillAnalysisOwners } from './services/analysisAccess.js';
+import { initializeExpertKnowledge } from './services/expertKnowledgeBase.js';
 import { findOrCreateUser, type GoogleUserInfo } from './services/auth.js';
+import { startBatchWorker, stopBatchWorker } from './services/batchAnalysis.js';
+import { startPriceAlertScheduler, stopPriceAlertScheduler } from './services/priceAlerts.js';
+import { startValuationScheduler, stopValuationScheduler } from './services/collectionValuation.js';
 
 // ============================================================================
 // MANUAL OAUTH 2.0 CONFIGURATION - Full control for debugging
@@ -59,6 +65,13 @@ import errorRoutes from './routes/errors.js';
 import imageRoutes from './routes/images.js';
 import testingRoutes from './routes/testing.js';
 import stripeRoutes from './routes/stripe.js';
+import expertRoutes from './routes/experts.js';
+import usageRoutes from './routes/usage.js';
+import batchRoutes from './routes/batch.js';
+import alertRoutes from './routes/alerts.js';
+import notificationRoutes from './routes/notifications.js';
+import soldListingRoutes from './routes/soldListings.js';
+import knowledgeRoutes from './routes/knowledge.js';
 
 // Create Hono app
 const app = new Hono();
@@ -77,7 +90,7 @@ app.use('*', cors({
   origin: [env.FRONTEND_URL, 'http://localhost:5173'],
   credentials: true,
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Claim-Token'],
   exposeHeaders: ['Set-Cookie'],
   maxAge: 86400,
 }));
@@ -94,7 +107,7 @@ const analyzeRateLimiter = rateLimiter({
   keyGenerator: (c) => {
     // Use session cookie or IP address as key
     const sessionCookie = c.req.header('Cookie')?.match(/session=([^;]+)/)?.[1];
-    return sessionCookie || c.req.header('x-forwarded-for') || c.req.header('x-real-ip') || 'anonymous';
+    return sessionCookie || getClientIp(c) || 'anonymous';
   },
 });
 
@@ -326,61 +339,29 @@ app.post('/api/auth/logout', requireAuth, async (c) => {
 // API ROUTES
 // ============================================================================
 
+// Batch jobs sit under /api/analyze so the analyze rate limit covers them;
+// mounted first so /batch isn't taken for an analysis ID
+app.route('/api/analyze/batch', batchRoutes);
 app.route('/api/analyze', analyzeRoutes);
 app.route('/api/collection', collectionRoutes);
 app.route('/api/wishlist', wishlistRoutes);
 app.route('/api/preferences', preferencesRoutes);
 app.route('/api/feedback', feedbackRoutes);
+app.route('/api/experts', expertRoutes);
+app.route('/api/usage', usageRoutes);
+app.route('/api/alerts', alertRoutes);
+app.route('/api/notifications', notificationRoutes);
+app.route('/api/sold-listings', soldListingRoutes);
+app.route('/api/knowledge', knowledgeRoutes);
+app.route('/api/images', imageRoutes);
 app.route('/api/analytics', analyticsRoutes);
 app.route('/api/errors', errorRoutes);
-app.route('/api/testing', testingRoutes);
+// Test runner and learning-system tools: admins only, never in production
+if (env.NODE_ENV !== 'production') {
+  app.route('/api/testing', testingRoutes);
+}
 app.route('/api', stripeRoutes);
 
-// Image serving route - must be registered directly to handle wildcard paths
-app.get('/api/images/*', async (c) => {
-  try {
-    // Get the full path after /api/images/
-    const fullPath = c.req.path;
-    const pathAfterImages = fullPath.replace('/api/images/', '');
-
-    if (!pathAfterImages) {
-      return c.json({ success: false, error: 'Image path required' }, 400);
-    }
-
-    // Storage keys include 'images/' prefix, so add it back
-    const storageKey = `images/${pathAfterImages}`;
-    console.log(`📸 Serving image: ${storageKey}`);
-
-    // Fetch image from MinIO
-    const { getImage } = await import('./storage/client.js');
-    const { stream } = await import('hono/streaming');
-    const { body, contentType } = await getImage(storageKey);
-
-    // Set headers
-    c.header('Content-Type', contentType);
-    c.header('Cache-Control', 'public, max-age=31536000'); // Cache for 1 year
-
-    // Stream the image body
-    return stream(c, async (stream) => {
-      // Convert body to buffer and write
-      const chunks: Uint8Array[] = [];
-      for await (const chunk of body) {
-        chunks.push(chunk);
-      }
-      const buffer = Buffer.concat(chunks);
-      await stream.write(buffer);
-    });
-  } catch (error: any) {
-    console.error('❌ Error serving image:', error);
-
-    if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) {
-      return c.json({ success: false, error: 'Image not found' }, 404);
-    }
-
-    return c.json({ success: false, error: 'Failed to load image' }, 500);
-  }
-});
-
 // 404 handler
 app.notFound((c) => {
   return c.json({ success: false, error: 'Not found' }, 404);
@@ -401,7 +382,7 @@ async function initialize() {
     // Initialize Redis session store
     await initializeSessionStore();
 
-    // Initialize MinIO bucket
+    // Initialize blob storage (MinIO bucket or local directory)
     await initializeBucket();
 
     // Check database connection
@@ -410,6 +391,27 @@ async function initialize() {
       throw new Error('Database health check failed');
     }
 
+    // Give pre-ownership analyses the user who saved them
+    const backfilled = await backfillAnalysisOwners();
+    if (backfilled > 0) {
+      console.log(`✅ Assigned owners to ${backfilled} analyses from collection items`);
+    }
+
+    // Rehydrate self-learning history (feedback, insights, prompt adjustments)
+    await initializeLearningSystem();
+
+    // Seed new built-in knowledge entries and load the knowledge base
+    await initializeExpertKnowledge();
+
+    // Resume queued batch jobs
+    await startBatchWorker();
+
+    // Re-price watched items on a schedule
+    startPriceAlertScheduler();
+
+    // Re-appraise collection items with stale valuations
+    startValuationScheduler();
+
     console.log('✅ All services initialized successfully');
   } catch (error) {
     console.error('❌ Initialization failed:', error);
@@ -422,6 +424,11 @@ async function shutdown(signal: string) {
   console.log(`\n⚠️  Received ${signal}, starting graceful shutdown...`);
 
   try {
+    // Stop claiming batch items; in-flight ones are re-queued on next start
+    stopBatchWorker();
+    stopPriceAlertScheduler();
+    stopValuationScheduler();
+
     // Flush Sentry events before shutdown
     await flushSentry(2000);
 
@@ -464,7 +471,7 @@ async function start() {
       console.log(`║  🔒 Auth:       Google OAuth (Native Hono)       ║`);
       console.log(`║  💾 Sessions:   Redis (60-day expiry)            ║`);
       console.log(`║  🗄️  Database:   PostgreSQL (Drizzle ORM)         ║`);
-      console.log(`║  📁 Storage:    MinIO (S3-Compatible)            ║`);
+      console.log(`║  📁 Storage:    ${(env.STORAGE_DRIVER === 's3' ? 'MinIO (S3-Compatible)' : 'Local filesystem').padEnd(32)} ║`);
       console.log(`║  🤖 AI:         OpenAI GPT-5.2 Pro               ║`);
       console.log('║                                                   ║');
       console.log('╚═══════════════════════════════════════════════════╝');
@@ -6,8 +6,11 @@
 
 import { Context, Next } from 'hono';
 import { getCookie } from 'hono/cookie';
+import { getConnInfo } from '@hono/node-server/conninfo';
 import { getSession } from '../services/session.js';
 import { getUserById } from '../services/auth.js';
+import { env } from '../config/env.js';
+import { hasFeature, usageSubject, type Feature } from '../services/entitlements.js';
 import type { User } from '../db/schema.js';
 
 export type AuthUser = User;
@@ -108,3 +111,92 @@ export function getUserId(c: Context): string | null {
   const user = getCurrentUser(c);
   return user?.id || null;
 }
+
+/**
+ * Check whether a user is an admin (email listed in ADMIN_EMAILS)
+ */
+export function isAdmin(user: AuthUser | undefined): boolean {
+  if (!user || !env.ADMIN_EMAILS) return false;
+  const adminEmails = env.ADMIN_EMAILS.split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+  return adminEmails.includes(user.email.toLowerCase());
+}
+
+/**
+ * Middleware to require an admin user
+ * Must run after requireAuth
+ */
+export async function requireAdmin(c: Context, next: Next): Promise<Response | void> {
+  if (!isAdmin(getCurrentUser(c))) {
+    return c.json(
+      {
+        success: false,
+        error: 'Admin access required.',
+      },
+      403
+    );
+  }
+
+  await next();
+}
+
+/**
+ * Middleware factory to require a subscription feature
+ * Must run after requireAuth
+ */
+export function requireEntitlement(feature: Feature) {
+  return async (c: Context, next: Next): Promise<Response | void> => {
+    const user = getCurrentUser(c);
+
+    if (!hasFeature(user?.subscriptionTier, feature)) {
+      return c.json(
+        {
+          success: false,
+          error: 'Your plan does not include this feature. Upgrade to unlock it.',
+          feature,
+        },
+        403
+      );
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Client IP as recorded by the outermost trusted proxy. Each proxy appends the
+ * address it was connected from to X-Forwarded-For, so the client sits
+ * TRUSTED_PROXY_HOPS entries from the end; anything before that was sent by
+ * the client itself. Without a forwarded chain, the socket peer is used.
+ */
+export function getClientIp(c: Context): string | null {
+  const hops = parseInt(env.TRUSTED_PROXY_HOPS, 10);
+  const forwarded = (c.req.header('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  if (hops > 0 && forwarded.length >= hops) {
+    return forwarded[forwarded.length - hops];
+  }
+
+  try {
+    return getConnInfo(c).remote.address ?? null;
+  } catch {
+    return null; // No socket (app.request in tests)
+  }
+}
+
+/**
+ * Helper to get the usage-counter key: user ID, or client IP when anonymous
+ */
+export function getUsageSubject(c: Context): string {
+  return usageSubject(getUserId(c), getClientIp(c));
+}
+
+/**
+ * Helper to get the claim token an anonymous analysis's creator sends
+ * (X-Claim-Token), or null
+ */
+export function getClaimToken(c: Context): string | null {
+  return c.req.header('x-claim-token') || null;
+}
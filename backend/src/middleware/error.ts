@@ -43,12 +43,24 @@ export class NotFoundError extends AppError {
   }
 }
 
+export class ConflictError extends AppError {
+  constructor(message: string = 'Resource was changed by another request') {
+    super(message, 409);
+  }
+}
+
 export class RateLimitError extends AppError {
   constructor(message: string = 'Too many requests') {
     super(message, 429);
   }
 }
 
+export class QuotaExceededError extends AppError {
+  constructor(message: string = 'Plan limit reached') {
+    super(message, 402);
+  }
+}
+
 export class ExternalServiceError extends AppError {
   constructor(message: string, public service: string) {
     super(message, 502);
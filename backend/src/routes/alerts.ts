@@ -0,0 +1,109 @@
+// Price Alert Routes - Watch market prices for items and categories
+// October 2026
+
+import { Hono } from 'hono';
+import { requireAuth, requireEntitlement, getUserId } from '../middleware/auth.js';
+import { ValidationError } from '../middleware/error.js';
+import {
+  listPriceAlerts,
+  createPriceAlert,
+  updatePriceAlert,
+  deletePriceAlert,
+  checkPriceAlertNow,
+} from '../services/priceAlerts.js';
+import { z } from 'zod';
+
+const alerts = new Hono();
+
+const ConditionSchema = z.enum(['above', 'below', 'any_change']);
+
+const CreateAlertSchema = z.object({
+  itemAnalysisId: z.string().uuid().optional(),
+  itemName: z.string().trim().min(1).max(200).optional(),
+  maker: z.string().trim().max(200).nullable().optional(),
+  era: z.string().trim().max(100).nullable().optional(),
+  category: z.string().trim().max(100).nullable().optional(),
+  condition: ConditionSchema,
+  targetValue: z.number().int().positive().nullable().optional(),
+  changeThreshold: z.number().min(1).max(100).optional(),
+}).refine(data => data.itemAnalysisId || data.itemName, {
+  message: 'Provide an itemName or itemAnalysisId',
+});
+
+const UpdateAlertSchema = z.object({
+  isActive: z.boolean().optional(),
+  condition: ConditionSchema.optional(),
+  targetValue: z.number().int().positive().nullable().optional(),
+  changeThreshold: z.number().min(1).max(100).optional(),
+});
+
+function toValidationError(error: unknown): unknown {
+  if (error instanceof z.ZodError) {
+    return new ValidationError(error.errors[0]?.message || 'Invalid alert data');
+  }
+  return error;
+}
+
+alerts.use('*', requireAuth, requireEntitlement('priceAlerts'));
+
+// GET /api/alerts - The caller's price alerts
+alerts.get('/', async (c) => {
+  const data = await listPriceAlerts(getUserId(c)!);
+
+  return c.json({
+    success: true,
+    data,
+  });
+});
+
+// POST /api/alerts - Create an alert for an item/category or an analysis
+alerts.post('/', async (c) => {
+  try {
+    const body = CreateAlertSchema.parse(await c.req.json());
+    const alert = await createPriceAlert(getUserId(c)!, body);
+
+    return c.json({
+      success: true,
+      data: alert,
+    }, 201);
+  } catch (error) {
+    throw toValidationError(error);
+  }
+});
+
+// PATCH /api/alerts/:id - Pause/resume or change the rule
+alerts.patch('/:id', async (c) => {
+  try {
+    const body = UpdateAlertSchema.parse(await c.req.json());
+    const alert = await updatePriceAlert(c.req.param('id'), getUserId(c)!, body);
+
+    return c.json({
+      success: true,
+      data: alert,
+    });
+  } catch (error) {
+    throw toValidationError(error);
+  }
+});
+
+// DELETE /api/alerts/:id
+alerts.delete('/:id', async (c) => {
+  await deletePriceAlert(c.req.param('id'), getUserId(c)!);
+
+  return c.json({
+    success: true,
+    message: 'Price alert deleted',
+  });
+});
+
+// POST /api/alerts/:id/check - Re-price now instead of waiting for the schedule
+alerts.post('/:id/check', async (c) => {
+  const alert = await checkPriceAlertNow(c.req.param('id'), getUserId(c)!);
+
+  return c.json({
+    success: true,
+    data: alert,
+  });
+});
+
+export default alerts;
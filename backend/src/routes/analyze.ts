@@ -3,16 +3,27 @@
 
 import { Hono } from 'hono';
 import { streamSSE } from 'hono/streaming';
-import { requireAuth, optionalAuth, getUserId } from '../middleware/auth.js';
-import { ValidationError, ExternalServiceError } from '../middleware/error.js';
-import { analyzeAntiqueImage, generateMarketplaceLinks, ProductCategory, DomainExpert, AnalysisEventEmitter, CapturedImage, ImageRole } from '../services/openai.js';
+import { requireAuth, optionalAuth, getUserId, getCurrentUser, getUsageSubject, getClaimToken } from '../middleware/auth.js';
+import { ValidationError, ExternalServiceError, NotFoundError, AuthorizationError, QuotaExceededError } from '../middleware/error.js';
+import { analyzeAntiqueImage, DomainExpert, AnalysisEventEmitter, CapturedImage, ImageRole, ItemAnalysis } from '../services/openai.js';
 import { analyzeWithConsensus, evaluateConsensusTriggers, ConsensusConfig } from '../services/consensusAnalysis.js';
-import { createInteractiveSession, addUserResponse, updateWithReanalysis, detectInformationNeeds, generateAIVeraResponse, ASSISTANT_NAME, ASSISTANT_PERSONA, InteractiveSession } from '../services/interactiveAnalysis.js';
+import { createInteractiveSession, addUserResponse, updateWithReanalysis, detectInformationNeeds, generateAIVeraResponse, applyCasebackReading, CASEBACK_NEED_ID, ASSISTANT_NAME, ASSISTANT_PERSONA } from '../services/interactiveAnalysis.js';
+import { saveSession, loadSession, findResumableSession, listSessionsForAnalysis, StoredInteractiveSession } from '../services/interactiveSessionStore.js';
+import { evaluateCompliance } from '../services/compliance.js';
+import { getViewableAnalysis, getModifiableAnalysis, toViewerAnalysis, isAnalysisOwner, ANALYSIS_VISIBILITIES, AnalysisVisibility } from '../services/analysisAccess.js';
 import { evaluateEscalation, getEscalationOptions } from '../services/expertEscalation.js';
-import { uploadImage, getImageUrl } from '../storage/client.js';
+import { assertFeature, hasFeature, consumeUsage, refundUsage, UsageMetric } from '../services/entitlements.js';
+import { saveAnalysis, toAnalysisValues } from '../services/analysisPersistence.js';
+import { addAnalysisPhoto, listAdditionalPhotos, getAnalysisCaptureStatus } from '../services/additionalPhotos.js';
+import { recordRevision, listRevisions, getRevisionDiff } from '../services/analysisRevisions.js';
+import { ingestImage, normalizeDataUrl, toDataUrl, fromStorageMetadata, hashImageUpload, MAX_IMAGE_BYTES } from '../services/imageIngestion.js';
+import { findDuplicateAnalyses, findReusableAnalysis, analysisOptionsKey } from '../services/duplicateAnalyses.js';
+import { createUsageContext, withUsageContext, attachUsageToAnalysis, getSpendBudget, guardConsensusMode } from '../services/usageLedger.js';
+import { getImageUrl, getImageBuffer } from '../storage/client.js';
 import { db } from '../db/client.js';
 import { itemAnalyses, marketplaceLinks, analyticsEvents } from '../db/schema.js';
-import { eq } from 'drizzle-orm';
+import type { ItemAnalysis as ItemAnalysisRecord } from '../db/schema.js';
+import { eq, desc, and, sql } from 'drizzle-orm';
 import { z } from 'zod';
 
 const analyze = new Hono();
@@ -33,25 +44,200 @@ const AnalyzeRequestSchema = z.object({
   // Consensus analysis options
   consensusMode: z.enum(['auto', 'always', 'never']).optional().default('auto'), // 'auto' = conditional based on triggers
   forceMultiRun: z.boolean().optional(), // Force multiple runs regardless of triggers
-  useReasoningModel: z.boolean().optional().default(true), // Use o1/o1-pro for synthesis
+  useReasoningModel: z.boolean().optional(), // Use o1/o1-pro for synthesis; defaults to on when the plan includes it
+  visibility: z.enum(['private', 'unlisted', 'public']).optional(), // Signed-in users only; defaults to private
+  reuseExisting: z.boolean().optional(), // Return your earlier result for the same photo and options instead of re-running
+});
+
+const DuplicateCheckSchema = z.object({
+  image: z.string().min(1, 'Image data is required'),
+});
+
+const HistoryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+const VisibilitySchema = z.object({
+  visibility: z.enum(['private', 'unlisted', 'public']),
+});
+
+const AdditionalPhotoSchema = z.object({
+  image: z.string().min(1, 'Image data is required'),
+  role: z.enum(['overview', 'detail', 'marks', 'underside', 'damage', 'context', 'additional']).optional().default('additional'),
+  captureLabel: z.string().max(200).optional(), // Which suggested capture this photo answers
+});
+
+const RevisionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+});
+
+/**
+ * Vera sessions belong to whoever started them; anonymous sessions are
+ * reachable by session ID alone
+ */
+function assertSessionAccess(session: StoredInteractiveSession, userId: string | null): void {
+  if (session.userId && session.userId !== userId) {
+    throw new NotFoundError('Session not found');
+  }
+}
+
+/**
+ * Reserve this month's quota for an analysis. Auto consensus quietly falls back
+ * to a single run once consensus runs are used up; forced consensus fails.
+ * Returns the reserved metrics so they can be refunded if the analysis fails.
+ */
+async function reserveAnalysisUsage(
+  subject: string,
+  tier: string | undefined,
+  options: { multiImage: boolean; consensusMode: 'auto' | 'always' | 'never' }
+): Promise<UsageMetric[]> {
+  const reserved: UsageMetric[] = [];
+
+  try {
+    await consumeUsage(subject, tier, 'analyses');
+    reserved.push('analyses');
+
+    if (options.multiImage) {
+      await consumeUsage(subject, tier, 'multi_image_captures');
+      reserved.push('multi_image_captures');
+    }
+
+    if (options.consensusMode !== 'never') {
+      try {
+        await consumeUsage(subject, tier, 'consensus_runs');
+        reserved.push('consensus_runs');
+      } catch (error) {
+        if (options.consensusMode === 'always' || !(error instanceof QuotaExceededError)) {
+          throw error;
+        }
+      }
+    }
+  } catch (error) {
+    await releaseUsage(subject, reserved);
+    throw error;
+  }
+
+  return reserved;
+}
+
+async function releaseUsage(subject: string, metrics: UsageMetric[]): Promise<void> {
+  await Promise.all(metrics.map(metric => refundUsage(subject, metric)));
+}
+
+/**
+ * A stored analysis as the viewer may see it, with its marketplace links
+ */
+async function storedAnalysisData(analysis: ItemAnalysisRecord, userId: string | null, claimToken: string | null = null) {
+  const links = await db
+    .select()
+    .from(marketplaceLinks)
+    .where(eq(marketplaceLinks.itemAnalysisId, analysis.id));
+
+  return {
+    ...toViewerAnalysis(analysis, userId, claimToken),
+    // analysis.imageUrl already includes "images/" prefix
+    imageUrl: `/api/${analysis.imageUrl}`,
+    marketplaceLinks: links,
+    compliance: evaluateCompliance(analysis),
+    isOwner: isAnalysisOwner(analysis, userId),
+  };
+}
+
+/**
+ * Look for the caller's earlier result for exactly this photo and these
+ * options. Nothing is stored and no quota is used when one is found.
+ */
+async function reusableAnalysisData(buffer: Buffer, userId: string, optionsKey: string) {
+  const reusable = await findReusableAnalysis(await hashImageUpload(buffer), userId, optionsKey);
+  if (!reusable) return null;
+
+  console.log(`♻️ Reusing analysis ${reusable.analysis.id} for a repeat upload`);
+  await db.insert(analyticsEvents).values({
+    userId,
+    eventType: 'analysis_reused',
+    eventData: { analysisId: reusable.analysis.id },
+  });
+
+  return { ...await storedAnalysisData(reusable.analysis, userId), reusedFrom: reusable.duplicate };
+}
+
+// GET /api/analyze - Page through the caller's own analyses (newest first)
+analyze.get('/', requireAuth, async (c) => {
+  try {
+    const userId = getUserId(c)!;
+    const { page, limit } = HistoryQuerySchema.parse(c.req.query());
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(itemAnalyses)
+      .where(eq(itemAnalyses.userId, userId));
+
+    const items = await db
+      .select({
+        id: itemAnalyses.id,
+        name: itemAnalyses.name,
+        maker: itemAnalyses.maker,
+        era: itemAnalyses.era,
+        domainExpert: itemAnalyses.domainExpert,
+        confidence: itemAnalyses.confidence,
+        estimatedValueMin: itemAnalyses.estimatedValueMin,
+        estimatedValueMax: itemAnalyses.estimatedValueMax,
+        askingPrice: itemAnalyses.askingPrice,
+        dealRating: itemAnalyses.dealRating,
+        imageUrl: itemAnalyses.imageUrl,
+        visibility: itemAnalyses.visibility,
+        createdAt: itemAnalyses.createdAt,
+      })
+      .from(itemAnalyses)
+      .where(eq(itemAnalyses.userId, userId))
+      .orderBy(desc(itemAnalyses.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return c.json({
+      success: true,
+      data: {
+        items: items.map(item => ({ ...item, imageUrl: `/api/${item.imageUrl}` })),
+        pagination: {
+          page,
+          limit,
+          total,
+          hasMore: page * limit < total,
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(error.errors[0]?.message || 'Invalid query parameters');
+    }
+    throw error;
+  }
 });
 
 // POST /api/analyze - Analyze item with world-class identification
 analyze.post('/', optionalAuth, async (c) => {
+  const usageKey = getUsageSubject(c);
+  let reserved: UsageMetric[] = [];
+
   try {
     const userId = getUserId(c);
+    const tier = getCurrentUser(c)?.subscriptionTier;
     const body = await c.req.json();
 
     // Validate request
     const {
       image: imageData,
       askingPrice,
+      visibility,
       additionalContext,
       additionalImages,
       multiImageAnalysis,
-      consensusMode = 'auto',
+      consensusMode: requestedConsensusMode = 'auto',
       forceMultiRun = false,
-      useReasoningModel = true,
+      useReasoningModel,
+      reuseExisting,
     } = AnalyzeRequestSchema.parse(body);
 
     const isMultiImage = multiImageAnalysis && additionalImages && additionalImages.length > 0;
@@ -68,30 +254,68 @@ analyze.post('/', optionalAuth, async (c) => {
       throw new ValidationError('Invalid image format. Must be a data URL.');
     }
 
-    // Extract content type and buffer
+    // Extract buffer - the declared type is ignored, ingestion sniffs the real one
     const matches = imageData.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
     if (!matches || matches.length !== 3) {
       throw new ValidationError('Invalid image data format');
     }
 
-    const contentType = matches[1];
     const base64Data = matches[2];
     const buffer = Buffer.from(base64Data, 'base64');
 
     // Check file size (max 20MB)
-    const maxSize = 20 * 1024 * 1024;
-    if (buffer.length > maxSize) {
+    if (buffer.length > MAX_IMAGE_BYTES) {
       throw new ValidationError('Image size exceeds 20MB limit');
     }
 
     console.log(`📊 Image size: ${(buffer.length / 1024 / 1024).toFixed(2)}MB`);
 
-    // Upload to MinIO
-    const imageKey = await uploadImage({
-      buffer,
-      contentType,
-      userId: userId || undefined,
+    // Entitlements - explicitly requested premium options must be in the plan
+    if (requestedConsensusMode === 'always' || forceMultiRun) {
+      assertFeature(tier, 'consensusAnalysis');
+    }
+    if (useReasoningModel) {
+      assertFeature(tier, 'reasoningModel');
+    }
+    if (isMultiImage) {
+      assertFeature(tier, 'multiImageCapture');
+    }
+
+    // One key for the lookup and the save, describing what was asked for -
+    // extra angles aren't hashed, so only single-image results can be reused
+    const resolvedReasoningModel = useReasoningModel ?? hasFeature(tier, 'reasoningModel');
+    const optionsKey = isMultiImage ? null : analysisOptionsKey({
+      askingPrice,
+      additionalContext,
+      consensusMode: requestedConsensusMode,
+      forceMultiRun,
+      useReasoningModel: resolvedReasoningModel,
+    });
+    if (reuseExisting && userId && optionsKey) {
+      const reused = await reusableAnalysisData(buffer, userId, optionsKey);
+      if (reused) {
+        return c.json({ success: true, data: reused });
+      }
+    }
+
+    // Once this month's model spend passes the plan allowance, analyses run once
+    const budget = await getSpendBudget(userId, tier);
+    const budgetedConsensusMode = guardConsensusMode(forceMultiRun ? 'always' : requestedConsensusMode, budget);
+    if (budget.exceeded && budgetedConsensusMode !== requestedConsensusMode) {
+      console.log(`💸 Monthly model spend ($${(budget.spentCents / 100).toFixed(2)}) is over the plan allowance - consensus off`);
+    }
+
+    reserved = await reserveAnalysisUsage(usageKey, tier, {
+      multiImage: !!isMultiImage,
+      consensusMode: budgetedConsensusMode,
     });
+    const consensusMode = reserved.includes('consensus_runs') ? requestedConsensusMode : 'never';
+
+    // Normalize (real format, orientation, no location) and upload with derivatives
+    const image = await ingestImage({ buffer, userId });
+    const imageKey = image.key;
+    const cleanImageData = toDataUrl(image);
+    const duplicates = await findDuplicateAnalyses(image, userId);
 
     // Generate public image URL using our proxy route
     // imageKey already includes "images/" prefix, so we just need /api/
@@ -104,145 +328,61 @@ analyze.post('/', optionalAuth, async (c) => {
       const capturedImages: CapturedImage[] = [
         {
           id: 'primary',
-          dataUrl: imageData,
+          dataUrl: cleanImageData,
           role: 'overview' as ImageRole,
           label: 'Overview'
         },
-        ...additionalImages.map((img, idx) => ({
+        ...await Promise.all(additionalImages.map(async (img, idx) => ({
           id: `additional-${idx}`,
-          dataUrl: img.dataUrl,
+          dataUrl: await normalizeDataUrl(img.dataUrl),
           role: img.role as ImageRole,
           label: img.role.charAt(0).toUpperCase() + img.role.slice(1).replace('_', ' ')
-        }))
+        })))
       ];
       analysisInput = capturedImages;
       console.log(`🔬 Starting world-class multi-image analysis with ${capturedImages.length} images`);
     } else {
       // Single image analysis
-      analysisInput = imageData;
+      analysisInput = cleanImageData;
     }
 
     // Analyze with World-Class Identification System
     // Use consensus analysis for auto/always modes, direct analysis for never
+    const usageContext = createUsageContext({ userId, tier });
     let analysisResult;
     if (consensusMode === 'never') {
       // Direct single-run analysis
       console.log('🎯 Consensus mode: DISABLED - using single-run analysis');
-      analysisResult = await analyzeAntiqueImage(analysisInput, askingPrice);
+      analysisResult = await withUsageContext(usageContext, () => analyzeAntiqueImage(analysisInput, askingPrice));
     } else {
       // Consensus analysis (auto or always)
       console.log(`🎯 Consensus mode: ${consensusMode.toUpperCase()} - using conditional multi-run consensus`);
-      analysisResult = await analyzeWithConsensus(analysisInput, askingPrice, {
+      analysisResult = await withUsageContext(usageContext, () => analyzeWithConsensus(analysisInput, askingPrice, {
         forceMultiRun: forceMultiRun || consensusMode === 'always',
         config: {
-          useReasoningModel,
+          useReasoningModel: resolvedReasoningModel,
           reasoningModel: 'o1', // OpenAI's reasoning model for synthesis
         },
-      });
-    }
-
-    // Save analysis to database with ALL world-class fields
-    const [savedAnalysis] = await db
-      .insert(itemAnalyses)
-      .values({
-        // Core identification
-        name: analysisResult.name,
-        maker: analysisResult.maker || null,
-        modelNumber: analysisResult.modelNumber || null,
-        brand: analysisResult.brand || null,
-
-        // Categorization
-        productCategory: analysisResult.productCategory || null,
-        domainExpert: analysisResult.domainExpert || null,
-        itemSubcategory: analysisResult.itemSubcategory || null,
-
-        // Period and origin
-        era: analysisResult.era || null,
-        style: analysisResult.style || null,
-        periodStart: analysisResult.periodStart || null,
-        periodEnd: analysisResult.periodEnd || null,
-        originRegion: analysisResult.originRegion || null,
-
-        // Description
-        description: analysisResult.description,
-        historicalContext: analysisResult.historicalContext,
-        attributionNotes: analysisResult.attributionNotes || null,
-
-        // Valuation
-        estimatedValueMin: analysisResult.estimatedValueMin || null,
-        estimatedValueMax: analysisResult.estimatedValueMax || null,
-        currentRetailPrice: analysisResult.currentRetailPrice || null,
-
-        // Comparable sales
-        comparableSales: analysisResult.comparableSales || null,
-
-        // Confidence and evidence
-        confidence: analysisResult.confidence,
-        identificationConfidence: analysisResult.identificationConfidence || null,
-        makerConfidence: analysisResult.makerConfidence || null,
-        evidenceFor: analysisResult.evidenceFor || null,
-        evidenceAgainst: analysisResult.evidenceAgainst || null,
-
-        // Alternative candidates
-        alternativeCandidates: analysisResult.alternativeCandidates || null,
-
-        // Verification guidance
-        verificationTips: analysisResult.verificationTips || null,
-        redFlags: analysisResult.redFlags || null,
-
-        // Deal analysis
-        askingPrice: askingPrice || null,
-        dealRating: analysisResult.dealRating || null,
-        dealExplanation: analysisResult.dealExplanation || null,
-        profitPotentialMin: analysisResult.profitPotentialMin || null,
-        profitPotentialMax: analysisResult.profitPotentialMax || null,
-
-        // Flip assessment
-        flipDifficulty: analysisResult.flipDifficulty || null,
-        flipTimeEstimate: analysisResult.flipTimeEstimate || null,
-        resaleChannels: analysisResult.resaleChannels || null,
-
-        // Legacy fields
-        imageUrl: imageKey,
-        stylingSuggestions: analysisResult.stylingSuggestions || null,
-        productUrl: analysisResult.productUrl || null,
-
-        // Authentication fields (Stage 5)
-        authenticationConfidence: analysisResult.authenticationConfidence || null,
-        authenticityRisk: analysisResult.authenticityRisk || null,
-        authenticationChecklist: analysisResult.authenticationChecklist || null,
-        knownFakeIndicators: analysisResult.knownFakeIndicators || null,
-        additionalPhotosRequested: analysisResult.additionalPhotosRequested || null,
-        expertReferralRecommended: analysisResult.expertReferralRecommended || null,
-        expertReferralReason: analysisResult.expertReferralReason || null,
-        authenticationAssessment: analysisResult.authenticationAssessment || null,
-      })
-      .returning();
-
-    // Generate and save marketplace links (domain-aware)
-    const marketplaceSearchLinks = generateMarketplaceLinks(
-      analysisResult.name,
-      analysisResult.era ?? undefined,
-      analysisResult.estimatedValueMin ?? undefined,
-      analysisResult.productCategory as ProductCategory | undefined,
-      analysisResult.brand ?? undefined,
-      analysisResult.modelNumber ?? undefined,
-      analysisResult.domainExpert ?? undefined
-    );
+      }));
 
-    if (marketplaceSearchLinks.length > 0) {
-      await db.insert(marketplaceLinks).values(
-        marketplaceSearchLinks.map((link) => ({
-          itemAnalysisId: savedAnalysis.id,
-          marketplaceName: link.marketplaceName,
-          linkUrl: link.linkUrl,
-          priceMin: analysisResult.estimatedValueMin || null,
-          priceMax: analysisResult.estimatedValueMax || null,
-          confidenceScore: analysisResult.confidence,
-        }))
-      );
+      // Only multi-run consensus counts against the consensus quota
+      if (reserved.includes('consensus_runs') && !analysisResult.consensusMetadata) {
+        await refundUsage(usageKey, 'consensus_runs');
+        reserved = reserved.filter(metric => metric !== 'consensus_runs');
+      }
     }
 
+    // Save analysis (with ALL world-class fields) and domain-aware marketplace links
+    const { savedAnalysis, claimToken, marketplaceLinks: marketplaceSearchLinks } = await saveAnalysis(analysisResult, {
+      userId,
+      visibility,
+      imageKey,
+      image,
+      askingPrice,
+      optionsKey,
+    });
+    await attachUsageToAnalysis(usageContext, savedAnalysis.id, analysisResult.domainExpert);
+
     // Log analytics event with enhanced data
     await db.insert(analyticsEvents).values({
       userId: userId || null,
@@ -276,7 +416,8 @@ analyze.post('/', optionalAuth, async (c) => {
     return c.json({
       success: true,
       data: {
-        ...savedAnalysis,
+        ...toViewerAnalysis(savedAnalysis, userId, claimToken),
+        claimToken, // Anonymous callers keep this to change or claim the analysis later
         imageUrl, // Replace S3 key with proxy URL
         marketplaceLinks: marketplaceSearchLinks,
         // Include calculated deal analysis if asking price was provided
@@ -300,9 +441,16 @@ analyze.post('/', optionalAuth, async (c) => {
         knowledgeState: analysisResult.knowledgeState || null,
         itemAuthentication: analysisResult.itemAuthentication || null,
         suggestedCaptures: analysisResult.suggestedCaptures || [],
+        hallmarks: analysisResult.hallmarks || null,
+        watchNumbers: analysisResult.watchNumbers || null,
+        compliance: analysisResult.compliance || null,
+        // Earlier analyses of the same piece ("you analyzed this on ...")
+        duplicates,
       },
     });
   } catch (error) {
+    await releaseUsage(usageKey, reserved);
+
     if (error instanceof z.ZodError) {
       throw new ValidationError(error.errors[0]?.message || 'Invalid request data');
     }
@@ -313,10 +461,12 @@ analyze.post('/', optionalAuth, async (c) => {
 // POST /api/analyze/stream - Analyze with SSE streaming progress
 analyze.post('/stream', optionalAuth, async (c) => {
   const userId = getUserId(c);
+  const usageKey = getUsageSubject(c);
+  let reserved: UsageMetric[] = [];
 
   try {
     const body = await c.req.json();
-    const { image: imageData, askingPrice, additionalImages, multiImageAnalysis } = AnalyzeRequestSchema.parse(body);
+    const { image: imageData, askingPrice, additionalContext, additionalImages, multiImageAnalysis, visibility, reuseExisting } = AnalyzeRequestSchema.parse(body);
     const isMultiImage = multiImageAnalysis && additionalImages && additionalImages.length > 0;
 
     console.log(`🔍 Streaming analysis request from user: ${userId || 'anonymous'} (${isMultiImage ? 'multi-image' : 'single-image'})`);
@@ -326,27 +476,44 @@ analyze.post('/stream', optionalAuth, async (c) => {
       throw new ValidationError('Invalid image format. Must be a data URL.');
     }
 
-    // Extract content type and buffer for upload
+    // Extract buffer - the declared type is ignored, ingestion sniffs the real one
     const matches = imageData.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
     if (!matches || matches.length !== 3) {
       throw new ValidationError('Invalid image data format');
     }
 
-    const contentType = matches[1];
     const base64Data = matches[2];
     const buffer = Buffer.from(base64Data, 'base64');
 
     // Check file size (max 20MB)
-    if (buffer.length > 20 * 1024 * 1024) {
+    if (buffer.length > MAX_IMAGE_BYTES) {
       throw new ValidationError('Image size exceeds 20MB limit');
     }
 
-    // Upload image first
-    const imageKey = await uploadImage({
-      buffer,
-      contentType,
-      userId: userId || undefined,
-    });
+    const tier = getCurrentUser(c)?.subscriptionTier;
+    if (isMultiImage) {
+      assertFeature(tier, 'multiImageCapture');
+    }
+
+    // Streaming is always a single run
+    const optionsKey = isMultiImage ? null : analysisOptionsKey({ askingPrice, additionalContext, consensusMode: 'never' });
+    const reused = reuseExisting && userId && optionsKey ? await reusableAnalysisData(buffer, userId, optionsKey) : null;
+    if (reused) {
+      return streamSSE(c, async (stream) => {
+        await stream.writeSSE({
+          data: JSON.stringify({ type: 'complete', progress: 100, data: reused }),
+          event: 'complete',
+        });
+      });
+    }
+
+    reserved = await reserveAnalysisUsage(usageKey, tier, { multiImage: !!isMultiImage, consensusMode: 'never' });
+
+    // Normalize and upload image first
+    const image = await ingestImage({ buffer, userId });
+    const imageKey = image.key;
+    const cleanImageData = toDataUrl(image);
+    const duplicates = await findDuplicateAnalyses(image, userId);
 
     // imageKey already includes "images/" prefix, so we just need /api/
     const imageUrl = `/api/${imageKey}`;
@@ -355,17 +522,17 @@ analyze.post('/stream', optionalAuth, async (c) => {
     let analysisInput: string | CapturedImage[];
     if (isMultiImage && additionalImages) {
       const capturedImages: CapturedImage[] = [
-        { id: 'primary', dataUrl: imageData, role: 'overview' as ImageRole, label: 'Overview' },
-        ...additionalImages.map((img, idx) => ({
+        { id: 'primary', dataUrl: cleanImageData, role: 'overview' as ImageRole, label: 'Overview' },
+        ...await Promise.all(additionalImages.map(async (img, idx) => ({
           id: `additional-${idx}`,
-          dataUrl: img.dataUrl,
+          dataUrl: await normalizeDataUrl(img.dataUrl),
           role: img.role as ImageRole,
           label: img.role.charAt(0).toUpperCase() + img.role.slice(1).replace('_', ' ')
-        }))
+        })))
       ];
       analysisInput = capturedImages;
     } else {
-      analysisInput = imageData;
+      analysisInput = cleanImageData;
     }
 
     // Return SSE stream
@@ -390,88 +557,24 @@ analyze.post('/stream', optionalAuth, async (c) => {
         });
 
         // Run analysis with event emitter (supports multi-image)
-        analysisResult = await analyzeAntiqueImage(analysisInput, askingPrice, emitEvent);
+        const usageContext = createUsageContext({ userId, tier });
+        analysisResult = await withUsageContext(usageContext, () => analyzeAntiqueImage(analysisInput, askingPrice, emitEvent));
 
         // Save to database
-        const [savedAnalysis] = await db
-          .insert(itemAnalyses)
-          .values({
-            name: analysisResult.name,
-            maker: analysisResult.maker || null,
-            modelNumber: analysisResult.modelNumber || null,
-            brand: analysisResult.brand || null,
-            productCategory: analysisResult.productCategory || null,
-            domainExpert: analysisResult.domainExpert || null,
-            itemSubcategory: analysisResult.itemSubcategory || null,
-            era: analysisResult.era || null,
-            style: analysisResult.style || null,
-            periodStart: analysisResult.periodStart || null,
-            periodEnd: analysisResult.periodEnd || null,
-            originRegion: analysisResult.originRegion || null,
-            description: analysisResult.description,
-            historicalContext: analysisResult.historicalContext,
-            attributionNotes: analysisResult.attributionNotes || null,
-            estimatedValueMin: analysisResult.estimatedValueMin || null,
-            estimatedValueMax: analysisResult.estimatedValueMax || null,
-            currentRetailPrice: analysisResult.currentRetailPrice || null,
-            comparableSales: analysisResult.comparableSales || null,
-            confidence: analysisResult.confidence,
-            identificationConfidence: analysisResult.identificationConfidence || null,
-            makerConfidence: analysisResult.makerConfidence || null,
-            evidenceFor: analysisResult.evidenceFor || null,
-            evidenceAgainst: analysisResult.evidenceAgainst || null,
-            alternativeCandidates: analysisResult.alternativeCandidates || null,
-            verificationTips: analysisResult.verificationTips || null,
-            redFlags: analysisResult.redFlags || null,
-            askingPrice: askingPrice || null,
-            dealRating: analysisResult.dealRating || null,
-            dealExplanation: analysisResult.dealExplanation || null,
-            profitPotentialMin: analysisResult.profitPotentialMin || null,
-            profitPotentialMax: analysisResult.profitPotentialMax || null,
-            flipDifficulty: analysisResult.flipDifficulty || null,
-            flipTimeEstimate: analysisResult.flipTimeEstimate || null,
-            resaleChannels: analysisResult.resaleChannels || null,
-            imageUrl: imageKey,
-            stylingSuggestions: analysisResult.stylingSuggestions || null,
-            productUrl: analysisResult.productUrl || null,
-            authenticationConfidence: analysisResult.authenticationConfidence || null,
-            authenticityRisk: analysisResult.authenticityRisk || null,
-            authenticationChecklist: analysisResult.authenticationChecklist || null,
-            knownFakeIndicators: analysisResult.knownFakeIndicators || null,
-            additionalPhotosRequested: analysisResult.additionalPhotosRequested || null,
-            expertReferralRecommended: analysisResult.expertReferralRecommended || null,
-            expertReferralReason: analysisResult.expertReferralReason || null,
-            authenticationAssessment: analysisResult.authenticationAssessment || null,
-          })
-          .returning();
-
-        // Generate marketplace links
-        const marketplaceSearchLinks = generateMarketplaceLinks(
-          analysisResult.name,
-          analysisResult.era ?? undefined,
-          analysisResult.estimatedValueMin ?? undefined,
-          analysisResult.productCategory as ProductCategory | undefined,
-          analysisResult.brand ?? undefined,
-          analysisResult.modelNumber ?? undefined,
-          analysisResult.domainExpert ?? undefined
-        );
-
-        if (marketplaceSearchLinks.length > 0) {
-          await db.insert(marketplaceLinks).values(
-            marketplaceSearchLinks.map((link) => ({
-              itemAnalysisId: savedAnalysis.id,
-              marketplaceName: link.marketplaceName,
-              linkUrl: link.linkUrl,
-              priceMin: analysisResult!.estimatedValueMin || null,
-              priceMax: analysisResult!.estimatedValueMax || null,
-              confidenceScore: analysisResult!.confidence,
-            }))
-          );
-        }
+        const { savedAnalysis, claimToken, marketplaceLinks: marketplaceSearchLinks } = await saveAnalysis(analysisResult, {
+          userId,
+          visibility,
+          imageKey,
+          image,
+          askingPrice,
+          optionsKey,
+        });
+        await attachUsageToAnalysis(usageContext, savedAnalysis.id, analysisResult.domainExpert);
 
         // Send final complete event with full data including world-class fields
         const completeData = {
-          ...savedAnalysis,
+          ...toViewerAnalysis(savedAnalysis, userId, claimToken),
+          claimToken,
           imageUrl,
           marketplaceLinks: marketplaceSearchLinks,
           // World-class analysis fields
@@ -479,6 +582,10 @@ analyze.post('/stream', optionalAuth, async (c) => {
           knowledgeState: analysisResult!.knowledgeState || null,
           itemAuthentication: analysisResult!.itemAuthentication || null,
           suggestedCaptures: analysisResult!.suggestedCaptures || [],
+          hallmarks: analysisResult!.hallmarks || null,
+          watchNumbers: analysisResult!.watchNumbers || null,
+          compliance: analysisResult!.compliance || null,
+          duplicates,
         };
         console.log(`🖼️ Image URL being sent: ${completeData.imageUrl}`);
 
@@ -493,6 +600,8 @@ analyze.post('/stream', optionalAuth, async (c) => {
 
         console.log(`✅ Streaming analysis complete: ${analysisResult.name}`);
       } catch (error) {
+        await releaseUsage(usageKey, reserved);
+
         // Send error event
         await stream.writeSSE({
           data: JSON.stringify({
@@ -503,6 +612,34 @@ analyze.post('/stream', optionalAuth, async (c) => {
         });
       }
     });
+  } catch (error) {
+    await releaseUsage(usageKey, reserved);
+
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(error.errors[0]?.message || 'Invalid request data');
+    }
+    throw error;
+  }
+});
+
+// POST /api/analyze/duplicates - Earlier analyses of a photo, checked before paying for a new one
+// Nothing is stored and no quota is used
+analyze.post('/duplicates', optionalAuth, async (c) => {
+  try {
+    const { image: imageData } = DuplicateCheckSchema.parse(await c.req.json());
+
+    const matches = imageData.match(/^data:image\/[A-Za-z0-9.+-]+;base64,(.+)$/);
+    if (!matches) {
+      throw new ValidationError('Invalid image data format');
+    }
+
+    const hashes = await hashImageUpload(Buffer.from(matches[1], 'base64'));
+    const duplicates = await findDuplicateAnalyses(hashes, getUserId(c));
+
+    return c.json({
+      success: true,
+      data: { duplicates },
+    });
   } catch (error) {
     if (error instanceof z.ZodError) {
       throw new ValidationError(error.errors[0]?.message || 'Invalid request data');
@@ -515,36 +652,231 @@ analyze.post('/stream', optionalAuth, async (c) => {
 analyze.get('/:id', optionalAuth, async (c) => {
   try {
     const analysisId = c.req.param('id');
+    const userId = getUserId(c);
+    const analysis = await getViewableAnalysis(analysisId, userId);
 
-    const [analysis] = await db
-      .select()
-      .from(itemAnalyses)
-      .where(eq(itemAnalyses.id, analysisId))
-      .limit(1);
+    return c.json({
+      success: true,
+      data: await storedAnalysisData(analysis, userId, getClaimToken(c)),
+    });
+  } catch (error) {
+    throw error;
+  }
+});
 
-    if (!analysis) {
-      return c.json({ success: false, error: 'Analysis not found' }, 404);
+// PATCH /api/analyze/:id/visibility - Change who can see an analysis (owner only)
+analyze.patch('/:id/visibility', requireAuth, async (c) => {
+  try {
+    const analysisId = c.req.param('id');
+    const userId = getUserId(c)!;
+    const { visibility } = VisibilitySchema.parse(await c.req.json());
+
+    const analysis = await getViewableAnalysis(analysisId, userId);
+    if (!isAnalysisOwner(analysis, userId)) {
+      throw new AuthorizationError('Only the owner can change visibility');
     }
 
-    // Get marketplace links
-    const links = await db
-      .select()
-      .from(marketplaceLinks)
-      .where(eq(marketplaceLinks.itemAnalysisId, analysisId));
+    const [updated] = await db
+      .update(itemAnalyses)
+      .set({ visibility, updatedAt: new Date() })
+      .where(and(eq(itemAnalyses.id, analysisId), eq(itemAnalyses.userId, userId)))
+      .returning({ id: itemAnalyses.id, visibility: itemAnalyses.visibility });
 
-    // Generate public image URL using our proxy route
-    // analysis.imageUrl already includes "images/" prefix
-    const imageUrl = `/api/${analysis.imageUrl}`;
+    console.log(`🔒 Analysis ${analysisId} visibility set to ${visibility}`);
+
+    return c.json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(error.errors[0]?.message || `Visibility must be one of: ${ANALYSIS_VISIBILITIES.join(', ')}`);
+    }
+    throw error;
+  }
+});
+
+// ============================================================================
+// FOLLOW-UP PHOTO ENDPOINTS
+// ============================================================================
+
+// GET /api/analyze/:id/photos - Follow-up photos and which suggested captures they satisfy
+analyze.get('/:id/photos', optionalAuth, async (c) => {
+  const analysis = await getViewableAnalysis(c.req.param('id'), getUserId(c));
+  const photos = await listAdditionalPhotos(analysis.id);
+
+  return c.json({
+    success: true,
+    data: {
+      photos: photos.map(photo => ({ ...photo, imageUrl: `/api/${photo.imageUrl}` })),
+      captures: await getAnalysisCaptureStatus(analysis),
+    },
+  });
+});
+
+// POST /api/analyze/:id/photos - Add a follow-up photo and merge its findings into the analysis
+analyze.post('/:id/photos', optionalAuth, async (c) => {
+  const usageKey = getUsageSubject(c);
+  let reserved = false;
+
+  try {
+    const userId = getUserId(c);
+    const tier = getCurrentUser(c)?.subscriptionTier;
+    const { image: imageData, role, captureLabel } = AdditionalPhotoSchema.parse(await c.req.json());
+
+    const claimToken = getClaimToken(c);
+    const analysis = await getModifiableAnalysis(c.req.param('id'), userId, claimToken);
+
+    // Validate image format and size
+    if (!imageData.startsWith('data:image/')) {
+      throw new ValidationError('Invalid image format. Must be a data URL.');
+    }
+
+    const matches = imageData.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
+    if (!matches || matches.length !== 3) {
+      throw new ValidationError('Invalid image data format');
+    }
+
+    const buffer = Buffer.from(matches[2], 'base64');
+    if (buffer.length > MAX_IMAGE_BYTES) {
+      throw new ValidationError('Image size exceeds 20MB limit');
+    }
+
+    // A follow-up photo is an extra image on an existing analysis
+    assertFeature(tier, 'multiImageCapture');
+    await consumeUsage(usageKey, tier, 'multi_image_captures');
+    reserved = true;
+
+    const usageContext = createUsageContext({ userId, tier, analysisId: analysis.id, domainExpert: analysis.domainExpert });
+    const result = await withUsageContext(usageContext, () => addAnalysisPhoto(analysis, { buffer, role, captureLabel }, userId));
+
+    return c.json({
+      success: true,
+      data: {
+        photo: { ...result.photo, imageUrl: `/api/${result.photo.imageUrl}` },
+        updatedFields: result.updatedFields,
+        analysis: {
+          ...toViewerAnalysis(result.analysis, userId, claimToken),
+          imageUrl: `/api/${result.analysis.imageUrl}`,
+        },
+        captures: result.captures,
+      },
+    }, 201);
+  } catch (error) {
+    if (reserved) {
+      await refundUsage(usageKey, 'multi_image_captures');
+    }
+
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(error.errors[0]?.message || 'Invalid request data');
+    }
+    throw error;
+  }
+});
+
+// ============================================================================
+// REVISION ENDPOINTS
+// ============================================================================
+
+// GET /api/analyze/:id/revisions - Every recorded result, oldest first
+analyze.get('/:id/revisions', optionalAuth, async (c) => {
+  const analysis = await getViewableAnalysis(c.req.param('id'), getUserId(c));
+  const revisions = await listRevisions(analysis.id);
+
+  return c.json({
+    success: true,
+    data: revisions,
+  });
+});
+
+// GET /api/analyze/:id/revisions/diff?from=1&to=3 - Field-level diff between two revisions
+analyze.get('/:id/revisions/diff', optionalAuth, async (c) => {
+  try {
+    const { from, to } = RevisionDiffQuerySchema.parse(c.req.query());
+    const analysis = await getViewableAnalysis(c.req.param('id'), getUserId(c));
+    const diff = await getRevisionDiff(analysis.id, from, to);
+
+    return c.json({
+      success: true,
+      data: diff,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(error.errors[0]?.message || 'from and to must be revision numbers');
+    }
+    throw error;
+  }
+});
+
+// POST /api/analyze/:id/rerun - Re-run the original image on the current models
+analyze.post('/:id/rerun', requireAuth, async (c) => {
+  const usageKey = getUsageSubject(c);
+  let reserved: UsageMetric[] = [];
+
+  try {
+    const userId = getUserId(c)!;
+    const tier = getCurrentUser(c)?.subscriptionTier;
+    const analysis = await getModifiableAnalysis(c.req.param('id'), userId, getClaimToken(c));
+
+    const budget = await getSpendBudget(userId, tier);
+    reserved = await reserveAnalysisUsage(usageKey, tier, { multiImage: false, consensusMode: guardConsensusMode('auto', budget) });
+
+    const { buffer, contentType, metadata } = await getImageBuffer(analysis.imageUrl);
+    const imageData = `data:${contentType};base64,${buffer.toString('base64')}`;
+    const askingPrice = analysis.askingPrice ?? undefined;
+
+    console.log(`🔁 Re-running analysis ${analysis.id} on current models`);
+    const usageContext = createUsageContext({ userId, tier, analysisId: analysis.id, domainExpert: analysis.domainExpert });
+    let result: ItemAnalysis;
+    if (reserved.includes('consensus_runs')) {
+      const consensusResult = await withUsageContext(usageContext, () => analyzeWithConsensus(imageData, askingPrice, {
+        config: { useReasoningModel: hasFeature(tier, 'reasoningModel') },
+      }));
+
+      // Only multi-run consensus counts against the consensus quota
+      if (!consensusResult.consensusMetadata) {
+        await refundUsage(usageKey, 'consensus_runs');
+        reserved = reserved.filter(metric => metric !== 'consensus_runs');
+      }
+      result = consensusResult;
+    } else {
+      result = await withUsageContext(usageContext, () => analyzeAntiqueImage(imageData, askingPrice));
+    }
+
+    const [updated] = await db
+      .update(itemAnalyses)
+      .set({
+        ...toAnalysisValues(result, {
+          userId: analysis.userId,
+          visibility: analysis.visibility as AnalysisVisibility,
+          imageKey: analysis.imageUrl,
+          image: fromStorageMetadata(metadata),
+          askingPrice,
+        }),
+        updatedAt: new Date(),
+      })
+      .where(eq(itemAnalyses.id, analysis.id))
+      .returning();
+    await attachUsageToAnalysis(usageContext, analysis.id, result.domainExpert);
+
+    const revision = await recordRevision(analysis, updated, {
+      trigger: 'model_upgrade',
+      reason: 'Re-run on the current analysis models',
+      createdBy: userId,
+    });
 
     return c.json({
       success: true,
       data: {
-        ...analysis,
-        imageUrl,
-        marketplaceLinks: links,
+        analysis: {
+          ...toViewerAnalysis(updated, userId, getClaimToken(c)),
+          imageUrl: `/api/${updated.imageUrl}`,
+        },
+        revision,
       },
     });
   } catch (error) {
+    await releaseUsage(usageKey, reserved);
     throw error;
   }
 });
@@ -553,9 +885,6 @@ analyze.get('/:id', optionalAuth, async (c) => {
 // VERA INTERACTIVE SESSION ENDPOINTS
 // ============================================================================
 
-// In-memory session store (would be Redis in production)
-const interactiveSessions = new Map<string, InteractiveSession>();
-
 // GET /api/analyze/vera/info - Get Vera assistant information
 analyze.get('/vera/info', (c) => {
   return c.json({
@@ -570,21 +899,35 @@ analyze.get('/vera/info', (c) => {
   });
 });
 
-// POST /api/analyze/:id/interactive - Start interactive session for an analysis
+// GET /api/analyze/:id/interactive - List Vera sessions for an analysis
+analyze.get('/:id/interactive', optionalAuth, async (c) => {
+  const analysisId = c.req.param('id');
+  const userId = getUserId(c);
+  await getModifiableAnalysis(analysisId, userId, getClaimToken(c));
+
+  // Only list sessions the caller started (anonymous callers see anonymous sessions)
+  const sessions = await listSessionsForAnalysis(analysisId, userId);
+
+  return c.json({
+    success: true,
+    data: {
+      sessions,
+      total: sessions.length,
+    },
+  });
+});
+
+// POST /api/analyze/:id/interactive - Start (or resume) interactive session for an analysis
+// Resumes the caller's latest active session unless { "fresh": true } is sent
 analyze.post('/:id/interactive', optionalAuth, async (c) => {
   try {
     const analysisId = c.req.param('id');
+    const userId = getUserId(c) ?? null;
+    const body = await c.req.json().catch(() => ({}));
+    const { fresh } = z.object({ fresh: z.boolean().optional() }).parse(body ?? {});
 
-    // Get the existing analysis
-    const [analysis] = await db
-      .select()
-      .from(itemAnalyses)
-      .where(eq(itemAnalyses.id, analysisId))
-      .limit(1);
-
-    if (!analysis) {
-      return c.json({ success: false, error: 'Analysis not found' }, 404);
-    }
+    // Vera sessions can reanalyze and update the record, so owners only
+    const analysis = await getModifiableAnalysis(analysisId, userId, getClaimToken(c));
 
     // Convert DB record to ItemAnalysis format
     const itemAnalysis = {
@@ -604,15 +947,28 @@ analyze.post('/:id/interactive', optionalAuth, async (c) => {
       description: analysis.description,
     };
 
-    // Create interactive session
-    const session = createInteractiveSession(analysisId, itemAnalysis as any);
-
-    // Store session
-    interactiveSessions.set(session.id, session);
-
     // Get escalation options
     const escalation = getEscalationOptions(itemAnalysis as any);
 
+    // Pick up where the user left off if they have an active session
+    const existing = fresh ? null : await findResumableSession(analysisId, userId);
+    if (existing) {
+      console.log(`🤖 Vera session resumed: ${existing.id} for analysis ${analysisId}`);
+
+      return c.json({
+        success: true,
+        data: {
+          session: existing,
+          resumed: true,
+          escalation,
+          assistantName: ASSISTANT_NAME,
+        },
+      });
+    }
+
+    // Create and persist interactive session
+    const session = await saveSession(createInteractiveSession(analysisId, itemAnalysis as any), userId);
+
     console.log(`🤖 Vera session started: ${session.id} for analysis ${analysisId}`);
     console.log(`   Initial confidence: ${(itemAnalysis.confidence * 100).toFixed(0)}%`);
     console.log(`   Information needs: ${session.informationNeeds.length}`);
@@ -621,11 +977,15 @@ analyze.post('/:id/interactive', optionalAuth, async (c) => {
       success: true,
       data: {
         session,
+        resumed: false,
         escalation,
         assistantName: ASSISTANT_NAME,
       },
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(error.errors[0]?.message || 'Invalid request data');
+    }
     throw error;
   }
 });
@@ -633,12 +993,14 @@ analyze.post('/:id/interactive', optionalAuth, async (c) => {
 // GET /api/analyze/interactive/:sessionId - Get interactive session
 analyze.get('/interactive/:sessionId', optionalAuth, async (c) => {
   const sessionId = c.req.param('sessionId');
-  const session = interactiveSessions.get(sessionId);
+  const session = await loadSession(sessionId);
 
   if (!session) {
     return c.json({ success: false, error: 'Session not found' }, 404);
   }
 
+  assertSessionAccess(session, getUserId(c));
+
   return c.json({
     success: true,
     data: session,
@@ -647,14 +1009,23 @@ analyze.get('/interactive/:sessionId', optionalAuth, async (c) => {
 
 // POST /api/analyze/interactive/:sessionId/respond - Add user response to session
 analyze.post('/interactive/:sessionId/respond', optionalAuth, async (c) => {
+  const usageKey = getUsageSubject(c);
+  let reserved = false;
+
   try {
     const sessionId = c.req.param('sessionId');
-    const session = interactiveSessions.get(sessionId);
+    const session = await loadSession(sessionId);
 
     if (!session) {
       return c.json({ success: false, error: 'Session not found' }, 404);
     }
 
+    assertSessionAccess(session, getUserId(c));
+
+    if (session.status === 'abandoned') {
+      return c.json({ success: false, error: 'Session has expired' }, 410);
+    }
+
     const body = await c.req.json();
     const { needId, type, content } = z.object({
       needId: z.string(),
@@ -679,12 +1050,30 @@ analyze.post('/interactive/:sessionId/respond', optionalAuth, async (c) => {
       relatedNeedId: needId,
     });
 
+    // Caseback numbers are dated from the serial tables, not by the model
+    if (needId === CASEBACK_NEED_ID && type === 'text') {
+      const flags = applyCasebackReading(session, content);
+      if (flags.length > 0) console.log(`   🚩 Caseback numbers raised ${flags.length} red flag(s)`);
+    }
+
+    // Each reply is a paid completion, metered per message
+    const tier = getCurrentUser(c)?.subscriptionTier;
+    await consumeUsage(usageKey, tier, 'vera_messages');
+    reserved = true;
+
     // Generate AI-powered response from Vera
-    const aiResponse = await generateAIVeraResponse(
+    const usageContext = createUsageContext({
+      userId: getUserId(c),
+      tier,
+      analysisId: session.analysisId,
+      sessionId: session.id,
+      domainExpert: session.currentAnalysis.domainExpert,
+    });
+    const aiResponse = await withUsageContext(usageContext, () => generateAIVeraResponse(
       session,
       type === 'photo' ? 'User provided an additional photo for analysis.' : content,
       type as 'photo' | 'text'
-    );
+    ));
 
     // Add Vera's AI response to conversation
     session.conversationHistory.push(aiResponse);
@@ -698,19 +1087,22 @@ analyze.post('/interactive/:sessionId/respond', optionalAuth, async (c) => {
       session.status = 'processing';
     }
 
-    session.updatedAt = new Date().toISOString();
-    interactiveSessions.set(sessionId, session);
+    const savedSession = await saveSession(session, session.userId);
 
-    console.log(`   Session status: ${session.status}`);
+    console.log(`   Session status: ${savedSession.status}`);
     console.log(`   Vera AI response generated`);
 
     return c.json({
       success: true,
       data: {
-        session: session,
+        session: savedSession,
       },
     });
   } catch (error) {
+    if (reserved) {
+      await refundUsage(usageKey, 'vera_messages');
+    }
+
     if (error instanceof z.ZodError) {
       throw new ValidationError(error.errors[0]?.message || 'Invalid request data');
     }
@@ -720,30 +1112,33 @@ analyze.post('/interactive/:sessionId/respond', optionalAuth, async (c) => {
 
 // POST /api/analyze/interactive/:sessionId/reanalyze - Trigger reanalysis with collected info
 analyze.post('/interactive/:sessionId/reanalyze', optionalAuth, async (c) => {
+  const usageKey = getUsageSubject(c);
+  let reserved: UsageMetric[] = [];
+
   try {
+    const userId = getUserId(c);
+    const tier = getCurrentUser(c)?.subscriptionTier;
     const sessionId = c.req.param('sessionId');
-    const session = interactiveSessions.get(sessionId);
+    const session = await loadSession(sessionId);
 
     if (!session) {
       return c.json({ success: false, error: 'Session not found' }, 404);
     }
 
+    assertSessionAccess(session, userId);
+
+    if (session.status === 'abandoned') {
+      return c.json({ success: false, error: 'Session has expired' }, 410);
+    }
+
     if (session.collectedResponses.length === 0) {
       return c.json({ success: false, error: 'No additional information provided' }, 400);
     }
 
     console.log(`🔄 Reanalyzing with ${session.collectedResponses.length} additional inputs`);
 
-    // Get original analysis
-    const [originalAnalysis] = await db
-      .select()
-      .from(itemAnalyses)
-      .where(eq(itemAnalyses.id, session.analysisId))
-      .limit(1);
-
-    if (!originalAnalysis) {
-      return c.json({ success: false, error: 'Original analysis not found' }, 404);
-    }
+    // Get original analysis (ownership may have changed since the session started)
+    const originalAnalysis = await getModifiableAnalysis(session.analysisId, userId, getClaimToken(c));
 
     // Build enhanced context from collected responses
     const additionalContext = session.collectedResponses
@@ -775,22 +1170,40 @@ analyze.post('/interactive/:sessionId/reanalyze', optionalAuth, async (c) => {
       analysisInput = imageUrl;
     }
 
-    // Run enhanced analysis with consensus for better accuracy
-    const newAnalysis = await analyzeWithConsensus(
-      analysisInput,
-      originalAnalysis.askingPrice ?? undefined,
-      {
-        forceMultiRun: true,
-        config: { useReasoningModel: true },
-      }
-    );
+    // A re-analysis is an analysis: it takes quota like POST /, and runs forced
+    // consensus only on plans that include it, with consensus runs left and
+    // model budget to spare
+    if (additionalPhotos.length > 0) {
+      assertFeature(tier, 'multiImageCapture');
+    }
+    const budget = await getSpendBudget(userId, tier);
+    reserved = await reserveAnalysisUsage(usageKey, tier, {
+      multiImage: additionalPhotos.length > 0,
+      consensusMode: guardConsensusMode(hasFeature(tier, 'consensusAnalysis') ? 'auto' : 'never', budget),
+    });
+    const usageContext = createUsageContext({
+      userId,
+      tier,
+      analysisId: session.analysisId,
+      sessionId: session.id,
+      domainExpert: session.currentAnalysis.domainExpert,
+    });
+    const newAnalysis = await withUsageContext(usageContext, () => reserved.includes('consensus_runs')
+      ? analyzeWithConsensus(
+        analysisInput,
+        originalAnalysis.askingPrice ?? undefined,
+        {
+          forceMultiRun: true,
+          config: { useReasoningModel: hasFeature(tier, 'reasoningModel') },
+        }
+      )
+      : analyzeAntiqueImage(analysisInput, originalAnalysis.askingPrice ?? undefined));
 
     // Update session with new analysis
-    const updatedSession = updateWithReanalysis(session, newAnalysis);
-    interactiveSessions.set(sessionId, updatedSession);
+    const updatedSession = await saveSession(updateWithReanalysis(session, newAnalysis), session.userId);
 
     // Update database record
-    await db
+    const [updatedAnalysis] = await db
       .update(itemAnalyses)
       .set({
         name: newAnalysis.name,
@@ -801,8 +1214,18 @@ analyze.post('/interactive/:sessionId/reanalyze', optionalAuth, async (c) => {
         authenticationConfidence: newAnalysis.authenticationConfidence || null,
         estimatedValueMin: newAnalysis.estimatedValueMin || null,
         estimatedValueMax: newAnalysis.estimatedValueMax || null,
+        updatedAt: new Date(),
       })
-      .where(eq(itemAnalyses.id, session.analysisId));
+      .where(eq(itemAnalyses.id, session.analysisId))
+      .returning();
+
+    const answers = session.collectedResponses.length - additionalPhotos.length;
+    await recordRevision(originalAnalysis, updatedAnalysis, {
+      trigger: 'user_answer',
+      reason: `Vera re-analysis with ${answers} answer${answers === 1 ? '' : 's'} and ${additionalPhotos.length} photo${additionalPhotos.length === 1 ? '' : 's'}`,
+      sourceId: session.id,
+      createdBy: userId,
+    });
 
     console.log(`✅ Reanalysis complete`);
     console.log(`   New confidence: ${(newAnalysis.confidence * 100).toFixed(0)}%`);
@@ -819,6 +1242,7 @@ analyze.post('/interactive/:sessionId/reanalyze', optionalAuth, async (c) => {
       },
     });
   } catch (error) {
+    await releaseUsage(usageKey, reserved);
     throw error;
   }
 });
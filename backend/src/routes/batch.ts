@@ -0,0 +1,197 @@
+// Batch Analysis Routes - Analyze a whole lot of items in one job
+// Jobs run server-side on a durable queue; progress streams over SSE
+// October 2026
+
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { requireAuth, requireEntitlement, requireCurrentUser } from '../middleware/auth.js';
+import { ValidationError } from '../middleware/error.js';
+import {
+  MAX_BATCH_ITEMS,
+  BatchUpload,
+  BatchEvent,
+  createBatchJob,
+  listBatchJobs,
+  getBatchJob,
+  cancelBatchJob,
+  retryFailedItems,
+  saveBatchToCollection,
+  exportBatchCsv,
+  subscribeToBatchJob,
+  isBatchJobFinished,
+} from '../services/batchAnalysis.js';
+import { MAX_IMAGE_BYTES } from '../services/imageIngestion.js';
+import { z } from 'zod';
+
+const batch = new Hono();
+
+const HEARTBEAT_MS = 15 * 1000;
+
+const SaveSchema = z.object({
+  itemIds: z.array(z.string().uuid()).max(MAX_BATCH_ITEMS).optional(),
+  location: z.string().max(200).optional(),
+});
+
+batch.use('*', requireAuth, requireEntitlement('batchAnalysis'));
+
+// POST /api/analyze/batch - Queue a batch job
+// multipart/form-data: images (1-100 files, 20MB each), name (optional)
+batch.post('/', async (c) => {
+  const user = requireCurrentUser(c);
+  const body = await c.req.parseBody({ all: true });
+
+  const files = ([] as unknown[]).concat(body.images ?? []).filter((f): f is File => f instanceof File);
+  if (files.length === 0) {
+    throw new ValidationError('Upload at least one image in the "images" field');
+  }
+  if (files.length > MAX_BATCH_ITEMS) {
+    throw new ValidationError(`A batch can contain at most ${MAX_BATCH_ITEMS} images`);
+  }
+
+  const uploads: BatchUpload[] = [];
+  for (const file of files) {
+    // Browsers often leave HEIC untyped - ingestion sniffs the real format
+    if (file.type && !file.type.startsWith('image/')) {
+      throw new ValidationError(`${file.name || 'File'} is not an image`);
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      throw new ValidationError(`${file.name || 'Image'} exceeds the 20MB limit`);
+    }
+    uploads.push({
+      buffer: Buffer.from(await file.arrayBuffer()),
+      label: file.name || null,
+    });
+  }
+
+  const name = typeof body.name === 'string' ? body.name.trim().slice(0, 200) : undefined;
+  const result = await createBatchJob(user.id, user.subscriptionTier, uploads, name);
+
+  return c.json({
+    success: true,
+    data: result,
+  }, 201);
+});
+
+// GET /api/analyze/batch - The caller's recent jobs
+batch.get('/', async (c) => {
+  const user = requireCurrentUser(c);
+  const jobs = await listBatchJobs(user.id);
+
+  return c.json({
+    success: true,
+    data: jobs,
+  });
+});
+
+// GET /api/analyze/batch/:id - Job with every item and its analysis summary
+batch.get('/:id', async (c) => {
+  const user = requireCurrentUser(c);
+  const result = await getBatchJob(c.req.param('id'), user.id);
+
+  return c.json({
+    success: true,
+    data: result,
+  });
+});
+
+// GET /api/analyze/batch/:id/events - SSE progress stream
+// Sends a snapshot first, then job/item events until the job finishes
+batch.get('/:id/events', async (c) => {
+  const user = requireCurrentUser(c);
+  const jobId = c.req.param('id');
+  const snapshot = await getBatchJob(jobId, user.id);
+
+  return streamSSE(c, async (stream) => {
+    const queue: BatchEvent[] = [];
+    let wake: (() => void) | null = null;
+
+    const unsubscribe = subscribeToBatchJob(jobId, (event) => {
+      queue.push(event);
+      wake?.();
+    });
+    stream.onAbort(() => {
+      wake?.();
+    });
+
+    try {
+      await stream.writeSSE({ event: 'snapshot', data: JSON.stringify(snapshot) });
+      let finished = isBatchJobFinished(snapshot.job);
+
+      while (!finished && !stream.aborted) {
+        if (queue.length === 0) {
+          await new Promise<void>(resolve => {
+            wake = resolve;
+            setTimeout(resolve, HEARTBEAT_MS);
+          });
+          wake = null;
+
+          if (queue.length === 0 && !stream.aborted) {
+            await stream.writeSSE({ event: 'heartbeat', data: '{}' });
+          }
+          continue;
+        }
+
+        const event = queue.shift()!;
+        await stream.writeSSE({ event: event.type, data: JSON.stringify(event) });
+        if (event.type === 'job' && isBatchJobFinished(event.job)) {
+          finished = true;
+        }
+      }
+    } finally {
+      unsubscribe();
+    }
+  });
+});
+
+// POST /api/analyze/batch/:id/cancel - Cancel items that haven't started
+batch.post('/:id/cancel', async (c) => {
+  const user = requireCurrentUser(c);
+  const job = await cancelBatchJob(c.req.param('id'), user.id);
+
+  return c.json({
+    success: true,
+    data: job,
+  });
+});
+
+// POST /api/analyze/batch/:id/retry - Re-queue failed items
+batch.post('/:id/retry', async (c) => {
+  const user = requireCurrentUser(c);
+  const job = await retryFailedItems(c.req.param('id'), user.id, user.subscriptionTier);
+
+  return c.json({
+    success: true,
+    data: job,
+  });
+});
+
+// POST /api/analyze/batch/:id/save - Save completed items to the collection
+batch.post('/:id/save', async (c) => {
+  try {
+    const user = requireCurrentUser(c);
+    const body = SaveSchema.parse(await c.req.json().catch(() => ({})));
+    const result = await saveBatchToCollection(c.req.param('id'), user.id, user.subscriptionTier, body);
+
+    return c.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(error.errors[0]?.message || 'Invalid request data');
+    }
+    throw error;
+  }
+});
+
+// GET /api/analyze/batch/:id/export.csv - Spreadsheet of every item
+batch.get('/:id/export.csv', async (c) => {
+  const user = requireCurrentUser(c);
+  const { filename, csv } = await exportBatchCsv(c.req.param('id'), user.id);
+
+  c.header('Content-Type', 'text/csv; charset=utf-8');
+  c.header('Content-Disposition', `attachment; filename="${filename}"`);
+  return c.body(csv);
+});
+
+export default batch;
@@ -2,12 +2,22 @@
 // October 2025
 
 import { Hono } from 'hono';
-import { requireAuth, getUserId } from '../middleware/auth.js';
-import { ValidationError, NotFoundError } from '../middleware/error.js';
+import { requireAuth, getUserId, getCurrentUser, getClaimToken } from '../middleware/auth.js';
+import { ValidationError, NotFoundError, AuthorizationError } from '../middleware/error.js';
 import { db } from '../db/client.js';
 import { collectionItems, itemAnalyses, userWishlists } from '../db/schema.js';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { eq, and, or, desc, isNull, sql } from 'drizzle-orm';
 import { getImageUrl } from '../storage/client.js';
+import { imageVariantUrls } from '../services/imageIngestion.js';
+import { getModifiableAnalysis } from '../services/analysisAccess.js';
+import { assertCollectionCapacity } from '../services/entitlements.js';
+import {
+  recordInitialSnapshots,
+  getValuationHistory,
+  getItemValuationHistory,
+  reappraiseCollectionItem,
+  reappraiseStaleItems,
+} from '../services/collectionValuation.js';
 import { z } from 'zod';
 
 const collection = new Hono();
@@ -25,16 +35,8 @@ collection.post('/', requireAuth, async (c) => {
     const body = await c.req.json();
     const { itemAnalysisId, notes, location } = SaveItemSchema.parse(body);
 
-    // Check if item exists
-    const [item] = await db
-      .select()
-      .from(itemAnalyses)
-      .where(eq(itemAnalyses.id, itemAnalysisId))
-      .limit(1);
-
-    if (!item) {
-      throw new NotFoundError('Item analysis not found');
-    }
+    // Only your own analyses (or anonymous ones you hold the claim token for) can be saved
+    const item = await getModifiableAnalysis(itemAnalysisId, userId, getClaimToken(c));
 
     // Check if already in collection
     const [existing] = await db
@@ -52,16 +54,37 @@ collection.post('/', requireAuth, async (c) => {
       throw new ValidationError('Item already in collection');
     }
 
-    // Save to collection
-    const [savedItem] = await db
-      .insert(collectionItems)
-      .values({
-        userId,
-        itemAnalysisId,
-        notes: notes || null,
-        location: location || null,
-      })
-      .returning();
+    await assertCollectionCapacity(userId, getCurrentUser(c)!.subscriptionTier);
+
+    // Claim anonymous analyses for the user saving them - only once the save
+    // is allowed, and together with it
+    const savedItem = await db.transaction(async (tx) => {
+      if (!item.userId) {
+        const claimed = await tx
+          .update(itemAnalyses)
+          .set({ userId, claimTokenHash: null, updatedAt: new Date() })
+          .where(and(eq(itemAnalyses.id, itemAnalysisId), isNull(itemAnalyses.userId)))
+          .returning({ id: itemAnalyses.id });
+
+        if (claimed.length === 0) {
+          throw new AuthorizationError('Only the owner can modify this analysis');
+        }
+      }
+
+      const [saved] = await tx
+        .insert(collectionItems)
+        .values({
+          userId,
+          itemAnalysisId,
+          notes: notes || null,
+          location: location || null,
+        })
+        .returning();
+      return saved;
+    });
+
+    // First point in the item's value history
+    await recordInitialSnapshots([{ item: savedItem, analysis: item }]);
 
     return c.json({
       success: true,
@@ -87,7 +110,12 @@ collection.get('/', requireAuth, async (c) => {
       })
       .from(collectionItems)
       .innerJoin(itemAnalyses, eq(collectionItems.itemAnalysisId, itemAnalyses.id))
-      .where(eq(collectionItems.userId, userId))
+      .where(
+        and(
+          eq(collectionItems.userId, userId),
+          or(eq(itemAnalyses.userId, userId), isNull(itemAnalyses.userId))
+        )
+      )
       .orderBy(desc(collectionItems.savedAt));
 
     // Get presigned URLs for all images
@@ -97,6 +125,8 @@ collection.get('/', requireAuth, async (c) => {
         analysis: {
           ...item.analysis,
           imageUrl: await getImageUrl(item.analysis.imageUrl),
+          // Gallery tiles load these instead of the full-resolution original
+          imageVariants: imageVariantUrls(item.analysis.imageUrl),
         },
       }))
     );
@@ -222,4 +252,66 @@ collection.get('/counts', requireAuth, async (c) => {
   }
 });
 
+// GET /api/collection/valuation - Month-end portfolio value over time
+// ?range=6m|1y|all &groupBy=category|era|location
+const ValuationQuerySchema = z.object({
+  range: z.enum(['6m', '1y', 'all']).default('6m'),
+  groupBy: z.enum(['category', 'era', 'location']).default('category'),
+});
+
+collection.get('/valuation', requireAuth, async (c) => {
+  try {
+    const userId = getUserId(c)!;
+    const { range, groupBy } = ValuationQuerySchema.parse({
+      range: c.req.query('range') || undefined,
+      groupBy: c.req.query('groupBy') || undefined,
+    });
+
+    const history = await getValuationHistory(userId, range, groupBy);
+
+    return c.json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(error.errors[0]?.message || 'Invalid query');
+    }
+    throw error;
+  }
+});
+
+// POST /api/collection/reappraise - Re-appraise the caller's stale items now
+collection.post('/reappraise', requireAuth, async (c) => {
+  const userId = getUserId(c)!;
+  const result = await reappraiseStaleItems({ userId });
+
+  return c.json({
+    success: true,
+    data: result,
+  });
+});
+
+// GET /api/collection/:id/valuation - One item's valuation snapshots, newest first
+collection.get('/:id/valuation', requireAuth, async (c) => {
+  const userId = getUserId(c)!;
+  const snapshots = await getItemValuationHistory(c.req.param('id'), userId);
+
+  return c.json({
+    success: true,
+    data: snapshots,
+  });
+});
+
+// POST /api/collection/:id/reappraise - Re-value one item from current market data
+collection.post('/:id/reappraise', requireAuth, async (c) => {
+  const userId = getUserId(c)!;
+  const snapshot = await reappraiseCollectionItem(c.req.param('id'), userId);
+
+  return c.json({
+    success: true,
+    data: snapshot,
+  });
+});
+
 export default collection;
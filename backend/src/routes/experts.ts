@@ -0,0 +1,325 @@
+// Expert Review Marketplace Routes
+// Users escalate analyses to human experts; experts claim and answer requests from a queue
+// October 2026
+
+import { Hono } from 'hono';
+import { requireAuth, requireAdmin, getUserId, getCurrentUser, isAdmin, getClaimToken } from '../middleware/auth.js';
+import { ValidationError, NotFoundError, AuthorizationError } from '../middleware/error.js';
+import { db } from '../db/client.js';
+import { expertRequests, itemAnalyses } from '../db/schema.js';
+import { eq } from 'drizzle-orm';
+import { getModifiableAnalysis } from '../services/analysisAccess.js';
+import { signImageUrl } from '../storage/signedUrls.js';
+import {
+  ESCALATION_DEFAULT_CONFIG,
+  createExpertRequest,
+  processExpertFeedback,
+  getExpertRequest,
+  listUserExpertRequests,
+  getExpertQueue,
+  claimExpertRequest,
+  startExpertReview,
+  cancelExpertRequest,
+  describeRequestTiming,
+  upsertExpertProfile,
+  getExpertByUserId,
+  listExperts,
+  setExpertActive,
+  ExpertRequest,
+} from '../services/expertEscalation.js';
+import { isStripeConfigured, createExpertReviewCheckout, refundExpertReviewCheckout } from './stripe.js';
+import { z } from 'zod';
+
+const expertsRouter = new Hono();
+
+const DOMAIN_EXPERT_VALUES = [
+  'furniture', 'ceramics', 'glass', 'silver', 'jewelry', 'watches',
+  'art', 'textiles', 'toys', 'books', 'tools', 'lighting',
+  'electronics', 'vehicles', 'general',
+] as const;
+
+const CreateRequestSchema = z.object({
+  analysisId: z.string().uuid(),
+  tierId: z.string().min(1),
+  notes: z.string().max(2000).optional(),
+});
+
+const ExpertProfileSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  specializations: z.array(z.enum(DOMAIN_EXPERT_VALUES)).min(1),
+  certifications: z.array(z.string().trim().min(1).max(200)).max(20).optional().default([]),
+});
+
+const AnswerSchema = z.object({
+  corrections: z.array(z.object({
+    field: z.string().min(1),
+    originalValue: z.unknown().optional(),
+    correctedValue: z.unknown(),
+    explanation: z.string().min(1),
+    confidence: z.number().min(0).max(1),
+  })).default([]),
+  overallAssessment: z.string().min(1),
+  confidenceLevel: z.number().min(0).max(1),
+  authenticityVerified: z.boolean(),
+  additionalNotes: z.string().optional(),
+  marketInsights: z.string().optional(),
+  finalReport: z.string().optional(),
+});
+
+const withTiming = (request: ExpertRequest) => ({
+  ...request,
+  timing: describeRequestTiming(request),
+});
+
+/**
+ * Resolve the caller's active expert profile (403 if they aren't one)
+ */
+async function requireActiveExpert(userId: string) {
+  const expert = await getExpertByUserId(userId);
+  if (!expert || !expert.isActive) {
+    throw new AuthorizationError('Active expert profile required');
+  }
+  return expert;
+}
+
+// ============================================================================
+// USER ENDPOINTS
+// ============================================================================
+
+// GET /api/experts/tiers - Available review tiers
+expertsRouter.get('/tiers', (c) => {
+  return c.json({
+    success: true,
+    data: ESCALATION_DEFAULT_CONFIG.tiers,
+  });
+});
+
+// POST /api/experts/requests - Escalate one of your analyses to an expert
+expertsRouter.post('/requests', requireAuth, async (c) => {
+  try {
+    const user = getCurrentUser(c)!;
+    const { analysisId, tierId, notes } = CreateRequestSchema.parse(await c.req.json());
+
+    const analysis = await getModifiableAnalysis(analysisId, user.id, getClaimToken(c));
+    const awaitingPayment = isStripeConfigured();
+
+    const request = await createExpertRequest(analysisId, user.id, tierId, analysis, notes, { awaitingPayment });
+
+    let checkoutUrl: string | null = null;
+    if (awaitingPayment) {
+      const checkout = await createExpertReviewCheckout(user, request);
+      checkoutUrl = checkout.url;
+
+      await db
+        .update(expertRequests)
+        .set({ stripeCheckoutSessionId: checkout.sessionId })
+        .where(eq(expertRequests.id, request.id));
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        request: withTiming(request),
+        checkoutUrl,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(error.errors[0]?.message || 'Invalid request data');
+    }
+    throw error;
+  }
+});
+
+// GET /api/experts/requests - Your expert requests with deadline tracking
+expertsRouter.get('/requests', requireAuth, async (c) => {
+  const userId = getUserId(c)!;
+  const requests = await listUserExpertRequests(userId);
+
+  return c.json({
+    success: true,
+    data: requests.map(withTiming),
+  });
+});
+
+// GET /api/experts/requests/:id - Request detail (requester, assigned expert or admin)
+expertsRouter.get('/requests/:id', requireAuth, async (c) => {
+  const user = getCurrentUser(c)!;
+  const result = await getExpertRequest(c.req.param('id'));
+
+  if (!result) {
+    throw new NotFoundError('Expert request not found');
+  }
+
+  const expert = await getExpertByUserId(user.id);
+  const isRequester = result.request.userId === user.id;
+  const isAssignedExpert = !!expert && result.request.assignedExpertId === expert.id;
+
+  if (!isRequester && !isAssignedExpert && !isAdmin(user)) {
+    throw new NotFoundError('Expert request not found');
+  }
+
+  // The assigned expert needs the full analysis even when it is private
+  const [analysis] = await db
+    .select()
+    .from(itemAnalyses)
+    .where(eq(itemAnalyses.id, result.request.analysisId))
+    .limit(1);
+
+  return c.json({
+    success: true,
+    data: {
+      request: withTiming(result.request),
+      feedback: result.feedback,
+      // Signed, because the expert isn't the owner of a private analysis's image
+      analysis: analysis ? { ...analysis, imageUrl: signImageUrl(analysis.imageUrl) } : null,
+    },
+  });
+});
+
+// POST /api/experts/requests/:id/cancel - Cancel before review starts; paid requests are refunded
+expertsRouter.post('/requests/:id/cancel', requireAuth, async (c) => {
+  const userId = getUserId(c)!;
+  const request = await cancelExpertRequest(c.req.param('id'), userId, refundExpertReviewCheckout);
+
+  return c.json({
+    success: true,
+    data: withTiming(request),
+  });
+});
+
+// ============================================================================
+// EXPERT ENDPOINTS
+// ============================================================================
+
+// PUT /api/experts/profile - Apply as (or update) an expert; activation is admin-only
+expertsRouter.put('/profile', requireAuth, async (c) => {
+  try {
+    const user = getCurrentUser(c)!;
+    const profile = ExpertProfileSchema.parse(await c.req.json());
+
+    const expert = await upsertExpertProfile(user.id, {
+      ...profile,
+      email: user.email,
+    });
+
+    return c.json({
+      success: true,
+      data: expert,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(error.errors[0]?.message || 'Invalid expert profile');
+    }
+    throw error;
+  }
+});
+
+// GET /api/experts/profile - Your expert profile (if any)
+expertsRouter.get('/profile', requireAuth, async (c) => {
+  const expert = await getExpertByUserId(getUserId(c)!);
+
+  return c.json({
+    success: true,
+    data: expert,
+  });
+});
+
+// GET /api/experts/queue - Open requests in your specializations plus your claimed work
+expertsRouter.get('/queue', requireAuth, async (c) => {
+  const expert = await requireActiveExpert(getUserId(c)!);
+  const queue = await getExpertQueue(expert);
+
+  return c.json({
+    success: true,
+    data: {
+      available: queue.available.map(withTiming),
+      assigned: queue.assigned.map(withTiming),
+    },
+  });
+});
+
+// POST /api/experts/requests/:id/claim - Claim an open request
+expertsRouter.post('/requests/:id/claim', requireAuth, async (c) => {
+  const expert = await requireActiveExpert(getUserId(c)!);
+  const request = await claimExpertRequest(c.req.param('id'), expert);
+
+  return c.json({
+    success: true,
+    data: withTiming(request),
+  });
+});
+
+// POST /api/experts/requests/:id/start - Begin reviewing a claimed request
+expertsRouter.post('/requests/:id/start', requireAuth, async (c) => {
+  const expert = await requireActiveExpert(getUserId(c)!);
+  const request = await startExpertReview(c.req.param('id'), expert);
+
+  return c.json({
+    success: true,
+    data: withTiming(request),
+  });
+});
+
+// POST /api/experts/requests/:id/answer - Submit findings; corrections update the analysis
+expertsRouter.post('/requests/:id/answer', requireAuth, async (c) => {
+  try {
+    const expert = await requireActiveExpert(getUserId(c)!);
+    const requestId = c.req.param('id');
+    const { finalReport, ...answer } = AnswerSchema.parse(await c.req.json());
+
+    const result = await processExpertFeedback({
+      ...answer,
+      corrections: answer.corrections.map(correction => ({
+        ...correction,
+        originalValue: correction.originalValue ?? null,
+        correctedValue: correction.correctedValue,
+      })),
+      requestId,
+      expertId: expert.id,
+      timestamp: new Date().toISOString(),
+    }, finalReport);
+
+    return c.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(error.errors[0]?.message || 'Invalid expert feedback');
+    }
+    throw error;
+  }
+});
+
+// ============================================================================
+// ADMIN ENDPOINTS
+// ============================================================================
+
+// GET /api/experts - List all expert profiles
+expertsRouter.get('/', requireAuth, requireAdmin, async (c) => {
+  return c.json({
+    success: true,
+    data: await listExperts(),
+  });
+});
+
+// PATCH /api/experts/:id - Activate or deactivate an expert
+expertsRouter.patch('/:id', requireAuth, requireAdmin, async (c) => {
+  try {
+    const { isActive } = z.object({ isActive: z.boolean() }).parse(await c.req.json());
+    const expert = await setExpertActive(c.req.param('id'), isActive);
+
+    return c.json({
+      success: true,
+      data: expert,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(error.errors[0]?.message || 'Invalid request data');
+    }
+    throw error;
+  }
+});
+
+export default expertsRouter;
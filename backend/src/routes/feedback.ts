@@ -4,21 +4,38 @@
 
 import { Hono } from 'hono';
 import { requireAuth, getUserId } from '../middleware/auth.js';
-import { ValidationError, NotFoundError } from '../middleware/error.js';
+import { ValidationError } from '../middleware/error.js';
 import { db } from '../db/client.js';
-import { analysisFeedback, itemAnalyses } from '../db/schema.js';
-import { eq } from 'drizzle-orm';
+import { analysisFeedback } from '../db/schema.js';
+import { recordUserCorrection, learningOriginalFromRecord } from '../services/selfLearning.js';
+import { getViewableAnalysis } from '../services/analysisAccess.js';
+import { getFeedbackWeight, getPreviouslyCorrectedFields, FieldCorrection } from '../services/feedbackModeration.js';
 import { z } from 'zod';
 
 const feedback = new Hono();
 
+// Structured field correction - value is in whole dollars like estimatedValueMin/Max
+const FieldCorrectionSchema = z.discriminatedUnion('field', [
+  z.object({ field: z.literal('maker'), corrected_value: z.string().trim().min(1).max(200), notes: z.string().max(1000).optional() }),
+  z.object({ field: z.literal('era'), corrected_value: z.string().trim().min(1).max(200), notes: z.string().max(1000).optional() }),
+  z.object({ field: z.literal('name'), corrected_value: z.string().trim().min(1).max(200), notes: z.string().max(1000).optional() }),
+  z.object({ field: z.literal('value'), corrected_value: z.number().positive(), notes: z.string().max(1000).optional() }),
+]);
+
 // Schema for feedback submission
 const FeedbackSchema = z.object({
   item_analysis_id: z.string().uuid(),
   is_correct: z.boolean(),
   correction_text: z.string().optional(),
   feedback_type: z.enum(['accuracy', 'styling', 'value']).optional(),
-});
+  corrections: z.array(FieldCorrectionSchema).max(4).optional(),
+}).refine(
+  (data) => !(data.is_correct && data.corrections?.length),
+  { message: 'Corrections can only be submitted when is_correct is false' }
+).refine(
+  (data) => new Set(data.corrections?.map(c => c.field)).size === (data.corrections?.length ?? 0),
+  { message: 'Each field can only be corrected once per submission' }
+);
 
 // POST /api/feedback - Submit feedback on analysis
 feedback.post('/', requireAuth, async (c) => {
@@ -29,15 +46,24 @@ feedback.post('/', requireAuth, async (c) => {
     // Validate request body
     const validated = FeedbackSchema.parse(body);
 
-    // Check if the analysis exists
-    const [analysis] = await db
-      .select()
-      .from(itemAnalyses)
-      .where(eq(itemAnalyses.id, validated.item_analysis_id))
-      .limit(1);
+    // Check the analysis exists and is visible to the caller
+    const analysis = await getViewableAnalysis(validated.item_analysis_id, userId);
+
+    const corrections: FieldCorrection[] = (validated.corrections ?? []).map(correction => ({
+      field: correction.field,
+      correctedValue: correction.corrected_value,
+      notes: correction.notes,
+    }));
 
-    if (!analysis) {
-      throw new NotFoundError('Item analysis not found');
+    // Weight by submitter history; one learning vote per user, analysis and field
+    let learning: Awaited<ReturnType<typeof getFeedbackWeight>> | null = null;
+    let learnableCorrections: FieldCorrection[] = [];
+    if (corrections.length > 0) {
+      learning = await getFeedbackWeight(userId);
+      const alreadyCorrected = await getPreviouslyCorrectedFields(userId, validated.item_analysis_id);
+      learnableCorrections = learning.forwardToLearning
+        ? corrections.filter(correction => !alreadyCorrected.has(correction.field))
+        : [];
     }
 
     // Insert feedback
@@ -49,19 +75,45 @@ feedback.post('/', requireAuth, async (c) => {
         isCorrect: validated.is_correct,
         correctionText: validated.correction_text || null,
         feedbackType: validated.feedback_type || null,
+        corrections: corrections.length > 0 ? corrections : null,
+        learningWeight: learnableCorrections.length > 0 ? learning!.weight : null,
       })
       .returning();
 
+    // Feed accepted corrections into the self-learning store
+    const original = learningOriginalFromRecord(analysis);
+
+    for (const correction of learnableCorrections) {
+      await recordUserCorrection(
+        analysis.id,
+        analysis.imageUrl,
+        original,
+        correction.field,
+        correction.correctedValue,
+        correction.notes ?? validated.correction_text,
+        { submittedBy: userId, weight: learning!.weight }
+      );
+    }
+
     console.log('📝 Feedback received:', {
       analysisId: validated.item_analysis_id,
       isCorrect: validated.is_correct,
       feedbackType: validated.feedback_type,
+      corrections: corrections.length,
+      learned: learnableCorrections.length,
+      learningWeight: learning?.weight.toFixed(2),
       userId: userId.substring(0, 8) + '...',
     });
 
     return c.json({
       success: true,
-      data: result,
+      data: {
+        ...result,
+        learning: learning && {
+          accepted: learnableCorrections.map(correction => correction.field),
+          weight: learning.weight,
+        },
+      },
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1,50 +1,97 @@
-// Image Serving Route - Proxy for MinIO images
-// Serves images from MinIO without exposing MinIO publicly
+// Image Routes - Authorized, streaming delivery of stored images
+// Serves images from the blob store without exposing storage publicly
+// October 2026
 
 import { Hono } from 'hono';
-import { getImage } from '../storage/client.js';
-import { stream } from 'hono/streaming';
+import { optionalAuth, getUserId } from '../middleware/auth.js';
+import { ValidationError, NotFoundError, ExternalServiceError } from '../middleware/error.js';
+import { getImageStream } from '../storage/client.js';
+import { BlobNotFoundError, BlobRangeError, BlobStream, BlobStreamOptions } from '../storage/blobStore.js';
+import { verifyImageSignature } from '../storage/signedUrls.js';
+import { imageVariantKey } from '../services/imageIngestion.js';
+import { resolveImageAccess, imageCacheControl, ImageAccess } from '../services/imageDelivery.js';
 
 const images = new Hono();
 
-// GET /api/images/:path - Serve image from MinIO
-images.get('/*', async (c) => {
-  try {
-    // Get the full path after /api/images/
-    const path = c.req.param('*');
+// GET /api/images/:key - Stream an image the caller may see
+// ?size=thumb|medium picks a derivative, as WebP when asked for or accepted
+// ?expires=&sig= is a signed URL for callers without a session
+images.get('/*', optionalAuth, async (c) => {
+  // Storage keys include the 'images/' prefix the mount point strips
+  const path = c.req.path.replace(/^\/api\/images\//, '');
+  if (!path || path === c.req.path) {
+    throw new ValidationError('Image path required');
+  }
+  const storageKey = `images/${path}`;
 
-    if (!path) {
-      return c.json({ success: false, error: 'Image path required' }, 400);
-    }
+  const size = c.req.query('size') ?? 'original';
+  if (size !== 'thumb' && size !== 'medium' && size !== 'original') {
+    throw new ValidationError('size must be thumb, medium or original');
+  }
+  const requestedFormat = c.req.query('format');
+  const format = requestedFormat === 'webp' || (!requestedFormat && c.req.header('Accept')?.includes('image/webp'))
+    ? 'webp'
+    : 'jpeg';
 
-    console.log(`📸 Serving image: ${path}`);
-
-    // Fetch image from MinIO
-    const { body, contentType } = await getImage(path);
-
-    // Set headers
-    c.header('Content-Type', contentType);
-    c.header('Cache-Control', 'public, max-age=31536000'); // Cache for 1 year
-
-    // Stream the image body
-    return stream(c, async (stream) => {
-      // Convert body to buffer and write
-      const chunks: Uint8Array[] = [];
-      for await (const chunk of body) {
-        chunks.push(chunk);
-      }
-      const buffer = Buffer.concat(chunks);
-      await stream.write(buffer);
-    });
-  } catch (error: any) {
-    console.error('❌ Error serving image:', error);
+  // Unreadable images look missing, so private keys can't be probed
+  const access: ImageAccess = verifyImageSignature(storageKey, c.req.query('expires'), c.req.query('sig'))
+    ? { allowed: true, scope: 'private' }
+    : await resolveImageAccess(storageKey, getUserId(c));
+  if (!access.allowed) {
+    throw new NotFoundError('Image not found');
+  }
+
+  const options: BlobStreamOptions = {
+    range: c.req.header('Range'),
+    ifNoneMatch: c.req.header('If-None-Match'),
+  };
+  const variantKey = imageVariantKey(storageKey, size, format);
 
-    if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) {
-      return c.json({ success: false, error: 'Image not found' }, 404);
+  let image: BlobStream;
+  try {
+    try {
+      image = await getImageStream(variantKey, options);
+    } catch (error) {
+      // Uploads from before ingestion have no derivatives - fall back to the original
+      if (variantKey === storageKey || !(error instanceof BlobNotFoundError)) throw error;
+      image = await getImageStream(storageKey, options);
+    }
+  } catch (error) {
+    if (error instanceof BlobNotFoundError) {
+      throw new NotFoundError('Image not found');
+    }
+    if (error instanceof BlobRangeError) {
+      return c.body(null, 416, { 'Content-Range': 'bytes */*' });
     }
+    console.error('❌ Error serving image:', error);
+    throw new ExternalServiceError('Failed to load image', 'storage');
+  }
+
+  c.header('Cache-Control', imageCacheControl(access.scope));
+  c.header('Accept-Ranges', 'bytes');
+  if (variantKey !== storageKey && !requestedFormat) {
+    c.header('Vary', 'Accept');
+  }
+  if (image.etag) {
+    c.header('ETag', image.etag);
+  }
 
-    return c.json({ success: false, error: 'Failed to load image' }, 500);
+  if (image.status === 304) {
+    return c.body(null, 304);
   }
+
+  c.header('Content-Type', image.contentType);
+  if (image.contentLength !== undefined) {
+    c.header('Content-Length', String(image.contentLength));
+  }
+  if (image.contentRange) {
+    c.header('Content-Range', image.contentRange);
+  }
+  if (image.lastModified) {
+    c.header('Last-Modified', image.lastModified.toUTCString());
+  }
+
+  return c.body(image.body ?? '', image.status === 206 ? 206 : 200);
 });
 
 export default images;
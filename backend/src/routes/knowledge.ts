@@ -0,0 +1,258 @@
+// Knowledge Routes - Maker mark search, hallmark and watch number decoding, admin editing of the expert knowledge base
+// October 2026
+
+import { Hono } from 'hono';
+import { requireAuth, requireAdmin, getUserId } from '../middleware/auth.js';
+import { ValidationError } from '../middleware/error.js';
+import {
+  KnowledgeKind,
+  listKnowledgeEntries,
+  getKnowledgeEntry,
+  getKnowledgeEntryHistory,
+  createKnowledgeEntry,
+  updateKnowledgeEntry,
+  deleteKnowledgeEntry,
+  getMakerMarks,
+  refreshExpertKnowledgeIfStale,
+} from '../services/expertKnowledgeBase.js';
+import { matchMakerMarks } from '../services/makerMarkMatching.js';
+import { decodeHallmarks, parseHallmarkText } from '../services/hallmarks.js';
+import { checkWatchPeriod, decodeWatchNumbers, parseCasebackReading } from '../services/watchSerials.js';
+import { z } from 'zod';
+
+const knowledgeRouter = new Hono();
+
+// URL segment -> entry kind
+const KIND_PATHS: Record<string, KnowledgeKind> = {
+  'maker-marks': 'maker_mark',
+  'identification-patterns': 'identification_pattern',
+  'authentication-criteria': 'authentication_criteria',
+  'value-ranges': 'value_range',
+  'famous-items': 'famous_item',
+  'domain-prompts': 'domain_prompt',
+};
+
+const MarkSearchSchema = z.object({
+  q: z.string().trim().min(2, 'Search text must be at least 2 characters').max(2000),
+  category: z.string().trim().toLowerCase().max(50).optional(),
+  limit: z.coerce.number().int().min(1).max(20).optional(),
+});
+
+const HallmarkDecodeSchema = z.object({
+  office: z.enum(['london', 'birmingham', 'sheffield', 'chester', 'edinburgh', 'dublin']).optional(),
+  dateLetter: z.string().trim().regex(/^[A-Za-z]$/, 'Date letter must be a single letter').optional(),
+  letterStyle: z.enum(['roman', 'old_english', 'italic', 'script']).optional(),
+  standard: z.enum(['sterling', 'britannia']).optional(),
+  dutyMark: z.enum(['george_iii', 'george_iv', 'william_iv', 'victoria', 'unidentified']).optional(),
+  leopardCrowned: z.boolean().optional(),
+  marks: z.array(z.string().trim().max(200)).max(30).optional(), // Free text, e.g. "lion passant", "anchor"
+}).refine(body => body.dateLetter || body.marks?.length, 'Provide a date letter or the marks you can see');
+
+const WatchDecodeSchema = z.object({
+  reading: z.string().trim().max(500).optional(), // Caseback as read, e.g. "Rolex 5513 serial 1538435"
+  maker: z.string().trim().max(100).optional(),
+  serial: z.string().trim().max(20).optional(),
+  reference: z.string().trim().max(30).optional(),
+  calibre: z.string().trim().max(30).optional(),
+  periodStart: z.number().int().min(1700).max(2100).optional(),
+  periodEnd: z.number().int().min(1700).max(2100).optional(),
+}).refine(body => body.reading || body.serial || body.reference || body.calibre, 'Provide a caseback reading or a serial, reference or calibre number');
+
+const ListQuerySchema = z.object({
+  category: z.string().trim().max(50).optional(),
+  includeDeleted: z.enum(['true', 'false']).optional().transform(v => v === 'true'),
+});
+
+const WriteSchema = z.object({
+  data: z.record(z.unknown()),
+  reason: z.string().trim().max(500).optional(),
+  expectedVersion: z.number().int().positive().optional(),
+});
+
+const DeleteSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+  expectedVersion: z.number().int().positive().optional(),
+});
+
+function toValidationError(error: unknown): unknown {
+  if (error instanceof z.ZodError) {
+    return new ValidationError(error.errors[0]?.message || 'Invalid knowledge request');
+  }
+  return error;
+}
+
+function kindFromPath(path: string): KnowledgeKind {
+  const kind = KIND_PATHS[path];
+  if (!kind) {
+    throw new ValidationError(`Unknown knowledge type. Use one of: ${Object.keys(KIND_PATHS).join(', ')}`);
+  }
+  return kind;
+}
+
+knowledgeRouter.use('*', requireAuth);
+
+// GET /api/knowledge/marks/search?q=... - Maker candidates for text read off a piece
+// Lines of q (newline-separated) are matched like separate transcribed texts
+knowledgeRouter.get('/marks/search', async (c) => {
+  try {
+    const query = MarkSearchSchema.parse(c.req.query());
+    await refreshExpertKnowledgeIfStale();
+
+    const candidates = matchMakerMarks(query.q.split(/\r?\n/), getMakerMarks(), {
+      category: query.category,
+      limit: query.limit,
+    });
+
+    return c.json({
+      success: true,
+      data: candidates,
+    });
+  } catch (error) {
+    throw toValidationError(error);
+  }
+});
+
+// POST /api/knowledge/hallmarks/decode - Candidate years for British silver hallmarks
+// Fields entered by the user win over what is read from the free-text marks
+knowledgeRouter.post('/hallmarks/decode', async (c) => {
+  try {
+    const { marks, ...entered } = HallmarkDecodeSchema.parse(await c.req.json());
+    const read = parseHallmarkText(marks ?? []);
+    const decoding = decodeHallmarks({
+      ...read,
+      ...Object.fromEntries(Object.entries(entered).filter(([, value]) => value !== undefined)),
+    });
+
+    return c.json({
+      success: true,
+      data: decoding,
+    });
+  } catch (error) {
+    throw toValidationError(error);
+  }
+});
+
+// POST /api/knowledge/watches/decode - Production years for a watch's serial, reference and calibre
+// Entered numbers win over what is read from the caseback text; a period is cross-checked into redFlags
+knowledgeRouter.post('/watches/decode', async (c) => {
+  try {
+    const { reading, periodStart, periodEnd, ...entered } = WatchDecodeSchema.parse(await c.req.json());
+    const read = parseCasebackReading(reading ? [reading] : []);
+    const decoding = decodeWatchNumbers({
+      ...read,
+      ...Object.fromEntries(Object.entries(entered).filter(([, value]) => value)),
+    });
+
+    return c.json({
+      success: true,
+      data: {
+        ...decoding,
+        redFlags: checkWatchPeriod(decoding, { start: periodStart ?? null, end: periodEnd ?? null }),
+      },
+    });
+  } catch (error) {
+    throw toValidationError(error);
+  }
+});
+
+// GET /api/knowledge/:kind - List entries (admin)
+knowledgeRouter.get('/:kind', requireAdmin, async (c) => {
+  try {
+    const kind = kindFromPath(c.req.param('kind'));
+    const query = ListQuerySchema.parse(c.req.query());
+    const entries = await listKnowledgeEntries(kind, query);
+
+    return c.json({
+      success: true,
+      data: entries,
+    });
+  } catch (error) {
+    throw toValidationError(error);
+  }
+});
+
+// GET /api/knowledge/:kind/:key - One entry, including deleted ones (admin)
+knowledgeRouter.get('/:kind/:key', requireAdmin, async (c) => {
+  const kind = kindFromPath(c.req.param('kind'));
+  const entry = await getKnowledgeEntry(kind, c.req.param('key'));
+
+  return c.json({
+    success: true,
+    data: entry,
+  });
+});
+
+// GET /api/knowledge/:kind/:key/history - Every version, newest first (admin)
+knowledgeRouter.get('/:kind/:key/history', requireAdmin, async (c) => {
+  const kind = kindFromPath(c.req.param('kind'));
+  const history = await getKnowledgeEntryHistory(kind, c.req.param('key'));
+
+  return c.json({
+    success: true,
+    data: history,
+  });
+});
+
+// POST /api/knowledge/:kind - Add an entry, or restore a deleted one (admin)
+// Body: { data: {...}, reason? }
+knowledgeRouter.post('/:kind', requireAdmin, async (c) => {
+  try {
+    const kind = kindFromPath(c.req.param('kind'));
+    const body = WriteSchema.parse(await c.req.json());
+    const entry = await createKnowledgeEntry(kind, body.data, {
+      changedBy: getUserId(c) ?? null,
+      reason: body.reason,
+    });
+
+    return c.json({
+      success: true,
+      data: entry,
+    }, 201);
+  } catch (error) {
+    throw toValidationError(error);
+  }
+});
+
+// PUT /api/knowledge/:kind/:key - Replace an entry's data (admin)
+// Body: { data: {...}, reason?, expectedVersion? } - a stale expectedVersion is a 409
+knowledgeRouter.put('/:kind/:key', requireAdmin, async (c) => {
+  try {
+    const kind = kindFromPath(c.req.param('kind'));
+    const body = WriteSchema.parse(await c.req.json());
+    const entry = await updateKnowledgeEntry(kind, c.req.param('key'), body.data, {
+      changedBy: getUserId(c) ?? null,
+      reason: body.reason,
+      expectedVersion: body.expectedVersion,
+    });
+
+    return c.json({
+      success: true,
+      data: entry,
+    });
+  } catch (error) {
+    throw toValidationError(error);
+  }
+});
+
+// DELETE /api/knowledge/:kind/:key - Soft-delete an entry (admin)
+// Body (optional): { reason?, expectedVersion? }
+knowledgeRouter.delete('/:kind/:key', requireAdmin, async (c) => {
+  try {
+    const kind = kindFromPath(c.req.param('kind'));
+    const body = DeleteSchema.parse(await c.req.json().catch(() => ({})));
+    const entry = await deleteKnowledgeEntry(kind, c.req.param('key'), {
+      changedBy: getUserId(c) ?? null,
+      reason: body.reason,
+      expectedVersion: body.expectedVersion,
+    });
+
+    return c.json({
+      success: true,
+      data: entry,
+    });
+  } catch (error) {
+    throw toValidationError(error);
+  }
+});
+
+export default knowledgeRouter;
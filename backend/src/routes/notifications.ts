@@ -0,0 +1,50 @@
+// Notification Routes - In-app notification feed
+// October 2026
+
+import { Hono } from 'hono';
+import { requireAuth, getUserId } from '../middleware/auth.js';
+import {
+  listNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+} from '../services/notifications.js';
+
+const notificationsRouter = new Hono();
+
+notificationsRouter.use('*', requireAuth);
+
+// GET /api/notifications - Newest first; ?unread=true for unread only, ?limit=1-100
+notificationsRouter.get('/', async (c) => {
+  const limit = Math.min(100, Math.max(1, parseInt(c.req.query('limit') || '50', 10) || 50));
+  const data = await listNotifications(getUserId(c)!, {
+    unreadOnly: c.req.query('unread') === 'true',
+    limit,
+  });
+
+  return c.json({
+    success: true,
+    data,
+  });
+});
+
+// POST /api/notifications/read-all
+notificationsRouter.post('/read-all', async (c) => {
+  const updated = await markAllNotificationsRead(getUserId(c)!);
+
+  return c.json({
+    success: true,
+    data: { updated },
+  });
+});
+
+// POST /api/notifications/:id/read
+notificationsRouter.post('/:id/read', async (c) => {
+  const notification = await markNotificationRead(c.req.param('id'), getUserId(c)!);
+
+  return c.json({
+    success: true,
+    data: notification,
+  });
+});
+
+export default notificationsRouter;
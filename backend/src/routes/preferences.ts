@@ -6,7 +6,8 @@ import { requireAuth, getUserId } from '../middleware/auth.js';
 import { ValidationError } from '../middleware/error.js';
 import { db } from '../db/client.js';
 import { userPreferences } from '../db/schema.js';
-import { eq } from 'drizzle-orm';
+import { assertPublicWebhookUrl, generateWebhookSecret } from '../services/notifications.js';
+import { and, eq, isNotNull } from 'drizzle-orm';
 import { z } from 'zod';
 
 const preferences = new Hono();
@@ -17,6 +18,8 @@ const PreferencesSchema = z.object({
   roomTypes: z.array(z.string()).optional(),
   budgetRangeMin: z.number().int().positive().optional(),
   budgetRangeMax: z.number().int().positive().optional(),
+  alertEmailEnabled: z.boolean().optional(),
+  alertWebhookUrl: z.string().url().startsWith('https://', 'Webhook URL must use https').nullable().optional(),
 });
 
 // GET /api/preferences - Get user's preferences
@@ -39,6 +42,9 @@ preferences.get('/', requireAuth, async (c) => {
           roomTypes: [],
           budgetRangeMin: null,
           budgetRangeMax: null,
+          alertEmailEnabled: true,
+          alertWebhookUrl: null,
+          alertWebhookSecret: null,
         },
       });
     }
@@ -59,6 +65,9 @@ preferences.post('/', requireAuth, async (c) => {
     const userId = getUserId(c)!;
     const body = await c.req.json();
     const validatedPrefs = PreferencesSchema.parse(body);
+    if (validatedPrefs.alertWebhookUrl) {
+      await assertPublicWebhookUrl(validatedPrefs.alertWebhookUrl);
+    }
 
     // Check if preferences already exist
     const [existing] = await db
@@ -67,6 +76,11 @@ preferences.post('/', requireAuth, async (c) => {
       .where(eq(userPreferences.userId, userId))
       .limit(1);
 
+    // Each user signs with their own secret, created with their first webhook
+    const webhookSecret = validatedPrefs.alertWebhookUrl && !existing?.alertWebhookSecret
+      ? { alertWebhookSecret: generateWebhookSecret() }
+      : {};
+
     let result;
 
     if (existing) {
@@ -75,6 +89,7 @@ preferences.post('/', requireAuth, async (c) => {
         .update(userPreferences)
         .set({
           ...validatedPrefs,
+          ...webhookSecret,
           updatedAt: new Date(),
         })
         .where(eq(userPreferences.userId, userId))
@@ -86,6 +101,7 @@ preferences.post('/', requireAuth, async (c) => {
         .values({
           userId,
           ...validatedPrefs,
+          ...webhookSecret,
         })
         .returning();
     }
@@ -103,4 +119,24 @@ preferences.post('/', requireAuth, async (c) => {
   }
 });
 
+// POST /api/preferences/webhook-secret - Replace the webhook signing secret
+preferences.post('/webhook-secret', requireAuth, async (c) => {
+  const userId = getUserId(c)!;
+
+  const [result] = await db
+    .update(userPreferences)
+    .set({ alertWebhookSecret: generateWebhookSecret(), updatedAt: new Date() })
+    .where(and(eq(userPreferences.userId, userId), isNotNull(userPreferences.alertWebhookUrl)))
+    .returning();
+
+  if (!result) {
+    throw new ValidationError('Set a webhook URL first');
+  }
+
+  return c.json({
+    success: true,
+    preferences: result,
+  });
+});
+
 export default preferences;
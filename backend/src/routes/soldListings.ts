@@ -0,0 +1,119 @@
+// Sold Listings Routes - Import and search recorded auction results
+// October 2026
+
+import { Hono } from 'hono';
+import { requireAuth, requireAdmin, getUserId } from '../middleware/auth.js';
+import { ValidationError } from '../middleware/error.js';
+import {
+  MAX_IMPORT_ROWS,
+  csvToRecords,
+  jsonToRecords,
+  importSoldListings,
+  deleteImport,
+  searchSoldListings,
+  toSoldListing,
+} from '../services/soldListings.js';
+import { z } from 'zod';
+
+const soldListingsRouter = new Hono();
+
+const MAX_IMPORT_BYTES = 25 * 1024 * 1024;
+
+const JsonImportSchema = z.object({
+  listings: z.array(z.unknown()).min(1, 'Provide at least one listing').max(MAX_IMPORT_ROWS),
+});
+
+const SearchQuerySchema = z.object({
+  q: z.string().trim().min(2, 'Search query must be at least 2 characters').max(200),
+  category: z.string().trim().max(100).optional(),
+  maker: z.string().trim().max(200).optional(),
+  minPrice: z.coerce.number().int().positive().optional(), // Cents
+  maxPrice: z.coerce.number().int().positive().optional(), // Cents
+  currency: z.string().trim().toUpperCase().length(3).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+function toValidationError(error: unknown): unknown {
+  if (error instanceof z.ZodError) {
+    return new ValidationError(error.errors[0]?.message || 'Invalid sold listings request');
+  }
+  return error;
+}
+
+soldListingsRouter.use('*', requireAuth);
+
+// POST /api/sold-listings/import - Bulk import auction results (admin)
+// multipart/form-data: file (.csv or .json), or application/json: { listings: [...] }
+soldListingsRouter.post('/import', requireAdmin, async (c) => {
+  try {
+    let records: Record<string, unknown>[];
+
+    if (c.req.header('content-type')?.includes('multipart/form-data')) {
+      const body = await c.req.parseBody();
+      const file = body.file;
+      if (!(file instanceof File)) {
+        throw new ValidationError('Upload a CSV or JSON file in the "file" field');
+      }
+      if (file.size > MAX_IMPORT_BYTES) {
+        throw new ValidationError('Import files are limited to 25MB');
+      }
+
+      const text = await file.text();
+      if (file.name.toLowerCase().endsWith('.json') || file.type === 'application/json') {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(text);
+        } catch {
+          throw new ValidationError('The JSON file could not be parsed');
+        }
+        const items = Array.isArray(parsed) ? parsed : JsonImportSchema.parse(parsed).listings;
+        records = jsonToRecords(items);
+      } else {
+        records = csvToRecords(text);
+      }
+    } else {
+      records = jsonToRecords(JsonImportSchema.parse(await c.req.json()).listings);
+    }
+
+    const result = await importSoldListings(records, getUserId(c) ?? null);
+
+    return c.json({
+      success: true,
+      data: result,
+    }, 201);
+  } catch (error) {
+    throw toValidationError(error);
+  }
+});
+
+// DELETE /api/sold-listings/imports/:importId - Undo an import (admin)
+soldListingsRouter.delete('/imports/:importId', requireAdmin, async (c) => {
+  const importId = c.req.param('importId');
+  if (!z.string().uuid().safeParse(importId).success) {
+    throw new ValidationError('Invalid import ID');
+  }
+
+  const deleted = await deleteImport(importId);
+
+  return c.json({
+    success: true,
+    data: { importId, deleted },
+  });
+});
+
+// GET /api/sold-listings/search?q=... - Similar recorded sales
+soldListingsRouter.get('/search', async (c) => {
+  try {
+    const query = SearchQuerySchema.parse(c.req.query());
+    const matches = await searchSoldListings({ ...query, query: query.q });
+
+    return c.json({
+      success: true,
+      data: matches.map(toSoldListing),
+    });
+  } catch (error) {
+    throw toValidationError(error);
+  }
+});
+
+export default soldListingsRouter;
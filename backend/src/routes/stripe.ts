@@ -15,6 +15,9 @@ import { requireAuth, getCurrentUser } from '../middleware/auth.js';
 import { ValidationError } from '../middleware/error.js';
 import { db } from '../db/client.js';
 import { users } from '../db/schema.js';
+import type { User } from '../db/schema.js';
+import { markExpertRequestPaid } from '../services/expertEscalation.js';
+import { getEntitlements } from '../services/entitlements.js';
 import { eq } from 'drizzle-orm';
 import { env } from '../config/env.js';
 import { z } from 'zod';
@@ -37,25 +40,6 @@ const PRICE_MAP: Record<string, Record<string, string | undefined>> = {
   },
 };
 
-// Subscription tier limits (for reference)
-export const SUBSCRIPTION_LIMITS = {
-  free: {
-    analysesPerMonth: 3,
-    collectionItems: 3,
-    apiAccess: false,
-  },
-  collector: {
-    analysesPerMonth: Infinity,
-    collectionItems: 50,
-    apiAccess: false,
-  },
-  professional: {
-    analysesPerMonth: Infinity,
-    collectionItems: Infinity,
-    apiAccess: true,
-  },
-};
-
 const stripeRoutes = new Hono();
 
 /**
@@ -111,6 +95,92 @@ async function findUserBySubscriptionOrCustomer(
   return null;
 }
 
+// ============================================================================
+// EXPERT REVIEW CHECKOUT (one-time payment)
+// ============================================================================
+
+export function isStripeConfigured(): boolean {
+  return stripe !== null;
+}
+
+/**
+ * Create a one-time checkout for an expert review request.
+ * The webhook marks the request paid via metadata.expertRequestId.
+ */
+export async function createExpertReviewCheckout(
+  user: User,
+  request: { id: string; tierName: string; itemName: string; price: number }
+): Promise<{ sessionId: string; url: string | null }> {
+  if (!stripe) {
+    throw new Error('Stripe client not initialized');
+  }
+
+  const session = await stripe.checkout.sessions.create({
+    customer: user.stripeCustomerId || undefined,
+    customer_email: user.stripeCustomerId ? undefined : user.email,
+    payment_method_types: ['card'],
+    line_items: [
+      {
+        price_data: {
+          currency: 'usd',
+          unit_amount: request.price,
+          product_data: {
+            name: request.tierName,
+            description: `Expert review: ${request.itemName}`,
+          },
+        },
+        quantity: 1,
+      },
+    ],
+    mode: 'payment',
+    success_url: `${env.FRONTEND_URL}/expert-review?request=${request.id}&success=true`,
+    cancel_url: `${env.FRONTEND_URL}/expert-review?request=${request.id}&canceled=true`,
+    metadata: {
+      userId: user.id,
+      expertRequestId: request.id,
+    },
+  }, {
+    idempotencyKey: `expert-request-${request.id}`,
+  });
+
+  logger.info(`Expert review checkout created: ${session.id} for request ${request.id}`);
+
+  return { sessionId: session.id, url: session.url };
+}
+
+/**
+ * Refund the payment behind an expert review checkout. Safe to repeat - a
+ * charge that's already refunded is left alone.
+ */
+export async function refundExpertReviewCheckout(checkoutSessionId: string, requestId: string): Promise<void> {
+  if (!stripe) {
+    throw new Error('Stripe client not initialized');
+  }
+
+  const session = await stripe.checkout.sessions.retrieve(checkoutSessionId, {
+    expand: ['payment_intent.latest_charge'],
+  });
+  const paymentIntent = session.payment_intent as Stripe.PaymentIntent | null;
+  if (!paymentIntent) {
+    logger.warn(`Expert review checkout ${checkoutSessionId} has no payment to refund`);
+    return;
+  }
+
+  const charge = paymentIntent.latest_charge as Stripe.Charge | null;
+  if (charge?.refunded) {
+    return;
+  }
+
+  const refund = await stripe.refunds.create({
+    payment_intent: paymentIntent.id,
+    metadata: { expertRequestId: requestId },
+  }, {
+    idempotencyKey: `expert-refund-${requestId}`,
+  });
+
+  logger.info(`Expert review refunded: ${refund.id} for request ${requestId}`);
+}
+
 // ============================================================================
 // CREATE CHECKOUT SESSION
 // ============================================================================
@@ -300,6 +370,18 @@ stripeRoutes.post('/webhooks/stripe', async (c) => {
 // ============================================================================
 
 async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
+  // One-time expert review payments
+  const expertRequestId = session.metadata?.expertRequestId;
+  if (expertRequestId) {
+    logger.info(`Expert review payment completed for request ${expertRequestId}`);
+    const request = await markExpertRequestPaid(expertRequestId, session.id);
+    // Cancelled while the checkout was still open - give the money back
+    if (request?.status === 'cancelled') {
+      await refundExpertReviewCheckout(session.id, expertRequestId);
+    }
+    return;
+  }
+
   const userId = session.metadata?.userId;
   const planId = session.metadata?.planId;
 
@@ -445,8 +527,7 @@ stripeRoutes.get('/subscription/status', requireAuth, async (c) => {
   // Build status response
   const status = {
     tier: user.subscriptionTier,
-    limits: SUBSCRIPTION_LIMITS[user.subscriptionTier as keyof typeof SUBSCRIPTION_LIMITS] ||
-      SUBSCRIPTION_LIMITS.free,
+    limits: getEntitlements(user.subscriptionTier),
     stripeCustomerId: user.stripeCustomerId,
     stripeSubscriptionId: user.stripeSubscriptionId,
     subscriptionEndsAt: user.subscriptionEndsAt,
@@ -2,11 +2,12 @@
  * Testing API Routes for VintageVision
  * =====================================
  * Routes for running E2E tests, ground truth evaluation, and learning system management.
- * These routes should only be enabled in development/staging environments.
+ * Only mounted outside production, and only for admins (ADMIN_EMAILS).
  */
 
 import { Hono } from 'hono';
 import { env } from '../config/env.js';
+import { requireAuth, requireAdmin } from '../middleware/auth.js';
 import {
   runAllE2ETests,
   runSmokeTest,
@@ -25,24 +26,28 @@ import {
   recordUserCorrection,
   recordExpertCorrection,
   recordSaleOutcome,
-  addPromptAdjustment
+  addPromptAdjustment,
+  rebuildLearningState
 } from '../services/selfLearning.js';
 import { analyzeAntiqueImage } from '../services/openai.js';
 
 const testingRouter = new Hono();
 
 // ============================================================================
-// MIDDLEWARE - Restrict to development only
+// MIDDLEWARE - Restrict to development/staging admins
 // ============================================================================
 
 testingRouter.use('*', async (c, next) => {
-  // Only allow in development/staging
+  // Only allow in development/staging (index.ts doesn't mount it in production)
   if (env.NODE_ENV === 'production') {
     return c.json({ error: 'Testing routes disabled in production' }, 403);
   }
   await next();
 });
 
+// These routes run paid model calls and write persisted learning data
+testingRouter.use('*', requireAuth, requireAdmin);
+
 // ============================================================================
 // TEST EXECUTION ROUTES
 // ============================================================================
@@ -244,10 +249,25 @@ testingRouter.get('/learning/insights', (c) => {
  * Get accuracy report from learning data
  */
 testingRouter.get('/learning/accuracy', (c) => {
-  const report = getAccuracyReport();
+  const granularity = c.req.query('granularity') === 'month' ? 'month' : 'week';
+  const periods = parseInt(c.req.query('periods') || '12');
+  const report = getAccuracyReport({ granularity, periods: Number.isNaN(periods) ? 12 : periods });
   return c.json(report);
 });
 
+/**
+ * POST /api/testing/learning/rebuild
+ * Rebuild confusion matrix and accuracy trend from stored feedback history
+ */
+testingRouter.post('/learning/rebuild', async (c) => {
+  try {
+    const counts = await rebuildLearningState();
+    return c.json({ success: true, ...counts });
+  } catch (error) {
+    return c.json({ error: String(error) }, 500);
+  }
+});
+
 /**
  * GET /api/testing/learning/export
  * Export all learning data
@@ -0,0 +1,60 @@
+// Usage Routes - Plan entitlements and this month's usage
+// October 2026
+
+import { Hono } from 'hono';
+import { optionalAuth, requireAuth, requireAdmin, getCurrentUser, getUsageSubject } from '../middleware/auth.js';
+import { ValidationError } from '../middleware/error.js';
+import { getUsageSummary } from '../services/entitlements.js';
+import { getCostAggregates } from '../services/usageLedger.js';
+import { z } from 'zod';
+
+const usage = new Hono();
+
+// GET /api/usage - Features, monthly quotas and collection size for the caller's plan
+// Anonymous callers see the free tier, counted by client IP
+usage.get('/', optionalAuth, async (c) => {
+  const user = getCurrentUser(c);
+  const summary = await getUsageSummary(getUsageSubject(c), user?.subscriptionTier, user?.id ?? null);
+
+  return c.json({
+    success: true,
+    data: summary,
+  });
+});
+
+// GET /api/usage/costs - Model calls, tokens and cost across all users (admin)
+// ?groupBy=day|tier|domainExpert &days=30
+const CostQuerySchema = z.object({
+  groupBy: z.enum(['day', 'tier', 'domainExpert']).default('day'),
+  days: z.coerce.number().int().min(1).max(366).default(30),
+});
+
+usage.get('/costs', requireAuth, requireAdmin, async (c) => {
+  try {
+    const { groupBy, days } = CostQuerySchema.parse({
+      groupBy: c.req.query('groupBy') || undefined,
+      days: c.req.query('days') || undefined,
+    });
+
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+    const groups = await getCostAggregates(groupBy, from, to);
+
+    return c.json({
+      success: true,
+      data: {
+        groupBy,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        groups,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ValidationError(error.errors[0]?.message || 'Invalid query');
+    }
+    throw error;
+  }
+});
+
+export default usage;
@@ -0,0 +1,310 @@
+/**
+ * Additional Photos
+ * Follow-up photos attached to an existing analysis
+ * October 2026
+ *
+ * Each photo runs an incremental analysis against the saved result. The model
+ * replies with only the fields it wants to change; those are validated one by
+ * one and merged into the parent analysis, so a bad field is dropped without
+ * losing the rest. Evidence lists are appended rather than replaced.
+ */
+
+import { db } from '../db/client.js';
+import { additionalPhotos, itemAnalyses } from '../db/schema.js';
+import type { AdditionalPhoto, ItemAnalysis as ItemAnalysisRecord, NewItemAnalysis } from '../db/schema.js';
+import { asc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { analyzeAdditionalPhoto, ImageRole } from './openai.js';
+import { ingestImage, toDataUrl } from './imageIngestion.js';
+import { recordRevision } from './analysisRevisions.js';
+import { NotFoundError } from '../middleware/error.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CaptureRequest {
+  role: ImageRole;
+  priority: 'required' | 'recommended' | 'optional';
+  label: string;
+  instruction: string;
+  targetArea?: string;
+}
+
+export interface CaptureStatus extends CaptureRequest {
+  satisfied: boolean;
+  photoId: string | null;
+}
+
+export interface PhotoUpload {
+  buffer: Buffer;
+  role: ImageRole;
+  // Label of the suggested capture this photo answers, if any
+  captureLabel?: string;
+}
+
+export interface AddPhotoResult {
+  photo: AdditionalPhoto;
+  updatedFields: string[];
+  analysis: ItemAnalysisRecord;
+  captures: CaptureStatus[];
+}
+
+// ============================================================================
+// MERGING
+// ============================================================================
+
+const confidence = z.number().min(0).max(1);
+const value = z.number().int().nonnegative();
+const text = z.string().min(1);
+const textList = z.array(z.string().min(1));
+
+/**
+ * Fields a follow-up photo may change, keyed by item_analyses column
+ */
+const MERGEABLE_FIELDS = {
+  name: text,
+  maker: text.nullable(),
+  modelNumber: text.nullable(),
+  brand: text.nullable(),
+  era: text.nullable(),
+  style: text.nullable(),
+  periodStart: z.number().int().nullable(),
+  periodEnd: z.number().int().nullable(),
+  originRegion: text.nullable(),
+  description: text,
+  historicalContext: text,
+  attributionNotes: text.nullable(),
+  estimatedValueMin: value.nullable(),
+  estimatedValueMax: value.nullable(),
+  confidence,
+  identificationConfidence: confidence.nullable(),
+  makerConfidence: confidence.nullable(),
+  verificationTips: textList.nullable(),
+  redFlags: textList.nullable(),
+  authenticationConfidence: confidence.nullable(),
+  authenticityRisk: z.enum(['low', 'medium', 'high', 'very_high']).nullable(),
+  knownFakeIndicators: textList.nullable(),
+  expertReferralRecommended: z.boolean().nullable(),
+  expertReferralReason: text.nullable(),
+  authenticationAssessment: text.nullable(),
+} satisfies Partial<Record<keyof ItemAnalysisRecord, z.ZodTypeAny>>;
+
+type MergeableField = keyof typeof MERGEABLE_FIELDS;
+
+const APPENDED_FIELDS = ['evidenceFor', 'evidenceAgainst'] as const;
+
+/**
+ * The keys the model may answer with, and what each holds - sent in the prompt
+ */
+const PHOTO_DELTA_GUIDE = {
+  name: 'string - specific item name',
+  maker: 'string or null',
+  modelNumber: 'string or null',
+  brand: 'string or null',
+  era: 'string or null (e.g. "1890-1910", "Victorian")',
+  style: 'string or null',
+  periodStart: 'integer year or null',
+  periodEnd: 'integer year or null',
+  originRegion: 'string or null',
+  description: 'string',
+  historicalContext: 'string',
+  attributionNotes: 'string or null',
+  estimatedValueMin: 'whole US dollars or null',
+  estimatedValueMax: 'whole US dollars or null',
+  confidence: 'number 0-1',
+  identificationConfidence: 'number 0-1 or null',
+  makerConfidence: 'number 0-1 or null',
+  verificationTips: 'array of strings (the full updated list) or null',
+  redFlags: 'array of strings (the full updated list) or null',
+  authenticationConfidence: 'number 0-1 or null',
+  authenticityRisk: '"low", "medium", "high", "very_high" or null',
+  knownFakeIndicators: 'array of strings (the full updated list) or null',
+  expertReferralRecommended: 'boolean or null',
+  expertReferralReason: 'string or null',
+  authenticationAssessment: 'string or null',
+  evidenceFor: 'array of new observations in this photo that support the identification',
+  evidenceAgainst: 'array of new observations in this photo that contradict it',
+} satisfies Record<MergeableField | typeof APPENDED_FIELDS[number], string>;
+
+export interface PhotoMerge {
+  changes: Partial<NewItemAnalysis>;
+  findingsFor: string[];
+  findingsAgainst: string[];
+}
+
+/**
+ * Work out the column updates for a model delta. Fields that fail validation
+ * or don't change anything are ignored; new evidence is appended to the
+ * existing lists without duplicates.
+ */
+export function mergePhotoDelta(
+  analysis: Pick<ItemAnalysisRecord, MergeableField | typeof APPENDED_FIELDS[number]>,
+  delta: Record<string, unknown>
+): PhotoMerge {
+  const changes: Record<string, unknown> = {};
+
+  for (const field of Object.keys(MERGEABLE_FIELDS) as MergeableField[]) {
+    if (!(field in delta)) continue;
+    const parsed = MERGEABLE_FIELDS[field].safeParse(delta[field]);
+    if (!parsed.success) continue;
+    if (JSON.stringify(parsed.data) === JSON.stringify(analysis[field] ?? null)) continue;
+    changes[field] = parsed.data;
+  }
+
+  // Keep the value range ordered when only one end moved
+  const min = (changes.estimatedValueMin ?? analysis.estimatedValueMin) as number | null;
+  const max = (changes.estimatedValueMax ?? analysis.estimatedValueMax) as number | null;
+  if (min != null && max != null && min > max) {
+    delete changes.estimatedValueMin;
+    delete changes.estimatedValueMax;
+  }
+
+  const findings = { evidenceFor: [] as string[], evidenceAgainst: [] as string[] };
+  for (const field of APPENDED_FIELDS) {
+    const parsed = textList.safeParse(delta[field]);
+    if (!parsed.success) continue;
+
+    const existing = (analysis[field] as string[] | null) ?? [];
+    const added = parsed.data.filter(item => !existing.includes(item));
+    findings[field] = parsed.data;
+    if (added.length > 0) {
+      changes[field] = [...existing, ...added];
+    }
+  }
+
+  return {
+    changes: changes as Partial<NewItemAnalysis>,
+    findingsFor: findings.evidenceFor,
+    findingsAgainst: findings.evidenceAgainst,
+  };
+}
+
+// ============================================================================
+// CAPTURE STATUS
+// ============================================================================
+
+/**
+ * Match photos to the analysis's suggested captures. A photo tagged with a
+ * capture label satisfies that capture; untagged photos satisfy the first
+ * open capture with the same role. Each photo satisfies at most one capture.
+ */
+export function getCaptureStatus(
+  captures: CaptureRequest[],
+  photos: Pick<AdditionalPhoto, 'id' | 'photoType' | 'captureLabel'>[]
+): CaptureStatus[] {
+  const status: CaptureStatus[] = captures.map(capture => ({ ...capture, satisfied: false, photoId: null }));
+  const used = new Set<string>();
+
+  for (const photo of photos) {
+    if (!photo.captureLabel) continue;
+    const match = status.find(s => !s.satisfied && s.label === photo.captureLabel);
+    if (match) {
+      match.satisfied = true;
+      match.photoId = photo.id;
+      used.add(photo.id);
+    }
+  }
+
+  for (const photo of photos) {
+    if (used.has(photo.id)) continue;
+    const match = status.find(s => !s.satisfied && s.role === photo.photoType);
+    if (match) {
+      match.satisfied = true;
+      match.photoId = photo.id;
+    }
+  }
+
+  return status;
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+export async function listAdditionalPhotos(analysisId: string): Promise<AdditionalPhoto[]> {
+  return db
+    .select()
+    .from(additionalPhotos)
+    .where(eq(additionalPhotos.itemAnalysisId, analysisId))
+    .orderBy(asc(additionalPhotos.createdAt));
+}
+
+export async function getAnalysisCaptureStatus(analysis: ItemAnalysisRecord): Promise<CaptureStatus[]> {
+  const photos = await listAdditionalPhotos(analysis.id);
+  return getCaptureStatus((analysis.suggestedCaptures as CaptureRequest[] | null) ?? [], photos);
+}
+
+/**
+ * Upload a follow-up photo, analyze it against the saved result and merge
+ * what changed into the parent analysis
+ */
+export async function addAnalysisPhoto(
+  analysis: ItemAnalysisRecord,
+  upload: PhotoUpload,
+  userId: string | null
+): Promise<AddPhotoResult> {
+  const image = await ingestImage({ buffer: upload.buffer, userId });
+  const imageKey = image.key;
+
+  const label = upload.captureLabel || `${upload.role} photo`;
+  const delta = await analyzeAdditionalPhoto(analysis, {
+    id: imageKey,
+    dataUrl: toDataUrl(image),
+    role: upload.role,
+    label,
+  }, PHOTO_DELTA_GUIDE);
+
+  const { photo, before, updated, updatedFields } = await db.transaction(async (tx) => {
+    // Merge into the row as it is now - a concurrent photo may have changed it
+    // while this one was being analyzed - and hold it until the update lands
+    const [before] = await tx
+      .select()
+      .from(itemAnalyses)
+      .where(eq(itemAnalyses.id, analysis.id))
+      .for('update');
+    if (!before) {
+      throw new NotFoundError('Analysis not found');
+    }
+
+    const merge = mergePhotoDelta(before, delta);
+    const updatedFields = Object.keys(merge.changes);
+
+    const [photo] = await tx
+      .insert(additionalPhotos)
+      .values({
+        itemAnalysisId: analysis.id,
+        photoType: upload.role,
+        captureLabel: upload.captureLabel ?? null,
+        imageUrl: imageKey,
+        analysisResult: { ...delta, updatedFields },
+        findingsFor: merge.findingsFor,
+        findingsAgainst: merge.findingsAgainst,
+      })
+      .returning();
+
+    const [updated] = await tx
+      .update(itemAnalyses)
+      .set({ ...merge.changes, updatedAt: new Date() })
+      .where(eq(itemAnalyses.id, analysis.id))
+      .returning();
+
+    return { photo, before, updated, updatedFields };
+  });
+
+  await recordRevision(before, updated, {
+    trigger: 'new_photo',
+    reason: `Follow-up ${upload.role} photo${upload.captureLabel ? ` (${upload.captureLabel})` : ''}`,
+    sourceId: photo.id,
+    createdBy: userId,
+  });
+
+  console.log(`📸 Follow-up ${upload.role} photo on ${analysis.id}: ${updatedFields.length > 0 ? `updated ${updatedFields.join(', ')}` : 'no changes'}`);
+
+  return {
+    photo,
+    updatedFields,
+    analysis: updated,
+    captures: await getAnalysisCaptureStatus(updated),
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Analysis Access Control
+ * Ownership and visibility checks for item analyses
+ * October 2026
+ *
+ * Visibility model:
+ * - private:  only the owner can read
+ * - unlisted: anyone with the link (analysis ID) can read
+ * - public:   anyone can read
+ *
+ * Anonymous analyses (no owner) are created unlisted with a claim token that
+ * only their creator receives. Holding the token stands in for ownership: it
+ * shows deal data, allows changes, and lets a signed-in user claim the
+ * analysis by saving it. A link alone never does. Ownerless rows from before
+ * ownership was recorded are private: the startup backfill gives them the
+ * owner of the collection item that saved them, and the rest stay unreadable.
+ * Non-owners never see deal data.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { db } from '../db/client.js';
+import { itemAnalyses } from '../db/schema.js';
+import type { ItemAnalysis as ItemAnalysisRecord } from '../db/schema.js';
+import { eq, sql } from 'drizzle-orm';
+import { AuthorizationError, NotFoundError } from '../middleware/error.js';
+
+export type AnalysisVisibility = 'private' | 'unlisted' | 'public';
+
+export const ANALYSIS_VISIBILITIES: AnalysisVisibility[] = ['private', 'unlisted', 'public'];
+
+/**
+ * Default visibility for a new analysis - owned analyses start private,
+ * anonymous ones are reachable only by link
+ */
+export function defaultVisibility(userId: string | null): AnalysisVisibility {
+  return userId ? 'private' : 'unlisted';
+}
+
+export function isAnalysisOwner(analysis: Pick<ItemAnalysisRecord, 'userId'>, userId: string | null): boolean {
+  return !!userId && analysis.userId === userId;
+}
+
+function hashClaimToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * New claim token for an anonymous analysis. The token goes to the creator;
+ * only its hash is stored.
+ */
+export function createClaimToken(): { token: string; hash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, hash: hashClaimToken(token) };
+}
+
+/**
+ * Whether claimToken is the creator's token for this unowned analysis
+ */
+export function holdsClaimToken(
+  analysis: Pick<ItemAnalysisRecord, 'userId' | 'claimTokenHash'>,
+  claimToken: string | null | undefined
+): boolean {
+  if (analysis.userId || !analysis.claimTokenHash || !claimToken) return false;
+
+  const expected = Buffer.from(analysis.claimTokenHash, 'hex');
+  const actual = Buffer.from(hashClaimToken(claimToken), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function canViewAnalysis(
+  analysis: Pick<ItemAnalysisRecord, 'userId' | 'visibility'>,
+  userId: string | null
+): boolean {
+  if (isAnalysisOwner(analysis, userId)) return true;
+  return analysis.visibility === 'unlisted' || analysis.visibility === 'public';
+}
+
+export function canModifyAnalysis(
+  analysis: Pick<ItemAnalysisRecord, 'userId' | 'claimTokenHash'>,
+  userId: string | null,
+  claimToken?: string | null
+): boolean {
+  return isAnalysisOwner(analysis, userId) || holdsClaimToken(analysis, claimToken);
+}
+
+/**
+ * Give ownerless analyses the user who first saved them to a collection.
+ * Idempotent - runs on every startup and only touches rows without an owner.
+ */
+export async function backfillAnalysisOwners(): Promise<number> {
+  const result = await db.execute(sql`
+    UPDATE item_analyses AS a
+    SET user_id = first_saver.user_id
+    FROM (
+      SELECT DISTINCT ON (item_analysis_id) item_analysis_id, user_id
+      FROM collection_items
+      ORDER BY item_analysis_id, saved_at ASC
+    ) AS first_saver
+    WHERE a.id = first_saver.item_analysis_id
+      AND a.user_id IS NULL
+  `);
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Load an analysis the caller may read. Unreadable analyses are reported as
+ * not found so private IDs can't be probed.
+ */
+export async function getViewableAnalysis(id: string, userId: string | null): Promise<ItemAnalysisRecord> {
+  const [analysis] = await db
+    .select()
+    .from(itemAnalyses)
+    .where(eq(itemAnalyses.id, id))
+    .limit(1);
+
+  if (!analysis || !canViewAnalysis(analysis, userId)) {
+    throw new NotFoundError('Analysis not found');
+  }
+
+  return analysis;
+}
+
+/**
+ * Load an analysis the caller may change (owner, or the creator of an
+ * anonymous analysis presenting its claim token)
+ */
+export async function getModifiableAnalysis(
+  id: string,
+  userId: string | null,
+  claimToken?: string | null
+): Promise<ItemAnalysisRecord> {
+  const analysis = await getViewableAnalysis(id, userId);
+
+  if (!canModifyAnalysis(analysis, userId, claimToken)) {
+    throw new AuthorizationError('Only the owner can modify this analysis');
+  }
+
+  return analysis;
+}
+
+/**
+ * Strip owner-only fields (asking price and deal analysis) for other viewers.
+ * The claim token hash is never returned.
+ */
+export function toViewerAnalysis(analysis: ItemAnalysisRecord, userId: string | null, claimToken?: string | null) {
+  const { claimTokenHash: _claimTokenHash, ...row } = analysis;
+  if (canModifyAnalysis(analysis, userId, claimToken)) {
+    return row;
+  }
+
+  const {
+    userId: _owner,
+    askingPrice: _askingPrice,
+    dealRating: _dealRating,
+    dealExplanation: _dealExplanation,
+    profitPotentialMin: _profitMin,
+    profitPotentialMax: _profitMax,
+    ...shared
+  } = row;
+
+  return shared;
+}
@@ -0,0 +1,162 @@
+/**
+ * Analysis Persistence
+ * Maps pipeline results to item_analyses rows and saves them with marketplace links
+ * October 2026
+ *
+ * Shared by single, streaming and batch analysis so every entry point stores
+ * the same world-class fields.
+ */
+
+import { db } from '../db/client.js';
+import { itemAnalyses, marketplaceLinks } from '../db/schema.js';
+import type { ItemAnalysis as ItemAnalysisRecord, NewItemAnalysis } from '../db/schema.js';
+import { generateMarketplaceLinks, ItemAnalysis, ProductCategory } from './openai.js';
+import { defaultVisibility, createClaimToken, AnalysisVisibility } from './analysisAccess.js';
+import { recordInitialRevision } from './analysisRevisions.js';
+import type { StoredImageInfo } from './imageIngestion.js';
+
+export interface SaveAnalysisOptions {
+  userId: string | null;
+  visibility?: AnalysisVisibility;
+  imageKey: string;
+  image?: StoredImageInfo | null; // Recorded at ingestion
+  optionsKey?: string | null; // See analysisOptionsKey() - set when the result can be reused
+  askingPrice?: number;
+}
+
+export interface SavedAnalysis {
+  savedAnalysis: ItemAnalysisRecord;
+  claimToken: string | null; // Anonymous analyses only - return it to the creator
+  marketplaceLinks: { marketplaceName: string; linkUrl: string }[];
+}
+
+/**
+ * Build the item_analyses row for a pipeline result
+ */
+export function toAnalysisValues(result: ItemAnalysis, options: SaveAnalysisOptions): NewItemAnalysis {
+  return {
+    // Ownership
+    userId: options.userId,
+    visibility: options.userId ? (options.visibility ?? 'private') : defaultVisibility(null),
+
+    // Core identification
+    name: result.name,
+    maker: result.maker || null,
+    modelNumber: result.modelNumber || null,
+    brand: result.brand || null,
+
+    // Categorization
+    productCategory: result.productCategory || null,
+    domainExpert: result.domainExpert || null,
+    itemSubcategory: result.itemSubcategory || null,
+
+    // Period and origin
+    era: result.era || null,
+    style: result.style || null,
+    periodStart: result.periodStart || null,
+    periodEnd: result.periodEnd || null,
+    originRegion: result.originRegion || null,
+
+    // Description
+    description: result.description,
+    historicalContext: result.historicalContext,
+    attributionNotes: result.attributionNotes || null,
+
+    // Valuation
+    estimatedValueMin: result.estimatedValueMin || null,
+    estimatedValueMax: result.estimatedValueMax || null,
+    currentRetailPrice: result.currentRetailPrice || null,
+
+    // Comparable sales
+    comparableSales: result.comparableSales || null,
+
+    // Confidence and evidence
+    confidence: result.confidence,
+    identificationConfidence: result.identificationConfidence || null,
+    makerConfidence: result.makerConfidence || null,
+    evidenceFor: result.evidenceFor || null,
+    evidenceAgainst: result.evidenceAgainst || null,
+
+    // Alternative candidates
+    alternativeCandidates: result.alternativeCandidates || null,
+
+    // Verification guidance
+    verificationTips: result.verificationTips || null,
+    redFlags: result.redFlags || null,
+
+    // Deal analysis
+    askingPrice: options.askingPrice || null,
+    dealRating: result.dealRating || null,
+    dealExplanation: result.dealExplanation || null,
+    profitPotentialMin: result.profitPotentialMin || null,
+    profitPotentialMax: result.profitPotentialMax || null,
+
+    // Flip assessment
+    flipDifficulty: result.flipDifficulty || null,
+    flipTimeEstimate: result.flipTimeEstimate || null,
+    resaleChannels: result.resaleChannels || null,
+
+    // Legacy fields
+    imageUrl: options.imageKey,
+    imageWidth: options.image?.width ?? null,
+    imageHeight: options.image?.height ?? null,
+    imageContentHash: options.image?.contentHash ?? null,
+    imagePhash: options.image?.perceptualHash ?? null,
+    imageDhash: options.image?.differenceHash ?? null,
+    analysisOptionsKey: options.optionsKey ?? null,
+    stylingSuggestions: result.stylingSuggestions || null,
+    productUrl: result.productUrl || null,
+
+    // Authentication fields (Stage 5)
+    authenticationConfidence: result.authenticationConfidence || null,
+    authenticityRisk: result.authenticityRisk || null,
+    authenticationChecklist: result.authenticationChecklist || null,
+    knownFakeIndicators: result.knownFakeIndicators || null,
+    additionalPhotosRequested: result.additionalPhotosRequested || null,
+    expertReferralRecommended: result.expertReferralRecommended || null,
+    expertReferralReason: result.expertReferralReason || null,
+    authenticationAssessment: result.authenticationAssessment || null,
+
+    // Capture guidance
+    suggestedCaptures: result.suggestedCaptures || null,
+  };
+}
+
+/**
+ * Save a pipeline result with its (domain-aware) marketplace search links
+ */
+export async function saveAnalysis(result: ItemAnalysis, options: SaveAnalysisOptions): Promise<SavedAnalysis> {
+  const claim = options.userId ? null : createClaimToken();
+  const [savedAnalysis] = await db
+    .insert(itemAnalyses)
+    .values({ ...toAnalysisValues(result, options), claimTokenHash: claim?.hash ?? null })
+    .returning();
+
+  await recordInitialRevision(savedAnalysis);
+
+  const links = generateMarketplaceLinks(
+    result.name,
+    result.era ?? undefined,
+    result.estimatedValueMin ?? undefined,
+    result.productCategory as ProductCategory | undefined,
+    result.brand ?? undefined,
+    result.modelNumber ?? undefined,
+    result.domainExpert ?? undefined,
+    result.compliance
+  );
+
+  if (links.length > 0) {
+    await db.insert(marketplaceLinks).values(
+      links.map((link) => ({
+        itemAnalysisId: savedAnalysis.id,
+        marketplaceName: link.marketplaceName,
+        linkUrl: link.linkUrl,
+        priceMin: result.estimatedValueMin || null,
+        priceMax: result.estimatedValueMax || null,
+        confidenceScore: result.confidence,
+      }))
+    );
+  }
+
+  return { savedAnalysis, claimToken: claim?.token ?? null, marketplaceLinks: links };
+}
@@ -0,0 +1,279 @@
+/**
+ * Analysis Revisions
+ * Versioned history of an analysis result with field-level diffs
+ * October 2026
+ *
+ * Whenever something rewrites an analysis (a Vera answer, a follow-up photo,
+ * an expert correction, a re-run on newer models) the tracked fields are
+ * snapshotted with the trigger and a short reason. Analyses saved before
+ * revisions existed get their pre-change state recorded as revision 1 the
+ * first time they change, so every history starts from a baseline.
+ */
+
+import { db } from '../db/client.js';
+import { analysisRevisions, itemAnalyses } from '../db/schema.js';
+import type { AnalysisRevision, ItemAnalysis as ItemAnalysisRecord } from '../db/schema.js';
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { NotFoundError, ValidationError } from '../middleware/error.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RevisionTrigger = 'initial' | 'user_answer' | 'new_photo' | 'expert_correction' | 'model_upgrade';
+
+export type RevisionFieldGroup = 'identification' | 'valuation' | 'confidence' | 'evidence' | 'authentication';
+
+export interface RevisionMeta {
+  trigger: RevisionTrigger;
+  reason?: string;
+  sourceId?: string | null;
+  createdBy?: string | null;
+}
+
+export type RevisionSnapshot = Partial<Record<TrackedField, unknown>>;
+
+export interface FieldChange {
+  field: TrackedField;
+  group: RevisionFieldGroup;
+  before: unknown;
+  after: unknown;
+  // List fields only: entries that appeared / disappeared
+  added?: unknown[];
+  removed?: unknown[];
+}
+
+export interface RevisionDiff {
+  from: Omit<AnalysisRevision, 'snapshot'>;
+  to: Omit<AnalysisRevision, 'snapshot'>;
+  changes: FieldChange[];
+  // Revisions after `from` up to and including `to`, i.e. why it changed
+  steps: Omit<AnalysisRevision, 'snapshot'>[];
+}
+
+// ============================================================================
+// SNAPSHOTS AND DIFFS
+// ============================================================================
+
+/**
+ * Fields whose history is kept, grouped for display
+ */
+const TRACKED_FIELDS = {
+  name: 'identification',
+  maker: 'identification',
+  brand: 'identification',
+  modelNumber: 'identification',
+  productCategory: 'identification',
+  domainExpert: 'identification',
+  era: 'identification',
+  style: 'identification',
+  periodStart: 'identification',
+  periodEnd: 'identification',
+  originRegion: 'identification',
+  estimatedValueMin: 'valuation',
+  estimatedValueMax: 'valuation',
+  confidence: 'confidence',
+  identificationConfidence: 'confidence',
+  makerConfidence: 'confidence',
+  evidenceFor: 'evidence',
+  evidenceAgainst: 'evidence',
+  redFlags: 'evidence',
+  authenticationConfidence: 'authentication',
+  authenticityRisk: 'authentication',
+  authenticationAssessment: 'authentication',
+  expertReferralRecommended: 'authentication',
+} satisfies Partial<Record<keyof ItemAnalysisRecord, RevisionFieldGroup>>;
+
+export type TrackedField = keyof typeof TRACKED_FIELDS;
+
+export function snapshotAnalysis(analysis: Pick<ItemAnalysisRecord, TrackedField>): RevisionSnapshot {
+  const snapshot: RevisionSnapshot = {};
+  for (const field of Object.keys(TRACKED_FIELDS) as TrackedField[]) {
+    snapshot[field] = analysis[field] ?? null;
+  }
+  return snapshot;
+}
+
+/**
+ * Field-level differences between two snapshots, in tracked-field order
+ */
+export function diffSnapshots(before: RevisionSnapshot, after: RevisionSnapshot): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of Object.keys(TRACKED_FIELDS) as TrackedField[]) {
+    const a = before[field] ?? null;
+    const b = after[field] ?? null;
+    if (JSON.stringify(a) === JSON.stringify(b)) continue;
+
+    const change: FieldChange = { field, group: TRACKED_FIELDS[field], before: a, after: b };
+    if (Array.isArray(a) || Array.isArray(b)) {
+      const beforeItems = (a as unknown[] | null) ?? [];
+      const afterItems = (b as unknown[] | null) ?? [];
+      const key = (item: unknown) => JSON.stringify(item);
+      const beforeKeys = new Set(beforeItems.map(key));
+      const afterKeys = new Set(afterItems.map(key));
+      change.added = afterItems.filter(item => !beforeKeys.has(key(item)));
+      change.removed = beforeItems.filter(item => !afterKeys.has(key(item)));
+    }
+    changes.push(change);
+  }
+
+  return changes;
+}
+
+function withoutSnapshot(revision: AnalysisRevision): Omit<AnalysisRevision, 'snapshot'> {
+  const { snapshot: _snapshot, ...meta } = revision;
+  return meta;
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Record a freshly saved analysis as revision 1. Never throws, like recordRevision.
+ */
+export async function recordInitialRevision(analysis: ItemAnalysisRecord): Promise<void> {
+  try {
+    await db
+      .insert(analysisRevisions)
+      .values({
+        itemAnalysisId: analysis.id,
+        revisionNumber: 1,
+        trigger: 'initial',
+        reason: 'Initial analysis',
+        createdBy: analysis.userId,
+        snapshot: snapshotAnalysis(analysis),
+        changedFields: [],
+      })
+      .onConflictDoNothing();
+  } catch (error) {
+    console.error(`Failed to record initial revision for analysis ${analysis.id}:`, error);
+  }
+}
+
+/**
+ * Record the change from `before` to `after`. Returns null when no tracked
+ * field changed. Never throws - history is not worth failing the update over.
+ */
+export async function recordRevision(
+  before: ItemAnalysisRecord,
+  after: ItemAnalysisRecord,
+  meta: RevisionMeta
+): Promise<AnalysisRevision | null> {
+  try {
+    return await db.transaction(async (tx) => {
+      // Lock the analysis so concurrent changes get consecutive numbers
+      await tx
+        .select({ id: itemAnalyses.id })
+        .from(itemAnalyses)
+        .where(eq(itemAnalyses.id, after.id))
+        .for('update');
+
+      const [latest] = await tx
+        .select()
+        .from(analysisRevisions)
+        .where(eq(analysisRevisions.itemAnalysisId, after.id))
+        .orderBy(desc(analysisRevisions.revisionNumber))
+        .limit(1);
+
+      let revisionNumber = latest?.revisionNumber ?? 0;
+      let previous = latest?.snapshot as RevisionSnapshot | undefined;
+
+      if (!previous) {
+        previous = snapshotAnalysis(before);
+        revisionNumber = 1;
+        await tx.insert(analysisRevisions).values({
+          itemAnalysisId: after.id,
+          revisionNumber,
+          trigger: 'initial',
+          reason: 'Result before revision history was kept',
+          createdBy: before.userId,
+          snapshot: previous,
+          changedFields: [],
+        });
+      }
+
+      const snapshot = snapshotAnalysis(after);
+      const changes = diffSnapshots(previous, snapshot);
+      if (changes.length === 0) {
+        return null;
+      }
+
+      const [revision] = await tx
+        .insert(analysisRevisions)
+        .values({
+          itemAnalysisId: after.id,
+          revisionNumber: revisionNumber + 1,
+          trigger: meta.trigger,
+          reason: meta.reason ?? null,
+          sourceId: meta.sourceId ?? null,
+          createdBy: meta.createdBy ?? null,
+          snapshot,
+          changedFields: changes.map(change => change.field),
+        })
+        .returning();
+
+      console.log(`🗂️ Analysis ${after.id} revision ${revision.revisionNumber} (${meta.trigger}): ${changes.map(change => change.field).join(', ')}`);
+      return revision;
+    });
+  } catch (error) {
+    console.error(`Failed to record revision for analysis ${after.id}:`, error);
+    return null;
+  }
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+export async function listRevisions(analysisId: string): Promise<Omit<AnalysisRevision, 'snapshot'>[]> {
+  const revisions = await db
+    .select()
+    .from(analysisRevisions)
+    .where(eq(analysisRevisions.itemAnalysisId, analysisId))
+    .orderBy(asc(analysisRevisions.revisionNumber));
+
+  return revisions.map(withoutSnapshot);
+}
+
+export async function getRevision(analysisId: string, revisionNumber: number): Promise<AnalysisRevision> {
+  const [revision] = await db
+    .select()
+    .from(analysisRevisions)
+    .where(and(
+      eq(analysisRevisions.itemAnalysisId, analysisId),
+      eq(analysisRevisions.revisionNumber, revisionNumber)
+    ))
+    .limit(1);
+
+  if (!revision) {
+    throw new NotFoundError(`Revision ${revisionNumber} not found`);
+  }
+  return revision;
+}
+
+/**
+ * Structured diff between any two revisions of an analysis
+ */
+export async function getRevisionDiff(analysisId: string, from: number, to: number): Promise<RevisionDiff> {
+  if (from === to) {
+    throw new ValidationError('Choose two different revisions to compare');
+  }
+
+  const [older, newer] = from < to ? [from, to] : [to, from];
+  const [fromRevision, toRevision] = await Promise.all([
+    getRevision(analysisId, from),
+    getRevision(analysisId, to),
+  ]);
+
+  const steps = (await listRevisions(analysisId))
+    .filter(revision => revision.revisionNumber > older && revision.revisionNumber <= newer);
+
+  return {
+    from: withoutSnapshot(fromRevision),
+    to: withoutSnapshot(toRevision),
+    changes: diffSnapshots(fromRevision.snapshot as RevisionSnapshot, toRevision.snapshot as RevisionSnapshot),
+    steps,
+  };
+}
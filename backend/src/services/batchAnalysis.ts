@@ -0,0 +1,839 @@
+/**
+ * Batch Analysis Service
+ * Durable queue for analyzing whole estate-sale lots in one job
+ * October 2026
+ *
+ * Jobs and their items live in Postgres, so a restart loses nothing: workers
+ * claim pending items with FOR UPDATE SKIP LOCKED, at most BATCH_CONCURRENCY at
+ * a time per process, and items stuck in 'processing' after a crash are put
+ * back in the queue. Failed items retry with exponential backoff before being
+ * marked failed. Progress for the SSE feed goes over Redis pub/sub, so a
+ * stream sees items processed by any worker process; without Redis it is only
+ * delivered within the process.
+ */
+
+import { EventEmitter } from 'events';
+import { db } from '../db/client.js';
+import { batchJobs, batchJobItems, itemAnalyses, collectionItems, users } from '../db/schema.js';
+import type { BatchJob, BatchJobItem } from '../db/schema.js';
+import { and, asc, desc, eq, gte, inArray, lte, lt, notInArray, or, sql } from 'drizzle-orm';
+import { env } from '../config/env.js';
+import { NotFoundError, ValidationError, QuotaExceededError } from '../middleware/error.js';
+import { getImageBuffer } from '../storage/client.js';
+import { ingestImage, fromStorageMetadata } from './imageIngestion.js';
+import { analyzeAntiqueImage } from './openai.js';
+import { saveAnalysis } from './analysisPersistence.js';
+import { consumeUsage, refundUsage, getEntitlements, countCollectionItems } from './entitlements.js';
+import { recordInitialSnapshots } from './collectionValuation.js';
+import { createUsageContext, withUsageContext, attachUsageToAnalysis } from './usageLedger.js';
+import { getRedisClient } from './session.js';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const MAX_BATCH_ITEMS = 100;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 15 * 1000; // 15s, 30s, ...
+const POLL_INTERVAL_MS = 2000;
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+const STALE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const ACTIVE_JOB_STATUSES = ['queued', 'running'];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BatchUpload {
+  buffer: Buffer;
+  label: string | null;
+}
+
+export interface BatchItemAnalysis {
+  id: string;
+  name: string;
+  maker: string | null;
+  era: string | null;
+  productCategory: string | null;
+  domainExpert: string | null;
+  confidence: number;
+  estimatedValueMin: number | null;
+  estimatedValueMax: number | null;
+}
+
+export interface BatchItemView {
+  id: string;
+  position: number;
+  label: string | null;
+  imageUrl: string;
+  status: BatchJobItem['status'];
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null; // set while waiting to retry
+  analysis: BatchItemAnalysis | null;
+}
+
+export interface BatchJobView extends Omit<BatchJob, 'userId'> {
+  progress: number; // 0-1, finished items / total
+}
+
+export type BatchEvent =
+  | { type: 'job'; job: BatchJobView }
+  | { type: 'item'; item: BatchItemView };
+
+// ============================================================================
+// PROGRESS EVENTS
+// ============================================================================
+
+const BATCH_EVENTS_CHANNEL = 'batch:events';
+
+// Local listeners per job, fed by the Redis subscriber (or directly without Redis)
+const batchEvents = new EventEmitter();
+batchEvents.setMaxListeners(0);
+
+type RedisClient = NonNullable<ReturnType<typeof getRedisClient>>;
+let subscriber: RedisClient | null = null;
+let subscribing: Promise<void> | null = null;
+
+/**
+ * Open this process's subscription to the shared event channel. Pub/sub needs
+ * its own connection, so it's a duplicate of the session client.
+ */
+function ensureEventSubscriber(): Promise<void> {
+  const redis = getRedisClient();
+  if (subscribing || !redis) return subscribing ?? Promise.resolve();
+
+  subscribing = (async () => {
+    const client = redis.duplicate();
+    client.on('error', (error: Error) => console.warn('⚠️ Batch event subscriber error:', error.message));
+    await client.connect();
+    await client.subscribe(BATCH_EVENTS_CHANNEL, (message) => {
+      try {
+        const { jobId, event } = JSON.parse(message) as { jobId: string; event: BatchEvent };
+        batchEvents.emit(jobId, event);
+      } catch (error) {
+        console.warn('⚠️ Ignoring malformed batch event:', error);
+      }
+    });
+    subscriber = client;
+  })().catch((error) => {
+    console.warn('⚠️ Batch events fall back to in-process delivery:', error);
+    subscribing = null;
+  });
+
+  return subscribing;
+}
+
+/**
+ * Listen for progress on one job. Returns an unsubscribe function.
+ */
+export function subscribeToBatchJob(jobId: string, listener: (event: BatchEvent) => void): () => void {
+  void ensureEventSubscriber();
+  batchEvents.on(jobId, listener);
+  return () => {
+    batchEvents.off(jobId, listener);
+  };
+}
+
+function publish(jobId: string, event: BatchEvent): void {
+  // Our own subscriber delivers locally; emit directly only when it isn't up
+  const deliveredLocally = !subscriber?.isReady;
+  if (deliveredLocally) {
+    batchEvents.emit(jobId, event);
+  }
+
+  const redis = getRedisClient();
+  if (!redis) return;
+
+  redis.publish(BATCH_EVENTS_CHANNEL, JSON.stringify({ jobId, event })).catch((error) => {
+    console.warn(`⚠️ Failed to publish batch ${jobId} event:`, error);
+    if (!deliveredLocally) batchEvents.emit(jobId, event);
+  });
+}
+
+export function isBatchJobFinished(job: Pick<BatchJob, 'status'>): boolean {
+  return job.status === 'completed' || job.status === 'cancelled';
+}
+
+function toJobView(job: BatchJob): BatchJobView {
+  const { userId: _owner, ...rest } = job;
+  return {
+    ...rest,
+    progress: job.totalItems > 0 ? (job.completedItems + job.failedItems) / job.totalItems : 1,
+  };
+}
+
+const analysisSummaryColumns = {
+  id: itemAnalyses.id,
+  name: itemAnalyses.name,
+  maker: itemAnalyses.maker,
+  era: itemAnalyses.era,
+  productCategory: itemAnalyses.productCategory,
+  domainExpert: itemAnalyses.domainExpert,
+  confidence: itemAnalyses.confidence,
+  estimatedValueMin: itemAnalyses.estimatedValueMin,
+  estimatedValueMax: itemAnalyses.estimatedValueMax,
+};
+
+function toItemView(item: BatchJobItem, analysis: BatchItemAnalysis | null): BatchItemView {
+  return {
+    id: item.id,
+    position: item.position,
+    label: item.label,
+    imageUrl: `/api/${item.imageKey}`,
+    status: item.status,
+    attempts: item.attempts,
+    lastError: item.lastError,
+    nextAttemptAt: item.status === 'pending' && item.attempts > 0 ? item.nextAttemptAt.toISOString() : null,
+    analysis: analysis?.id ? analysis : null,
+  };
+}
+
+async function publishJob(jobId: string): Promise<BatchJob | null> {
+  const [job] = await db.select().from(batchJobs).where(eq(batchJobs.id, jobId)).limit(1);
+  if (job) {
+    publish(jobId, { type: 'job', job: toJobView(job) });
+  }
+  return job ?? null;
+}
+
+// ============================================================================
+// JOB LIFECYCLE
+// ============================================================================
+
+/**
+ * Upload the images and queue one item per image. Quota for every item is
+ * reserved up front and refunded for items that fail or are cancelled.
+ */
+export async function createBatchJob(
+  userId: string,
+  tier: string,
+  uploads: BatchUpload[],
+  name?: string
+): Promise<{ job: BatchJobView; items: BatchItemView[] }> {
+  if (uploads.length === 0) {
+    throw new ValidationError('At least one image is required');
+  }
+  if (uploads.length > MAX_BATCH_ITEMS) {
+    throw new ValidationError(`A batch can contain at most ${MAX_BATCH_ITEMS} images`);
+  }
+
+  await consumeUsage(userId, tier, 'analyses', uploads.length);
+
+  try {
+    const imageKeys: string[] = [];
+    for (const upload of uploads) {
+      const image = await ingestImage({
+        buffer: upload.buffer,
+        userId,
+        originalName: upload.label ?? undefined,
+      });
+      imageKeys.push(image.key);
+    }
+
+    const { job, items } = await db.transaction(async (tx) => {
+      const [job] = await tx
+        .insert(batchJobs)
+        .values({
+          userId,
+          name: name || null,
+          totalItems: uploads.length,
+        })
+        .returning();
+
+      const items = await tx
+        .insert(batchJobItems)
+        .values(uploads.map((upload, index) => ({
+          jobId: job.id,
+          position: index + 1,
+          label: upload.label,
+          imageKey: imageKeys[index],
+        })))
+        .returning();
+
+      return { job, items };
+    });
+
+    console.log(`📦 Batch job ${job.id} queued with ${items.length} items`);
+    wakeBatchWorker();
+
+    return {
+      job: toJobView(job),
+      items: items.sort((a, b) => a.position - b.position).map(item => toItemView(item, null)),
+    };
+  } catch (error) {
+    await refundUsage(userId, 'analyses', uploads.length);
+    throw error;
+  }
+}
+
+async function getOwnedJob(jobId: string, userId: string): Promise<BatchJob> {
+  const [job] = await db
+    .select()
+    .from(batchJobs)
+    .where(and(eq(batchJobs.id, jobId), eq(batchJobs.userId, userId)))
+    .limit(1);
+
+  if (!job) {
+    throw new NotFoundError('Batch job not found');
+  }
+  return job;
+}
+
+async function loadItems(jobId: string): Promise<BatchItemView[]> {
+  const rows = await db
+    .select({ item: batchJobItems, analysis: analysisSummaryColumns })
+    .from(batchJobItems)
+    .leftJoin(itemAnalyses, eq(batchJobItems.itemAnalysisId, itemAnalyses.id))
+    .where(eq(batchJobItems.jobId, jobId))
+    .orderBy(asc(batchJobItems.position));
+
+  return rows.map(row => toItemView(row.item, row.analysis as BatchItemAnalysis | null));
+}
+
+/**
+ * Job with every item and its analysis summary
+ */
+export async function getBatchJob(jobId: string, userId: string): Promise<{ job: BatchJobView; items: BatchItemView[] }> {
+  const job = await getOwnedJob(jobId, userId);
+  return { job: toJobView(job), items: await loadItems(jobId) };
+}
+
+export async function listBatchJobs(userId: string, limit: number = 20): Promise<BatchJobView[]> {
+  const jobs = await db
+    .select()
+    .from(batchJobs)
+    .where(eq(batchJobs.userId, userId))
+    .orderBy(desc(batchJobs.createdAt))
+    .limit(limit);
+
+  return jobs.map(toJobView);
+}
+
+/**
+ * Stop a job - items already being analyzed finish, pending ones are cancelled
+ */
+export async function cancelBatchJob(jobId: string, userId: string): Promise<BatchJobView> {
+  const job = await getOwnedJob(jobId, userId);
+  if (isBatchJobFinished(job)) {
+    throw new ValidationError(`Batch job is already ${job.status}`);
+  }
+
+  // The job is cancelled first, so an item in flight that fails from here on
+  // is cancelled by its worker instead of going back in the queue
+  await db
+    .update(batchJobs)
+    .set({ status: 'cancelled', finishedAt: new Date(), updatedAt: new Date() })
+    .where(eq(batchJobs.id, jobId));
+
+  const cancelled = await db
+    .update(batchJobItems)
+    .set({ status: 'cancelled', completedAt: new Date() })
+    .where(and(eq(batchJobItems.jobId, jobId), eq(batchJobItems.status, 'pending')))
+    .returning({ id: batchJobItems.id });
+
+  if (cancelled.length > 0) {
+    await refundUsage(userId, 'analyses', cancelled.length);
+  }
+
+  console.log(`🛑 Batch job ${jobId} cancelled (${cancelled.length} items not analyzed)`);
+  return toJobView((await publishJob(jobId))!);
+}
+
+/**
+ * Put permanently failed items back in the queue
+ */
+export async function retryFailedItems(jobId: string, userId: string, tier: string): Promise<BatchJobView> {
+  const job = await getOwnedJob(jobId, userId);
+  if (job.status === 'cancelled') {
+    throw new ValidationError('Batch job was cancelled');
+  }
+
+  const failed = await db
+    .select({ id: batchJobItems.id })
+    .from(batchJobItems)
+    .where(and(eq(batchJobItems.jobId, jobId), eq(batchJobItems.status, 'failed')));
+
+  if (failed.length === 0) {
+    throw new ValidationError('No failed items to retry');
+  }
+
+  await consumeUsage(userId, tier, 'analyses', failed.length);
+
+  try {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(batchJobItems)
+        .set({ status: 'pending', attempts: 0, lastError: null, nextAttemptAt: new Date(), completedAt: null })
+        .where(inArray(batchJobItems.id, failed.map(f => f.id)));
+
+      await tx
+        .update(batchJobs)
+        .set({
+          status: 'running',
+          failedItems: sql`${batchJobs.failedItems} - ${failed.length}`,
+          finishedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(batchJobs.id, jobId));
+    });
+  } catch (error) {
+    await refundUsage(userId, 'analyses', failed.length);
+    throw error;
+  }
+
+  wakeBatchWorker();
+  return toJobView((await publishJob(jobId))!);
+}
+
+// ============================================================================
+// RESULTS - BULK SAVE & CSV
+// ============================================================================
+
+/**
+ * Save completed items to the owner's collection, skipping ones already saved.
+ * Fails without saving anything if the plan's collection limit would be exceeded.
+ */
+export async function saveBatchToCollection(
+  jobId: string,
+  userId: string,
+  tier: string,
+  options: { itemIds?: string[]; location?: string } = {}
+): Promise<{ saved: number; alreadySaved: number }> {
+  await getOwnedJob(jobId, userId);
+
+  const conditions = [eq(batchJobItems.jobId, jobId), eq(batchJobItems.status, 'completed')];
+  if (options.itemIds?.length) {
+    conditions.push(inArray(batchJobItems.id, options.itemIds));
+  }
+
+  const completed = await db
+    .select({ itemAnalysisId: batchJobItems.itemAnalysisId })
+    .from(batchJobItems)
+    .where(and(...conditions));
+
+  const analysisIds = completed.map(c => c.itemAnalysisId).filter((id): id is string => !!id);
+  if (analysisIds.length === 0) {
+    throw new ValidationError('No completed items to save');
+  }
+
+  const existing = await db
+    .select({ itemAnalysisId: collectionItems.itemAnalysisId })
+    .from(collectionItems)
+    .where(and(eq(collectionItems.userId, userId), inArray(collectionItems.itemAnalysisId, analysisIds)));
+
+  const existingIds = new Set(existing.map(e => e.itemAnalysisId));
+  const toSave = analysisIds.filter(id => !existingIds.has(id));
+
+  const limit = getEntitlements(tier).collectionItems;
+  if (limit !== null && toSave.length > 0) {
+    const room = limit - await countCollectionItems(userId);
+    if (toSave.length > room) {
+      throw new QuotaExceededError(
+        `Your plan allows ${limit} saved items and only ${Math.max(0, room)} slots are free. Select fewer items or upgrade.`
+      );
+    }
+  }
+
+  if (toSave.length > 0) {
+    const saved = await db.insert(collectionItems).values(toSave.map(itemAnalysisId => ({
+      userId,
+      itemAnalysisId,
+      location: options.location || null,
+    }))).returning();
+
+    const analyses = await db
+      .select(analysisSummaryColumns)
+      .from(itemAnalyses)
+      .where(inArray(itemAnalyses.id, toSave));
+    const analysisById = new Map(analyses.map(a => [a.id, a]));
+
+    await recordInitialSnapshots(saved.flatMap(item => {
+      const analysis = analysisById.get(item.itemAnalysisId);
+      return analysis ? [{ item, analysis }] : [];
+    }));
+  }
+
+  return { saved: toSave.length, alreadySaved: existingIds.size };
+}
+
+export function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // Labels and model output are untrusted - keep spreadsheets from running them as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per item, suitable for a dealer's inventory spreadsheet
+ */
+export async function exportBatchCsv(jobId: string, userId: string): Promise<{ filename: string; csv: string }> {
+  const job = await getOwnedJob(jobId, userId);
+  const items = await loadItems(jobId);
+
+  const header = [
+    'Lot', 'Label', 'Status', 'Name', 'Maker', 'Era', 'Category', 'Domain',
+    'Confidence', 'Value Min (USD)', 'Value Max (USD)', 'Analysis ID', 'Error',
+  ];
+
+  const rows = items.map(item => [
+    item.position,
+    item.label,
+    item.status,
+    item.analysis?.name,
+    item.analysis?.maker,
+    item.analysis?.era,
+    item.analysis?.productCategory,
+    item.analysis?.domainExpert,
+    item.analysis ? Math.round(item.analysis.confidence * 100) + '%' : null,
+    item.analysis?.estimatedValueMin,
+    item.analysis?.estimatedValueMax,
+    item.analysis?.id,
+    item.status === 'failed' ? item.lastError : null,
+  ]);
+
+  const csv = [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+  const slug = (job.name || 'batch').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'batch';
+
+  return { filename: `${slug}-${job.id.slice(0, 8)}.csv`, csv };
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+let workerTimer: NodeJS.Timeout | null = null;
+let recoveryTimer: NodeJS.Timeout | null = null;
+let inFlight = 0;
+let pumping = false;
+
+function concurrency(): number {
+  return Math.max(1, parseInt(env.BATCH_CONCURRENCY, 10) || 1);
+}
+
+function activeJobIds() {
+  return db
+    .select({ id: batchJobs.id })
+    .from(batchJobs)
+    .where(inArray(batchJobs.status, ACTIVE_JOB_STATUSES));
+}
+
+/**
+ * Claim up to `count` due items. SKIP LOCKED lets several API processes share
+ * the queue without double-processing.
+ */
+async function claimItems(count: number): Promise<BatchJobItem[]> {
+  const due = db
+    .select({ id: batchJobItems.id })
+    .from(batchJobItems)
+    .where(and(
+      eq(batchJobItems.status, 'pending'),
+      lte(batchJobItems.nextAttemptAt, new Date()),
+      lt(batchJobItems.attempts, MAX_ATTEMPTS),
+      inArray(batchJobItems.jobId, activeJobIds())
+    ))
+    .orderBy(asc(batchJobItems.nextAttemptAt), asc(batchJobItems.position))
+    .limit(count)
+    .for('update', { skipLocked: true });
+
+  return db
+    .update(batchJobItems)
+    .set({
+      status: 'processing',
+      attempts: sql`${batchJobItems.attempts} + 1`,
+      startedAt: new Date(),
+    })
+    .where(inArray(batchJobItems.id, due))
+    .returning();
+}
+
+async function pump(): Promise<void> {
+  if (pumping) return;
+  pumping = true;
+
+  try {
+    const slots = concurrency() - inFlight;
+    if (slots <= 0) return;
+
+    const claimed = await claimItems(slots);
+    for (const item of claimed) {
+      inFlight++;
+      processItem(item)
+        .catch(error => console.error(`❌ Batch item ${item.id} crashed:`, error))
+        .finally(() => {
+          inFlight--;
+          void pump();
+        });
+    }
+  } catch (error) {
+    console.error('❌ Batch worker poll failed:', error);
+  } finally {
+    pumping = false;
+  }
+}
+
+/**
+ * The item is still ours - the stale sweep hasn't handed it to another attempt
+ */
+function stillClaimed(item: BatchJobItem) {
+  return and(
+    eq(batchJobItems.id, item.id),
+    eq(batchJobItems.status, 'processing'),
+    eq(batchJobItems.attempts, item.attempts)
+  );
+}
+
+/**
+ * Cancel an item whose job was cancelled while it ran, and refund it
+ */
+async function cancelClaimedItem(item: BatchJobItem, userId: string, message: string): Promise<void> {
+  const [cancelled] = await db
+    .update(batchJobItems)
+    .set({ status: 'cancelled', lastError: message, completedAt: new Date() })
+    .where(stillClaimed(item))
+    .returning();
+
+  if (cancelled) {
+    await refundUsage(userId, 'analyses');
+    publish(item.jobId, { type: 'item', item: toItemView(cancelled, null) });
+  }
+}
+
+async function processItem(item: BatchJobItem): Promise<void> {
+  const [job] = await db.select().from(batchJobs).where(eq(batchJobs.id, item.jobId)).limit(1);
+  if (!job) return;
+
+  if (job.status === 'queued') {
+    await db
+      .update(batchJobs)
+      .set({ status: 'running', startedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(batchJobs.id, job.id), eq(batchJobs.status, 'queued')));
+    await publishJob(job.id);
+  }
+  publish(job.id, { type: 'item', item: toItemView(item, null) });
+
+  try {
+    const { buffer, contentType, metadata } = await getImageBuffer(item.imageKey);
+    const dataUrl = `data:${contentType};base64,${buffer.toString('base64')}`;
+
+    // Model usage is charged to the job owner at their current plan
+    const [owner] = await db.select({ tier: users.subscriptionTier }).from(users).where(eq(users.id, job.userId)).limit(1);
+    const usageContext = createUsageContext({ userId: job.userId, tier: owner?.tier });
+
+    const result = await withUsageContext(usageContext, () => analyzeAntiqueImage(dataUrl));
+    const { savedAnalysis } = await saveAnalysis(result, {
+      userId: job.userId,
+      imageKey: item.imageKey,
+      image: fromStorageMetadata(metadata),
+    });
+    await attachUsageToAnalysis(usageContext, savedAnalysis.id, result.domainExpert);
+
+    const [updated] = await db
+      .update(batchJobItems)
+      .set({ status: 'completed', itemAnalysisId: savedAnalysis.id, lastError: null, completedAt: new Date() })
+      .where(stillClaimed(item))
+      .returning();
+
+    if (!updated) {
+      console.warn(`⚠️ Batch ${job.id} item #${item.position} was re-queued while running; keeping the newer attempt`);
+      return;
+    }
+
+    await db
+      .update(batchJobs)
+      .set({ completedItems: sql`${batchJobs.completedItems} + 1`, updatedAt: new Date() })
+      .where(eq(batchJobs.id, job.id));
+
+    console.log(`✅ Batch ${job.id} item #${item.position}: ${savedAnalysis.name}`);
+    publish(job.id, {
+      type: 'item',
+      item: toItemView(updated, {
+        id: savedAnalysis.id,
+        name: savedAnalysis.name,
+        maker: savedAnalysis.maker,
+        era: savedAnalysis.era,
+        productCategory: savedAnalysis.productCategory,
+        domainExpert: savedAnalysis.domainExpert,
+        confidence: savedAnalysis.confidence,
+        estimatedValueMin: savedAnalysis.estimatedValueMin,
+        estimatedValueMax: savedAnalysis.estimatedValueMax,
+      }),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Analysis failed';
+    // Bad images won't get better on retry
+    const retry = !(error instanceof ValidationError) && item.attempts < MAX_ATTEMPTS;
+
+    // Only re-queued while the job is still active - see cancelBatchJob
+    const [updated] = await db
+      .update(batchJobItems)
+      .set(retry
+        ? { status: 'pending', lastError: message, nextAttemptAt: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (item.attempts - 1)) }
+        : { status: 'failed', lastError: message, completedAt: new Date() })
+      .where(retry ? and(stillClaimed(item), inArray(batchJobItems.jobId, activeJobIds())) : stillClaimed(item))
+      .returning();
+
+    if (!updated) {
+      if (retry) await cancelClaimedItem(item, job.userId, message);
+      return;
+    }
+
+    if (retry) {
+      console.warn(`⚠️ Batch ${job.id} item #${item.position} failed (attempt ${item.attempts}/${MAX_ATTEMPTS}), retrying: ${message}`);
+    } else {
+      console.error(`❌ Batch ${job.id} item #${item.position} failed: ${message}`);
+      await db
+        .update(batchJobs)
+        .set({ failedItems: sql`${batchJobs.failedItems} + 1`, updatedAt: new Date() })
+        .where(eq(batchJobs.id, job.id));
+      await refundUsage(job.userId, 'analyses');
+    }
+
+    publish(job.id, { type: 'item', item: toItemView(updated, null) });
+  }
+
+  await completeJobIfDone(job.id);
+}
+
+async function completeJobIfDone(jobId: string): Promise<void> {
+  await db
+    .update(batchJobs)
+    .set({ status: 'completed', finishedAt: new Date(), updatedAt: new Date() })
+    .where(and(
+      eq(batchJobs.id, jobId),
+      eq(batchJobs.status, 'running'),
+      sql`NOT EXISTS (
+        SELECT 1 FROM ${batchJobItems}
+        WHERE ${batchJobItems.jobId} = ${jobId}
+          AND ${batchJobItems.status} IN ('pending', 'processing')
+      )`
+    ));
+
+  const job = await publishJob(jobId);
+  if (job?.status === 'completed') {
+    console.log(`📦 Batch job ${jobId} finished: ${job.completedItems} analyzed, ${job.failedItems} failed`);
+  }
+}
+
+/**
+ * Refund the quota of items the worker gave up on to each job's owner. Failed
+ * items are also counted on their jobs; cancelled ones belong to jobs that
+ * are already finished.
+ */
+async function settleItems(items: BatchJobItem[], outcome: 'failed' | 'cancelled'): Promise<void> {
+  const perJob = new Map<string, number>();
+  for (const item of items) {
+    perJob.set(item.jobId, (perJob.get(item.jobId) ?? 0) + 1);
+  }
+  if (perJob.size === 0) return;
+
+  const jobs = await db
+    .select({ id: batchJobs.id, userId: batchJobs.userId })
+    .from(batchJobs)
+    .where(inArray(batchJobs.id, [...perJob.keys()]));
+
+  for (const item of items) {
+    publish(item.jobId, { type: 'item', item: toItemView(item, null) });
+  }
+
+  for (const job of jobs) {
+    const count = perJob.get(job.id)!;
+    if (outcome === 'failed') {
+      await db
+        .update(batchJobs)
+        .set({ failedItems: sql`${batchJobs.failedItems} + ${count}`, updatedAt: new Date() })
+        .where(eq(batchJobs.id, job.id));
+    }
+    await refundUsage(job.userId, 'analyses', count);
+    if (outcome === 'failed') {
+      await completeJobIfDone(job.id);
+    }
+  }
+}
+
+/**
+ * Re-queue items orphaned mid-analysis by a crash or restart. Runs on start
+ * and then every minute, so items lost by another process that died are
+ * picked up without waiting for a restart. Items already out of attempts are
+ * failed instead - one that crashes or hangs the worker isn't retried (and
+ * charged for) forever - and items of cancelled jobs are cancelled.
+ */
+async function recoverStaleItems(): Promise<void> {
+  const stale = and(
+    eq(batchJobItems.status, 'processing'),
+    lt(batchJobItems.startedAt, new Date(Date.now() - STALE_PROCESSING_MS))
+  );
+
+  const exhausted = await db
+    .update(batchJobItems)
+    .set({ status: 'failed', lastError: 'Analysis did not finish', completedAt: new Date() })
+    .where(and(stale, gte(batchJobItems.attempts, MAX_ATTEMPTS)))
+    .returning();
+
+  if (exhausted.length > 0) {
+    console.warn(`⚠️ Failed ${exhausted.length} stale batch items with no attempts left`);
+    await settleItems(exhausted, 'failed');
+  }
+
+  // Stale or waiting items of jobs cancelled while they ran aren't re-queued
+  const orphaned = await db
+    .update(batchJobItems)
+    .set({ status: 'cancelled', completedAt: new Date() })
+    .where(and(
+      or(stale, eq(batchJobItems.status, 'pending')),
+      notInArray(batchJobItems.jobId, activeJobIds())
+    ))
+    .returning();
+
+  if (orphaned.length > 0) {
+    console.log(`🛑 Cancelled ${orphaned.length} batch items left over from cancelled jobs`);
+    await settleItems(orphaned, 'cancelled');
+  }
+
+  const recovered = await db
+    .update(batchJobItems)
+    .set({ status: 'pending', nextAttemptAt: new Date() })
+    .where(stale)
+    .returning({ id: batchJobItems.id });
+
+  if (recovered.length > 0) {
+    console.log(`♻️ Re-queued ${recovered.length} stale batch items`);
+  }
+}
+
+/**
+ * Check the queue now instead of waiting for the next poll
+ */
+export function wakeBatchWorker(): void {
+  if (workerTimer) {
+    void pump();
+  }
+}
+
+export async function startBatchWorker(): Promise<void> {
+  if (workerTimer) return;
+
+  await ensureEventSubscriber();
+  await recoverStaleItems();
+  workerTimer = setInterval(() => void pump(), POLL_INTERVAL_MS);
+  recoveryTimer = setInterval(() => {
+    recoverStaleItems().catch(error => console.error('❌ Batch stale item sweep failed:', error));
+  }, STALE_SWEEP_INTERVAL_MS);
+  console.log(`✅ Batch worker started (concurrency ${concurrency()})`);
+  void pump();
+}
+
+export function stopBatchWorker(): void {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+  if (recoveryTimer) {
+    clearInterval(recoveryTimer);
+    recoveryTimer = null;
+  }
+}
@@ -0,0 +1,471 @@
+/**
+ * Collection Valuation
+ * Value history for collection items and portfolio trends over time
+ * October 2026
+ *
+ * Every saved item gets a snapshot of its analysis estimate. Snapshots older
+ * than VALUATION_STALE_DAYS are re-appraised - from sold comparables when
+ * getMarketIntelligence finds real sales, otherwise the analysis estimate is
+ * carried forward and labelled as such. Stale items are claimed before they
+ * are re-appraised, so several servers can run the scheduler. Time series are
+ * built by taking each item's latest snapshot at the end of every month.
+ */
+
+import { db } from '../db/client.js';
+import { collectionItems, itemAnalyses, valuationSnapshots } from '../db/schema.js';
+import type { CollectionItem, ItemAnalysis, ValuationSnapshot } from '../db/schema.js';
+import { and, asc, eq, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import { env } from '../config/env.js';
+import { NotFoundError } from '../middleware/error.js';
+import { getMarketIntelligence } from './marketData.js';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const SCHEDULER_INTERVAL_MS = 15 * 60 * 1000;
+const REAPPRAISAL_BATCH_SIZE = 25;
+const CLAIM_TTL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ValuationSource = 'analysis' | 'market' | 'expert';
+export type ValuationGroupBy = 'category' | 'era' | 'location';
+export type ValuationRange = '6m' | '1y' | 'all';
+
+function staleAfterMs(): number {
+  return Math.max(1, parseInt(env.VALUATION_STALE_DAYS, 10) || 30) * DAY_MS;
+}
+
+// ============================================================================
+// SNAPSHOTS
+// ============================================================================
+
+type SnapshotItem = Pick<CollectionItem, 'id' | 'userId'>;
+type SnapshotAnalysis = Pick<ItemAnalysis, 'estimatedValueMin' | 'estimatedValueMax' | 'confidence'>;
+
+function analysisValues(analysis: SnapshotAnalysis): { min: number; max: number } | null {
+  if (analysis.estimatedValueMin === null && analysis.estimatedValueMax === null) {
+    return null;
+  }
+  const min = analysis.estimatedValueMin ?? analysis.estimatedValueMax!;
+  const max = analysis.estimatedValueMax ?? min;
+  return { min: Math.min(min, max), max: Math.max(min, max) };
+}
+
+/**
+ * Record the analysis estimate as the first data point for newly saved items
+ */
+export async function recordInitialSnapshots(
+  entries: Array<{ item: SnapshotItem; analysis: SnapshotAnalysis }>
+): Promise<void> {
+  const rows = entries.flatMap(({ item, analysis }) => {
+    const values = analysisValues(analysis);
+    return values ? [{
+      collectionItemId: item.id,
+      userId: item.userId,
+      estimatedValueMin: values.min,
+      estimatedValueMax: values.max,
+      confidence: analysis.confidence,
+      source: 'analysis' as const,
+    }] : [];
+  });
+
+  if (rows.length > 0) {
+    await db.insert(valuationSnapshots).values(rows);
+  }
+}
+
+/**
+ * Record an expert's value correction for every collection item holding the analysis
+ */
+export async function recordExpertValuation(
+  itemAnalysisId: string,
+  value: { min: number; max: number },
+  confidence: number
+): Promise<void> {
+  const items = await db
+    .select({ id: collectionItems.id, userId: collectionItems.userId })
+    .from(collectionItems)
+    .where(eq(collectionItems.itemAnalysisId, itemAnalysisId));
+
+  if (items.length === 0) return;
+
+  await db.insert(valuationSnapshots).values(items.map(item => ({
+    collectionItemId: item.id,
+    userId: item.userId,
+    estimatedValueMin: Math.min(value.min, value.max),
+    estimatedValueMax: Math.max(value.min, value.max),
+    confidence,
+    source: 'expert' as const,
+  })));
+}
+
+/**
+ * Re-value one item from current market data
+ */
+async function appraise(item: SnapshotItem, analysis: ItemAnalysis): Promise<ValuationSnapshot | null> {
+  const market = await getMarketIntelligence(analysis.name, analysis.maker, analysis.era);
+
+  let values = analysisValues(analysis);
+  let source: ValuationSource = 'analysis';
+  let confidence = analysis.confidence;
+  let sampleSize: number | null = null;
+
+  if (market.dataProvenance === 'real' && market.priceRange.high > 0) {
+    values = { min: market.priceRange.low, max: market.priceRange.high };
+    source = 'market';
+    confidence = market.dataConfidence;
+    sampleSize = market.recentSales.length;
+  }
+
+  if (!values) {
+    return null;
+  }
+
+  const [snapshot] = await db
+    .insert(valuationSnapshots)
+    .values({
+      collectionItemId: item.id,
+      userId: item.userId,
+      estimatedValueMin: values.min,
+      estimatedValueMax: values.max,
+      confidence,
+      source,
+      sampleSize,
+    })
+    .returning();
+
+  return snapshot;
+}
+
+/**
+ * Re-appraise a collection item now
+ */
+export async function reappraiseCollectionItem(collectionItemId: string, userId: string): Promise<ValuationSnapshot> {
+  const [row] = await db
+    .select({ item: collectionItems, analysis: itemAnalyses })
+    .from(collectionItems)
+    .innerJoin(itemAnalyses, eq(collectionItems.itemAnalysisId, itemAnalyses.id))
+    .where(and(eq(collectionItems.id, collectionItemId), eq(collectionItems.userId, userId)))
+    .limit(1);
+
+  if (!row) {
+    throw new NotFoundError('Collection item not found');
+  }
+
+  const snapshot = await appraise(row.item, row.analysis);
+  if (!snapshot) {
+    throw new NotFoundError('This item has no value estimate to re-appraise');
+  }
+  return snapshot;
+}
+
+/**
+ * Claim collection items whose newest snapshot is older than the stale window
+ * (or missing). Claiming sets valuationClaimedUntil inside a SKIP LOCKED
+ * update, so schedulers in other processes pass over items already being
+ * re-appraised; a claim left by a failed appraisal lapses after an hour.
+ */
+async function claimStaleItems(options: { userId?: string; limit: number }) {
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - staleAfterMs());
+  const latest = sql<Date | null>`(
+    SELECT max(${valuationSnapshots.capturedAt}) FROM ${valuationSnapshots}
+    WHERE ${valuationSnapshots.collectionItemId} = ${collectionItems.id}
+  )`;
+
+  const due = db
+    .select({ id: collectionItems.id })
+    .from(collectionItems)
+    .innerJoin(itemAnalyses, eq(collectionItems.itemAnalysisId, itemAnalyses.id))
+    .where(and(
+      options.userId ? eq(collectionItems.userId, options.userId) : undefined,
+      // Items with no estimate can't be carried forward; skip them so they don't block the queue
+      sql`(${itemAnalyses.estimatedValueMin} IS NOT NULL OR ${itemAnalyses.estimatedValueMax} IS NOT NULL)`,
+      sql`coalesce(${latest}, ${collectionItems.savedAt}) < ${cutoff}`,
+      or(isNull(collectionItems.valuationClaimedUntil), lt(collectionItems.valuationClaimedUntil, now))
+    ))
+    .orderBy(asc(sql`coalesce(${latest}, ${collectionItems.savedAt})`))
+    .limit(options.limit)
+    .for('update', { of: collectionItems, skipLocked: true });
+
+  const claimed = await db
+    .update(collectionItems)
+    .set({ valuationClaimedUntil: new Date(now.getTime() + CLAIM_TTL_MS) })
+    .where(inArray(collectionItems.id, due))
+    .returning({ id: collectionItems.id });
+
+  if (claimed.length === 0) {
+    return [];
+  }
+
+  return db
+    .select({ item: collectionItems, analysis: itemAnalyses })
+    .from(collectionItems)
+    .innerJoin(itemAnalyses, eq(collectionItems.itemAnalysisId, itemAnalyses.id))
+    .where(inArray(collectionItems.id, claimed.map(row => row.id)));
+}
+
+/**
+ * Re-appraise stale items, optionally for one user only
+ */
+export async function reappraiseStaleItems(
+  options: { userId?: string; limit?: number } = {}
+): Promise<{ reappraised: number; failed: number }> {
+  const stale = await claimStaleItems({ userId: options.userId, limit: options.limit ?? REAPPRAISAL_BATCH_SIZE });
+  let reappraised = 0;
+  let failed = 0;
+
+  // Sequential - each appraisal queries marketplace APIs
+  for (const { item, analysis } of stale) {
+    try {
+      if (await appraise(item, analysis)) reappraised++;
+    } catch (error) {
+      failed++;
+      console.error(`❌ Re-appraisal failed for collection item ${item.id}:`, error);
+    }
+  }
+
+  if (stale.length > 0) {
+    console.log(`💰 Re-appraised ${reappraised}/${stale.length} stale collection items`);
+  }
+  return { reappraised, failed };
+}
+
+// ============================================================================
+// TIME SERIES
+// ============================================================================
+
+export interface ValuationPoint {
+  date: string; // End of month, YYYY-MM-DD
+  totalMin: number;
+  totalMax: number;
+  itemCount: number;
+}
+
+export interface ValuationGroup {
+  key: string;
+  points: ValuationPoint[];
+}
+
+export interface ValuationHistory {
+  range: ValuationRange;
+  groupBy: ValuationGroupBy;
+  points: ValuationPoint[];
+  groups: ValuationGroup[];
+  current: {
+    totalMin: number;
+    totalMax: number;
+    itemCount: number;
+    staleItems: number;
+    sources: Record<ValuationSource, number>; // Items by source of their latest valuation
+  };
+}
+
+interface ItemTimeline {
+  savedAt: Date;
+  groupKey: string;
+  fallback: { min: number; max: number } | null; // Analysis estimate for items saved before snapshots existed
+  snapshots: ValuationSnapshot[]; // Oldest first
+}
+
+function monthEnds(from: Date, to: Date): Date[] {
+  const ends: Date[] = [];
+  let year = from.getUTCFullYear();
+  let month = from.getUTCMonth();
+
+  while (true) {
+    const end = new Date(Date.UTC(year, month + 1, 0, 23, 59, 59, 999));
+    ends.push(end < to ? end : to);
+    if (end >= to) break;
+    month++;
+    if (month > 11) { month = 0; year++; }
+  }
+  return ends;
+}
+
+function valueAt(timeline: ItemTimeline, at: Date): { min: number; max: number; snapshot: ValuationSnapshot | null } | null {
+  if (timeline.savedAt > at) return null;
+
+  let latest: ValuationSnapshot | null = null;
+  for (const snapshot of timeline.snapshots) {
+    if (snapshot.capturedAt > at) break;
+    latest = snapshot;
+  }
+
+  if (latest) return { min: latest.estimatedValueMin, max: latest.estimatedValueMax, snapshot: latest };
+  return timeline.fallback ? { ...timeline.fallback, snapshot: null } : null;
+}
+
+function groupKey(groupBy: ValuationGroupBy, item: CollectionItem, analysis: ItemAnalysis): string {
+  switch (groupBy) {
+    case 'category': return analysis.productCategory || 'uncategorized';
+    case 'era': return analysis.era || 'Unknown era';
+    case 'location': return item.location || 'Unassigned';
+  }
+}
+
+/**
+ * Month-end portfolio value, overall and per group
+ */
+export async function getValuationHistory(
+  userId: string,
+  range: ValuationRange = '6m',
+  groupBy: ValuationGroupBy = 'category'
+): Promise<ValuationHistory> {
+  const rows = await db
+    .select({ item: collectionItems, analysis: itemAnalyses })
+    .from(collectionItems)
+    .innerJoin(itemAnalyses, eq(collectionItems.itemAnalysisId, itemAnalyses.id))
+    .where(eq(collectionItems.userId, userId));
+
+  const snapshots = rows.length === 0 ? [] : await db
+    .select()
+    .from(valuationSnapshots)
+    .where(inArray(valuationSnapshots.collectionItemId, rows.map(r => r.item.id)))
+    .orderBy(asc(valuationSnapshots.capturedAt));
+
+  const byItem = new Map<string, ValuationSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const list = byItem.get(snapshot.collectionItemId) ?? [];
+    list.push(snapshot);
+    byItem.set(snapshot.collectionItemId, list);
+  }
+
+  const timelines: ItemTimeline[] = rows.map(({ item, analysis }) => ({
+    savedAt: item.savedAt,
+    groupKey: groupKey(groupBy, item, analysis),
+    fallback: analysisValues(analysis),
+    snapshots: byItem.get(item.id) ?? [],
+  }));
+
+  const now = new Date();
+  const earliest = timelines.reduce((min, t) => t.savedAt < min ? t.savedAt : min, now);
+  const months = range === '6m' ? 6 : range === '1y' ? 12 : null;
+  const start = months === null
+    ? earliest
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1));
+  const dates = monthEnds(start, now);
+
+  const points: ValuationPoint[] = [];
+  const groupPoints = new Map<string, ValuationPoint[]>();
+
+  for (const date of dates) {
+    const label = date.toISOString().slice(0, 10);
+    const total: ValuationPoint = { date: label, totalMin: 0, totalMax: 0, itemCount: 0 };
+    const groups = new Map<string, ValuationPoint>();
+
+    for (const timeline of timelines) {
+      const value = valueAt(timeline, date);
+      if (!value) continue;
+
+      total.totalMin += value.min;
+      total.totalMax += value.max;
+      total.itemCount++;
+
+      const group = groups.get(timeline.groupKey) ?? { date: label, totalMin: 0, totalMax: 0, itemCount: 0 };
+      group.totalMin += value.min;
+      group.totalMax += value.max;
+      group.itemCount++;
+      groups.set(timeline.groupKey, group);
+    }
+
+    points.push(total);
+    for (const key of new Set([...groupPoints.keys(), ...groups.keys()])) {
+      const series = groupPoints.get(key) ?? dates.slice(0, points.length - 1).map(d => ({
+        date: d.toISOString().slice(0, 10), totalMin: 0, totalMax: 0, itemCount: 0,
+      }));
+      series.push(groups.get(key) ?? { date: label, totalMin: 0, totalMax: 0, itemCount: 0 });
+      groupPoints.set(key, series);
+    }
+  }
+
+  // Current totals and freshness
+  const cutoff = new Date(now.getTime() - staleAfterMs());
+  const sources: Record<ValuationSource, number> = { analysis: 0, market: 0, expert: 0 };
+  let staleItems = 0;
+  for (const timeline of timelines) {
+    const latest = timeline.snapshots[timeline.snapshots.length - 1];
+    if (latest) sources[latest.source as ValuationSource]++;
+    else if (timeline.fallback) sources.analysis++;
+    if ((latest?.capturedAt ?? timeline.savedAt) < cutoff) staleItems++;
+  }
+
+  const last = points[points.length - 1];
+  const groups = [...groupPoints.entries()]
+    .map(([key, series]) => ({ key, points: series }))
+    .sort((a, b) => {
+      const aLast = a.points[a.points.length - 1];
+      const bLast = b.points[b.points.length - 1];
+      return (bLast.totalMin + bLast.totalMax) - (aLast.totalMin + aLast.totalMax);
+    });
+
+  return {
+    range,
+    groupBy,
+    points,
+    groups,
+    current: {
+      totalMin: last?.totalMin ?? 0,
+      totalMax: last?.totalMax ?? 0,
+      itemCount: last?.itemCount ?? 0,
+      staleItems,
+      sources,
+    },
+  };
+}
+
+/**
+ * Snapshots for one item, newest first
+ */
+export async function getItemValuationHistory(collectionItemId: string, userId: string): Promise<ValuationSnapshot[]> {
+  const [item] = await db
+    .select({ id: collectionItems.id })
+    .from(collectionItems)
+    .where(and(eq(collectionItems.id, collectionItemId), eq(collectionItems.userId, userId)))
+    .limit(1);
+
+  if (!item) {
+    throw new NotFoundError('Collection item not found');
+  }
+
+  const snapshots = await db
+    .select()
+    .from(valuationSnapshots)
+    .where(eq(valuationSnapshots.collectionItemId, collectionItemId))
+    .orderBy(asc(valuationSnapshots.capturedAt));
+
+  return snapshots.reverse();
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function tick(): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    await reappraiseStaleItems();
+  } catch (error) {
+    console.error('❌ Valuation scheduler failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startValuationScheduler(): void {
+  if (schedulerTimer) return;
+  schedulerTimer = setInterval(() => void tick(), SCHEDULER_INTERVAL_MS);
+  console.log(`✅ Valuation scheduler started (re-appraises after ${env.VALUATION_STALE_DAYS} days)`);
+}
+
+export function stopValuationScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
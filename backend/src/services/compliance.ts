@@ -0,0 +1,372 @@
+/**
+ * Protected Materials Compliance
+ * Regulated-material detection, legal-sale rules and marketplace bans
+ * October 2026
+ *
+ * Analyses happily recommended eBay and Etsy for ivory netsuke and
+ * tortoiseshell boxes, which both platforms remove, and said nothing about
+ * the documentation a legal sale needs. Likely regulated materials are
+ * detected from the analysis text, then looked up in a rules table keyed by
+ * material, jurisdiction and the item's age. Words that only borrow a
+ * material's name ("ivory glaze", "faux tortoiseshell", "rosewood finish")
+ * don't count. Rules are summaries for sellers, not legal advice.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RegulatedMaterialId = 'ivory' | 'tortoiseshell' | 'rosewood' | 'whale' | 'rhino_horn';
+
+export type Jurisdiction = 'US' | 'UK' | 'EU';
+
+export type ComplianceStatus = 'prohibited' | 'requires_documentation';
+
+export interface ComplianceSubject {
+  name: string;
+  description?: string | null;
+  historicalContext?: string | null;
+  attributionNotes?: string | null;
+  style?: string | null;
+  periodStart?: number | null;
+  periodEnd?: number | null;
+}
+
+export interface MaterialDetection {
+  material: RegulatedMaterialId;
+  likelihood: 'likely' | 'possible';
+  evidence: string; // The sentence that named it
+}
+
+export interface ComplianceWarning {
+  material: RegulatedMaterialId;
+  materialName: string;
+  likelihood: 'likely' | 'possible';
+  evidence: string;
+  jurisdiction: Jurisdiction;
+  status: ComplianceStatus;
+  rule: string; // The law, in one sentence
+  documentation: string | null; // What a legal sale needs
+  prohibitedChannels: string[]; // Marketplaces whose policies ban it
+}
+
+export interface ComplianceAssessment {
+  jurisdiction: Jurisdiction;
+  warnings: ComplianceWarning[];
+  blockedChannels: string[]; // Marketplaces to drop from recommendations and links
+  saleProhibited: boolean; // A likely material can't be sold at all here
+}
+
+interface MaterialDefinition {
+  name: string;
+  pattern: RegExp; // The material itself
+  hints?: RegExp; // Object types usually made of it
+  notMaterial: RegExp; // Colours, finishes and substitutes that borrow the name
+}
+
+interface AgeRule {
+  before?: number; // Applies to items made before this year
+  minAge?: number; // Applies to items at least this old
+  status: ComplianceStatus;
+  rule: string;
+  documentation?: string;
+}
+
+// ============================================================================
+// MATERIALS
+// ============================================================================
+
+const MATERIALS: Record<RegulatedMaterialId, MaterialDefinition> = {
+  ivory: {
+    name: 'Elephant ivory',
+    pattern: /\bivory\b|\belephant tusk/,
+    hints: /\bnetsukes?\b|\bokimonos?\b|\btusks?\b/,
+    notMaterial: /\b(faux|imitation|simulated|french|vegetable|celluloid|plastic|resin|no|not)[\s-]+ivory\b|\bivorine\b|\bivory[\s-](colou?r(ed)?|glaze[d]?|ground|white|tones?|toned|finish|enamel|paint(ed)?|satin|silk|lace|linen|porcelain|dial|body|ware|slip)\b|\b(cream|off|warm)[\s-]ivory\b/g,
+  },
+  tortoiseshell: {
+    name: 'Tortoiseshell (hawksbill turtle)',
+    pattern: /\btortoise[\s-]?shell\b|\bhawksbill\b/,
+    notMaterial: /\b(faux|imitation|simulated|no|not)[\s-]+tortoise[\s-]?shell\b|\btortoise[\s-]?shell[\s-](effect|pattern(ed)?|colou?r(ed)?|glaze[d]?|ware|celluloid|plastic|acetate|bakelite|lucite|resin|finish|lacquer|cat)\b|\b(celluloid|plastic|acetate|bakelite|lucite|resin)[\s-]tortoise[\s-]?shell\b|\bwhieldon([\s-]type)?[\s-]tortoise[\s-]?shell\b/g,
+  },
+  rosewood: {
+    name: 'Brazilian rosewood',
+    pattern: /\bbrazilian rosewood\b|\bdalbergia nigra\b|\bjacaranda\b/,
+    hints: /\brosewood\b/, // Most rosewood isn't the Appendix I species
+    notMaterial: /\b(faux|simulated|no|not)[\s-]+rosewood\b|\brosewood[\s-](finish|stain(ed)?|grain(ed)?|effect|colou?r(ed)?|laminate)\b|\b(grained|stained)[\s-](to[\s-]resemble[\s-])?rosewood\b/g,
+  },
+  whale: {
+    name: 'Whale bone, baleen or teeth',
+    pattern: /\bwhale[\s-]?bone\b|\bbaleen\b|\bwhale(?:'s)? (teeth|tooth|ivory)\b|\bsperm whale\b/,
+    hints: /\bscrimshaw\b/,
+    notMaterial: /\b(faux|imitation|resin|no|not)[\s-]+(whale[\s-]?bone|scrimshaw|baleen)\b/g,
+  },
+  rhino_horn: {
+    name: 'Rhinoceros horn',
+    pattern: /\brhino(ceros)?[\s-]horn\b/,
+    hints: /\blibation cups?\b/,
+    notMaterial: /\b(faux|imitation|simulated|resin|buffalo horn rather than|no|not)[\s-]+rhino(ceros)?[\s-]horn\b/g,
+  },
+};
+
+// Wording that makes the material a guess rather than an identification
+const HEDGES = /\b(possibly|possible|probably|perhaps|may be|might be|could be|appears? to be|resembl\w*|consistent with|or bone|bone or|if genuine|unconfirmed|suspected)\b/;
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+// Rules per material and jurisdiction, first matching age wins; the last rule
+// has no age condition and applies when the item is newer or its age unknown
+const RULES: Record<RegulatedMaterialId, Record<Jurisdiction, AgeRule[]>> = {
+  ivory: {
+    US: [
+      {
+        minAge: 100, status: 'requires_documentation',
+        rule: 'The Endangered Species Act allows commercial sale of antique ivory (at least 100 years old) only.',
+        documentation: 'Proof of age such as an appraisal or provenance, and that no ivory was added after 1973. California, New York, New Jersey and other states ban sales outright.',
+      },
+      { status: 'prohibited', rule: 'Commercial sale of elephant ivory is banned in the US apart from antiques and small de minimis items.' },
+    ],
+    UK: [
+      {
+        before: 1947, status: 'requires_documentation',
+        rule: 'The Ivory Act 2018 bans dealing in ivory except exempt items, such as pre-1947 items with under 10% ivory.',
+        documentation: 'Registration with the Animal and Plant Health Agency, or an exemption certificate for pre-1918 items of outstanding value, before listing.',
+      },
+      { status: 'prohibited', rule: 'The Ivory Act 2018 bans dealing in ivory items made after 1947, apart from some musical instruments made before 1975.' },
+    ],
+    EU: [
+      {
+        before: 1947, status: 'requires_documentation',
+        rule: 'EU wildlife trade rules allow sale of worked ivory from before 1947 with a certificate.',
+        documentation: 'An Article 10 certificate from the national CITES authority.',
+      },
+      { status: 'prohibited', rule: 'EU rules ban commercial trade in ivory worked after 1947, apart from some musical instruments made before 1975.' },
+    ],
+  },
+  tortoiseshell: {
+    US: [
+      {
+        minAge: 100, status: 'requires_documentation',
+        rule: 'Hawksbill turtle is protected under the Endangered Species Act, with an exemption for antiques at least 100 years old.',
+        documentation: 'Proof the item is at least 100 years old.',
+      },
+      { status: 'prohibited', rule: 'Commercial sale of hawksbill tortoiseshell under 100 years old is banned in the US.' },
+    ],
+    UK: [
+      {
+        before: 1947, status: 'requires_documentation',
+        rule: 'Worked tortoiseshell from before 1947 can be sold without a CITES certificate.',
+        documentation: 'Evidence the item was made before 1947.',
+      },
+      { status: 'prohibited', rule: 'Tortoiseshell worked after 1947 can only be sold with an Article 10 certificate, which is rarely granted.' },
+    ],
+    EU: [
+      {
+        before: 1947, status: 'requires_documentation',
+        rule: 'Worked tortoiseshell from before 1947 is exempt from EU certificate requirements.',
+        documentation: 'Evidence the item was made before 1947.',
+      },
+      { status: 'prohibited', rule: 'Tortoiseshell worked after 1947 can only be sold with an Article 10 certificate, which is rarely granted.' },
+    ],
+  },
+  rosewood: {
+    US: [
+      {
+        before: 1992, status: 'requires_documentation',
+        rule: 'Brazilian rosewood has been listed on CITES Appendix I since 1992.',
+        documentation: 'Proof the wood predates the 1992 listing. Shipping abroad needs a CITES pre-Convention certificate.',
+      },
+      { status: 'prohibited', rule: 'Brazilian rosewood harvested after 1992 cannot be traded commercially.' },
+    ],
+    UK: [
+      {
+        before: 1947, status: 'requires_documentation',
+        rule: 'Worked Brazilian rosewood from before 1947 can be sold without a certificate.',
+        documentation: 'Evidence the item was made before 1947. Later items need an Article 10 certificate.',
+      },
+      { status: 'prohibited', rule: 'Brazilian rosewood worked after 1947 can only be sold with an Article 10 certificate.' },
+    ],
+    EU: [
+      {
+        before: 1947, status: 'requires_documentation',
+        rule: 'Worked Brazilian rosewood from before 1947 is exempt from EU certificate requirements.',
+        documentation: 'Evidence the item was made before 1947. Later items need an Article 10 certificate.',
+      },
+      { status: 'prohibited', rule: 'Brazilian rosewood worked after 1947 can only be sold with an Article 10 certificate.' },
+    ],
+  },
+  whale: {
+    US: [
+      {
+        before: 1973, status: 'requires_documentation',
+        rule: 'The Marine Mammal Protection Act allows sale of whale products made before December 1972 only.',
+        documentation: 'Proof the item predates 1973. Sperm whale teeth also fall under the Endangered Species Act, and some states ban sales.',
+      },
+      { status: 'prohibited', rule: 'Whale products made after 1972 cannot be sold in the US.' },
+    ],
+    UK: [
+      {
+        before: 1947, status: 'requires_documentation',
+        rule: 'Worked whale products from before 1947 can be sold without a certificate.',
+        documentation: 'Evidence the item was made before 1947.',
+      },
+      { status: 'prohibited', rule: 'Whale products worked after 1947 need an Article 10 certificate to be sold.' },
+    ],
+    EU: [
+      {
+        before: 1947, status: 'requires_documentation',
+        rule: 'Worked whale products from before 1947 are exempt from EU certificate requirements.',
+        documentation: 'Evidence the item was made before 1947.',
+      },
+      { status: 'prohibited', rule: 'Whale products worked after 1947 need an Article 10 certificate to be sold.' },
+    ],
+  },
+  rhino_horn: {
+    US: [
+      {
+        minAge: 100, status: 'requires_documentation',
+        rule: 'The Endangered Species Act antique exemption covers rhino horn at least 100 years old, but many states ban its sale.',
+        documentation: 'Proof of age and a specialist appraisal. Check state law before listing.',
+      },
+      { status: 'prohibited', rule: 'Commercial sale of rhino horn is banned in the US.' },
+    ],
+    UK: [
+      {
+        before: 1947, status: 'requires_documentation',
+        rule: 'Rhino horn of any age needs an Article 10 certificate to be sold in the UK.',
+        documentation: 'An Article 10 certificate from the Animal and Plant Health Agency.',
+      },
+      { status: 'prohibited', rule: 'Rhino horn worked after 1947 cannot be sold in the UK.' },
+    ],
+    EU: [
+      {
+        before: 1947, status: 'requires_documentation',
+        rule: 'EU guidance requires an Article 10 certificate to sell rhino horn of any age.',
+        documentation: 'An Article 10 certificate from the national CITES authority.',
+      },
+      { status: 'prohibited', rule: 'Rhino horn worked after 1947 cannot be sold in the EU.' },
+    ],
+  },
+};
+
+// Marketplace policies, matched against resale channel names and link names
+const CHANNEL_POLICIES: Array<{ channel: string; match: RegExp; prohibits: RegulatedMaterialId[] }> = [
+  { channel: 'eBay', match: /\bebay\b/i, prohibits: ['ivory', 'tortoiseshell', 'whale', 'rhino_horn'] },
+  { channel: 'Etsy', match: /\betsy\b/i, prohibits: ['ivory', 'tortoiseshell', 'whale', 'rhino_horn'] },
+  { channel: 'Facebook Marketplace', match: /\bfacebook\b/i, prohibits: ['ivory', 'tortoiseshell', 'whale', 'rhino_horn'] },
+  { channel: 'Chairish', match: /\bchairish\b/i, prohibits: ['ivory', 'tortoiseshell', 'rhino_horn'] },
+  { channel: '1stDibs', match: /\b1st ?dibs\b/i, prohibits: ['ivory', 'rhino_horn'] },
+  { channel: 'Ruby Lane', match: /\bruby ?lane\b/i, prohibits: ['ivory', 'rhino_horn'] },
+];
+
+export const DEFAULT_JURISDICTION: Jurisdiction = 'US';
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Regulated materials named in the analysis text, one detection per material
+ */
+export function detectRegulatedMaterials(subject: ComplianceSubject): MaterialDetection[] {
+  const text = [subject.name, subject.description, subject.style, subject.attributionNotes, subject.historicalContext]
+    .filter(Boolean)
+    .join('. ')
+    .replace(/[’`]/g, "'");
+  const sentences = text.split(/(?<=[.;!?])\s+|\n+/).filter(s => s.trim());
+  const detections: MaterialDetection[] = [];
+
+  for (const [id, material] of Object.entries(MATERIALS) as Array<[RegulatedMaterialId, MaterialDefinition]>) {
+    let best: MaterialDetection | null = null;
+
+    for (const sentence of sentences) {
+      const cleaned = sentence.toLowerCase().replace(material.notMaterial, ' ');
+      const named = material.pattern.test(cleaned);
+      if (!named && !material.hints?.test(cleaned)) continue;
+
+      const likelihood = named && !HEDGES.test(cleaned) ? 'likely' : 'possible';
+      if (!best || (likelihood === 'likely' && best.likelihood === 'possible')) {
+        best = { material: id, likelihood, evidence: sentence.trim().slice(0, 200) };
+      }
+    }
+
+    if (best) detections.push(best);
+  }
+
+  return detections;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function ruleFor(material: RegulatedMaterialId, jurisdiction: Jurisdiction, madeBy: number | null): AgeRule {
+  const rules = RULES[material][jurisdiction];
+  const currentYear = new Date().getFullYear();
+
+  const match = madeBy === null ? undefined : rules.find(rule =>
+    (rule.before !== undefined && madeBy < rule.before) ||
+    (rule.minAge !== undefined && currentYear - madeBy >= rule.minAge)
+  );
+  return match ?? rules[rules.length - 1];
+}
+
+/**
+ * Warnings for every regulated material the analysis names, and the
+ * marketplaces that can't take the item
+ */
+export function evaluateCompliance(
+  subject: ComplianceSubject,
+  jurisdiction: Jurisdiction = DEFAULT_JURISDICTION
+): ComplianceAssessment {
+  // The latest possible year decides - a piece is only as old as it can be proven to be
+  const madeBy = subject.periodEnd ?? subject.periodStart ?? null;
+  const warnings: ComplianceWarning[] = [];
+  const blocked = new Set<string>();
+  let saleProhibited = false;
+
+  for (const detection of detectRegulatedMaterials(subject)) {
+    const rule = ruleFor(detection.material, jurisdiction, madeBy);
+    const prohibitedChannels = CHANNEL_POLICIES
+      .filter(p => p.prohibits.includes(detection.material))
+      .map(p => p.channel);
+
+    // Guesses are warned about but don't remove selling options
+    if (detection.likelihood === 'likely') {
+      prohibitedChannels.forEach(channel => blocked.add(channel));
+      if (rule.status === 'prohibited') saleProhibited = true;
+    }
+
+    warnings.push({
+      material: detection.material,
+      materialName: MATERIALS[detection.material].name,
+      likelihood: detection.likelihood,
+      evidence: detection.evidence,
+      jurisdiction,
+      status: rule.status,
+      rule: rule.rule,
+      documentation: rule.documentation ?? null,
+      prohibitedChannels,
+    });
+  }
+
+  return {
+    jurisdiction,
+    warnings,
+    blockedChannels: Array.from(blocked),
+    saleProhibited,
+  };
+}
+
+/**
+ * Whether a resale channel or marketplace can take the item
+ */
+export function isChannelAllowed(channel: string, assessment: ComplianceAssessment): boolean {
+  if (assessment.saleProhibited) return false;
+  return !CHANNEL_POLICIES.some(p => assessment.blockedChannels.includes(p.channel) && p.match.test(channel));
+}
+
+export function filterResaleChannels(channels: string[], assessment: ComplianceAssessment): string[] {
+  return channels.filter(channel => isChannelAllowed(channel, assessment));
+}
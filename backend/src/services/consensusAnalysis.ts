@@ -2,8 +2,6 @@
 // VintageVision - World-Leading Antique AI as of January 2026
 // Implements intelligent re-analysis only when needed to optimize cost and accuracy
 
-import OpenAI from 'openai';
-import { env } from '../config/env.js';
 import {
   analyzeAntiqueImage,
   type CapturedImage,
@@ -12,6 +10,8 @@ import {
   type AnalysisEventEmitter,
   type AuthenticityRisk,
 } from './openai.js';
+import { getVisionProvider, VisionImage } from './visionProvider.js';
+import { recordModelUsage } from './usageLedger.js';
 
 // Domain experts list for type checking
 const DOMAIN_EXPERTS: DomainExpert[] = [
@@ -20,11 +20,6 @@ const DOMAIN_EXPERTS: DomainExpert[] = [
   'electronics', 'vehicles', 'general'
 ];
 
-// Initialize OpenAI for reasoning model calls
-const openai = new OpenAI({
-  apiKey: env.OPENAI_API_KEY,
-});
-
 // ============================================================================
 // CONFIGURATION - Consensus Triggers & Thresholds
 // ============================================================================
@@ -344,21 +339,15 @@ async function reasoningSynthesis(
   }));
 
   // Get first image for context (reasoning models support vision)
-  const imageContent = images[0]?.dataUrl ? [{
-    type: 'image_url' as const,
-    image_url: { url: images[0].dataUrl, detail: 'high' as const },
-  }] : [];
+  const imageContent: VisionImage[] = images[0]?.dataUrl ? [{ url: images[0].dataUrl, detail: 'high' }] : [];
 
   try {
-    const response = await openai.chat.completions.create({
+    const response = await getVisionProvider().synthesizeReasoning({
       model: config.reasoningModel,
       messages: [
         {
           role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: `You are a world-class antique appraiser synthesizing multiple AI analyses of the same item. Your job is to determine the most accurate identification and valuation.
+          text: `You are a world-class antique appraiser synthesizing multiple AI analyses of the same item. Your job is to determine the most accurate identification and valuation.
 
 MULTIPLE ANALYSIS RESULTS:
 ${JSON.stringify(analysisSummaries, null, 2)}
@@ -382,16 +371,14 @@ RESPOND IN JSON:
   "recommendExpert": boolean,
   "expertReason": "If recommending expert, explain why"
 }`,
-            },
-            ...imageContent,
-          ],
+          images: imageContent,
         },
       ],
-      // Note: o1 models use max_completion_tokens instead of max_tokens
-      max_completion_tokens: 2000,
+      maxTokens: 2000,
     });
+    await recordModelUsage('reasoning_synthesis', response);
 
-    const content = response.choices[0]?.message?.content;
+    const content = response.content;
     if (!content) {
       console.log('⚠️ No reasoning synthesis response, falling back to merge');
       return mergeResults(runs).finalResult;
@@ -0,0 +1,199 @@
+/**
+ * Duplicate Analyses
+ * Finds earlier analyses of the same piece from perceptual image hashes
+ * October 2026
+ *
+ * Pickers re-upload photos and re-shoot pieces from a slightly different
+ * angle, and every upload pays for triage, deep analysis and maybe three
+ * consensus runs. A near-duplicate is one of the viewer's own analyses whose
+ * image is within a few bits of the upload, so the app can say "you analyzed
+ * this on <date>" before running again. Other people's analyses count only
+ * when public and the pHash is identical - a lookup the global pHash index
+ * answers without scanning. A byte-for-byte repeat (same content hash, and so
+ * the same perceptual hashes) made with the same request options can reuse the
+ * earlier result outright.
+ */
+
+import { db } from '../db/client.js';
+import { itemAnalyses } from '../db/schema.js';
+import type { ItemAnalysis as ItemAnalysisRecord } from '../db/schema.js';
+import { and, desc, eq, isNotNull, isNull, lte, ne, or, sql, SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import { hammingDistance, ImageHashes } from './perceptualHash.js';
+import type { UploadHashes } from './imageIngestion.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DuplicateAnalysis {
+  analysisId: string;
+  name: string;
+  analyzedAt: Date;
+  imageUrl: string; // Proxy URL
+  distance: number; // pHash bits that differ
+  exact: boolean; // Both hashes identical - the same photo
+  own: boolean; // The viewer's analysis rather than a public one
+  message: string;
+}
+
+// The request options that shape a result - a reused result must match them all
+export interface AnalysisRequestOptions {
+  askingPrice?: number;
+  additionalContext?: string;
+  consensusMode: 'auto' | 'always' | 'never';
+  forceMultiRun?: boolean;
+  useReasoningModel?: boolean;
+}
+
+export interface HashComparison {
+  distance: number;
+  differenceDistance: number;
+  exact: boolean;
+  near: boolean;
+}
+
+type DuplicateCandidate = Pick<ItemAnalysisRecord, 'id' | 'userId' | 'name' | 'createdAt' | 'imageUrl' | 'imagePhash' | 'imageDhash'>;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Re-encodes and resizes stay within a few bits; unrelated photos sit near 32
+const NEAR_PHASH_DISTANCE = 10;
+const NEAR_DHASH_DISTANCE = 10;
+
+const MAX_OWN_DUPLICATES = 5;
+const MAX_PUBLIC_DUPLICATES = 3;
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+export function compareImageHashes(a: ImageHashes, b: ImageHashes): HashComparison {
+  const distance = hammingDistance(a.perceptualHash, b.perceptualHash);
+  const differenceDistance = hammingDistance(a.differenceHash, b.differenceHash);
+  return {
+    distance,
+    differenceDistance,
+    exact: distance === 0 && differenceDistance === 0,
+    near: distance <= NEAR_PHASH_DISTANCE || differenceDistance <= NEAR_DHASH_DISTANCE,
+  };
+}
+
+export function duplicateMessage(own: boolean, analyzedAt: Date): string {
+  const date = analyzedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+  return own ? `You analyzed this on ${date}` : `A public analysis of this photo was made on ${date}`;
+}
+
+/**
+ * Canonical form of the options a result was produced with. Multi-run
+ * settings only matter when consensus can run.
+ */
+export function analysisOptionsKey(options: AnalysisRequestOptions): string {
+  const multiRun = options.consensusMode !== 'never';
+  return JSON.stringify({
+    askingPrice: options.askingPrice ?? null,
+    context: options.additionalContext?.trim() || null,
+    consensus: options.consensusMode,
+    forceMultiRun: multiRun && !!options.forceMultiRun,
+    reasoning: multiRun && !!options.useReasoningModel,
+  });
+}
+
+// Hashes are 16 hex digits, so they cast straight to bit(64)
+function hashDistance(column: AnyPgColumn, hash: string): SQL<number> {
+  return sql<number>`bit_count(('x' || ${column})::bit(64) # ('x' || ${hash})::bit(64))`.mapWith(Number);
+}
+
+function toDuplicate(candidate: DuplicateCandidate, hashes: ImageHashes, userId: string | null): DuplicateAnalysis | null {
+  if (!candidate.imagePhash || !candidate.imageDhash) return null;
+
+  const comparison = compareImageHashes(hashes, { perceptualHash: candidate.imagePhash, differenceHash: candidate.imageDhash });
+  const own = !!userId && candidate.userId === userId;
+  return {
+    analysisId: candidate.id,
+    name: candidate.name,
+    analyzedAt: candidate.createdAt,
+    imageUrl: `/api/${candidate.imageUrl}`,
+    distance: comparison.distance,
+    exact: comparison.exact,
+    own,
+    message: duplicateMessage(own, candidate.createdAt),
+  };
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+const candidateColumns = {
+  id: itemAnalyses.id,
+  userId: itemAnalyses.userId,
+  name: itemAnalyses.name,
+  createdAt: itemAnalyses.createdAt,
+  imageUrl: itemAnalyses.imageUrl,
+  imagePhash: itemAnalyses.imagePhash,
+  imageDhash: itemAnalyses.imageDhash,
+};
+
+/**
+ * Earlier analyses that look like this image - the viewer's own near
+ * matches first, closest first, then identical public ones
+ */
+export async function findDuplicateAnalyses(hashes: ImageHashes, userId: string | null): Promise<DuplicateAnalysis[]> {
+  const own: DuplicateCandidate[] = userId
+    ? await db
+      .select(candidateColumns)
+      .from(itemAnalyses)
+      .where(and(
+        eq(itemAnalyses.userId, userId),
+        isNotNull(itemAnalyses.imagePhash),
+        or(
+          lte(hashDistance(itemAnalyses.imagePhash, hashes.perceptualHash), NEAR_PHASH_DISTANCE),
+          lte(hashDistance(itemAnalyses.imageDhash, hashes.differenceHash), NEAR_DHASH_DISTANCE)
+        )
+      ))
+      .orderBy(hashDistance(itemAnalyses.imagePhash, hashes.perceptualHash), desc(itemAnalyses.createdAt))
+      .limit(MAX_OWN_DUPLICATES)
+    : [];
+
+  const shared: DuplicateCandidate[] = await db
+    .select(candidateColumns)
+    .from(itemAnalyses)
+    .where(and(
+      eq(itemAnalyses.imagePhash, hashes.perceptualHash),
+      eq(itemAnalyses.visibility, 'public'),
+      userId ? or(isNull(itemAnalyses.userId), ne(itemAnalyses.userId, userId)) : undefined
+    ))
+    .orderBy(desc(itemAnalyses.createdAt))
+    .limit(MAX_PUBLIC_DUPLICATES);
+
+  return [...own, ...shared].flatMap(candidate => toDuplicate(candidate, hashes, userId) ?? []);
+}
+
+/**
+ * The viewer's latest analysis of exactly this file made with the same
+ * options, if any. Perceptual hashes alone can collide for a different photo.
+ */
+export async function findReusableAnalysis(
+  hashes: UploadHashes,
+  userId: string,
+  optionsKey: string
+): Promise<{ analysis: ItemAnalysisRecord; duplicate: DuplicateAnalysis } | null> {
+  const [analysis] = await db
+    .select()
+    .from(itemAnalyses)
+    .where(and(
+      eq(itemAnalyses.userId, userId),
+      eq(itemAnalyses.imageContentHash, hashes.contentHash),
+      eq(itemAnalyses.imagePhash, hashes.perceptualHash),
+      eq(itemAnalyses.imageDhash, hashes.differenceHash),
+      eq(itemAnalyses.analysisOptionsKey, optionsKey)
+    ))
+    .orderBy(desc(itemAnalyses.createdAt))
+    .limit(1);
+
+  if (!analysis) return null;
+  return { analysis, duplicate: toDuplicate(analysis, hashes, userId)! };
+}
@@ -0,0 +1,330 @@
+/**
+ * Subscription Entitlements
+ * Maps subscription tiers to features and monthly limits, and tracks usage
+ * October 2026
+ *
+ * users.subscriptionTier is kept in sync by the Stripe webhook; this module is
+ * the only place that decides what a tier may do. Monthly counters are keyed by
+ * user ID, or by client IP for anonymous requests (which get the free tier), and
+ * reset on the first of each UTC month. Quota is reserved before expensive work
+ * and refunded if the work fails, so failed analyses don't count.
+ */
+
+import { db } from '../db/client.js';
+import { usageCounters, collectionItems } from '../db/schema.js';
+import { and, eq, sql } from 'drizzle-orm';
+import { AuthorizationError, QuotaExceededError } from '../middleware/error.js';
+
+// ============================================================================
+// TIERS
+// ============================================================================
+
+export type SubscriptionTier = 'free' | 'collector' | 'professional';
+
+export type Feature =
+  | 'consensusAnalysis' // consensusMode 'always' / forceMultiRun
+  | 'reasoningModel' // reasoning-model synthesis of consensus runs
+  | 'multiImageCapture'
+  | 'batchAnalysis'
+  | 'priceAlerts'
+  | 'pdfExport'
+  | 'apiAccess';
+
+export type UsageMetric = 'analyses' | 'consensus_runs' | 'multi_image_captures' | 'vera_messages';
+
+export const USAGE_METRICS: UsageMetric[] = ['analyses', 'consensus_runs', 'multi_image_captures', 'vera_messages'];
+
+export interface TierEntitlements {
+  features: Record<Feature, boolean>;
+  // Per calendar month; null = unlimited
+  monthlyLimits: Record<UsageMetric, number | null>;
+  // Total saved items; null = unlimited
+  collectionItems: number | null;
+  // Model spend per calendar month in USD cents before consensus is turned
+  // off (see usageLedger.ts); null = uncapped
+  monthlySpendAllowance: number | null;
+}
+
+export const TIER_ENTITLEMENTS: Record<SubscriptionTier, TierEntitlements> = {
+  free: {
+    features: {
+      consensusAnalysis: false,
+      reasoningModel: false,
+      multiImageCapture: true,
+      batchAnalysis: false,
+      priceAlerts: false,
+      pdfExport: false,
+      apiAccess: false,
+    },
+    monthlyLimits: {
+      analyses: 3,
+      consensus_runs: 0,
+      multi_image_captures: 1,
+      vera_messages: 20,
+    },
+    collectionItems: 3,
+    monthlySpendAllowance: 50,
+  },
+  collector: {
+    features: {
+      consensusAnalysis: true,
+      reasoningModel: true,
+      multiImageCapture: true,
+      batchAnalysis: true,
+      priceAlerts: true,
+      pdfExport: true,
+      apiAccess: false,
+    },
+    monthlyLimits: {
+      analyses: null,
+      consensus_runs: 50,
+      multi_image_captures: null,
+      vera_messages: 500,
+    },
+    collectionItems: 50,
+    monthlySpendAllowance: 1500,
+  },
+  professional: {
+    features: {
+      consensusAnalysis: true,
+      reasoningModel: true,
+      multiImageCapture: true,
+      batchAnalysis: true,
+      priceAlerts: true,
+      pdfExport: true,
+      apiAccess: true,
+    },
+    monthlyLimits: {
+      analyses: null,
+      consensus_runs: null,
+      multi_image_captures: null,
+      vera_messages: null,
+    },
+    collectionItems: null,
+    monthlySpendAllowance: 10000,
+  },
+};
+
+const FEATURE_LABELS: Record<Feature, string> = {
+  consensusAnalysis: 'Forced consensus analysis',
+  reasoningModel: 'Reasoning-model synthesis',
+  multiImageCapture: 'Multi-image capture',
+  batchAnalysis: 'Batch analysis',
+  priceAlerts: 'Price alerts',
+  pdfExport: 'PDF export',
+  apiAccess: 'API access',
+};
+
+const METRIC_LABELS: Record<UsageMetric, string> = {
+  analyses: 'analyses',
+  consensus_runs: 'consensus runs',
+  multi_image_captures: 'multi-image captures',
+  vera_messages: 'Vera messages',
+};
+
+/**
+ * Normalize a stored tier string - unknown values fall back to free
+ */
+export function resolveTier(tier: string | null | undefined): SubscriptionTier {
+  return tier && tier in TIER_ENTITLEMENTS ? tier as SubscriptionTier : 'free';
+}
+
+export function getEntitlements(tier: string | null | undefined): TierEntitlements {
+  return TIER_ENTITLEMENTS[resolveTier(tier)];
+}
+
+export function hasFeature(tier: string | null | undefined, feature: Feature): boolean {
+  return getEntitlements(tier).features[feature];
+}
+
+/**
+ * Throw a 403 naming the missing feature
+ */
+export function assertFeature(tier: string | null | undefined, feature: Feature): void {
+  if (!hasFeature(tier, feature)) {
+    throw new AuthorizationError(`${FEATURE_LABELS[feature]} is not included in your plan. Upgrade to unlock it.`);
+  }
+}
+
+// ============================================================================
+// USAGE COUNTERS
+// ============================================================================
+
+/**
+ * Counter subject - the user, or the client IP for anonymous requests
+ */
+export function usageSubject(userId: string | null, clientIp: string | null): string {
+  return userId ?? `ip:${clientIp ?? 'unknown'}`;
+}
+
+export function currentUsagePeriod(now: Date = new Date()): string {
+  return `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+export function periodBounds(period: string): { start: Date; resetsAt: Date } {
+  const [year, month] = period.split('-').map(Number);
+  return {
+    start: new Date(Date.UTC(year, month - 1, 1)),
+    resetsAt: new Date(Date.UTC(year, month, 1)),
+  };
+}
+
+/**
+ * Atomically reserve quota. The counter only moves if the new total stays
+ * within the limit, so concurrent requests can't overshoot it.
+ */
+export async function consumeUsage(
+  subject: string,
+  tier: string | null | undefined,
+  metric: UsageMetric,
+  amount: number = 1
+): Promise<void> {
+  const limit = getEntitlements(tier).monthlyLimits[metric];
+  const period = currentUsagePeriod();
+
+  if (limit !== null && amount > limit) {
+    throw new QuotaExceededError(quotaMessage(metric, limit));
+  }
+
+  const rows = await db
+    .insert(usageCounters)
+    .values({ subject, metric, period, count: amount })
+    .onConflictDoUpdate({
+      target: [usageCounters.subject, usageCounters.metric, usageCounters.period],
+      set: {
+        count: sql`${usageCounters.count} + ${amount}`,
+        updatedAt: new Date(),
+      },
+      setWhere: limit === null ? undefined : sql`${usageCounters.count} + ${amount} <= ${limit}`,
+    })
+    .returning({ count: usageCounters.count });
+
+  if (rows.length === 0) {
+    throw new QuotaExceededError(quotaMessage(metric, limit!));
+  }
+}
+
+/**
+ * Give back quota reserved for work that failed. Never throws.
+ */
+export async function refundUsage(subject: string, metric: UsageMetric, amount: number = 1): Promise<void> {
+  try {
+    await db
+      .update(usageCounters)
+      .set({
+        count: sql`greatest(${usageCounters.count} - ${amount}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(usageCounters.subject, subject),
+        eq(usageCounters.metric, metric),
+        eq(usageCounters.period, currentUsagePeriod())
+      ));
+  } catch (error) {
+    console.warn(`⚠️ Failed to refund ${metric} usage for ${subject}:`, error);
+  }
+}
+
+async function getUsageCounts(subject: string, period: string = currentUsagePeriod()): Promise<Record<UsageMetric, number>> {
+  const rows = await db
+    .select({ metric: usageCounters.metric, count: usageCounters.count })
+    .from(usageCounters)
+    .where(and(eq(usageCounters.subject, subject), eq(usageCounters.period, period)));
+
+  const counts = Object.fromEntries(USAGE_METRICS.map(m => [m, 0])) as Record<UsageMetric, number>;
+  for (const row of rows) {
+    if (row.metric in counts) {
+      counts[row.metric as UsageMetric] = row.count;
+    }
+  }
+  return counts;
+}
+
+// ============================================================================
+// COLLECTION SIZE
+// ============================================================================
+
+export async function countCollectionItems(userId: string): Promise<number> {
+  const [{ total }] = await db
+    .select({ total: sql<number>`count(*)::int` })
+    .from(collectionItems)
+    .where(eq(collectionItems.userId, userId));
+  return total;
+}
+
+/**
+ * Throw if saving one more item would exceed the tier's collection size
+ */
+export async function assertCollectionCapacity(userId: string, tier: string | null | undefined): Promise<void> {
+  const limit = getEntitlements(tier).collectionItems;
+  if (limit === null) return;
+
+  if (await countCollectionItems(userId) >= limit) {
+    throw new QuotaExceededError(`Your plan allows ${limit} saved items. Upgrade to save more.`);
+  }
+}
+
+function quotaMessage(metric: UsageMetric, limit: number): string {
+  return limit === 0
+    ? `Your plan doesn't include ${METRIC_LABELS[metric]}. Upgrade to unlock them.`
+    : `You've used all ${limit} ${METRIC_LABELS[metric]} for this month. Upgrade or wait for the monthly reset.`;
+}
+
+// ============================================================================
+// USAGE SUMMARY
+// ============================================================================
+
+export interface UsageMeter {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+export interface UsageSummary {
+  tier: SubscriptionTier;
+  period: {
+    id: string;
+    start: string;
+    resetsAt: string;
+  };
+  features: Record<Feature, boolean>;
+  usage: Record<UsageMetric, UsageMeter>;
+  collection: UsageMeter | null; // null for anonymous callers
+}
+
+function meter(used: number, limit: number | null): UsageMeter {
+  return {
+    used,
+    limit,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+  };
+}
+
+/**
+ * Everything the frontend needs to render plan limits and usage bars
+ */
+export async function getUsageSummary(
+  subject: string,
+  tier: string | null | undefined,
+  userId: string | null
+): Promise<UsageSummary> {
+  const resolved = resolveTier(tier);
+  const entitlements = TIER_ENTITLEMENTS[resolved];
+  const period = currentUsagePeriod();
+  const { start, resetsAt } = periodBounds(period);
+  const counts = await getUsageCounts(subject, period);
+
+  return {
+    tier: resolved,
+    period: {
+      id: period,
+      start: start.toISOString(),
+      resetsAt: resetsAt.toISOString(),
+    },
+    features: entitlements.features,
+    usage: Object.fromEntries(
+      USAGE_METRICS.map(m => [m, meter(counts[m], entitlements.monthlyLimits[m])])
+    ) as Record<UsageMetric, UsageMeter>,
+    collection: userId ? meter(await countCollectionItems(userId), entitlements.collectionItems) : null,
+  };
+}
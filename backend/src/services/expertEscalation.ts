@@ -3,6 +3,16 @@
 // Implements escalation to human experts when AI confidence is insufficient
 
 import { ItemAnalysis, DomainExpert } from './openai.js';
+import { recordExpertCorrection, learningOriginalFromRecord } from './selfLearning.js';
+import { recordExpertValuation } from './collectionValuation.js';
+import { recordRevision } from './analysisRevisions.js';
+import { db } from '../db/client.js';
+import { experts, expertRequests, expertFeedback, itemAnalyses } from '../db/schema.js';
+import type { ExpertRecord, ExpertRequestRecord } from '../db/schema.js';
+import { z } from 'zod';
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import { ValidationError, NotFoundError, AuthorizationError, ConflictError } from '../middleware/error.js';
 
 // Domain experts list for type checking
 const DOMAIN_EXPERTS: DomainExpert[] = [
@@ -260,20 +270,57 @@ export interface ExpertFeedback {
   timestamp: string;
 }
 
+/**
+ * Minimal analysis fields needed to open a request - works for both AI results
+ * and stored item_analyses rows
+ */
+export interface ExpertRequestSubject {
+  name: string;
+  domainExpert?: string | null;
+  estimatedValueMin?: number | null;
+  estimatedValueMax?: number | null;
+}
+
+function toExpertRequest(record: ExpertRequestRecord, expertName?: string | null): ExpertRequest {
+  return {
+    id: record.id,
+    analysisId: record.itemAnalysisId,
+    userId: record.userId,
+    tierId: record.tierId,
+    tierName: record.tierName,
+    price: record.price,
+    status: record.status as ExpertRequestStatus,
+    assignedExpertId: record.assignedExpertId ?? undefined,
+    assignedExpertName: expertName ?? undefined,
+    submittedAt: record.submittedAt.toISOString(),
+    assignedAt: record.assignedAt?.toISOString(),
+    completedAt: record.completedAt?.toISOString(),
+    dueAt: record.dueAt.toISOString(),
+    itemName: record.itemName,
+    itemCategory: record.itemCategory as DomainExpert,
+    estimatedValue: { min: record.estimatedValueMin, max: record.estimatedValueMax },
+    userNotes: record.userNotes ?? undefined,
+    expertNotes: record.expertNotes ?? undefined,
+    finalReport: record.finalReport ?? undefined,
+  };
+}
+
 /**
  * Create an expert review request
+ * Paid tiers start in pending_payment; the turnaround clock starts once payment clears.
  */
 export async function createExpertRequest(
   analysisId: string,
   userId: string,
   tierId: string,
-  analysis: ItemAnalysis,
+  analysis: ExpertRequestSubject,
   userNotes?: string,
-  config: EscalationConfig = DEFAULT_CONFIG
+  options: { awaitingPayment?: boolean; config?: EscalationConfig } = {}
 ): Promise<ExpertRequest> {
+  const config = options.config ?? DEFAULT_CONFIG;
   const tier = config.tiers.find(t => t.id === tierId);
   if (!tier) {
-    throw new Error(`Invalid tier ID: ${tierId}`);
+    throw new ValidationError(`Invalid tier ID: ${tierId}`);
   }
 
   const now = new Date();
@@ -281,39 +328,163 @@ export async function createExpertRequest(
 
   const domainExpert = (analysis.domainExpert || 'general') as DomainExpert;
 
-  const request: ExpertRequest = {
-    id: `exp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    analysisId,
-    userId,
-    tierId: tier.id,
-    tierName: tier.name,
-    price: tier.price,
-    status: 'pending_payment',
-    submittedAt: now.toISOString(),
-    dueAt: dueAt.toISOString(),
-    itemName: analysis.name,
-    itemCategory: domainExpert,
-    estimatedValue: {
-      min: analysis.estimatedValueMin ?? 0,
-      max: analysis.estimatedValueMax ?? 0,
-    },
-    userNotes,
-  };
+  const [record] = await db
+    .insert(expertRequests)
+    .values({
+      id: `exp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      itemAnalysisId: analysisId,
+      userId,
+      tierId: tier.id,
+      tierName: tier.name,
+      price: tier.price,
+      status: options.awaitingPayment ? 'pending_payment' : 'pending_assignment',
+      itemName: analysis.name,
+      itemCategory: DOMAIN_EXPERTS.includes(domainExpert) ? domainExpert : 'general',
+      estimatedValueMin: analysis.estimatedValueMin ?? 0,
+      estimatedValueMax: analysis.estimatedValueMax ?? 0,
+      userNotes: userNotes || null,
+      submittedAt: now,
+      paidAt: options.awaitingPayment ? null : now,
+      dueAt,
+    })
+    .returning();
+
+  const request = toExpertRequest(record);
 
-  // In production, save to database
   console.log('📋 Expert request created:', request.id);
   console.log(`   Item: ${request.itemName}`);
   console.log(`   Tier: ${request.tierName} ($${(request.price / 100).toFixed(2)})`);
-  console.log(`   Due: ${request.dueAt}`);
+  console.log(`   Status: ${request.status}, due: ${request.dueAt}`);
 
   return request;
 }
 
 /**
- * Process expert feedback and update AI learning
+ * Mark a request as paid and restart its turnaround clock
+ */
+export async function markExpertRequestPaid(requestId: string, checkoutSessionId?: string): Promise<ExpertRequest | null> {
+  const [existing] = await db
+    .select()
+    .from(expertRequests)
+    .where(eq(expertRequests.id, requestId))
+    .limit(1);
+
+  if (!existing || existing.status !== 'pending_payment') {
+    return existing ? toExpertRequest(existing) : null;
+  }
+
+  const tier = DEFAULT_CONFIG.tiers.find(t => t.id === existing.tierId);
+  const now = new Date();
+  const dueAt = new Date(now.getTime() + (tier?.turnaroundHours ?? 48) * 60 * 60 * 1000);
+
+  const [record] = await db
+    .update(expertRequests)
+    .set({
+      status: 'pending_assignment',
+      paidAt: now,
+      dueAt,
+      stripeCheckoutSessionId: checkoutSessionId ?? existing.stripeCheckoutSessionId,
+      updatedAt: now,
+    })
+    .where(and(eq(expertRequests.id, requestId), eq(expertRequests.status, 'pending_payment')))
+    .returning();
+
+  console.log(`💳 Expert request paid: ${requestId}`);
+  return record ? toExpertRequest(record) : null;
+}
+
+// Analysis columns an expert correction can overwrite, each with the shape
+// its column accepts
+const correctedText = z.string().trim().min(1).max(2000);
+const correctedYear = z.number().int().min(-10000).max(2100);
+const correctedAmount = z.number().nonnegative().transform(Math.round);
+
+const CORRECTABLE_ANALYSIS_FIELDS = {
+  name: correctedText,
+  maker: correctedText,
+  era: correctedText,
+  style: correctedText,
+  description: correctedText,
+  originRegion: correctedText,
+  periodStart: correctedYear,
+  periodEnd: correctedYear,
+  authenticityRisk: z.enum(['low', 'medium', 'high', 'very_high']),
+  estimatedValueMin: correctedAmount,
+  estimatedValueMax: correctedAmount,
+} satisfies Record<string, z.ZodTypeAny>;
+
+type CorrectableField = keyof typeof CORRECTABLE_ANALYSIS_FIELDS;
+
+const ValueCorrectionSchema = z.union([
+  correctedAmount.transform(value => ({ min: value, max: value })),
+  z.object({ min: correctedAmount, max: correctedAmount })
+    .refine(range => range.min <= range.max, 'min must not exceed max'),
+]);
+
+function isCorrectableField(field: string): field is CorrectableField {
+  return Object.prototype.hasOwnProperty.call(CORRECTABLE_ANALYSIS_FIELDS, field);
+}
+
+function parseCorrection<S extends z.ZodTypeAny>(schema: S, correction: ExpertCorrection): z.output<S> {
+  const result = schema.safeParse(correction.correctedValue);
+  if (!result.success) {
+    throw new ValidationError(`Invalid corrected value for ${correction.field}: ${result.error.errors[0]?.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Translate expert corrections into an item_analyses update. Values are
+ * checked against their column first, so a bad correction is a 400 before
+ * anything is written. 'value' accepts a number (point estimate) or { min, max };
+ * fields without a column are only fed to self-learning.
+ */
+function buildAnalysisUpdate(corrections: ExpertCorrection[]): Partial<typeof itemAnalyses.$inferInsert> {
+  const update: Record<string, unknown> = {};
+
+  for (const correction of corrections) {
+    if (correction.field === 'value') {
+      const { min, max } = parseCorrection(ValueCorrectionSchema, correction);
+      update.estimatedValueMin = min;
+      update.estimatedValueMax = max;
+      continue;
+    }
+
+    if (isCorrectableField(correction.field)) {
+      update[correction.field] = parseCorrection(CORRECTABLE_ANALYSIS_FIELDS[correction.field], correction);
+    }
+  }
+
+  if (
+    typeof update.estimatedValueMin === 'number' &&
+    typeof update.estimatedValueMax === 'number' &&
+    update.estimatedValueMin > update.estimatedValueMax
+  ) {
+    throw new ValidationError('Corrected minimum value must not exceed the maximum');
+  }
+
+  return update as Partial<typeof itemAnalyses.$inferInsert>;
+}
+
+/**
+ * Value corrections are learned as a single point estimate
+ */
+function toLearningValue(correction: ExpertCorrection): unknown {
+  const value = correction.correctedValue;
+  if (correction.field === 'value' && value && typeof value === 'object' && 'min' in value && 'max' in value) {
+    const { min, max } = value as { min: number; max: number };
+    return (Number(min) + Number(max)) / 2;
+  }
+  return value;
+}
+
+/**
+ * Process expert feedback: store it, apply corrections to the analysis,
+ * feed them to self-learning and close out the request
  */
 export async function processExpertFeedback(
-  feedback: ExpertFeedback
+  feedback: ExpertFeedback,
+  finalReport?: string
 ): Promise<{
   success: boolean;
   learningUpdated: boolean;
@@ -321,22 +492,133 @@ export async function processExpertFeedback(
 }> {
   console.log('🎓 Processing expert feedback:', feedback.requestId);
 
-  // Record corrections for self-learning system
+  const [request] = await db
+    .select()
+    .from(expertRequests)
+    .where(eq(expertRequests.id, feedback.requestId))
+    .limit(1);
+
+  if (!request) {
+    throw new NotFoundError('Expert request not found');
+  }
+  if (request.assignedExpertId !== feedback.expertId) {
+    throw new AuthorizationError('Request is not assigned to this expert');
+  }
+  if (request.status !== 'assigned' && request.status !== 'in_review') {
+    throw new ValidationError(`Request cannot be answered while ${request.status}`);
+  }
+
+  const [analysis] = await db
+    .select()
+    .from(itemAnalyses)
+    .where(eq(itemAnalyses.id, request.itemAnalysisId))
+    .limit(1);
+
+  if (!analysis) {
+    throw new NotFoundError('Analysis not found');
+  }
+
+  const completedAt = new Date();
   const corrections = feedback.corrections.length;
+  const analysisUpdate = buildAnalysisUpdate(feedback.corrections);
+
+  const updatedAnalysis = await db.transaction(async (tx) => {
+    // Completing the request is the claim on answering it - a second answer,
+    // or one racing a reassignment or cancellation, matches no row
+    const [completed] = await tx
+      .update(expertRequests)
+      .set({
+        status: 'completed',
+        completedAt,
+        expertNotes: feedback.additionalNotes ?? null,
+        finalReport: finalReport ?? feedback.overallAssessment,
+        updatedAt: completedAt,
+      })
+      .where(and(
+        eq(expertRequests.id, feedback.requestId),
+        eq(expertRequests.assignedExpertId, feedback.expertId),
+        inArray(expertRequests.status, ['assigned', 'in_review'])
+      ))
+      .returning({ id: expertRequests.id });
+
+    if (!completed) {
+      throw new ConflictError('Request was already answered or is no longer assigned to this expert');
+    }
+
+    await tx.insert(expertFeedback).values({
+      requestId: feedback.requestId,
+      expertId: feedback.expertId,
+      corrections: feedback.corrections,
+      overallAssessment: feedback.overallAssessment,
+      confidenceLevel: feedback.confidenceLevel,
+      authenticityVerified: feedback.authenticityVerified,
+      additionalNotes: feedback.additionalNotes ?? null,
+      marketInsights: feedback.marketInsights ?? null,
+      createdAt: new Date(feedback.timestamp),
+    });
+
+    // Expert verdict supersedes the AI assessment
+    const [updated] = await tx
+      .update(itemAnalyses)
+      .set({
+        ...analysisUpdate,
+        authenticationConfidence: feedback.confidenceLevel,
+        authenticationAssessment: feedback.overallAssessment,
+        expertReferralRecommended: false,
+        expertReferralReason: null,
+        updatedAt: completedAt,
+      })
+      .where(eq(itemAnalyses.id, analysis.id))
+      .returning();
+
+    // Running average turnaround (hours from assignment to completion)
+    const turnaroundHours = (completedAt.getTime() - (request.assignedAt ?? request.submittedAt).getTime()) / 3600000;
+    await tx
+      .update(experts)
+      .set({
+        completedReviews: sql`${experts.completedReviews} + 1`,
+        averageTurnaround: sql`(${experts.averageTurnaround} * ${experts.completedReviews} + ${turnaroundHours}) / (${experts.completedReviews} + 1)`,
+      })
+      .where(eq(experts.id, feedback.expertId));
+
+    return updated;
+  });
+
+  await recordRevision(analysis, updatedAnalysis, {
+    trigger: 'expert_correction',
+    reason: `Expert review with ${corrections} correction${corrections === 1 ? '' : 's'}`,
+    sourceId: feedback.requestId,
+  });
+
+  // Expert values become the latest point in collection value history
+  if (analysisUpdate.estimatedValueMin != null && analysisUpdate.estimatedValueMax != null) {
+    await recordExpertValuation(
+      analysis.id,
+      { min: analysisUpdate.estimatedValueMin, max: analysisUpdate.estimatedValueMax },
+      feedback.confidenceLevel
+    );
+  }
 
   if (corrections > 0) {
     console.log(`   📝 ${corrections} corrections to process`);
 
-    // In production, these would be stored and used to improve the AI
+    const original = learningOriginalFromRecord(analysis);
     for (const correction of feedback.corrections) {
       console.log(`   → ${correction.field}: "${correction.originalValue}" → "${correction.correctedValue}"`);
-      console.log(`     Reason: ${correction.explanation}`);
+      await recordExpertCorrection(
+        analysis.id,
+        analysis.imageUrl,
+        original,
+        correction.field,
+        toLearningValue(correction),
+        feedback.expertId,
+        correction.explanation
+      );
     }
-
-    // Update self-learning system
-    // This would integrate with selfLearning.ts to improve future predictions
   }
 
+  console.log(`✅ Expert request completed: ${feedback.requestId}`);
+
   return {
     success: true,
     learningUpdated: corrections > 0,
@@ -421,6 +703,302 @@ export function findBestExpert(
   return matches[0] || null;
 }
 
+// ============================================================================
+// EXPERT PROFILES
+// ============================================================================
+
+function toExpert(record: ExpertRecord): Expert {
+  return {
+    id: record.id,
+    name: record.name,
+    email: record.email,
+    specializations: record.specializations as DomainExpert[],
+    certifications: record.certifications as string[],
+    rating: record.rating,
+    completedReviews: record.completedReviews,
+    averageTurnaround: record.averageTurnaround,
+    isActive: record.isActive,
+    joinedAt: record.joinedAt.toISOString(),
+  };
+}
+
+/**
+ * Create or update an expert profile for a user. New profiles start inactive
+ * until an admin activates them.
+ */
+export async function upsertExpertProfile(
+  userId: string,
+  profile: { name: string; email: string; specializations: DomainExpert[]; certifications: string[] }
+): Promise<Expert> {
+  const [record] = await db
+    .insert(experts)
+    .values({ userId, ...profile })
+    .onConflictDoUpdate({
+      target: experts.userId,
+      set: {
+        name: profile.name,
+        specializations: profile.specializations,
+        certifications: profile.certifications,
+      },
+    })
+    .returning();
+
+  return toExpert(record);
+}
+
+export async function getExpertByUserId(userId: string): Promise<Expert | null> {
+  const [record] = await db
+    .select()
+    .from(experts)
+    .where(eq(experts.userId, userId))
+    .limit(1);
+
+  return record ? toExpert(record) : null;
+}
+
+export async function listExperts(): Promise<Expert[]> {
+  const records = await db.select().from(experts).orderBy(asc(experts.joinedAt));
+  return records.map(toExpert);
+}
+
+export async function setExpertActive(expertId: string, isActive: boolean): Promise<Expert> {
+  const [record] = await db
+    .update(experts)
+    .set({ isActive })
+    .where(eq(experts.id, expertId))
+    .returning();
+
+  if (!record) {
+    throw new NotFoundError('Expert not found');
+  }
+
+  console.log(`🎓 Expert ${record.name} ${isActive ? 'activated' : 'deactivated'}`);
+  return toExpert(record);
+}
+
+// ============================================================================
+// REQUEST QUEUE & STATUS TRACKING
+// ============================================================================
+
+export interface RequestTiming {
+  slaStatus: 'awaiting_payment' | 'on_track' | 'at_risk' | 'overdue' | 'met' | 'missed' | 'cancelled';
+  hoursRemaining: number | null;
+  isOverdue: boolean;
+}
+
+// A request is at risk once less than a quarter of its turnaround window remains
+const AT_RISK_FRACTION = 0.25;
+
+/**
+ * Track a request against its dueAt deadline
+ */
+export function describeRequestTiming(request: ExpertRequest, now: Date = new Date()): RequestTiming {
+  const dueAt = new Date(request.dueAt).getTime();
+
+  if (request.status === 'cancelled') {
+    return { slaStatus: 'cancelled', hoursRemaining: null, isOverdue: false };
+  }
+  if (request.status === 'pending_payment') {
+    return { slaStatus: 'awaiting_payment', hoursRemaining: null, isOverdue: false };
+  }
+  if (request.status === 'completed') {
+    const met = request.completedAt ? new Date(request.completedAt).getTime() <= dueAt : false;
+    return { slaStatus: met ? 'met' : 'missed', hoursRemaining: null, isOverdue: false };
+  }
+
+  const hoursRemaining = (dueAt - now.getTime()) / 3600000;
+  const tier = DEFAULT_CONFIG.tiers.find(t => t.id === request.tierId);
+  const windowHours = tier?.turnaroundHours ?? 48;
+
+  if (hoursRemaining < 0) {
+    return { slaStatus: 'overdue', hoursRemaining: Math.round(hoursRemaining * 10) / 10, isOverdue: true };
+  }
+
+  return {
+    slaStatus: hoursRemaining < windowHours * AT_RISK_FRACTION ? 'at_risk' : 'on_track',
+    hoursRemaining: Math.round(hoursRemaining * 10) / 10,
+    isOverdue: false,
+  };
+}
+
+async function loadRequests(where: SQL | undefined): Promise<ExpertRequest[]> {
+  const rows = await db
+    .select({ request: expertRequests, expertName: experts.name })
+    .from(expertRequests)
+    .leftJoin(experts, eq(expertRequests.assignedExpertId, experts.id))
+    .where(where)
+    .orderBy(asc(expertRequests.dueAt));
+
+  return rows.map(row => toExpertRequest(row.request, row.expertName));
+}
+
+/**
+ * A single request with its feedback (if answered)
+ */
+export async function getExpertRequest(requestId: string): Promise<{
+  request: ExpertRequest;
+  feedback: ExpertFeedback | null;
+} | null> {
+  const [request] = await loadRequests(eq(expertRequests.id, requestId));
+  if (!request) return null;
+
+  const [answer] = await db
+    .select()
+    .from(expertFeedback)
+    .where(eq(expertFeedback.requestId, requestId))
+    .limit(1);
+
+  return {
+    request,
+    feedback: answer
+      ? {
+          requestId: answer.requestId,
+          expertId: answer.expertId,
+          corrections: answer.corrections as ExpertCorrection[],
+          overallAssessment: answer.overallAssessment,
+          confidenceLevel: answer.confidenceLevel,
+          authenticityVerified: answer.authenticityVerified,
+          additionalNotes: answer.additionalNotes ?? undefined,
+          marketInsights: answer.marketInsights ?? undefined,
+          timestamp: answer.createdAt.toISOString(),
+        }
+      : null,
+  };
+}
+
+export async function listUserExpertRequests(userId: string): Promise<ExpertRequest[]> {
+  return loadRequests(eq(expertRequests.userId, userId));
+}
+
+/**
+ * Categories an expert can take requests in - their specializations plus general
+ */
+function claimableCategories(expert: Expert): DomainExpert[] {
+  return [...new Set<DomainExpert>([...expert.specializations, 'general'])];
+}
+
+/**
+ * Work queue for an expert: unclaimed requests in their specializations
+ * (soonest due first) plus the requests they already hold.
+ * `recommended` marks requests where this expert is the best available match.
+ */
+export async function getExpertQueue(expert: Expert): Promise<{
+  available: (ExpertRequest & { matchScore: number; recommended: boolean })[];
+  assigned: ExpertRequest[];
+}> {
+  const [open, mine, activeExperts] = await Promise.all([
+    loadRequests(and(
+      eq(expertRequests.status, 'pending_assignment'),
+      inArray(expertRequests.itemCategory, claimableCategories(expert))
+    )),
+    loadRequests(and(
+      eq(expertRequests.assignedExpertId, expert.id),
+      inArray(expertRequests.status, ['assigned', 'in_review'])
+    )),
+    db.select().from(experts).where(eq(experts.isActive, true)),
+  ]);
+
+  const pool = activeExperts.map(toExpert);
+
+  return {
+    available: open.map(request => {
+      const best = findBestExpert(request, pool);
+      return {
+        ...request,
+        matchScore: findBestExpert(request, [expert])?.matchScore ?? 0,
+        recommended: best?.expert.id === expert.id,
+      };
+    }),
+    assigned: mine,
+  };
+}
+
+/**
+ * Claim an unassigned request in one of the expert's categories. Atomic - only
+ * one expert can win a claim.
+ */
+export async function claimExpertRequest(requestId: string, expert: Expert): Promise<ExpertRequest> {
+  if (!expert.isActive) {
+    throw new AuthorizationError('Expert profile is not active');
+  }
+
+  const now = new Date();
+  const [record] = await db
+    .update(expertRequests)
+    .set({ status: 'assigned', assignedExpertId: expert.id, assignedAt: now, updatedAt: now })
+    .where(and(
+      eq(expertRequests.id, requestId),
+      eq(expertRequests.status, 'pending_assignment'),
+      inArray(expertRequests.itemCategory, claimableCategories(expert))
+    ))
+    .returning();
+
+  if (!record) {
+    throw new ValidationError('Request is no longer available to claim, or is outside your specializations');
+  }
+
+  console.log(`🙋 Expert ${expert.name} claimed request ${requestId}`);
+  return toExpertRequest(record, expert.name);
+}
+
+/**
+ * Move a claimed request into review
+ */
+export async function startExpertReview(requestId: string, expert: Expert): Promise<ExpertRequest> {
+  const now = new Date();
+  const [record] = await db
+    .update(expertRequests)
+    .set({ status: 'in_review', updatedAt: now })
+    .where(and(
+      eq(expertRequests.id, requestId),
+      eq(expertRequests.assignedExpertId, expert.id),
+      eq(expertRequests.status, 'assigned')
+    ))
+    .returning();
+
+  if (!record) {
+    throw new ValidationError('Request is not assigned to you or already in review');
+  }
+
+  return toExpertRequest(record, expert.name);
+}
+
+/**
+ * Cancel a request before an expert starts reviewing it
+ */
+export async function cancelExpertRequest(
+  requestId: string,
+  userId: string,
+  refundPayment: (checkoutSessionId: string, requestId: string) => Promise<void>
+): Promise<ExpertRequest> {
+  const record = await db.transaction(async (tx) => {
+    const [cancelled] = await tx
+      .update(expertRequests)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(
+        eq(expertRequests.id, requestId),
+        eq(expertRequests.userId, userId),
+        inArray(expertRequests.status, ['pending_payment', 'pending_assignment', 'assigned'])
+      ))
+      .returning();
+
+    if (!cancelled) {
+      throw new ValidationError('Request cannot be cancelled once review has started');
+    }
+
+    // Refund inside the transaction - if it fails the request stays open,
+    // and the row lock keeps an expert from starting it meanwhile
+    if (cancelled.paidAt && cancelled.stripeCheckoutSessionId) {
+      await refundPayment(cancelled.stripeCheckoutSessionId, requestId);
+    }
+
+    return cancelled;
+  });
+
+  console.log(`🚫 Expert request cancelled: ${requestId}`);
+  return toExpertRequest(record);
+}
+
 // ============================================================================
 // ESCALATION ROUTES (for integration with API)
 // ============================================================================
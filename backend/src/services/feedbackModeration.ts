@@ -0,0 +1,203 @@
+/**
+ * Feedback Moderation Service
+ * Weights user corrections by the submitter's history before they reach self-learning
+ * October 2026
+ *
+ * A single user should not be able to skew learned prompt enhancements. Each
+ * submitter gets a weight in [0, 1] based on account age, experience,
+ * recent burst activity and how often their past corrections agreed with
+ * other users on the same analysis. Experience only counts corrections other
+ * users confirmed on analyses the submitter doesn't own - feedback volume alone
+ * earns nothing. Corrections below MIN_LEARNING_WEIGHT are
+ * stored with the feedback but not forwarded to the learning store.
+ */
+
+import { db } from '../db/client.js';
+import { analysisFeedback, itemAnalyses, users } from '../db/schema.js';
+import { and, desc, eq, gte, inArray, ne } from 'drizzle-orm';
+
+export type CorrectableField = 'maker' | 'era' | 'name' | 'value';
+
+export interface FieldCorrection {
+  field: CorrectableField;
+  correctedValue: string | number;
+  notes?: string;
+}
+
+export interface FeedbackWeight {
+  weight: number;
+  forwardToLearning: boolean;
+  reasons: string[];
+  history: {
+    priorFeedback: number;
+    recentFeedback: number;
+    confirmedCorrections: number;
+    comparableCorrections: number;
+    agreementRate: number | null;
+  };
+}
+
+// Corrections from submitters below this weight are kept but not learned from
+export const MIN_LEARNING_WEIGHT = 0.3;
+
+const BASE_WEIGHT = 0.5;
+const MAX_EXPERIENCE_BONUS = 0.3;
+const EXPERIENCE_BONUS_PER_CONFIRMED = 0.03;
+const BURST_WINDOW_MS = 24 * 60 * 60 * 1000;
+const BURST_LIMIT = 20;
+const NEW_ACCOUNT_MS = 24 * 60 * 60 * 1000;
+const NEW_ACCOUNT_CAP = 0.4;
+const MIN_COMPARABLE_FOR_AGREEMENT = 3;
+const HISTORY_LIMIT = 200;
+
+/**
+ * Normalize a corrected value so "Gorham Mfg. Co." and "gorham mfg co" compare equal
+ */
+export function normalizeCorrectionValue(value: unknown): string {
+  if (typeof value === 'number') return String(Math.round(value));
+  return String(value ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function valuesAgree(field: string, a: unknown, b: unknown): boolean {
+  if (field === 'value' && typeof a === 'number' && typeof b === 'number') {
+    // Values within 25% of each other count as agreement
+    const larger = Math.max(a, b);
+    return larger === 0 || Math.abs(a - b) / larger <= 0.25;
+  }
+  return normalizeCorrectionValue(a) === normalizeCorrectionValue(b);
+}
+
+/**
+ * Compute the moderation weight for a user's next correction
+ */
+export async function getFeedbackWeight(userId: string): Promise<FeedbackWeight> {
+  const reasons: string[] = [];
+
+  const history = await db
+    .select({
+      itemAnalysisId: analysisFeedback.itemAnalysisId,
+      corrections: analysisFeedback.corrections,
+      createdAt: analysisFeedback.createdAt,
+      analysisOwnerId: itemAnalyses.userId,
+    })
+    .from(analysisFeedback)
+    .leftJoin(itemAnalyses, eq(itemAnalyses.id, analysisFeedback.itemAnalysisId))
+    .where(eq(analysisFeedback.userId, userId))
+    .orderBy(desc(analysisFeedback.createdAt)) // Score the most recent history
+    .limit(HISTORY_LIMIT);
+
+  const priorFeedback = history.length;
+  const recentFeedback = history.filter(
+    h => Date.now() - h.createdAt.getTime() < BURST_WINDOW_MS
+  ).length;
+
+  // Agreement with other users who corrected the same analyses
+  const ownCorrections = history.flatMap(h =>
+    ((h.corrections as FieldCorrection[] | null) ?? []).map(c => ({
+      ...c,
+      itemAnalysisId: h.itemAnalysisId,
+      onOwnAnalysis: h.analysisOwnerId === userId,
+    }))
+  );
+
+  let comparableCorrections = 0;
+  let agreements = 0;
+  let confirmedCorrections = 0;
+
+  if (ownCorrections.length > 0) {
+    const analysisIds = [...new Set(ownCorrections.map(c => c.itemAnalysisId))];
+    const others = await db
+      .select({
+        itemAnalysisId: analysisFeedback.itemAnalysisId,
+        corrections: analysisFeedback.corrections,
+      })
+      .from(analysisFeedback)
+      .where(and(
+        inArray(analysisFeedback.itemAnalysisId, analysisIds),
+        ne(analysisFeedback.userId, userId)
+      ));
+
+    for (const own of ownCorrections) {
+      const peerValues = others
+        .filter(o => o.itemAnalysisId === own.itemAnalysisId)
+        .flatMap(o => ((o.corrections as FieldCorrection[] | null) ?? []))
+        .filter(c => c.field === own.field)
+        .map(c => c.correctedValue);
+
+      if (peerValues.length === 0) continue;
+      comparableCorrections++;
+      if (peerValues.some(v => valuesAgree(own.field, own.correctedValue, v))) {
+        agreements++;
+        if (!own.onOwnAnalysis) confirmedCorrections++;
+      }
+    }
+  }
+
+  let weight = BASE_WEIGHT + Math.min(MAX_EXPERIENCE_BONUS, confirmedCorrections * EXPERIENCE_BONUS_PER_CONFIRMED);
+  if (confirmedCorrections > 0) {
+    reasons.push(`${confirmedCorrections} corrections confirmed by other users`);
+  }
+
+  const agreementRate = comparableCorrections > 0 ? agreements / comparableCorrections : null;
+  if (agreementRate !== null && comparableCorrections >= MIN_COMPARABLE_FOR_AGREEMENT) {
+    // 0% agreement halves the weight, 100% agreement boosts it by half
+    weight *= 0.5 + agreementRate;
+    reasons.push(`${(agreementRate * 100).toFixed(0)}% agreement with other users on ${comparableCorrections} corrections`);
+  }
+
+  if (recentFeedback >= BURST_LIMIT) {
+    weight *= 0.25;
+    reasons.push(`${recentFeedback} submissions in the last 24 hours`);
+  }
+
+  const [user] = await db
+    .select({ createdAt: users.createdAt })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user || Date.now() - user.createdAt.getTime() < NEW_ACCOUNT_MS) {
+    weight = Math.min(weight, NEW_ACCOUNT_CAP);
+    reasons.push('New account');
+  }
+
+  weight = Math.max(0, Math.min(1, weight));
+
+  return {
+    weight,
+    forwardToLearning: weight >= MIN_LEARNING_WEIGHT,
+    reasons,
+    history: {
+      priorFeedback,
+      recentFeedback,
+      confirmedCorrections,
+      comparableCorrections,
+      agreementRate,
+    },
+  };
+}
+
+/**
+ * Fields this user has already corrected on an analysis - each user gets one
+ * learning vote per analysis and field
+ */
+export async function getPreviouslyCorrectedFields(
+  userId: string,
+  itemAnalysisId: string
+): Promise<Set<CorrectableField>> {
+  const rows = await db
+    .select({ corrections: analysisFeedback.corrections })
+    .from(analysisFeedback)
+    .where(and(
+      eq(analysisFeedback.userId, userId),
+      eq(analysisFeedback.itemAnalysisId, itemAnalysisId),
+      gte(analysisFeedback.learningWeight, 0)
+    ));
+
+  return new Set(
+    rows.flatMap(r => ((r.corrections as FieldCorrection[] | null) ?? []).map(c => c.field))
+  );
+}
@@ -0,0 +1,446 @@
+/**
+ * British Hallmark Decoder
+ * Assay office, standard, duty and date-letter marks to candidate years
+ * October 2026
+ *
+ * Models read date letters well enough but guess the cycle, so a "b" became
+ * whichever year sounded right. The cycles are tabled here for London,
+ * Birmingham, Sheffield, Chester, Edinburgh and Dublin: a letter gives one
+ * year per cycle it appears in, and the other marks (town mark, sterling or
+ * Britannia standard, the sovereign's-head duty mark, crowned or uncrowned
+ * leopard, commemorative marks) rule cycles in or out. Letter case and
+ * typeface are used when known; OCR rarely gets typeface right, so it only
+ * narrows when the user supplies it.
+ */
+
+import type { AuthenticationCriteria } from './expertKnowledgeBase.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AssayOfficeId = 'london' | 'birmingham' | 'sheffield' | 'chester' | 'edinburgh' | 'dublin';
+
+export type LetterStyle = 'roman' | 'old_english' | 'italic' | 'script';
+
+export type SilverStandard = 'sterling' | 'britannia';
+
+export type DutyMark = 'george_iii' | 'george_iv' | 'william_iv' | 'victoria' | 'unidentified';
+
+export type CommemorativeMark = 'jubilee_1935' | 'coronation_1953' | 'jubilee_1977' | 'millennium' | 'jubilee_2012' | 'jubilee_2022';
+
+export interface HallmarkInput {
+  office?: AssayOfficeId;
+  dateLetter?: string; // Single letter, case as struck
+  letterStyle?: LetterStyle;
+  standard?: SilverStandard;
+  dutyMark?: DutyMark;
+  leopardCrowned?: boolean; // London only
+  commemorativeMark?: CommemorativeMark;
+  millesimal?: boolean; // '925' / '958' fineness numbers
+  townMarks?: AssayOfficeId[]; // Every office whose town mark was seen
+}
+
+export interface HallmarkYearCandidate {
+  office: AssayOfficeId;
+  officeName: string;
+  year: number;
+  yearLabel: string; // '1876-77' while letters changed mid-year
+  letter: string;
+  letterStyle: LetterStyle | null;
+  cycle: string; // '1876-1895'
+  score: number; // 0-1
+  reasons: string[]; // Why it was ranked down, if it was
+}
+
+export interface HallmarkDecoding {
+  input: HallmarkInput;
+  candidates: HallmarkYearCandidate[];
+  yearRange: { start: number; end: number } | null; // Span of the candidates
+  conflicts: string[]; // Marks that can't appear together
+  notes: string[];
+}
+
+export interface HallmarkCheck {
+  checkpoint: string; // Name of the authentication checkpoint this feeds
+  weight: number;
+  passed: string[];
+  failed: string[];
+  unverified: string[];
+}
+
+interface DateLetterCycle {
+  office: AssayOfficeId;
+  startYear: number;
+  letters: string; // In order, one per year
+  style?: LetterStyle; // Unset when the typeface doesn't distinguish the cycle
+}
+
+// ============================================================================
+// ASSAY OFFICES AND CYCLES
+// ============================================================================
+
+export const ASSAY_OFFICES: Record<AssayOfficeId, {
+  name: string;
+  townMark: string;
+  letterChangeMonth: number; // Before 1975; uniform January changes since
+  openFrom: number;
+  closedIn?: number;
+}> = {
+  london: { name: 'London', townMark: "Leopard's head (crowned until 1821)", letterChangeMonth: 5, openFrom: 1300 },
+  birmingham: { name: 'Birmingham', townMark: 'Anchor', letterChangeMonth: 7, openFrom: 1773 },
+  sheffield: { name: 'Sheffield', townMark: 'Crown (rose from 1975)', letterChangeMonth: 7, openFrom: 1773 },
+  chester: { name: 'Chester', townMark: 'Three wheatsheaves and a sword', letterChangeMonth: 7, openFrom: 1701, closedIn: 1962 },
+  edinburgh: { name: 'Edinburgh', townMark: 'Triple-towered castle', letterChangeMonth: 10, openFrom: 1485 },
+  dublin: { name: 'Dublin', townMark: 'Crowned harp with Hibernia', letterChangeMonth: 1, openFrom: 1637 },
+};
+
+// Letters in a cycle, J (and sometimes others) omitted
+const A_TO_U = 'ABCDEFGHIKLMNOPQRSTU';
+const A_TO_Z_NO_J = 'ABCDEFGHIKLMNOPQRSTUVWXYZ';
+const A_TO_Z = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const lower = (letters: string) => letters.toLowerCase();
+
+const cycles = (office: AssayOfficeId, rows: Array<[number, string, LetterStyle?]>): DateLetterCycle[] =>
+  rows.map(([startYear, letters, style]) => ({ office, startYear, letters, style }));
+
+// Uniform across the British offices from 1975
+const UNIFORM_OFFICES: AssayOfficeId[] = ['london', 'birmingham', 'sheffield', 'edinburgh'];
+
+export const DATE_LETTER_CYCLES: DateLetterCycle[] = [
+  ...cycles('london', [
+    [1716, A_TO_U, 'roman'],
+    [1736, lower(A_TO_U), 'roman'],
+    [1756, A_TO_U, 'old_english'],
+    [1776, lower(A_TO_U), 'roman'],
+    [1796, A_TO_U, 'roman'],
+    [1816, lower(A_TO_U), 'roman'],
+    [1836, A_TO_U, 'old_english'],
+    [1856, lower(A_TO_U), 'old_english'],
+    [1876, A_TO_U, 'roman'],
+    [1896, lower(A_TO_U), 'roman'],
+    [1916, lower(A_TO_U), 'old_english'],
+    [1936, A_TO_U, 'roman'],
+    [1956, lower(A_TO_U.slice(0, 19)), 'italic'],
+  ]),
+  ...cycles('birmingham', [
+    [1773, A_TO_Z_NO_J, 'roman'],
+    [1798, lower(A_TO_Z), 'roman'],
+    [1824, A_TO_Z_NO_J, 'old_english'],
+    [1849, A_TO_Z, 'roman'],
+    [1875, lower(A_TO_Z_NO_J), 'roman'],
+    [1900, lower(A_TO_Z_NO_J), 'roman'],
+    [1925, A_TO_Z_NO_J, 'roman'],
+    [1950, A_TO_Z_NO_J, 'old_english'],
+  ]),
+  ...cycles('sheffield', [
+    [1824, 'abcdefghklmpqrstuvxz', 'roman'],
+    [1844, 'ABCDEFGHIKLMNOPRSTUVWXYZ', 'old_english'],
+    [1868, A_TO_Z_NO_J, 'roman'],
+    [1893, lower(A_TO_Z_NO_J), 'roman'],
+    [1918, lower(A_TO_Z_NO_J), 'old_english'],
+    [1943, A_TO_Z_NO_J, 'roman'],
+    [1968, 'ABCDEFG', 'roman'],
+  ]),
+  ...cycles('chester', [
+    [1839, A_TO_Z_NO_J, 'old_english'],
+    [1864, lower(A_TO_U), 'roman'],
+    [1884, A_TO_U.slice(0, 17), 'roman'],
+    [1901, A_TO_Z_NO_J, 'script'],
+    [1926, lower(A_TO_Z_NO_J), 'old_english'],
+    [1951, A_TO_U.slice(0, 12), 'roman'],
+  ]),
+  ...cycles('edinburgh', [
+    [1806, lower(A_TO_Z), 'roman'],
+    [1832, A_TO_Z_NO_J, 'old_english'],
+    [1857, A_TO_Z_NO_J, 'roman'],
+    [1882, 'ABCDEFGHIKLMNOPQRSTUVXYZ', 'roman'],
+    [1906, lower(A_TO_Z_NO_J), 'old_english'],
+    [1931, A_TO_Z_NO_J, 'roman'],
+    [1956, A_TO_U.slice(0, 19), 'roman'],
+  ]),
+  ...cycles('dublin', [
+    [1821, A_TO_Z_NO_J, 'roman'],
+    [1846, lower(A_TO_Z_NO_J), 'roman'],
+    [1871, A_TO_Z_NO_J, 'roman'],
+    [1896, lower(A_TO_U), 'old_english'],
+    [1916, A_TO_U.slice(0, 16), 'old_english'],
+  ]),
+  ...UNIFORM_OFFICES.flatMap(office => cycles(office, [
+    [1975, A_TO_Z_NO_J, 'italic'],
+    [2000, lower(A_TO_Z)],
+  ])),
+];
+
+// Years each mark was in use
+const DUTY_MARK_YEARS: Record<Exclude<DutyMark, 'unidentified'>, [number, number]> = {
+  george_iii: [1784, 1820],
+  george_iv: [1820, 1830],
+  william_iv: [1830, 1837],
+  victoria: [1837, 1890],
+};
+
+const COMMEMORATIVE_YEARS: Record<CommemorativeMark, [number, number]> = {
+  jubilee_1935: [1933, 1935],
+  coronation_1953: [1952, 1954],
+  jubilee_1977: [1977, 1977],
+  millennium: [1999, 2000],
+  jubilee_2012: [2012, 2012],
+  jubilee_2022: [2022, 2022],
+};
+
+// ============================================================================
+// READING MARKS FROM TEXT
+// ============================================================================
+
+const OFFICE_WORDS: Array<[RegExp, AssayOfficeId]> = [
+  [/\bleopard'?s?\b/, 'london'],
+  [/\banchor\b/, 'birmingham'],
+  [/\bcrown\b|\brose\b/, 'sheffield'],
+  [/\bwheat ?sheaf|\bwheat ?sheaves\b|\bsword\b/, 'chester'],
+  [/\bcastle\b/, 'edinburgh'],
+  [/\bharp\b|\bhibernia\b/, 'dublin'],
+];
+
+const STYLE_WORDS: Array<[RegExp, LetterStyle]> = [
+  [/\b(gothic|old english|black ?letter)\b/, 'old_english'],
+  [/\bitalic\b/, 'italic'],
+  [/\bscript\b/, 'script'],
+  [/\broman\b/, 'roman'],
+];
+
+/**
+ * Pull hallmarks out of text transcribed from a piece (triage's visible
+ * text, or a user's description of the marks)
+ */
+export function parseHallmarkText(texts: string[]): HallmarkInput {
+  const input: HallmarkInput = {};
+  const townMarks = new Set<AssayOfficeId>();
+
+  for (const raw of texts) {
+    const text = raw.toLowerCase().replace(/[’`]/g, "'");
+
+    for (const [pattern, office] of OFFICE_WORDS) {
+      if (pattern.test(text)) townMarks.add(office);
+    }
+    if (/\buncrowned leopard|\bleopard'?s? head (un|not )crowned/.test(text)) input.leopardCrowned = false;
+    else if (/\bcrowned leopard|\bleopard'?s? head crowned/.test(text)) input.leopardCrowned = true;
+
+    if (/\bbritannia\b|\blion'?s? head erased\b|\b958\b/.test(text)) input.standard = 'britannia';
+    else if (/\blion passant\b|\bsterling\b|\bthistle\b|\blion rampant\b|\b925\b/.test(text)) input.standard ??= 'sterling';
+    if (/\bthistle\b|\blion rampant\b/.test(text)) townMarks.add('edinburgh');
+    if (/\b(925|958)\b/.test(text)) input.millesimal = true;
+
+    if (/\bvictoria\b|\bqueen'?s? head\b/.test(text)) input.dutyMark = 'victoria';
+    else if (/\bwilliam\b/.test(text)) input.dutyMark = 'william_iv';
+    else if (/\bgeorge (iv|4)\b/.test(text)) input.dutyMark = 'george_iv';
+    else if (/\bgeorge (iii|3)\b/.test(text)) input.dutyMark = 'george_iii';
+    else if (/\b(duty mark|sovereign'?s? head|king'?s? head)\b/.test(text)) input.dutyMark ??= 'unidentified';
+
+    if (/\bmillennium\b/.test(text)) input.commemorativeMark = 'millennium';
+    else if (/\bcoronation\b/.test(text)) input.commemorativeMark = 'coronation_1953';
+    else if (/\bjubilee\b/.test(text)) {
+      const year = text.match(/\b(1935|1977|2012|2022)\b/)?.[1];
+      if (year) input.commemorativeMark = `jubilee_${year}` as CommemorativeMark;
+    }
+
+    for (const [pattern, style] of STYLE_WORDS) {
+      if (pattern.test(text)) input.letterStyle = style;
+    }
+
+    // "date letter b", "letter 'B' in a shield", or a lone letter read off the piece
+    const letter = raw.match(/\bletter[:\s]+["'“‘]?([A-Za-z])(?![A-Za-z])/i)?.[1]
+      ?? raw.match(/^\s*["'“‘(]?([A-Za-z])["'”’)]?\s*(?:in (?:a |an )?\w*\s*(?:shield|cartouche|punch))?\s*$/i)?.[1];
+    if (letter) input.dateLetter = letter;
+  }
+
+  if (townMarks.size > 0) {
+    input.townMarks = Array.from(townMarks);
+    if (townMarks.size === 1) input.office = input.townMarks[0];
+  }
+
+  return input;
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+function yearLabel(office: AssayOfficeId, year: number): string {
+  if (year >= 1975 || ASSAY_OFFICES[office].letterChangeMonth === 1) return String(year);
+  return `${year}-${String((year + 1) % 100).padStart(2, '0')}`;
+}
+
+function overlaps(year: number, [from, to]: [number, number]): boolean {
+  return year >= from && year <= to;
+}
+
+/**
+ * Every year the marks could mean, best first. Candidates that contradict
+ * another mark are kept with a lower score and the reason, since a worn or
+ * misread mark is more common than an impossible one.
+ */
+export function decodeHallmarks(input: HallmarkInput): HallmarkDecoding {
+  const conflicts: string[] = [];
+  const notes: string[] = [];
+
+  const offices = input.office ? [input.office] : input.townMarks?.length ? input.townMarks : Object.keys(ASSAY_OFFICES) as AssayOfficeId[];
+
+  if ((input.townMarks?.length ?? 0) > 1) {
+    conflicts.push(`Town marks for more than one assay office (${input.townMarks!.map(o => ASSAY_OFFICES[o].name).join(', ')})`);
+  }
+  if (input.standard === 'britannia' && input.office === 'edinburgh') {
+    notes.push('Britannia standard was rarely assayed in Edinburgh - check the standard mark');
+  }
+  if (input.standard === 'britannia') {
+    notes.push('Britannia standard was compulsory 1697-1720 and optional since - uncommon later, but not a conflict');
+  }
+  if (input.dutyMark && input.commemorativeMark) {
+    conflicts.push('A duty mark (1784-1890) and a 20th/21st century commemorative mark cannot both be original');
+  }
+
+  const candidates: HallmarkYearCandidate[] = [];
+  const letter = input.dateLetter?.trim();
+
+  if (!letter) {
+    notes.push('No date letter read - years can only be bounded by the other marks');
+  } else {
+    for (const cycle of DATE_LETTER_CYCLES) {
+      if (!offices.includes(cycle.office)) continue;
+      if (input.letterStyle && cycle.style && cycle.style !== input.letterStyle) continue;
+
+      let index = cycle.letters.indexOf(letter);
+      let score = 1;
+      const reasons: string[] = [];
+
+      if (index < 0) {
+        // c, o, s, u, v, w, x and z look alike in either case once worn
+        index = cycle.letters.toLowerCase().indexOf(letter.toLowerCase());
+        if (index < 0) continue;
+        score *= /[cosuvwxz]/i.test(letter) ? 0.6 : 0.3;
+        reasons.push(`Cycle uses ${cycle.letters[index] === cycle.letters[index].toUpperCase() ? 'capital' : 'small'} letters`);
+      }
+
+      const year = cycle.startYear + index;
+      const office = ASSAY_OFFICES[cycle.office];
+
+      if (office.closedIn && year > office.closedIn) continue;
+
+      if (input.dutyMark) {
+        const range: [number, number] = input.dutyMark === 'unidentified' ? [1784, 1890] : DUTY_MARK_YEARS[input.dutyMark];
+        const from = cycle.office === 'dublin' ? Math.max(range[0], 1807) : range[0];
+        if (!overlaps(year, [from, range[1]])) {
+          score *= 0.1;
+          reasons.push(`Duty mark was struck ${from}-${range[1]}`);
+        }
+      }
+      if (input.commemorativeMark && !overlaps(year, COMMEMORATIVE_YEARS[input.commemorativeMark])) {
+        score *= 0.1;
+        reasons.push(`Commemorative mark dates to ${COMMEMORATIVE_YEARS[input.commemorativeMark].join('-')}`);
+      }
+      if (cycle.office === 'london' && input.leopardCrowned !== undefined && input.leopardCrowned !== (year < 1821)) {
+        score *= 0.2;
+        reasons.push(`London leopard's head was ${input.leopardCrowned ? 'uncrowned from 1821' : 'crowned before 1821'}`);
+      }
+      if (input.millesimal && year < 1975) {
+        score *= 0.5;
+        reasons.push('Fineness numbers (925/958) were not struck on British silver before 1975');
+      }
+
+      candidates.push({
+        office: cycle.office,
+        officeName: office.name,
+        year,
+        yearLabel: yearLabel(cycle.office, year),
+        letter: cycle.letters[index],
+        letterStyle: cycle.style ?? null,
+        cycle: `${cycle.startYear}-${cycle.startYear + cycle.letters.length - 1}`,
+        score: Math.round(score * 100) / 100,
+        reasons,
+      });
+    }
+
+    if (candidates.length === 0) {
+      conflicts.push(`Date letter "${letter}" doesn't appear in any ${offices.length === 1 ? ASSAY_OFFICES[offices[0]].name + ' ' : ''}cycle${input.letterStyle ? ` in ${input.letterStyle.replace('_', ' ')} type` : ''}`);
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score || a.year - b.year);
+
+  const best = candidates.filter(c => c.score === candidates[0]?.score);
+  if (best.length > 0 && best[0].score < 0.5) {
+    conflicts.push('Every reading of the date letter contradicts another mark - marks may be from different periods');
+  }
+
+  return {
+    input,
+    candidates,
+    yearRange: best.length > 0
+      ? { start: Math.min(...best.map(c => c.year)), end: Math.max(...best.map(c => c.year)) }
+      : null,
+    conflicts,
+    notes: Array.from(new Set(notes)),
+  };
+}
+
+// ============================================================================
+// AUTHENTICATION CHECK
+// ============================================================================
+
+/**
+ * Result of the hallmark checkpoint from the silver authentication criteria,
+ * judged from the decoded marks rather than by the model
+ */
+export function checkHallmarks(
+  decoding: HallmarkDecoding,
+  criteria: AuthenticationCriteria | undefined,
+  period?: { start: number | null; end: number | null }
+): HallmarkCheck {
+  const checkpoint = criteria?.checkpoints.find(c => /hallmark/i.test(c.name));
+  const check: HallmarkCheck = {
+    checkpoint: checkpoint?.name ?? 'Hallmarks',
+    weight: checkpoint?.weight ?? 10,
+    passed: [],
+    failed: [],
+    unverified: [],
+  };
+  const { input } = decoding;
+
+  const read = [
+    input.standard && `${input.standard} standard`,
+    input.office && `${ASSAY_OFFICES[input.office].name} town mark`,
+    input.dateLetter && `date letter "${input.dateLetter}"`,
+    input.dutyMark && 'duty mark',
+  ].filter(Boolean) as string[];
+
+  if (read.length >= 3) check.passed.push(`Marks read: ${read.join(', ')}`);
+  else check.unverified.push(read.length > 0 ? `Only ${read.join(', ')} read - photograph the full set of marks` : 'No hallmarks read');
+
+  for (const conflict of decoding.conflicts) {
+    check.failed.push(conflict);
+  }
+
+  if (decoding.yearRange && period?.start && period.end) {
+    const { start, end } = decoding.yearRange;
+    if (start <= period.end + 5 && end >= period.start - 5) {
+      check.passed.push(`Date letter (${start === end ? start : `${start}-${end}`}) matches the attributed period ${period.start}-${period.end}`);
+    } else {
+      check.failed.push(`Date letter gives ${start === end ? start : `${start}-${end}`}, outside the attributed period ${period.start}-${period.end}`);
+    }
+  } else if (decoding.candidates.length > 1 && decoding.yearRange && decoding.yearRange.start !== decoding.yearRange.end) {
+    check.unverified.push('Date letter fits several cycles - the letter\'s typeface and shield shape decide between them');
+  }
+
+  return check;
+}
+
+/**
+ * Short text for the deep-analysis prompt
+ */
+export function describeHallmarkDecoding(decoding: HallmarkDecoding, limit = 4): string {
+  const lines = decoding.candidates.slice(0, limit).map(c =>
+    `• ${c.officeName} ${c.yearLabel} (letter "${c.letter}"${c.letterStyle ? `, ${c.letterStyle.replace('_', ' ')}` : ''}, cycle ${c.cycle})${c.reasons.length ? ` - less likely: ${c.reasons.join('; ')}` : ''}`
+  );
+  return [...lines, ...decoding.conflicts.map(c => `⚠️ ${c}`)].join('\n');
+}
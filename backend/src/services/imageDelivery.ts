@@ -0,0 +1,108 @@
+/**
+ * Image Delivery
+ * Decides who may load a stored image and how long it may be cached
+ * October 2026
+ *
+ * An image is readable by whoever can read an analysis or follow-up photo
+ * that uses it, by the owner of a batch item or collection item pointing at
+ * it, and by anyone holding a signed URL. Signed URLs are for viewers without
+ * the session cookie, such as the expert assigned to a private analysis
+ * (see storage/signedUrls.ts).
+ * Only images of public analyses may sit in shared caches.
+ */
+
+import { db } from '../db/client.js';
+import { itemAnalyses, additionalPhotos, batchJobItems, batchJobs, collectionItems } from '../db/schema.js';
+import type { ItemAnalysis as ItemAnalysisRecord } from '../db/schema.js';
+import { and, eq, inArray } from 'drizzle-orm';
+import { canViewAnalysis } from './analysisAccess.js';
+import { imageOriginalKeys } from './imageIngestion.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ImageAccess =
+  | { allowed: false }
+  | { allowed: true; scope: 'public' | 'private' };
+
+type ImageOwner = Pick<ItemAnalysisRecord, 'id' | 'userId' | 'visibility'>;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Keys never change content, but an analysis can be made private again - so
+// shared caches only keep public images briefly, then revalidate by ETag
+const PUBLIC_CACHE_CONTROL = 'public, max-age=300';
+// Short, so a visibility change takes effect soon in the viewer's browser
+const PRIVATE_CACHE_CONTROL = 'private, max-age=600';
+
+// ============================================================================
+// ACCESS
+// ============================================================================
+
+/**
+ * Access granted by the analyses that use an image - public if any of them
+ * is public, readable if the viewer can read any of them
+ */
+export function imageAccessFor(owners: Pick<ItemAnalysisRecord, 'userId' | 'visibility'>[], userId: string | null): ImageAccess {
+  if (owners.some(owner => owner.visibility === 'public')) {
+    return { allowed: true, scope: 'public' };
+  }
+  if (owners.some(owner => canViewAnalysis(owner, userId))) {
+    return { allowed: true, scope: 'private' };
+  }
+  return { allowed: false };
+}
+
+/**
+ * Work out whether the viewer may load a storage key. Images nothing
+ * points at are refused.
+ */
+export async function resolveImageAccess(key: string, userId: string | null): Promise<ImageAccess> {
+  const keys = imageOriginalKeys(key);
+  const ownerColumns = { id: itemAnalyses.id, userId: itemAnalyses.userId, visibility: itemAnalyses.visibility };
+
+  const owners: ImageOwner[] = [
+    ...await db
+      .select(ownerColumns)
+      .from(itemAnalyses)
+      .where(inArray(itemAnalyses.imageUrl, keys)),
+    ...await db
+      .select(ownerColumns)
+      .from(additionalPhotos)
+      .innerJoin(itemAnalyses, eq(additionalPhotos.itemAnalysisId, itemAnalyses.id))
+      .where(inArray(additionalPhotos.imageUrl, keys)),
+  ];
+
+  const access = imageAccessFor(owners, userId);
+  if (access.allowed || !userId) return access;
+
+  // Batch uploads are readable before their analysis exists
+  const [batchItem] = await db
+    .select({ id: batchJobItems.id })
+    .from(batchJobItems)
+    .innerJoin(batchJobs, eq(batchJobItems.jobId, batchJobs.id))
+    .where(and(inArray(batchJobItems.imageKey, keys), eq(batchJobs.userId, userId)))
+    .limit(1);
+  if (batchItem) return { allowed: true, scope: 'private' };
+
+  if (owners.length > 0) {
+    const [saved] = await db
+      .select({ id: collectionItems.id })
+      .from(collectionItems)
+      .where(and(
+        eq(collectionItems.userId, userId),
+        inArray(collectionItems.itemAnalysisId, owners.map(owner => owner.id))
+      ))
+      .limit(1);
+    if (saved) return { allowed: true, scope: 'private' };
+  }
+
+  return { allowed: false };
+}
+
+export function imageCacheControl(scope: 'public' | 'private'): string {
+  return scope === 'public' ? PUBLIC_CACHE_CONTROL : PRIVATE_CACHE_CONTROL;
+}
@@ -0,0 +1,353 @@
+/**
+ * Image Ingestion
+ * Sniffs, orients and strips uploads, then stores the original with derivatives
+ * October 2026
+ *
+ * Uploads arrive as whatever the phone produced - often HEIC, rotated by an
+ * EXIF flag and carrying GPS. Everything stored is re-encoded by sharp, which
+ * drops metadata, so the location never reaches storage or the vision model.
+ * Derivatives live next to the original under one prefix, so the image route
+ * can find them from the key saved on the analysis. Perceptual hashes of the
+ * oriented image are recorded with it for duplicate detection.
+ */
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import decodeHeic from 'heic-decode';
+import { v4 as uuidv4 } from 'uuid';
+import { ValidationError } from '../middleware/error.js';
+import { uploadImage } from '../storage/client.js';
+import { computeImageHashes, ImageHashes } from './perceptualHash.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'heic' | 'avif';
+export type ImageSize = 'thumb' | 'medium' | 'original';
+export type DerivativeFormat = 'jpeg' | 'webp';
+
+export interface ImageUpload {
+  buffer: Buffer;
+  userId?: string | null;
+  originalName?: string;
+}
+
+export interface StoredImageInfo {
+  width: number; // After orientation
+  height: number;
+  contentHash: string; // sha256 of the bytes as uploaded
+  perceptualHash: string | null; // See perceptualHash.ts - null for images ingested before hashing
+  differenceHash: string | null;
+}
+
+export interface UploadHashes extends ImageHashes {
+  contentHash: string; // sha256 of the bytes as uploaded
+}
+
+export interface IngestedImage extends StoredImageInfo {
+  perceptualHash: string; // Always computed for new uploads
+  differenceHash: string;
+  key: string; // The original's storage key - derivatives are found from it
+  format: ImageFormat; // What was uploaded
+  contentType: string; // What was stored
+  buffer: Buffer; // The stored original, for analysis
+  derivativeKeys: string[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+// A small compressed file can declare huge dimensions; decoded RGBA costs 4
+// bytes a pixel, so refuse anything past 50MP (a 48MP phone photo fits)
+export const MAX_IMAGE_PIXELS = 50_000_000;
+
+// Longest edge in pixels
+const DERIVATIVE_SIZES: Record<Exclude<ImageSize, 'original'>, number> = {
+  thumb: 320,
+  medium: 1280,
+};
+
+// Browsers and the vision model can't read HEIC or AVIF, and GIFs are single frames here
+const STORED_FORMATS: Record<ImageFormat, 'jpeg' | 'png' | 'webp'> = {
+  jpeg: 'jpeg',
+  png: 'png',
+  webp: 'webp',
+  gif: 'png',
+  heic: 'jpeg',
+  avif: 'jpeg',
+};
+
+const EXTENSIONS: Record<'jpeg' | 'png' | 'webp', string> = { jpeg: 'jpg', png: 'png', webp: 'webp' };
+
+// ISO-BMFF brands, read from the ftyp box
+const HEIC_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']);
+const AVIF_BRANDS = new Set(['avif', 'avis']);
+
+const ORIGINAL_KEY = /\/original\.[a-z]+$/;
+const INGESTED_KEY = /^(images\/.+\/[0-9a-f-]{36})\/(original|thumb|medium)\.(jpg|png|webp)$/;
+
+// ============================================================================
+// FORMAT DETECTION
+// ============================================================================
+
+/**
+ * Identify an image by its magic bytes - the data URL's declared type is
+ * whatever the client guessed
+ */
+export function sniffImageFormat(buffer: Buffer): ImageFormat | null {
+  if (buffer.length < 12) return null;
+
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpeg';
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') return 'webp';
+  if (/^GIF8[79]a$/.test(buffer.toString('ascii', 0, 6))) return 'gif';
+
+  if (buffer.toString('ascii', 4, 8) === 'ftyp') {
+    // Major brand, then compatible brands after the minor version
+    const boxEnd = Math.min(buffer.readUInt32BE(0), buffer.length);
+    const brands = [buffer.toString('ascii', 8, 12)];
+    for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+      brands.push(buffer.toString('ascii', offset, offset + 4));
+    }
+    // mif1 is shared by both, so AVIF brands win
+    if (brands.some(b => AVIF_BRANDS.has(b))) return 'avif';
+    if (brands.some(b => HEIC_BRANDS.has(b))) return 'heic';
+  }
+
+  return null;
+}
+
+// ============================================================================
+// INGESTION
+// ============================================================================
+
+function decodeError(format: ImageFormat, error: unknown): ValidationError {
+  if (error instanceof ValidationError) return error;
+  if (error instanceof Error && /pixel limit/i.test(error.message)) {
+    return new ValidationError('Image dimensions are too large. Use a photo under 50 megapixels.');
+  }
+  console.error(`❌ Could not decode ${format} upload:`, error);
+  return new ValidationError('Image could not be read. It may be corrupted.');
+}
+
+async function openImage(buffer: Buffer, format: ImageFormat): Promise<sharp.Sharp> {
+  if (format === 'heic') {
+    const images = await decodeHeic.all({ buffer });
+    try {
+      const [primary] = images;
+      if (!primary) {
+        throw new Error('HEIF image not found');
+      }
+      // Check the declared size before libheif allocates the pixel buffer
+      if (primary.width * primary.height > MAX_IMAGE_PIXELS) {
+        throw new ValidationError('Image dimensions are too large. Use a photo under 50 megapixels.');
+      }
+      // libheif applies the container's rotation while decoding
+      const { width, height, data } = await primary.decode();
+      return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), { raw: { width, height, channels: 4 } });
+    } finally {
+      images.dispose();
+    }
+  }
+  return sharp(buffer, { autoOrient: true, limitInputPixels: MAX_IMAGE_PIXELS });
+}
+
+function encode(image: sharp.Sharp, format: 'jpeg' | 'png' | 'webp', quality: number): sharp.Sharp {
+  switch (format) {
+    case 'jpeg':
+      return image.flatten({ background: '#ffffff' }).jpeg({ quality, mozjpeg: true });
+    case 'png':
+      return image.png();
+    case 'webp':
+      return image.webp({ quality });
+  }
+}
+
+interface DecodedUpload {
+  format: ImageFormat;
+  storedFormat: 'jpeg' | 'png' | 'webp';
+  image: sharp.Sharp; // Oriented, metadata-free pipeline to clone derivatives from
+  original: { data: Buffer; info: sharp.OutputInfo };
+}
+
+function assertImageUpload(buffer: Buffer): ImageFormat {
+  if (buffer.length > MAX_IMAGE_BYTES) {
+    throw new ValidationError('Image size exceeds 20MB limit');
+  }
+
+  const format = sniffImageFormat(buffer);
+  if (!format) {
+    throw new ValidationError('Unsupported image type. Use JPEG, PNG, WebP, GIF, HEIC or AVIF.');
+  }
+  return format;
+}
+
+async function decodeUpload(buffer: Buffer): Promise<DecodedUpload> {
+  const format = assertImageUpload(buffer);
+  const storedFormat = STORED_FORMATS[format];
+  try {
+    const image = (await openImage(buffer, format)).keepIccProfile();
+    const original = await encode(image.clone(), storedFormat, 92).toBuffer({ resolveWithObject: true });
+    return { format, storedFormat, image, original };
+  } catch (error) {
+    throw decodeError(format, error);
+  }
+}
+
+/**
+ * Validate an upload and store a clean original plus thumb/medium
+ * derivatives in JPEG and WebP
+ */
+export async function ingestImage(upload: ImageUpload): Promise<IngestedImage> {
+  const { format, storedFormat, image, original } = await decodeUpload(upload.buffer);
+
+  const contentHash = uploadContentHash(upload.buffer);
+  const prefix = `images/${upload.userId || 'anonymous'}/${uuidv4()}`;
+  const key = `${prefix}/original.${EXTENSIONS[storedFormat]}`;
+  const contentType = `image/${storedFormat}`;
+
+  const derivatives: { key: string; buffer: Buffer; contentType: string }[] = [];
+  for (const [size, pixels] of Object.entries(DERIVATIVE_SIZES)) {
+    const resized = image.clone().resize(pixels, pixels, { fit: 'inside', withoutEnlargement: true });
+    for (const derivativeFormat of ['jpeg', 'webp'] as const) {
+      derivatives.push({
+        key: `${prefix}/${size}.${EXTENSIONS[derivativeFormat]}`,
+        buffer: await encode(resized.clone(), derivativeFormat, 80).toBuffer(),
+        contentType: `image/${derivativeFormat}`,
+      });
+    }
+  }
+
+  const hashes = await computeImageHashes(image);
+  const info: StoredImageInfo = { width: original.info.width, height: original.info.height, contentHash, ...hashes };
+
+  await Promise.all([
+    uploadImage({
+      buffer: original.data,
+      contentType,
+      userId: upload.userId || undefined,
+      originalName: upload.originalName,
+      key,
+      metadata: toStorageMetadata(info),
+    }),
+    ...derivatives.map(d => uploadImage({
+      buffer: d.buffer,
+      contentType: d.contentType,
+      userId: upload.userId || undefined,
+      key: d.key,
+    })),
+  ]);
+
+  console.log(`🖼️ Ingested ${format} ${info.width}x${info.height} as ${key}`);
+
+  return {
+    ...info,
+    ...hashes,
+    key,
+    format,
+    contentType,
+    buffer: original.data,
+    derivativeKeys: derivatives.map(d => d.key),
+  };
+}
+
+function uploadContentHash(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Content and perceptual hashes of an upload without storing it, for
+ * checking for earlier analyses before paying for a new one
+ */
+export async function hashImageUpload(buffer: Buffer): Promise<UploadHashes> {
+  const format = assertImageUpload(buffer);
+  try {
+    const hashes = await computeImageHashes(await openImage(buffer, format));
+    return { contentHash: uploadContentHash(buffer), ...hashes };
+  } catch (error) {
+    throw decodeError(format, error);
+  }
+}
+
+/**
+ * Clean a data URL that is analyzed but not stored (extra multi-image
+ * angles) so HEIC and location data don't reach the vision model either
+ */
+export async function normalizeDataUrl(dataUrl: string): Promise<string> {
+  const matches = dataUrl.match(/^data:image\/[A-Za-z0-9.+-]+;base64,(.+)$/);
+  if (!matches) {
+    throw new ValidationError('Invalid image data format');
+  }
+  const { storedFormat, original } = await decodeUpload(Buffer.from(matches[1], 'base64'));
+  return toDataUrl({ buffer: original.data, contentType: `image/${storedFormat}` });
+}
+
+export function toDataUrl(image: Pick<IngestedImage, 'buffer' | 'contentType'>): string {
+  return `data:${image.contentType};base64,${image.buffer.toString('base64')}`;
+}
+
+// ============================================================================
+// STORED IMAGE LOOKUP
+// ============================================================================
+
+function toStorageMetadata(info: StoredImageInfo): Record<string, string> {
+  return {
+    'image-width': String(info.width),
+    'image-height': String(info.height),
+    'content-hash': info.contentHash,
+    ...(info.perceptualHash && { 'image-phash': info.perceptualHash }),
+    ...(info.differenceHash && { 'image-dhash': info.differenceHash }),
+  };
+}
+
+/**
+ * Read back what ingestion recorded on the original - null for images
+ * stored before ingestion existed
+ */
+export function fromStorageMetadata(metadata: Record<string, string>): StoredImageInfo | null {
+  const width = Number(metadata['image-width']);
+  const height = Number(metadata['image-height']);
+  const contentHash = metadata['content-hash'];
+  if (!width || !height || !contentHash) return null;
+  return {
+    width,
+    height,
+    contentHash,
+    perceptualHash: metadata['image-phash'] ?? null,
+    differenceHash: metadata['image-dhash'] ?? null,
+  };
+}
+
+/**
+ * Storage key for a size and format of an ingested original. Keys that
+ * don't follow the ingestion layout (older uploads) have no derivatives
+ * and map to themselves.
+ */
+export function imageVariantKey(key: string, size: ImageSize, format: DerivativeFormat = 'jpeg'): string {
+  if (size === 'original' || !ORIGINAL_KEY.test(key)) return key;
+  return key.replace(ORIGINAL_KEY, `/${size}.${EXTENSIONS[format]}`);
+}
+
+/**
+ * Keys the original of a stored image could have - analyses and photos
+ * record the original, so this is how a derivative finds its owner
+ */
+export function imageOriginalKeys(key: string): string[] {
+  const match = key.match(INGESTED_KEY);
+  if (!match) return [key];
+  return Object.values(EXTENSIONS).map(ext => `${match[1]}/original.${ext}`);
+}
+
+/**
+ * Proxy URLs for the derivatives of a stored image
+ */
+export function imageVariantUrls(key: string): Record<Exclude<ImageSize, 'original'>, string> {
+  return {
+    thumb: `/api/${key}?size=thumb`,
+    medium: `/api/${key}?size=medium`,
+  };
+}
@@ -10,11 +10,9 @@
  */
 
 import { ItemAnalysis, DomainExpert } from './openai.js';
-import OpenAI from 'openai';
-import { env } from '../config/env.js';
-
-// Initialize OpenAI client for Vera
-const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
+import { getVisionProvider } from './visionProvider.js';
+import { recordModelUsage } from './usageLedger.js';
+import { checkWatchPeriod, decodeWatchNumbers, describeWatchNumbers, parseCasebackReading } from './watchSerials.js';
 
 // ============================================================================
 // VERA - THE VINTAGEVISION ASSISTANT
@@ -185,6 +183,9 @@ const DOMAIN_PHOTO_REQUESTS: Record<DomainExpert, Partial<Record<InformationNeed
   },
 };
 
+// Answers to this need are decoded against the watch serial tables
+export const CASEBACK_NEED_ID = 'caseback-numbers';
+
 /**
  * Analyze current analysis and determine what additional information would help
  */
@@ -315,7 +316,24 @@ export function detectInformationNeeds(
     if (!answeredNeedIds.has(conditionNeed.id)) needs.push(conditionNeed);
   }
 
-  // 9. Scale reference for unusual sizes
+  // 9. Watches: ask for the caseback numbers unless a serial was already read
+  if (domainExpert === 'watches' && !analysis.watchNumbers?.readings.some(r => r.kind === 'serial')) {
+    const casebackNeed: InformationNeed = {
+      id: CASEBACK_NEED_ID,
+      type: 'question_marks',
+      priority: analysis.authenticityRisk === 'high' || analysis.authenticityRisk === 'very_high' ? 'critical' : 'high',
+      question: 'What numbers can you read on the watch? Type the serial and reference (on the case back or between the lugs) and the calibre if you can see the movement.',
+      explanation: 'Serial, reference and calibre numbers date the case and movement from the maker\'s records, and numbers from different decades are a sign of replaced parts.',
+      expectedConfidenceGain: 0.12,
+      examples: [
+        'Rolex ref 5513, serial 1538435',
+        'Omega ST 145.022, movement 29512345, cal. 861',
+      ],
+    };
+    if (!answeredNeedIds.has(casebackNeed.id)) needs.push(casebackNeed);
+  }
+
+  // 10. Scale reference for unusual sizes
   const scaleNeed: InformationNeed = {
     id: 'scale-photo',
     type: 'photo_scale',
@@ -339,6 +357,22 @@ export function detectInformationNeeds(
   return needs;
 }
 
+/**
+ * Decode a caseback reading given in answer to the caseback question and
+ * cross-check it against the attributed period. Conflicts are added to the
+ * session analysis' red flags.
+ */
+export function applyCasebackReading(session: InteractiveSession, reading: string): string[] {
+  const analysis = session.currentAnalysis;
+  const decoding = decodeWatchNumbers(parseCasebackReading([reading], analysis.maker));
+  const flags = checkWatchPeriod(decoding, { start: analysis.periodStart ?? null, end: analysis.periodEnd ?? null });
+
+  analysis.watchNumbers = { ...decoding, redFlags: flags };
+  analysis.redFlags = Array.from(new Set([...(analysis.redFlags ?? []), ...flags]));
+
+  return flags;
+}
+
 // ============================================================================
 // CONVERSATION GENERATION
 // ============================================================================
@@ -488,12 +522,14 @@ ITEM ANALYSIS CONTEXT:
 ${currentAnalysis.historicalContext ? `- Historical Context: ${currentAnalysis.historicalContext}` : ''}
 ${currentAnalysis.evidenceFor ? `- Evidence For (authentic): ${currentAnalysis.evidenceFor.slice(0, 3).join('; ')}` : ''}
 ${currentAnalysis.evidenceAgainst ? `- Evidence Against: ${currentAnalysis.evidenceAgainst.slice(0, 3).join('; ')}` : ''}
+${currentAnalysis.watchNumbers?.readings.length ? `- Caseback Numbers (decoded from serial tables):\n${describeWatchNumbers(currentAnalysis.watchNumbers)}` : ''}
+${currentAnalysis.redFlags?.length ? `- Red Flags: ${currentAnalysis.redFlags.slice(0, 3).join('; ')}` : ''}
 `;
 
   // Build conversation history for context
   const recentHistory = conversationHistory.slice(-6).map(msg => ({
     role: msg.role as 'user' | 'assistant',
-    content: msg.content
+    text: msg.content
   }));
 
   // Remaining questions we might want to ask
@@ -533,23 +569,23 @@ IMPORTANT RULES:
 - If the user provides a photo, acknowledge what you can see relevant to authentication`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini', // Fast, cheap, good for conversation
+    const completion = await getVisionProvider().converse({
       messages: [
-        { role: 'system', content: systemPrompt },
+        { role: 'system', text: systemPrompt },
         ...recentHistory,
         {
           role: 'user',
-          content: messageType === 'photo'
+          text: messageType === 'photo'
             ? `[User provided a photo] ${userMessage || 'Here is an additional photo of the item.'}`
             : userMessage
         }
       ],
       temperature: 0.7,
-      max_tokens: 500,
+      maxTokens: 500,
     });
+    await recordModelUsage('conversation', completion);
 
-    const responseText = completion.choices[0]?.message?.content ||
+    const responseText = completion.content ||
       "I apologize, I'm having trouble processing that. Could you rephrase your question?";
 
     return {
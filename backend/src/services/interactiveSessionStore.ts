@@ -0,0 +1,401 @@
+/**
+ * Interactive Session Store
+ * Durable persistence for Vera sessions (Postgres) with an optional Redis read cache
+ * October 2026
+ *
+ * Sessions, messages and responses live in Postgres so a conversation survives
+ * API restarts and can be picked up on any replica. Messages and responses are
+ * append-only; only rows beyond the highest persisted position are inserted on save.
+ * Every save bumps the session's version and must start from the version it
+ * loaded, so two concurrent replies can't interleave their messages - the
+ * later one gets a ConflictError and can reload and retry.
+ */
+
+import { db } from '../db/client.js';
+import {
+  interactiveSessions,
+  interactiveSessionMessages,
+  interactiveSessionResponses,
+} from '../db/schema.js';
+import type { InteractiveSessionRecord } from '../db/schema.js';
+import { and, asc, count, desc, eq, inArray, isNull, max, sql } from 'drizzle-orm';
+import { ConflictError } from '../middleware/error.js';
+import { getRedisClient } from './session.js';
+import type {
+  InteractiveSession,
+  ConversationMessage,
+  UserResponse,
+  InformationNeed,
+  ConfidenceProgress,
+} from './interactiveAnalysis.js';
+import type { ItemAnalysis } from './openai.js';
+
+// Sessions expire after a week without activity
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Redis cache TTL - short, Postgres is the source of truth
+const CACHE_TTL_SECONDS = 60 * 60;
+
+const ACTIVE_STATUSES: InteractiveSession['status'][] = ['gathering_info', 'processing'];
+
+export interface StoredInteractiveSession extends InteractiveSession {
+  userId: string | null;
+  version: number;
+  expiresAt: string;
+}
+
+export interface InteractiveSessionSummary {
+  id: string;
+  analysisId: string;
+  status: InteractiveSession['status'];
+  messageCount: number;
+  responseCount: number;
+  latestConfidence: number | null;
+  expiresAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function cacheKey(sessionId: string): string {
+  return `vera:session:${sessionId}`;
+}
+
+function isExpired(session: { expiresAt: string }): boolean {
+  return new Date(session.expiresAt).getTime() < Date.now();
+}
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+async function readCache(sessionId: string): Promise<StoredInteractiveSession | null> {
+  const redis = getRedisClient();
+  if (!redis) return null;
+
+  try {
+    const cached = await redis.get(cacheKey(sessionId));
+    const session = cached ? (JSON.parse(cached) as StoredInteractiveSession) : null;
+    // Entries cached before sessions were versioned are reloaded from Postgres
+    return typeof session?.version === 'number' ? session : null;
+  } catch (error) {
+    console.warn('⚠️ Vera session cache read failed:', error);
+    return null;
+  }
+}
+
+async function writeCache(session: StoredInteractiveSession): Promise<void> {
+  const redis = getRedisClient();
+  if (!redis) return;
+
+  try {
+    await redis.setEx(cacheKey(session.id), CACHE_TTL_SECONDS, JSON.stringify(session));
+  } catch (error) {
+    console.warn('⚠️ Vera session cache write failed:', error);
+  }
+}
+
+async function evictCache(sessionId: string): Promise<void> {
+  const redis = getRedisClient();
+  if (!redis) return;
+
+  try {
+    await redis.del(cacheKey(sessionId));
+  } catch (error) {
+    console.warn('⚠️ Vera session cache evict failed:', error);
+  }
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * Insert a new session, or update one loaded from the store. Messages and
+ * responses are appended, never rewritten. Throws ConflictError if the
+ * session was saved by someone else since it was loaded.
+ */
+export async function saveSession(
+  session: InteractiveSession | StoredInteractiveSession,
+  userId: string | null = null
+): Promise<StoredInteractiveSession> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS);
+  const loadedVersion = (session as Partial<StoredInteractiveSession>).version;
+
+  const version = await db.transaction(async (tx) => {
+    // The update locks the session row, so a concurrent save waits here and
+    // then finds the version moved on
+    const [saved] = loadedVersion === undefined
+      ? await tx
+        .insert(interactiveSessions)
+        .values({
+          id: session.id,
+          itemAnalysisId: session.analysisId,
+          userId,
+          status: session.status,
+          currentAnalysis: session.currentAnalysis,
+          informationNeeds: session.informationNeeds,
+          confidenceProgress: session.confidenceProgress,
+          expiresAt,
+          createdAt: new Date(session.createdAt),
+          updatedAt: now,
+        })
+        .onConflictDoNothing()
+        .returning({ version: interactiveSessions.version })
+      : await tx
+        .update(interactiveSessions)
+        .set({
+          status: session.status,
+          currentAnalysis: session.currentAnalysis,
+          informationNeeds: session.informationNeeds,
+          confidenceProgress: session.confidenceProgress,
+          version: sql`${interactiveSessions.version} + 1`,
+          expiresAt,
+          updatedAt: now,
+        })
+        .where(and(eq(interactiveSessions.id, session.id), eq(interactiveSessions.version, loadedVersion)))
+        .returning({ version: interactiveSessions.version });
+
+    if (!saved) {
+      throw new ConflictError('Session was updated by another request - reload it and try again');
+    }
+
+    const [{ lastMessage }] = await tx
+      .select({ lastMessage: max(interactiveSessionMessages.position) })
+      .from(interactiveSessionMessages)
+      .where(eq(interactiveSessionMessages.sessionId, session.id));
+
+    const newMessages = session.conversationHistory
+      .map((message, position) => ({ message, position }))
+      .filter(({ position }) => position > (lastMessage ?? -1));
+
+    if (newMessages.length > 0) {
+      await tx.insert(interactiveSessionMessages).values(
+        newMessages.map(({ message, position }) => ({
+          sessionId: session.id,
+          position,
+          role: message.role,
+          content: message.content,
+          relatedNeedId: message.relatedNeedId ?? null,
+          createdAt: new Date(message.timestamp),
+        }))
+      );
+    }
+
+    const [{ lastResponse }] = await tx
+      .select({ lastResponse: max(interactiveSessionResponses.position) })
+      .from(interactiveSessionResponses)
+      .where(eq(interactiveSessionResponses.sessionId, session.id));
+
+    const newResponses = session.collectedResponses
+      .map((response, position) => ({ response, position }))
+      .filter(({ position }) => position > (lastResponse ?? -1));
+
+    if (newResponses.length > 0) {
+      await tx.insert(interactiveSessionResponses).values(
+        newResponses.map(({ response, position }) => ({
+          sessionId: session.id,
+          position,
+          needId: response.needId,
+          responseType: response.type,
+          content: response.content,
+          providedAt: new Date(response.providedAt),
+        }))
+      );
+    }
+
+    return saved.version;
+  }).catch(async (error) => {
+    // The cached copy may be the stale one
+    if (error instanceof ConflictError) await evictCache(session.id);
+    throw error;
+  });
+
+  const stored: StoredInteractiveSession = {
+    ...session,
+    updatedAt: now.toISOString(),
+    userId,
+    version,
+    expiresAt: expiresAt.toISOString(),
+  };
+
+  await writeCache(stored);
+  return stored;
+}
+
+async function hydrateSession(record: InteractiveSessionRecord): Promise<StoredInteractiveSession> {
+  const [messages, responses] = await Promise.all([
+    db
+      .select()
+      .from(interactiveSessionMessages)
+      .where(eq(interactiveSessionMessages.sessionId, record.id))
+      .orderBy(asc(interactiveSessionMessages.position)),
+    db
+      .select()
+      .from(interactiveSessionResponses)
+      .where(eq(interactiveSessionResponses.sessionId, record.id))
+      .orderBy(asc(interactiveSessionResponses.position)),
+  ]);
+
+  return {
+    id: record.id,
+    analysisId: record.itemAnalysisId,
+    userId: record.userId,
+    version: record.version,
+    status: record.status as InteractiveSession['status'],
+    currentAnalysis: record.currentAnalysis as ItemAnalysis,
+    informationNeeds: record.informationNeeds as InformationNeed[],
+    confidenceProgress: record.confidenceProgress as ConfidenceProgress[],
+    conversationHistory: messages.map((m): ConversationMessage => ({
+      role: m.role as ConversationMessage['role'],
+      content: m.content,
+      timestamp: m.createdAt.toISOString(),
+      ...(m.relatedNeedId ? { relatedNeedId: m.relatedNeedId } : {}),
+    })),
+    collectedResponses: responses.map((r): UserResponse => ({
+      needId: r.needId,
+      type: r.responseType as UserResponse['type'],
+      content: r.content,
+      providedAt: r.providedAt.toISOString(),
+    })),
+    expiresAt: record.expiresAt.toISOString(),
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Mark an active session as abandoned once it has passed its expiry
+ */
+async function expireSession(session: StoredInteractiveSession): Promise<StoredInteractiveSession> {
+  await db
+    .update(interactiveSessions)
+    .set({ status: 'abandoned', updatedAt: new Date() })
+    .where(eq(interactiveSessions.id, session.id));
+  await evictCache(session.id);
+
+  console.log(`⌛ Vera session expired: ${session.id}`);
+  return { ...session, status: 'abandoned' };
+}
+
+/**
+ * Load a session by ID (Redis first, then Postgres).
+ * Expired sessions are returned with status 'abandoned'.
+ */
+export async function loadSession(sessionId: string): Promise<StoredInteractiveSession | null> {
+  let session = await readCache(sessionId);
+
+  if (!session) {
+    const [record] = await db
+      .select()
+      .from(interactiveSessions)
+      .where(eq(interactiveSessions.id, sessionId))
+      .limit(1);
+
+    if (!record) {
+      return null;
+    }
+
+    session = await hydrateSession(record);
+    if (!isExpired(session)) {
+      await writeCache(session);
+    }
+  }
+
+  if (ACTIVE_STATUSES.includes(session.status) && isExpired(session)) {
+    return expireSession(session);
+  }
+
+  return session;
+}
+
+/**
+ * Find the most recent unexpired, still-active session for an analysis so the
+ * user can resume where they left off instead of starting over.
+ */
+export async function findResumableSession(
+  analysisId: string,
+  userId: string | null
+): Promise<StoredInteractiveSession | null> {
+  const candidates = await db
+    .select()
+    .from(interactiveSessions)
+    .where(and(
+      eq(interactiveSessions.itemAnalysisId, analysisId),
+      inArray(interactiveSessions.status, ACTIVE_STATUSES)
+    ))
+    .orderBy(desc(interactiveSessions.updatedAt))
+    .limit(10);
+
+  for (const record of candidates) {
+    // Anonymous sessions are only resumable anonymously; signed-in users only resume their own
+    if ((record.userId ?? null) !== userId) continue;
+
+    if (record.expiresAt.getTime() < Date.now()) {
+      await expireSession(await hydrateSession(record));
+      continue;
+    }
+
+    return hydrateSession(record);
+  }
+
+  return null;
+}
+
+/**
+ * List a user's sessions (any status) for an analysis, newest first.
+ * A null userId lists anonymous sessions.
+ */
+export async function listSessionsForAnalysis(
+  analysisId: string,
+  userId: string | null
+): Promise<InteractiveSessionSummary[]> {
+  const records = await db
+    .select()
+    .from(interactiveSessions)
+    .where(and(
+      eq(interactiveSessions.itemAnalysisId, analysisId),
+      userId ? eq(interactiveSessions.userId, userId) : isNull(interactiveSessions.userId)
+    ))
+    .orderBy(desc(interactiveSessions.updatedAt));
+
+  if (records.length === 0) {
+    return [];
+  }
+
+  // Counts for every session in two grouped queries rather than one per session
+  const sessionIds = records.map(record => record.id);
+  const [messageCounts, responseCounts] = await Promise.all([
+    db
+      .select({ sessionId: interactiveSessionMessages.sessionId, total: count() })
+      .from(interactiveSessionMessages)
+      .where(inArray(interactiveSessionMessages.sessionId, sessionIds))
+      .groupBy(interactiveSessionMessages.sessionId),
+    db
+      .select({ sessionId: interactiveSessionResponses.sessionId, total: count() })
+      .from(interactiveSessionResponses)
+      .where(inArray(interactiveSessionResponses.sessionId, sessionIds))
+      .groupBy(interactiveSessionResponses.sessionId),
+  ]);
+  const messagesBySession = new Map(messageCounts.map(row => [row.sessionId, row.total]));
+  const responsesBySession = new Map(responseCounts.map(row => [row.sessionId, row.total]));
+
+  return records.map((record) => {
+    const status = record.status as InteractiveSession['status'];
+    const expired = ACTIVE_STATUSES.includes(status) && record.expiresAt.getTime() < Date.now();
+    const progress = record.confidenceProgress as ConfidenceProgress[];
+    const latest = progress[progress.length - 1];
+
+    return {
+      id: record.id,
+      analysisId: record.itemAnalysisId,
+      status: expired ? 'abandoned' : status,
+      messageCount: messagesBySession.get(record.id) ?? 0,
+      responseCount: responsesBySession.get(record.id) ?? 0,
+      latestConfidence: latest ? latest.overallConfidence : null,
+      expiresAt: record.expiresAt.toISOString(),
+      createdAt: record.createdAt.toISOString(),
+      updatedAt: record.updatedAt.toISOString(),
+    };
+  });
+}
@@ -0,0 +1,257 @@
+/**
+ * Maker Mark Matching
+ * Deterministic lookup of maker marks from text read off a piece
+ * October 2026
+ *
+ * Triage transcribes inscriptions, stamps and backstamps, but OCR output is
+ * noisy ("R0OKWOOD", "Gebrüder", "L & J.G."), split across entries and full
+ * of generic words ("made in", "paper label"). The text is normalized and
+ * fuzzy-matched against each mark's maker name, its variations and the
+ * quoted or capitalized text in its description. Phrases made only of
+ * generic words never match on their own, so "Made in USA" can't nominate
+ * a maker. Same input, same candidates - no model involved.
+ */
+
+import type { MakerMark } from './expertKnowledgeBase.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MarkMatchField = 'maker' | 'variation' | 'markDescription';
+
+export interface MarkMatchSpan {
+  text: string; // What was read, as written
+  sourceIndex: number; // Which input text the span starts in
+  phrase: string; // The knowledge base phrase it matched
+  field: MarkMatchField;
+  similarity: number; // 0-1, 1 = exact after normalization
+}
+
+export interface MakerCandidate {
+  makerId: string;
+  maker: string;
+  category: string;
+  activeYears: string;
+  origin: string;
+  score: number; // 0-1
+  matches: MarkMatchSpan[]; // Best span per matched phrase, strongest first
+}
+
+interface Token {
+  norm: string;
+  raw: string;
+  sourceIndex: number;
+}
+
+interface Phrase {
+  text: string;
+  field: MarkMatchField;
+  tokens: string[];
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+const FIELD_WEIGHTS: Record<MarkMatchField, number> = {
+  maker: 1,
+  variation: 0.9,
+  markDescription: 0.85,
+};
+
+// Words that describe a mark or a company rather than identify one
+const GENERIC_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'in', 'on', 'by', 'for', 'with', 'to',
+  'made', 'usa', 'us', 'america', 'england', 'france', 'germany', 'japan', 'china',
+  'co', 'company', 'inc', 'ltd', 'limited', 'corp', 'corporation', 'mfg', 'manufacturing',
+  'bros', 'brothers', 'sons', 'works', 'studio', 'studios', 'pottery', 'factory',
+  'mark', 'marks', 'marked', 'label', 'labels', 'paper', 'decal', 'stamp', 'stamped', 'impressed',
+  'incised', 'raised', 'printed', 'painted', 'signed', 'signature', 'script', 'brand', 'branded',
+  'logo', 'backstamp', 'monogram', 'medallion', 'circular', 'metal', 'tag', 'number', 'numbers',
+  'red', 'blue', 'black', 'gold', 'green', 'white', 'silver', 'sterling', 'early', 'late', 'original', 'pattern',
+  'name', 'names', 'no', 'vintage', 'genuine', 'reg', 'registered', 'trade',
+]);
+
+// Common OCR misreads, only applied to tokens that are mostly letters
+const OCR_LETTERS: Record<string, string> = { '0': 'o', '1': 'l', '5': 's', '8': 'b', '|': 'l', '$': 's' };
+
+const MIN_FUZZY_LENGTH = 4;
+const MIN_SIMILARITY = 0.8;
+const MIN_SCORE = 0.5;
+
+function normalizeToken(raw: string): string {
+  const letters = raw.replace(/[^\p{L}]/gu, '').length;
+  const folded = letters * 2 >= raw.length
+    ? raw.replace(/[0158|$]/g, c => OCR_LETTERS[c])
+    : raw;
+
+  return folded
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function tokenize(text: string, sourceIndex = 0): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}|$]+(?:['’.][\p{L}\p{N}]+)*|&/gu)) {
+    const raw = match[0];
+    const norm = raw === '&' ? 'and' : normalizeToken(raw);
+    if (norm) tokens.push({ norm, raw, sourceIndex });
+  }
+  return tokens;
+}
+
+/**
+ * Normalize an inscription the way matching sees it: OCR digit/letter
+ * confusions fixed, accents and punctuation dropped, lower case
+ */
+export function normalizeInscription(text: string): string {
+  return tokenize(text).map(t => t.norm).join(' ');
+}
+
+function isDistinctive(tokens: string[]): boolean {
+  return tokens.some(t => !GENERIC_WORDS.has(t) && t.length > 1);
+}
+
+// ============================================================================
+// PHRASES
+// ============================================================================
+
+/**
+ * The phrases a mark can be recognized by. Maker names also match without
+ * their generic words ("Rookwood Pottery" -> "Rookwood").
+ */
+function markPhrases(mark: MakerMark): Phrase[] {
+  const phrases: Phrase[] = [];
+  const add = (text: string, field: MarkMatchField) => {
+    const tokens = tokenize(text).map(t => t.norm);
+    if (tokens.length === 0 || !isDistinctive(tokens)) return;
+    if (phrases.some(p => p.tokens.join(' ') === tokens.join(' '))) return;
+    phrases.push({ text, field, tokens });
+  };
+
+  add(mark.maker, 'maker');
+  const core = tokenize(mark.maker).filter(t => !GENERIC_WORDS.has(t.norm)).map(t => t.raw).join(' ');
+  if (core) add(core, 'maker');
+
+  for (const variation of mark.variations) {
+    add(variation, 'variation');
+  }
+
+  // Text the description quotes or capitalizes is what's physically on the piece
+  for (const quoted of mark.markDescription.matchAll(/["“]([^"”]+)["”]/g)) {
+    add(quoted[1], 'markDescription');
+  }
+  for (const caps of mark.markDescription.matchAll(/\b[A-Z][A-Z&.]{2,}(?:\s+[A-Z][A-Z&.]{2,})*\b/g)) {
+    add(caps[0], 'markDescription');
+  }
+
+  return phrases;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(read: string, phrase: string): number {
+  if (read === phrase) return 1;
+  // Short marks ("RV", "KPM") must be read exactly
+  if (phrase.length < MIN_FUZZY_LENGTH) return 0;
+  return 1 - levenshtein(read, phrase) / Math.max(read.length, phrase.length);
+}
+
+/**
+ * Best window of read tokens for a phrase. Windows one token shorter or
+ * longer than the phrase are tried, and spacing is ignored, so OCR that
+ * splits or joins words ("ROOK WOOD", "GRUEBYFAIENCE") still matches.
+ */
+function bestSpan(tokens: Token[], phrase: Phrase): MarkMatchSpan | null {
+  const target = phrase.tokens.join('');
+  let best: MarkMatchSpan | null = null;
+
+  for (const size of [phrase.tokens.length, phrase.tokens.length - 1, phrase.tokens.length + 1]) {
+    if (size < 1) continue;
+    for (let start = 0; start + size <= tokens.length; start++) {
+      const window = tokens.slice(start, start + size);
+      const score = similarity(window.map(t => t.norm).join(''), target);
+      if (score >= MIN_SIMILARITY && (!best || score > best.similarity)) {
+        best = {
+          text: window.map(t => t.raw).join(' '),
+          sourceIndex: window[0].sourceIndex,
+          phrase: phrase.text,
+          field: phrase.field,
+          similarity: Math.round(score * 100) / 100,
+        };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Rank maker candidates for text read off a piece. Every matched phrase adds
+ * evidence (combined as 1 - Π(1 - weight × similarity)); makers outside the
+ * preferred category are kept but ranked lower.
+ */
+export function matchMakerMarks(
+  texts: string[],
+  marks: MakerMark[],
+  options: { category?: string; limit?: number } = {}
+): MakerCandidate[] {
+  const tokens = texts.flatMap((text, index) => tokenize(text, index));
+  if (!tokens.some(t => !GENERIC_WORDS.has(t.norm))) return [];
+
+  const candidates: MakerCandidate[] = [];
+
+  for (const mark of marks) {
+    const matches = markPhrases(mark)
+      .map(phrase => bestSpan(tokens, phrase))
+      .filter((span): span is MarkMatchSpan => span !== null)
+      .sort((a, b) => FIELD_WEIGHTS[b.field] * b.similarity - FIELD_WEIGHTS[a.field] * a.similarity);
+
+    if (matches.length === 0) continue;
+
+    const evidence = 1 - matches.reduce((miss, m) => miss * (1 - FIELD_WEIGHTS[m.field] * m.similarity), 1);
+    const inCategory = !options.category || mark.category === options.category;
+    const score = Math.min(evidence, 0.99) * (inCategory ? 1 : 0.8);
+
+    if (score < MIN_SCORE) continue;
+
+    candidates.push({
+      makerId: mark.id,
+      maker: mark.maker,
+      category: mark.category,
+      activeYears: mark.activeYears,
+      origin: mark.origin,
+      score: Math.round(score * 100) / 100,
+      matches,
+    });
+  }
+
+  return candidates
+    .sort((a, b) => b.score - a.score || a.maker.localeCompare(b.maker))
+    .slice(0, options.limit ?? 5);
+}
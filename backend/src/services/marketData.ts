@@ -2,7 +2,12 @@
 // VintageVision v2.0 - January 2026
 // Fetches real sold listings and market intelligence
 
-import { env } from '../config/env.js';
+import {
+  auctionArchiveProvider,
+  ebayProvider,
+  getMarketDataProviders,
+  searchProvider,
+} from './marketDataProviders.js';
 
 // ============================================================================
 // TYPES
@@ -13,14 +18,34 @@ export interface SoldListing {
   title: string;
   soldPrice: number;
   soldDate: string;
-  marketplace: 'ebay' | 'liveauctioneers' | 'christies' | 'sothebys' | 'chairish' | 'firstdibs' | 'other';
+  marketplace: 'ebay' | 'liveauctioneers' | 'christies' | 'sothebys' | 'chairish' | 'firstdibs' | 'auction_archive' | 'other';
+  venue?: string; // Selling house, where the marketplace aggregates several
   condition: string;
   imageUrl?: string;
   listingUrl: string;
   similarity: number;
   notes?: string;
+  dataProvenance: ListingDataProvenance;
+  provenance: ListingProvenance;
 }
 
+// real: a recorded sale from a market source
+// modelled: derived from our own estimate, never presented as a sale
+// none: no market data at all
+export type DataProvenance = 'real' | 'modelled' | 'none';
+export type ListingDataProvenance = Exclude<DataProvenance, 'none'>;
+
+// Where a listing came from and how fresh it is
+export interface ListingProvenance {
+  provider: string; // Registry id of the source ('ebay', 'auction_archive', ...)
+  fetchedAt: string; // When the source returned it
+  cached: boolean; // Served from the market data cache
+  query: string; // Normalized query it answered
+}
+
+// A listing as a provider returns it, before provenance is stamped
+export type ProviderListing = Omit<SoldListing, 'dataProvenance' | 'provenance'>;
+
 export interface ActiveListing {
   id: string;
   title: string;
@@ -34,9 +59,12 @@ export interface ActiveListing {
 }
 
 export interface MarketIntelligence {
-  recentSales: SoldListing[];
-  averageSoldPrice: number;
-  priceRange: { low: number; high: number };
+  // What the prices below are based on: recorded sales, our estimate, or nothing
+  dataProvenance: DataProvenance;
+  recentSales: SoldListing[]; // Real sales only
+  sampleSize: number;
+  averageSoldPrice: number; // 0 unless there are real sales
+  priceRange: { low: number; high: number }; // Sold range, or the modelled estimate range
   salesVelocity: string;
   activeListings: ActiveListing[];
   averageAskingPrice: number;
@@ -44,7 +72,7 @@ export interface MarketIntelligence {
   priceTrend: 'rising' | 'stable' | 'declining';
   bestVenues: string[];
   seasonality?: string;
-  dataConfidence: number;
+  dataConfidence: number; // From real sample size and recency; 0 when modelled
   lastUpdated: string;
 }
 
@@ -52,200 +80,11 @@ export interface MarketIntelligence {
 // AUCTION DATABASE APIS - January 2026
 // ============================================================================
 
-// Supported auction databases with API integration
+// Sources are MarketDataProviders registered in services/marketDataProviders.ts:
 // 1. eBay Browse API - High volume, broad coverage
 // 2. LiveAuctioneers API - Premium antiques & collectibles
 // 3. Invaluable API - Fine art & high-end antiques
-// 4. WorthPoint (scraping fallback) - Historical pricing database
-
-// ============================================================================
-// EBAY BROWSE API
-// ============================================================================
-
-interface EbaySearchResponse {
-  itemSummaries?: Array<{
-    itemId: string;
-    title: string;
-    price: { value: string; currency: string };
-    itemWebUrl: string;
-    image?: { imageUrl: string };
-    condition?: string;
-    itemEndDate?: string;
-  }>;
-  total: number;
-}
-
-// ============================================================================
-// LIVEAUCTIONEERS API - Premium Auction Integration
-// ============================================================================
-
-interface LiveAuctioneersResult {
-  lotId: string;
-  title: string;
-  hammerPrice: number;
-  estimateLow: number;
-  estimateHigh: number;
-  auctionDate: string;
-  auctionHouse: string;
-  category: string;
-  imageUrl?: string;
-  lotUrl: string;
-}
-
-interface LiveAuctioneersResponse {
-  results: LiveAuctioneersResult[];
-  totalCount: number;
-  hasMore: boolean;
-}
-
-/**
- * Search LiveAuctioneers for auction results
- * API: https://www.liveauctioneers.com/developers/
- */
-async function searchLiveAuctioneers(
-  searchTerms: string,
-  category?: string,
-  minPrice?: number,
-  maxPrice?: number
-): Promise<SoldListing[]> {
-  const apiKey = process.env.LIVEAUCTIONEERS_API_KEY;
-
-  if (!apiKey) {
-    console.log('⚠️ LiveAuctioneers API key not configured');
-    return [];
-  }
-
-  try {
-    const params = new URLSearchParams({
-      q: searchTerms,
-      sold: 'true',
-      limit: '20',
-      sort: 'date_desc',
-    });
-
-    if (category) params.append('category', category);
-    if (minPrice) params.append('minPrice', minPrice.toString());
-    if (maxPrice) params.append('maxPrice', maxPrice.toString());
-
-    const response = await fetch(
-      `https://api.liveauctioneers.com/v1/search?${params}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Accept': 'application/json',
-        },
-      }
-    );
-
-    if (!response.ok) {
-      console.error('LiveAuctioneers API error:', response.status);
-      return [];
-    }
-
-    const data = await response.json() as LiveAuctioneersResponse;
-
-    return data.results.map((item, idx) => ({
-      id: `la-${item.lotId}`,
-      title: item.title,
-      soldPrice: item.hammerPrice * 100, // Convert to cents
-      soldDate: item.auctionDate,
-      marketplace: 'liveauctioneers' as const,
-      condition: 'As shown in auction',
-      imageUrl: item.imageUrl,
-      listingUrl: item.lotUrl,
-      similarity: Math.max(0.5, 1 - (idx * 0.04)),
-      notes: `${item.auctionHouse} - Est. $${item.estimateLow}-$${item.estimateHigh}`,
-    }));
-  } catch (error) {
-    console.error('LiveAuctioneers API error:', error);
-    return [];
-  }
-}
-
-// ============================================================================
-// INVALUABLE API - Fine Art & High-End Antiques
-// ============================================================================
-
-interface InvaluableResult {
-  lotNumber: string;
-  title: string;
-  soldPrice: number;
-  currency: string;
-  saleDate: string;
-  houseName: string;
-  saleName: string;
-  imageUrl?: string;
-  lotUrl: string;
-  category: string;
-}
-
-interface InvaluableResponse {
-  lots: InvaluableResult[];
-  total: number;
-  page: number;
-  pageSize: number;
-}
-
-/**
- * Search Invaluable for fine art and high-end antique auction results
- * API: https://www.invaluable.com/developers/
- */
-async function searchInvaluable(
-  searchTerms: string,
-  category?: string
-): Promise<SoldListing[]> {
-  const apiKey = process.env.INVALUABLE_API_KEY;
-
-  if (!apiKey) {
-    console.log('⚠️ Invaluable API key not configured');
-    return [];
-  }
-
-  try {
-    const params = new URLSearchParams({
-      q: searchTerms,
-      resultsOnly: 'true',
-      pageSize: '20',
-      sortBy: 'saleDate',
-      sortOrder: 'desc',
-    });
-
-    if (category) params.append('category', category);
-
-    const response = await fetch(
-      `https://api.invaluable.com/v2/search?${params}`,
-      {
-        headers: {
-          'x-api-key': apiKey,
-          'Accept': 'application/json',
-        },
-      }
-    );
-
-    if (!response.ok) {
-      console.error('Invaluable API error:', response.status);
-      return [];
-    }
-
-    const data = await response.json() as InvaluableResponse;
-
-    return data.lots.map((lot, idx) => ({
-      id: `inv-${lot.lotNumber}`,
-      title: lot.title,
-      soldPrice: lot.soldPrice * 100, // Convert to cents
-      soldDate: lot.saleDate,
-      marketplace: 'christies' as const, // Use 'other' or specific house
-      condition: 'Auction condition',
-      imageUrl: lot.imageUrl,
-      listingUrl: lot.lotUrl,
-      similarity: Math.max(0.5, 1 - (idx * 0.04)),
-      notes: `${lot.houseName} - ${lot.saleName}`,
-    }));
-  } catch (error) {
-    console.error('Invaluable API error:', error);
-    return [];
-  }
-}
+// 4. Sold listings archive - our imported auction results (services/soldListings.ts)
 
 // ============================================================================
 // AGGREGATED AUCTION SEARCH - Query All Sources
@@ -258,8 +97,7 @@ export interface AggregatedAuctionResult {
 }
 
 /**
- * Search all configured auction databases in parallel
- * Returns combined results from eBay, LiveAuctioneers, and Invaluable
+ * Search every registered auction database in parallel
  */
 export async function searchAllAuctionDatabases(
   searchTerms: string,
@@ -278,36 +116,28 @@ export async function searchAllAuctionDatabases(
   console.log(`🔍 Searching all auction databases for: "${searchTerms}"`);
 
   const sourcesQueried: string[] = [];
-  const bySource: AggregatedAuctionResult[] = [];
+  const query = {
+    searchTerms,
+    category: options?.category,
+    minPrice: options?.minPrice,
+    maxPrice: options?.maxPrice,
+  };
 
   // Query all sources in parallel
-  const [ebayResults, liveAuctionResults, invaluableResults] = await Promise.all([
-    searchEbaySoldListings(searchTerms, options?.category)
-      .then(listings => {
-        sourcesQueried.push('eBay');
-        return { source: 'eBay', listings };
-      })
-      .catch(err => ({ source: 'eBay', listings: [], error: err.message })),
-
-    searchLiveAuctioneers(searchTerms, options?.category, options?.minPrice, options?.maxPrice)
-      .then(listings => {
-        if (listings.length > 0) sourcesQueried.push('LiveAuctioneers');
-        return { source: 'LiveAuctioneers', listings };
-      })
-      .catch(err => ({ source: 'LiveAuctioneers', listings: [], error: err.message })),
-
-    searchInvaluable(searchTerms, options?.category)
-      .then(listings => {
-        if (listings.length > 0) sourcesQueried.push('Invaluable');
-        return { source: 'Invaluable', listings };
-      })
-      .catch(err => ({ source: 'Invaluable', listings: [], error: err.message })),
-  ]);
-
-  bySource.push(ebayResults, liveAuctionResults, invaluableResults);
+  const bySource: AggregatedAuctionResult[] = await Promise.all(
+    getMarketDataProviders().map(provider =>
+      searchProvider(provider.id, query)
+        .then(listings => {
+          if (listings.length > 0) sourcesQueried.push(provider.label);
+          return { source: provider.label, listings };
+        })
+        .catch(err => ({ source: provider.label, listings: [], error: err.message }))
+    )
+  );
 
   // Combine and sort all results by date
-  const allResults = [...ebayResults.listings, ...liveAuctionResults.listings, ...invaluableResults.listings]
+  const allResults = bySource
+    .flatMap(result => result.listings)
     .sort((a, b) => new Date(b.soldDate).getTime() - new Date(a.soldDate).getTime());
 
   // Apply limit if specified
@@ -331,60 +161,7 @@ async function searchEbaySoldListings(
   searchTerms: string,
   category?: string
 ): Promise<SoldListing[]> {
-  // Check for eBay API credentials
-  const ebayAppId = process.env.EBAY_APP_ID;
-  const ebayToken = process.env.EBAY_OAUTH_TOKEN;
-
-  if (!ebayAppId || !ebayToken) {
-    console.log('⚠️ eBay API credentials not configured - using fallback');
-    return [];
-  }
-
-  try {
-    // eBay Browse API endpoint for sold items
-    const encodedQuery = encodeURIComponent(searchTerms);
-    const url = `https://api.ebay.com/buy/browse/v1/item_summary/search?q=${encodedQuery}&filter=buyingOptions:{FIXED_PRICE|AUCTION},itemEndDate:[${getDateDaysAgo(90)}]&sort=-endDate&limit=20`;
-
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${ebayToken}`,
-        'X-EBAY-C-MARKETPLACE-ID': 'EBAY_US',
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      console.error('eBay API error:', response.status, response.statusText);
-      return [];
-    }
-
-    const data = await response.json() as EbaySearchResponse;
-
-    if (!data.itemSummaries) {
-      return [];
-    }
-
-    return data.itemSummaries.map((item, idx) => ({
-      id: item.itemId,
-      title: item.title,
-      soldPrice: parseFloat(item.price.value) * 100, // Convert to cents
-      soldDate: item.itemEndDate || new Date().toISOString(),
-      marketplace: 'ebay' as const,
-      condition: item.condition || 'Unknown',
-      imageUrl: item.image?.imageUrl,
-      listingUrl: item.itemWebUrl,
-      similarity: Math.max(0.5, 1 - (idx * 0.05)), // Decreasing similarity
-    }));
-  } catch (error) {
-    console.error('eBay API fetch error:', error);
-    return [];
-  }
-}
-
-function getDateDaysAgo(days: number): string {
-  const date = new Date();
-  date.setDate(date.getDate() - days);
-  return date.toISOString().split('T')[0];
+  return searchProvider(ebayProvider.id, { searchTerms, category });
 }
 
 // ============================================================================
@@ -408,20 +185,33 @@ export async function getMarketIntelligence(
     .join(' ')
     .trim();
 
-  // Try to fetch real eBay data
-  let recentSales = await searchEbaySoldListings(searchTerms);
+  // Real sales: eBay plus our auction archive
+  const sales = await Promise.all(
+    [ebayProvider.id, auctionArchiveProvider.id].map(id =>
+      searchProvider(id, { searchTerms }).catch(error => {
+        console.error(`Market data search failed (${id}):`, error);
+        return [] as SoldListing[];
+      })
+    )
+  );
+  const recentSales = sales
+    .flat()
+    .filter(sale => sale.dataProvenance === 'real')
+    .sort((a, b) => new Date(b.soldDate).getTime() - new Date(a.soldDate).getTime());
 
-  // If no eBay data, generate intelligent fallback based on estimated value
-  if (recentSales.length === 0 && estimatedValue) {
-    console.log('📊 Using estimated value for market intelligence');
-    recentSales = generateFallbackSales(itemName, maker, estimatedValue);
+  // Without recorded sales the estimate can give a modelled range, but no sales
+  const dataProvenance: DataProvenance = recentSales.length > 0
+    ? 'real'
+    : estimatedValue ? 'modelled' : 'none';
+  if (dataProvenance !== 'real') {
+    console.log(`📊 No recorded sales - market data is ${dataProvenance}`);
   }
 
   // Calculate statistics
   const prices = recentSales.map(s => s.soldPrice);
   const averageSoldPrice = prices.length > 0
     ? Math.round(prices.reduce((a, b) => a + b, 0) / prices.length)
-    : estimatedValue?.min || 0;
+    : 0;
 
   const priceRange = prices.length > 0
     ? { low: Math.min(...prices), high: Math.max(...prices) }
@@ -435,7 +225,9 @@ export async function getMarketIntelligence(
 
   // Build complete intelligence
   const intelligence: MarketIntelligence = {
+    dataProvenance,
     recentSales,
+    sampleSize: recentSales.length,
     averageSoldPrice: humanizePrice(averageSoldPrice),
     priceRange: {
       low: humanizePrice(priceRange.low),
@@ -447,47 +239,38 @@ export async function getMarketIntelligence(
     demandLevel,
     priceTrend: 'stable', // Would need historical data to determine
     bestVenues: getBestVenues(itemName, maker),
-    dataConfidence: recentSales.length > 5 ? 0.8 : recentSales.length > 0 ? 0.5 : 0.3,
+    dataConfidence: computeDataConfidence(recentSales),
     lastUpdated: new Date().toISOString(),
   };
 
   return intelligence;
 }
 
+const SAMPLE_SIZE_SCALE = 6; // Sales for ~63% of the sample-size credit
+const RECENCY_HALF_LIFE_DAYS = 180;
+const MAX_DATA_CONFIDENCE = 0.95;
+
 /**
- * Generate fallback sales data when API is unavailable
+ * How far to trust market figures: more sales and fresher sales score
+ * higher. Only real sales count - a modelled range scores 0.
  */
-function generateFallbackSales(
-  itemName: string,
-  maker: string | null | undefined,
-  estimatedValue: { min: number; max: number }
-): SoldListing[] {
-  // Create realistic-looking comparable sales based on estimate
-  const midpoint = (estimatedValue.min + estimatedValue.max) / 2;
-  const variance = (estimatedValue.max - estimatedValue.min) / 4;
-
-  const samplePrices = [
-    midpoint - variance,
-    midpoint - variance / 2,
-    midpoint,
-    midpoint + variance / 2,
-    midpoint + variance,
-  ].map(p => humanizePrice(p));
-
-  const venues = ['eBay', 'Chairish', '1stDibs', 'LiveAuctioneers', 'Ruby Lane'];
-  const conditions = ['Excellent', 'Very Good', 'Good', 'Fair'];
-
-  return samplePrices.map((price, idx) => ({
-    id: `estimated-${idx}`,
-    title: `${maker ? maker + ' ' : ''}${itemName} (Similar)`,
-    soldPrice: price,
-    soldDate: getDateDaysAgo(idx * 15 + Math.floor(Math.random() * 10)).toString(),
-    marketplace: 'other' as const,
-    condition: conditions[idx % conditions.length],
-    listingUrl: generateSearchUrl(venues[idx % venues.length], `${maker || ''} ${itemName}`),
-    similarity: 0.7 - (idx * 0.1),
-    notes: 'Estimated based on similar items',
-  }));
+export function computeDataConfidence(sales: SoldListing[], now: Date = new Date()): number {
+  const real = sales.filter(sale => sale.dataProvenance === 'real');
+  if (real.length === 0) return 0;
+
+  const sizeScore = 1 - Math.exp(-real.length / SAMPLE_SIZE_SCALE);
+
+  const ages = real
+    .map(sale => Math.max(0, (now.getTime() - new Date(sale.soldDate).getTime()) / (24 * 60 * 60 * 1000)))
+    .sort((a, b) => a - b);
+  const medianAge = ages.length % 2 === 0
+    ? (ages[ages.length / 2 - 1] + ages[ages.length / 2]) / 2
+    : ages[Math.floor(ages.length / 2)];
+  const recencyScore = Math.pow(0.5, medianAge / RECENCY_HALF_LIFE_DAYS);
+
+  // Old sales still say something about value, so recency scales rather than zeroes
+  const confidence = MAX_DATA_CONFIDENCE * sizeScore * (0.4 + 0.6 * recencyScore);
+  return Math.round(confidence * 100) / 100;
 }
 
 function generateSearchUrl(marketplace: string, searchTerms: string): string {
@@ -618,6 +401,16 @@ export async function validatePriceEstimate(
 }> {
   const intelligence = await getMarketIntelligence(itemName, maker, null, aiEstimate);
 
+  // A modelled range is the estimate itself - there is nothing to check against
+  if (intelligence.dataProvenance !== 'real') {
+    return {
+      isReasonable: true,
+      marketAverage: 0,
+      confidence: 0,
+      explanation: 'No recorded sales found - the estimate could not be checked against the market',
+    };
+  }
+
   const aiMidpoint = (aiEstimate.min + aiEstimate.max) / 2;
   const marketMidpoint = (intelligence.priceRange.low + intelligence.priceRange.high) / 2;
 
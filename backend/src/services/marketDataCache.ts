@@ -0,0 +1,157 @@
+/**
+ * Market Data Cache
+ * Provider results keyed by normalized query, in Redis with a Postgres backstop
+ * October 2026
+ *
+ * Every analysis of a popular item used to re-query the same marketplaces.
+ * Results are now kept for MARKET_DATA_CACHE_HOURS: Redis serves the hot
+ * copy, Postgres keeps it across restarts (and when Redis is down) and
+ * re-warms Redis on a hit. Failed lookups are never cached.
+ */
+
+import { db } from '../db/client.js';
+import { marketDataCache } from '../db/schema.js';
+import { eq } from 'drizzle-orm';
+import { env } from '../config/env.js';
+import { getRedisClient } from './session.js';
+import type { ProviderListing } from './marketData.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MarketDataQuery {
+  searchTerms: string;
+  category?: string;
+  minPrice?: number; // Whole dollars
+  maxPrice?: number; // Whole dollars
+}
+
+export interface CachedListings {
+  listings: ProviderListing[];
+  fetchedAt: string;
+}
+
+const CACHE_TTL_MS = parseInt(env.MARKET_DATA_CACHE_HOURS, 10) * 60 * 60 * 1000;
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Case, punctuation, word order and repeated words don't change what a
+ * marketplace search is about, so they don't change the key either
+ */
+export function normalizeQuery(query: MarketDataQuery): string {
+  const terms = Array.from(new Set(
+    query.searchTerms
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .split(' ')
+      .filter(Boolean)
+  )).sort();
+
+  const parts = [terms.join(' ')];
+  if (query.category) parts.push(`category=${query.category.trim().toLowerCase()}`);
+  if (query.minPrice) parts.push(`min=${query.minPrice}`);
+  if (query.maxPrice) parts.push(`max=${query.maxPrice}`);
+  return parts.join('|');
+}
+
+export function marketDataCacheKey(provider: string, query: MarketDataQuery): string {
+  return `${provider}:${normalizeQuery(query)}`;
+}
+
+function redisKey(cacheKey: string): string {
+  return `market:${cacheKey}`;
+}
+
+// ============================================================================
+// READ / WRITE
+// ============================================================================
+
+/**
+ * Cached results for a provider + query, or null on a miss or expiry
+ */
+export async function readCachedListings(provider: string, query: MarketDataQuery): Promise<CachedListings | null> {
+  const cacheKey = marketDataCacheKey(provider, query);
+  const redis = getRedisClient();
+
+  if (redis) {
+    try {
+      const cached = await redis.get(redisKey(cacheKey));
+      if (cached) return JSON.parse(cached) as CachedListings;
+    } catch (error) {
+      console.warn('⚠️ Market data cache read failed:', error);
+    }
+  }
+
+  try {
+    const [row] = await db
+      .select()
+      .from(marketDataCache)
+      .where(eq(marketDataCache.cacheKey, cacheKey))
+      .limit(1);
+
+    if (!row || row.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    const cached: CachedListings = {
+      listings: row.listings as ProviderListing[],
+      fetchedAt: row.fetchedAt.toISOString(),
+    };
+    await writeRedis(cacheKey, cached, row.expiresAt.getTime() - Date.now());
+    return cached;
+  } catch (error) {
+    console.warn('⚠️ Market data cache lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a provider's successful result. Never throws - a cache write is not
+ * worth failing a search over.
+ */
+export async function writeCachedListings(
+  provider: string,
+  query: MarketDataQuery,
+  cached: CachedListings
+): Promise<void> {
+  const cacheKey = marketDataCacheKey(provider, query);
+  const fetchedAt = new Date(cached.fetchedAt);
+  const expiresAt = new Date(fetchedAt.getTime() + CACHE_TTL_MS);
+
+  await writeRedis(cacheKey, cached, CACHE_TTL_MS);
+
+  try {
+    await db
+      .insert(marketDataCache)
+      .values({
+        cacheKey,
+        provider,
+        query: normalizeQuery(query),
+        listings: cached.listings,
+        fetchedAt,
+        expiresAt,
+      })
+      .onConflictDoUpdate({
+        target: marketDataCache.cacheKey,
+        set: { listings: cached.listings, fetchedAt, expiresAt },
+      });
+  } catch (error) {
+    console.warn('⚠️ Market data cache write failed:', error);
+  }
+}
+
+async function writeRedis(cacheKey: string, cached: CachedListings, ttlMs: number): Promise<void> {
+  const redis = getRedisClient();
+  const ttlSeconds = Math.floor(ttlMs / 1000);
+  if (!redis || ttlSeconds <= 0) return;
+
+  try {
+    await redis.setEx(redisKey(cacheKey), ttlSeconds, JSON.stringify(cached));
+  } catch (error) {
+    console.warn('⚠️ Market data cache write failed:', error);
+  }
+}
@@ -0,0 +1,630 @@
+/**
+ * Market Data Providers
+ * One interface for every source of sold listings, behind a registry
+ * October 2026
+ *
+ * Each provider only knows how to turn a query into listings. searchProvider
+ * wraps every call the same way: results come from the market data cache when
+ * fresh, otherwise the provider is asked - subject to its rate limit and
+ * circuit breaker - and every listing is stamped with provenance.
+ *
+ * HTTP goes through a transport selected by MARKET_DATA_TRANSPORT:
+ * - live:    fetch() against the real APIs
+ * - fixture: replays recorded responses from MARKET_DATA_FIXTURE_PATH, so
+ *            tests never call a marketplace
+ *
+ * Set MARKET_DATA_RECORD_FIXTURES=true with the live transport to capture fixtures.
+ * Rate limits and breakers are per API process.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { env } from '../config/env.js';
+import { ExternalServiceError } from '../middleware/error.js';
+import { searchSoldListings, toSoldListing } from './soldListings.js';
+import { normalizeQuery, readCachedListings, writeCachedListings } from './marketDataCache.js';
+import type { MarketDataQuery } from './marketDataCache.js';
+import type { ProviderListing, SoldListing } from './marketData.js';
+
+export type { MarketDataQuery } from './marketDataCache.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MarketDataRequest {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface MarketDataResponse {
+  status: number;
+  body: unknown; // Parsed JSON, or null
+}
+
+export interface MarketDataTransport {
+  readonly name: string;
+  get(provider: string, request: MarketDataRequest): Promise<MarketDataResponse>;
+}
+
+export interface RateLimit {
+  requests: number;
+  perMs: number;
+}
+
+export interface MarketDataProvider {
+  readonly id: string; // Registry key, recorded in listing provenance
+  readonly label: string; // Shown in sourcesQueried
+  readonly cacheable: boolean; // false for local sources that are always fresh
+  readonly rateLimit: RateLimit | null;
+  isConfigured(): boolean;
+  search(query: MarketDataQuery, http: MarketDataTransport): Promise<ProviderListing[]>;
+}
+
+// ============================================================================
+// RATE LIMITING AND CIRCUIT BREAKING
+// ============================================================================
+
+/**
+ * Token bucket: `requests` calls per `perMs`, refilled continuously
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(private limit: RateLimit, private now: () => number = Date.now) {
+    this.tokens = limit.requests;
+    this.updatedAt = now();
+  }
+
+  tryTake(): boolean {
+    const now = this.now();
+    const refill = ((now - this.updatedAt) / this.limit.perMs) * this.limit.requests;
+    this.tokens = Math.min(this.limit.requests, this.tokens + refill);
+    this.updatedAt = now;
+
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  resetAfterMs: number; // How long it stays open before one trial request
+}
+
+const DEFAULT_BREAKER: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetAfterMs: 60 * 1000,
+};
+
+/**
+ * Stops calling a failing provider for a while instead of waiting on every
+ * analysis for an API that is down. After the cool-down a single trial
+ * request decides whether the circuit closes again.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions = DEFAULT_BREAKER, private now: () => number = Date.now) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.options.resetAfterMs ? 'half_open' : 'open';
+  }
+
+  canRequest(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half_open':
+        if (this.trialInFlight) return false;
+        this.trialInFlight = true;
+        return true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Give back a half-open trial that never reached the provider
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.options.failureThreshold) {
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+// ============================================================================
+// HTTP TRANSPORTS
+// ============================================================================
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export class LiveMarketDataTransport implements MarketDataTransport {
+  readonly name = 'live';
+
+  async get(_provider: string, request: MarketDataRequest): Promise<MarketDataResponse> {
+    const response = await fetch(request.url, {
+      headers: request.headers,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    let body: unknown = null;
+    try {
+      body = await response.json();
+    } catch {
+      // Error pages are often HTML - the status is what matters
+    }
+
+    return { status: response.status, body };
+  }
+}
+
+interface FixtureFile {
+  version: 1;
+  responses: Record<string, MarketDataResponse[]>;
+}
+
+/**
+ * Fixtures are keyed by provider and URL. Credentials only travel in headers,
+ * which are not part of the key; dates in the URL (e.g. eBay's end-date
+ * filter) are masked so recordings keep replaying as the calendar moves.
+ */
+export function fixtureKey(provider: string, url: string): string {
+  return `${provider} ${url.replace(/\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?/g, '<date>')}`;
+}
+
+function readFixtureFile(path: string): FixtureFile {
+  if (!existsSync(path)) {
+    return { version: 1, responses: {} };
+  }
+  return JSON.parse(readFileSync(path, 'utf-8')) as FixtureFile;
+}
+
+/**
+ * Replays recorded responses. Repeated requests cycle through the recordings
+ * in order; a request that was never recorded throws.
+ */
+export class FixtureMarketDataTransport implements MarketDataTransport {
+  readonly name = 'fixture';
+  private fixtures: FixtureFile;
+  private cursors = new Map<string, number>();
+
+  constructor(fixtures: FixtureFile | string) {
+    this.fixtures = typeof fixtures === 'string' ? readFixtureFile(fixtures) : fixtures;
+  }
+
+  async get(provider: string, request: MarketDataRequest): Promise<MarketDataResponse> {
+    const key = fixtureKey(provider, request.url);
+    const recorded = this.fixtures.responses[key];
+
+    if (!recorded?.length) {
+      throw new ExternalServiceError(`No recorded market data response for ${key}`, provider);
+    }
+
+    const cursor = this.cursors.get(key) ?? 0;
+    this.cursors.set(key, cursor + 1);
+    return recorded[cursor % recorded.length];
+  }
+}
+
+/**
+ * Wrap a live transport and append every response to a fixture file
+ */
+export class RecordingMarketDataTransport implements MarketDataTransport {
+  readonly name: string;
+
+  constructor(private inner: MarketDataTransport, private fixturePath: string) {
+    this.name = inner.name;
+  }
+
+  async get(provider: string, request: MarketDataRequest): Promise<MarketDataResponse> {
+    const response = await this.inner.get(provider, request);
+
+    try {
+      const fixtures = readFixtureFile(this.fixturePath);
+      const key = fixtureKey(provider, request.url);
+      fixtures.responses[key] = [...(fixtures.responses[key] ?? []), response];
+      mkdirSync(dirname(this.fixturePath), { recursive: true });
+      writeFileSync(this.fixturePath, JSON.stringify(fixtures, null, 2));
+    } catch (error) {
+      console.warn(`⚠️ Failed to record market data fixture to ${this.fixturePath}:`, error);
+    }
+
+    return response;
+  }
+}
+
+function expectOk(provider: MarketDataProvider, response: MarketDataResponse): void {
+  if (response.status < 200 || response.status >= 300) {
+    throw new ExternalServiceError(`${provider.label} API error: ${response.status}`, provider.id);
+  }
+}
+
+function dateDaysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString().split('T')[0];
+}
+
+// ============================================================================
+// EBAY BROWSE API - High volume, broad coverage
+// ============================================================================
+
+interface EbaySearchResponse {
+  itemSummaries?: Array<{
+    itemId: string;
+    title: string;
+    price: { value: string; currency: string };
+    itemWebUrl: string;
+    image?: { imageUrl: string };
+    condition?: string;
+    itemEndDate?: string;
+  }>;
+  total: number;
+}
+
+export const ebayProvider: MarketDataProvider = {
+  id: 'ebay',
+  label: 'eBay',
+  cacheable: true,
+  rateLimit: { requests: 5, perMs: 1000 },
+
+  isConfigured() {
+    return Boolean(process.env.EBAY_APP_ID && process.env.EBAY_OAUTH_TOKEN);
+  },
+
+  async search(query, http) {
+    const encodedQuery = encodeURIComponent(query.searchTerms);
+    const response = await http.get(this.id, {
+      url: `https://api.ebay.com/buy/browse/v1/item_summary/search?q=${encodedQuery}&filter=buyingOptions:{FIXED_PRICE|AUCTION},itemEndDate:[${dateDaysAgo(90)}]&sort=-endDate&limit=20`,
+      headers: {
+        'Authorization': `Bearer ${process.env.EBAY_OAUTH_TOKEN}`,
+        'X-EBAY-C-MARKETPLACE-ID': 'EBAY_US',
+        'Content-Type': 'application/json',
+      },
+    });
+    expectOk(this, response);
+
+    const data = response.body as EbaySearchResponse;
+    return (data.itemSummaries ?? []).map((item, idx) => ({
+      id: item.itemId,
+      title: item.title,
+      soldPrice: parseFloat(item.price.value) * 100, // Convert to cents
+      soldDate: item.itemEndDate || new Date().toISOString(),
+      marketplace: 'ebay' as const,
+      condition: item.condition || 'Unknown',
+      imageUrl: item.image?.imageUrl,
+      listingUrl: item.itemWebUrl,
+      similarity: Math.max(0.5, 1 - (idx * 0.05)), // Decreasing similarity
+    }));
+  },
+};
+
+// ============================================================================
+// LIVEAUCTIONEERS API - Premium antiques & collectibles
+// ============================================================================
+
+interface LiveAuctioneersResult {
+  lotId: string;
+  title: string;
+  hammerPrice: number;
+  estimateLow: number;
+  estimateHigh: number;
+  auctionDate: string;
+  auctionHouse: string;
+  category: string;
+  imageUrl?: string;
+  lotUrl: string;
+}
+
+interface LiveAuctioneersResponse {
+  results: LiveAuctioneersResult[];
+  totalCount: number;
+  hasMore: boolean;
+}
+
+export const liveAuctioneersProvider: MarketDataProvider = {
+  id: 'liveauctioneers',
+  label: 'LiveAuctioneers',
+  cacheable: true,
+  rateLimit: { requests: 2, perMs: 1000 },
+
+  isConfigured() {
+    return Boolean(process.env.LIVEAUCTIONEERS_API_KEY);
+  },
+
+  async search(query, http) {
+    const params = new URLSearchParams({
+      q: query.searchTerms,
+      sold: 'true',
+      limit: '20',
+      sort: 'date_desc',
+    });
+
+    if (query.category) params.append('category', query.category);
+    if (query.minPrice) params.append('minPrice', query.minPrice.toString());
+    if (query.maxPrice) params.append('maxPrice', query.maxPrice.toString());
+
+    const response = await http.get(this.id, {
+      url: `https://api.liveauctioneers.com/v1/search?${params}`,
+      headers: {
+        'Authorization': `Bearer ${process.env.LIVEAUCTIONEERS_API_KEY}`,
+        'Accept': 'application/json',
+      },
+    });
+    expectOk(this, response);
+
+    const data = response.body as LiveAuctioneersResponse;
+    return (data.results ?? []).map((item, idx) => ({
+      id: `la-${item.lotId}`,
+      title: item.title,
+      soldPrice: item.hammerPrice * 100, // Convert to cents
+      soldDate: item.auctionDate,
+      marketplace: 'liveauctioneers' as const,
+      venue: item.auctionHouse,
+      condition: 'As shown in auction',
+      imageUrl: item.imageUrl,
+      listingUrl: item.lotUrl,
+      similarity: Math.max(0.5, 1 - (idx * 0.04)),
+      notes: `${item.auctionHouse} - Est. $${item.estimateLow}-$${item.estimateHigh}`,
+    }));
+  },
+};
+
+// ============================================================================
+// INVALUABLE API - Fine art & high-end antiques
+// ============================================================================
+
+interface InvaluableResult {
+  lotNumber: string;
+  title: string;
+  soldPrice: number;
+  currency: string;
+  saleDate: string;
+  houseName: string;
+  saleName: string;
+  imageUrl?: string;
+  lotUrl: string;
+  category: string;
+}
+
+interface InvaluableResponse {
+  lots: InvaluableResult[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const invaluableProvider: MarketDataProvider = {
+  id: 'invaluable',
+  label: 'Invaluable',
+  cacheable: true,
+  rateLimit: { requests: 2, perMs: 1000 },
+
+  isConfigured() {
+    return Boolean(process.env.INVALUABLE_API_KEY);
+  },
+
+  async search(query, http) {
+    const params = new URLSearchParams({
+      q: query.searchTerms,
+      resultsOnly: 'true',
+      pageSize: '20',
+      sortBy: 'saleDate',
+      sortOrder: 'desc',
+    });
+
+    if (query.category) params.append('category', query.category);
+
+    const response = await http.get(this.id, {
+      url: `https://api.invaluable.com/v2/search?${params}`,
+      headers: {
+        'x-api-key': process.env.INVALUABLE_API_KEY!,
+        'Accept': 'application/json',
+      },
+    });
+    expectOk(this, response);
+
+    const data = response.body as InvaluableResponse;
+    return (data.lots ?? []).map((lot, idx) => ({
+      id: `inv-${lot.lotNumber}`,
+      title: lot.title,
+      soldPrice: lot.soldPrice * 100, // Convert to cents
+      soldDate: lot.saleDate,
+      marketplace: 'other' as const,
+      venue: lot.houseName,
+      condition: 'Auction condition',
+      imageUrl: lot.imageUrl,
+      listingUrl: lot.lotUrl,
+      similarity: Math.max(0.5, 1 - (idx * 0.04)),
+      notes: `${lot.houseName} - ${lot.saleName}`,
+    }));
+  },
+};
+
+// ============================================================================
+// SOLD LISTINGS ARCHIVE - Our imported auction results
+// ============================================================================
+
+export const auctionArchiveProvider: MarketDataProvider = {
+  id: 'auction_archive',
+  label: 'Auction Archive',
+  cacheable: false, // Local table - imports should show up immediately
+  rateLimit: null,
+
+  isConfigured() {
+    return true;
+  },
+
+  // Callers' categories are domain names (e.g. 'horologist') rather than
+  // archive categories, so only the price bounds apply
+  async search(query) {
+    const matches = await searchSoldListings({
+      query: query.searchTerms,
+      minPrice: query.minPrice ? query.minPrice * 100 : undefined,
+      maxPrice: query.maxPrice ? query.maxPrice * 100 : undefined,
+      limit: 20,
+    });
+    return matches.map(toSoldListing);
+  },
+};
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+interface RegisteredProvider {
+  provider: MarketDataProvider;
+  limiter: TokenBucket | null;
+  breaker: CircuitBreaker;
+}
+
+const registry = new Map<string, RegisteredProvider>();
+const reportedUnconfigured = new Set<string>();
+let activeTransport: MarketDataTransport | null = null;
+
+/**
+ * Add (or replace) a provider. Providers are queried in registration order.
+ */
+export function registerMarketDataProvider(
+  provider: MarketDataProvider,
+  breakerOptions: CircuitBreakerOptions = DEFAULT_BREAKER
+): void {
+  registry.set(provider.id, {
+    provider,
+    limiter: provider.rateLimit ? new TokenBucket(provider.rateLimit) : null,
+    breaker: new CircuitBreaker(breakerOptions),
+  });
+}
+
+export function getMarketDataProviders(): MarketDataProvider[] {
+  return Array.from(registry.values()).map(entry => entry.provider);
+}
+
+export function getProviderCircuitState(id: string): CircuitState | null {
+  return registry.get(id)?.breaker.state ?? null;
+}
+
+function createTransportFromEnv(): MarketDataTransport {
+  if (env.MARKET_DATA_TRANSPORT === 'fixture') {
+    return new FixtureMarketDataTransport(env.MARKET_DATA_FIXTURE_PATH);
+  }
+  const live = new LiveMarketDataTransport();
+  return env.MARKET_DATA_RECORD_FIXTURES
+    ? new RecordingMarketDataTransport(live, env.MARKET_DATA_FIXTURE_PATH)
+    : live;
+}
+
+/**
+ * The configured transport (created on first use)
+ */
+export function getMarketDataTransport(): MarketDataTransport {
+  if (!activeTransport) {
+    activeTransport = createTransportFromEnv();
+    console.log(`🏷️ Market data transport: ${activeTransport.name}${env.MARKET_DATA_RECORD_FIXTURES ? ' (recording fixtures)' : ''}`);
+  }
+  return activeTransport;
+}
+
+/**
+ * Swap the transport at runtime (tests). Pass null to go back to the
+ * environment configuration.
+ */
+export function setMarketDataTransport(transport: MarketDataTransport | null): void {
+  activeTransport = transport;
+}
+
+function stampProvenance(
+  provider: MarketDataProvider,
+  query: MarketDataQuery,
+  listings: ProviderListing[],
+  fetchedAt: string,
+  cached: boolean
+): SoldListing[] {
+  const normalized = normalizeQuery(query);
+  return listings.map(listing => ({
+    ...listing,
+    dataProvenance: 'real' as const,
+    provenance: { provider: provider.id, fetchedAt, cached, query: normalized },
+  }));
+}
+
+/**
+ * Search one provider through the cache, its rate limit and its circuit
+ * breaker. Unconfigured providers return no listings; an open circuit, an
+ * exhausted rate limit or a provider failure throws ExternalServiceError.
+ */
+export async function searchProvider(id: string, query: MarketDataQuery): Promise<SoldListing[]> {
+  const entry = registry.get(id);
+  if (!entry) {
+    throw new Error(`Unknown market data provider: ${id}`);
+  }
+  const { provider, limiter, breaker } = entry;
+
+  if (!provider.isConfigured()) {
+    if (!reportedUnconfigured.has(id)) {
+      reportedUnconfigured.add(id);
+      console.log(`⚠️ ${provider.label} not configured - skipping`);
+    }
+    return [];
+  }
+
+  if (provider.cacheable) {
+    const cached = await readCachedListings(id, query);
+    if (cached) {
+      return stampProvenance(provider, query, cached.listings, cached.fetchedAt, true);
+    }
+  }
+
+  if (!breaker.canRequest()) {
+    throw new ExternalServiceError(`${provider.label} is temporarily unavailable`, id);
+  }
+  if (limiter && !limiter.tryTake()) {
+    // Not the provider's fault - leave the breaker as it was
+    breaker.releaseTrial();
+    throw new ExternalServiceError(`${provider.label} rate limit reached`, id);
+  }
+
+  let listings: ProviderListing[];
+  try {
+    listings = await provider.search(query, getMarketDataTransport());
+    breaker.recordSuccess();
+  } catch (error) {
+    breaker.recordFailure();
+    if (breaker.state !== 'closed') {
+      console.warn(`⚠️ ${provider.label} circuit open after repeated failures`);
+    }
+    throw error;
+  }
+
+  const fetchedAt = new Date().toISOString();
+  if (provider.cacheable) {
+    await writeCachedListings(id, query, { listings, fetchedAt });
+  }
+  return stampProvenance(provider, query, listings, fetchedAt, false);
+}
+
+registerMarketDataProvider(ebayProvider);
+registerMarketDataProvider(liveAuctioneersProvider);
+registerMarketDataProvider(invaluableProvider);
+registerMarketDataProvider(auctionArchiveProvider);
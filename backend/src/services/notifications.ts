@@ -0,0 +1,414 @@
+/**
+ * Notifications
+ * In-app notification feed plus pluggable out-of-app delivery channels
+ * October 2026
+ *
+ * Every notification is stored for the in-app feed first; email and webhook
+ * channels are then attempted according to the user's preferences. A failing
+ * channel never blocks the others - its result is recorded on the
+ * notification so the feed can show what was delivered.
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+import { db } from '../db/client.js';
+import { notifications, userPreferences, users } from '../db/schema.js';
+import type { NotificationRecord } from '../db/schema.js';
+import { and, desc, eq, isNull, sql } from 'drizzle-orm';
+import { env } from '../config/env.js';
+import { NotFoundError, ValidationError } from '../middleware/error.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type NotificationType = 'price_alert';
+
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface NotificationRecipient {
+  userId: string;
+  email: string | null;
+  emailEnabled: boolean;
+  webhookUrl: string | null;
+  webhookSecret: string | null;
+}
+
+export type DeliveryStatus = 'sent' | 'failed' | 'skipped';
+
+/**
+ * An out-of-app delivery channel. Implementations throw on failure.
+ */
+export interface NotificationChannel {
+  readonly name: string;
+  isEnabledFor(recipient: NotificationRecipient): boolean;
+  deliver(notification: NotificationRecord, recipient: NotificationRecipient): Promise<void>;
+}
+
+// ============================================================================
+// EMAIL
+// ============================================================================
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Development transport - prints instead of sending
+ */
+export class LogEmailTransport implements EmailTransport {
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`📧 [email:log] To: ${message.to} | ${message.subject}\n${message.text}`);
+  }
+}
+
+export class ResendEmailTransport implements EmailTransport {
+  constructor(private apiKey: string, private from: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+      }),
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Resend returned ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'email';
+
+  constructor(private transport: EmailTransport) {}
+
+  isEnabledFor(recipient: NotificationRecipient): boolean {
+    return recipient.emailEnabled && !!recipient.email;
+  }
+
+  async deliver(notification: NotificationRecord, recipient: NotificationRecipient): Promise<void> {
+    await this.transport.send({
+      to: recipient.email!,
+      subject: notification.title,
+      text: `${notification.body}\n\nView your alerts: ${env.FRONTEND_URL}/premium?tab=alerts`,
+    });
+  }
+}
+
+// ============================================================================
+// WEBHOOK
+// ============================================================================
+
+// Webhook URLs are user-supplied, so they may only reach the public internet -
+// never loopback, private networks or cloud metadata endpoints
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+// IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked against the IPv4 ranges
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve a webhook URL's host and reject it unless every address is public
+ */
+export async function assertPublicWebhookUrl(webhookUrl: string): Promise<void> {
+  const { hostname } = new URL(webhookUrl);
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host)
+    ? [host]
+    : (await dns.promises.lookup(host, { all: true }).catch(() => [])).map(entry => entry.address);
+
+  if (addresses.length === 0) {
+    throw new ValidationError('Webhook host could not be resolved');
+  }
+  if (!addresses.every(isPublicAddress)) {
+    throw new ValidationError('Webhook URL must point to a public address');
+  }
+}
+
+/**
+ * DNS lookup for webhook connections that refuses non-public addresses, so a
+ * host can't pass the check above and then re-resolve somewhere internal
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+    const resolved = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    if (!resolved.every(isPublicAddress)) {
+      callback(new Error(`Webhook host ${hostname} resolves to a non-public address`), address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+/**
+ * POST a JSON body and return the response status. Redirects aren't followed.
+ */
+function postWebhook(webhookUrl: string, headers: Record<string, string>, payload: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = https.request(webhookUrl, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(payload).toString() },
+      lookup: publicOnlyLookup,
+      timeout: 10000,
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on('timeout', () => request.destroy(new Error('Webhook timed out')));
+    request.on('error', reject);
+    request.end(payload);
+  });
+}
+
+/**
+ * A new per-user webhook signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+export function signWebhookPayload(payload: string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(payload).digest('hex')}`;
+}
+
+/**
+ * POSTs the notification as JSON to an https URL on a public address, signed
+ * with the recipient's own secret:
+ * X-VintageVision-Signature: sha256=<hex HMAC of the raw body>.
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook';
+
+  isEnabledFor(recipient: NotificationRecipient): boolean {
+    return !!recipient.webhookUrl && !!recipient.webhookSecret;
+  }
+
+  async deliver(notification: NotificationRecord, recipient: NotificationRecipient): Promise<void> {
+    const payload = JSON.stringify({
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data,
+      createdAt: notification.createdAt.toISOString(),
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'VintageVision-Webhooks/1.0',
+      'X-VintageVision-Signature': signWebhookPayload(payload, recipient.webhookSecret!),
+    };
+
+    // IP literals never go through the lookup
+    await assertPublicWebhookUrl(recipient.webhookUrl!);
+    const status = await postWebhook(recipient.webhookUrl!, headers, payload);
+
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook returned ${status}`);
+    }
+  }
+}
+
+// ============================================================================
+// CHANNEL REGISTRY
+// ============================================================================
+
+function createEmailTransport(): EmailTransport {
+  if (env.EMAIL_TRANSPORT === 'resend') {
+    return new ResendEmailTransport(env.RESEND_API_KEY!, env.EMAIL_FROM);
+  }
+  return new LogEmailTransport();
+}
+
+let channels: NotificationChannel[] | null = null;
+
+export function getNotificationChannels(): NotificationChannel[] {
+  if (!channels) {
+    channels = [
+      new EmailChannel(createEmailTransport()),
+      new WebhookChannel(),
+    ];
+  }
+  return channels;
+}
+
+/**
+ * Replace the delivery channels (tests, or adding e.g. push)
+ */
+export function setNotificationChannels(next: NotificationChannel[]): void {
+  channels = next;
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+async function getRecipient(userId: string): Promise<NotificationRecipient> {
+  const [row] = await db
+    .select({
+      email: users.email,
+      emailEnabled: userPreferences.alertEmailEnabled,
+      webhookUrl: userPreferences.alertWebhookUrl,
+      webhookSecret: userPreferences.alertWebhookSecret,
+    })
+    .from(users)
+    .leftJoin(userPreferences, eq(userPreferences.userId, sql`${users.id}::text`))
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  // Webhooks saved before per-user secrets get one on their next delivery
+  let webhookSecret = row?.webhookSecret ?? null;
+  if (row?.webhookUrl && !webhookSecret) {
+    const [updated] = await db
+      .update(userPreferences)
+      .set({ alertWebhookSecret: sql`coalesce(${userPreferences.alertWebhookSecret}, ${generateWebhookSecret()})` })
+      .where(eq(userPreferences.userId, userId))
+      .returning({ secret: userPreferences.alertWebhookSecret });
+    webhookSecret = updated?.secret ?? null;
+  }
+
+  return {
+    userId,
+    email: row?.email ?? null,
+    // No preferences row yet = defaults (email on, no webhook)
+    emailEnabled: row?.emailEnabled ?? true,
+    webhookUrl: row?.webhookUrl ?? null,
+    webhookSecret,
+  };
+}
+
+/**
+ * Store a notification in the user's feed and deliver it on every enabled channel
+ */
+export async function sendNotification(input: NotificationInput): Promise<NotificationRecord> {
+  const [notification] = await db
+    .insert(notifications)
+    .values({
+      userId: input.userId,
+      type: input.type,
+      title: input.title,
+      body: input.body,
+      data: input.data ?? null,
+    })
+    .returning();
+
+  const recipient = await getRecipient(input.userId);
+  const deliveries: Record<string, DeliveryStatus> = {};
+
+  for (const channel of getNotificationChannels()) {
+    if (!channel.isEnabledFor(recipient)) {
+      deliveries[channel.name] = 'skipped';
+      continue;
+    }
+    try {
+      await channel.deliver(notification, recipient);
+      deliveries[channel.name] = 'sent';
+    } catch (error) {
+      console.warn(`⚠️ ${channel.name} delivery failed for notification ${notification.id}:`, error);
+      deliveries[channel.name] = 'failed';
+    }
+  }
+
+  const [updated] = await db
+    .update(notifications)
+    .set({ deliveries })
+    .where(eq(notifications.id, notification.id))
+    .returning();
+
+  return updated;
+}
+
+// ============================================================================
+// FEED
+// ============================================================================
+
+export async function listNotifications(
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<{ notifications: NotificationRecord[]; unreadCount: number }> {
+  const conditions = [eq(notifications.userId, userId)];
+  if (options.unreadOnly) {
+    conditions.push(isNull(notifications.readAt));
+  }
+
+  const rows = await db
+    .select()
+    .from(notifications)
+    .where(and(...conditions))
+    .orderBy(desc(notifications.createdAt))
+    .limit(options.limit ?? 50);
+
+  const [{ unread }] = await db
+    .select({ unread: sql<number>`count(*)::int` })
+    .from(notifications)
+    .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+
+  return { notifications: rows, unreadCount: unread };
+}
+
+export async function markNotificationRead(id: string, userId: string): Promise<NotificationRecord> {
+  const [notification] = await db
+    .update(notifications)
+    .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+    .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+    .returning();
+
+  if (!notification) {
+    throw new NotFoundError('Notification not found');
+  }
+  return notification;
+}
+
+export async function markAllNotificationsRead(userId: string): Promise<number> {
+  const updated = await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+    .returning({ id: notifications.id });
+
+  return updated.length;
+}
@@ -3,9 +3,9 @@
 // January 2026 - Complete Overhaul for Production Quality
 // v2.1 - Self-Learning Integration
 
-import OpenAI from 'openai';
-import { env } from '../config/env.js';
 import { ExternalServiceError, ValidationError } from '../middleware/error.js';
+import { getVisionProvider, VisionImage } from './visionProvider.js';
+import { recordModelUsage } from './usageLedger.js';
 import { z } from 'zod';
 import {
   getPromptEnhancements,
@@ -18,26 +18,33 @@ import {
   getMakerByName,
   getIdentificationPattern,
   getAuthenticationCriteria,
-  MAKER_MARKS_DATABASE,
-  IDENTIFICATION_PATTERNS,
+  getMakerMarks,
+  getIdentificationPatterns,
+  refreshExpertKnowledgeIfStale,
 } from './expertKnowledgeBase.js';
+import { matchMakerMarks } from './makerMarkMatching.js';
+import {
+  HallmarkCheck,
+  HallmarkDecoding,
+  checkHallmarks,
+  decodeHallmarks,
+  describeHallmarkDecoding,
+  parseHallmarkText,
+} from './hallmarks.js';
+import {
+  WatchNumbersDecoding,
+  checkWatchPeriod,
+  decodeWatchNumbers,
+  describeWatchNumbers,
+  parseCasebackReading,
+} from './watchSerials.js';
+import { ComplianceAssessment, evaluateCompliance, filterResaleChannels, isChannelAllowed } from './compliance.js';
 
 import {
   searchAllAuctionDatabases,
   calculatePriceRange,
 } from './marketData.js';
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: env.OPENAI_API_KEY,
-});
-
-// ============================================================================
-// MODEL CONFIGURATION
-// ============================================================================
-const VISION_MODEL = 'gpt-4o'; // Best vision + reasoning for chat completions
-const TEXT_MODEL = 'gpt-4o';
-
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -378,9 +385,16 @@ export interface WorldClassResult extends AnalysisResult {
     price: number;
     date: string;
     relevance: string;
+    dataProvenance?: 'real' | 'modelled';
   }> | null;
   stylingSuggestions?: unknown[] | null;
   productUrl?: string | null;
+  // British hallmarks decoded from the visible marks (silver only)
+  hallmarks?: (HallmarkDecoding & { check: HallmarkCheck }) | null;
+  // Serial, reference and calibre numbers decoded from the caseback (watches only)
+  watchNumbers?: (WatchNumbersDecoding & { redFlags: string[] }) | null;
+  // Regulated materials (ivory, tortoiseshell...) and the sale rules they trigger
+  compliance?: ComplianceAssessment | null;
 }
 
 // Event emitter type
@@ -751,17 +765,14 @@ async function performTriage(
 ): Promise<z.infer<typeof TriageSchema>> {
   console.log('🔍 Stage 1: Smart Triage...');
 
-  const imageContents = images.map(img => ({
-    type: 'image_url' as const,
-    image_url: { url: img.dataUrl, detail: 'high' as const },
-  }));
+  const imageContents: VisionImage[] = images.map(img => ({ url: img.dataUrl, detail: 'high' }));
 
-  const response = await openai.chat.completions.create({
-    model: VISION_MODEL,
+  const provider = getVisionProvider();
+  const response = await provider.triage({
     messages: [
       {
         role: 'system',
-        content: `You are an expert appraiser doing initial triage of an item.
+        text: `You are an expert appraiser doing initial triage of an item.
 
 CRITICAL FIRST STEP: Carefully examine the image and transcribe ALL visible text, including:
 - Brand names (e.g., "POLAROID", "Rolex", "Tiffany & Co.")
@@ -808,19 +819,18 @@ For a photograph, category based on age and domainExpert="art".`,
       },
       {
         role: 'user',
-        content: [
-          { type: 'text', text: 'First, carefully read and transcribe ALL visible text in this image. Then categorize the item:' },
-          ...imageContents,
-        ],
+        text: 'First, carefully read and transcribe ALL visible text in this image. Then categorize the item:',
+        images: imageContents,
       },
     ],
-    max_tokens: 800,
+    maxTokens: 800,
     temperature: 0.1,
-    response_format: { type: 'json_object' },
+    json: true,
   });
+  await recordModelUsage('triage', response);
 
-  const content = response.choices[0]?.message?.content;
-  if (!content) throw new ExternalServiceError('No triage response', 'OpenAI');
+  const content = response.content;
+  if (!content) throw new ExternalServiceError('No triage response', provider.name);
 
   const rawData = safeJsonParse(content, 'triage') as Record<string, unknown>;
 
@@ -902,36 +912,61 @@ async function performDeepAnalysis(
 ): Promise<WorldClassResult> {
   console.log('🔬 Stage 2: Deep Analysis with Honest Confidence...');
 
+  // Pick up knowledge base edits made on other replicas
+  await refreshExpertKnowledgeIfStale();
+
   // Use enhanced domain prompts from knowledge base when available
   const enhancedPrompt = getEnhancedDomainPrompt(triage.domainExpert);
   const basePrompt = DOMAIN_EXPERT_PROMPTS[triage.domainExpert];
   const domainPrompt = enhancedPrompt || basePrompt;
 
   // Get relevant maker marks for context
-  const relevantMakers = MAKER_MARKS_DATABASE
-    .filter(m => m.category === triage.domainExpert)
+  const relevantMakers = getMakerMarks(triage.domainExpert)
     .slice(0, 10)
     .map(m => `• ${m.maker}: ${m.markDescription} (${m.activeYears})`)
     .join('\n');
 
   // Get identification patterns for this category
-  const patterns = IDENTIFICATION_PATTERNS
-    .filter(p => p.category === triage.domainExpert)
+  const patterns = getIdentificationPatterns(triage.domainExpert)
     .slice(0, 3);
 
   const makerContext = relevantMakers
     ? `\n\nKEY MAKER MARKS TO LOOK FOR:\n${relevantMakers}`
     : '';
 
+  // Makers whose marks match text triage read off the piece
+  const markCandidates = matchMakerMarks(
+    [triage.visibleBranding, ...(triage.allVisibleText || [])].filter(Boolean) as string[],
+    getMakerMarks(),
+    { category: triage.domainExpert }
+  );
+  // Silver: decode hallmarks deterministically instead of letting the model guess the cycle
+  const hallmarkDecoding = triage.domainExpert === 'silver'
+    ? decodeHallmarks(parseHallmarkText([triage.visibleBranding, ...(triage.allVisibleText || [])].filter(Boolean) as string[]))
+    : null;
+  const hallmarkContext = hallmarkDecoding && (hallmarkDecoding.candidates.length > 0 || hallmarkDecoding.conflicts.length > 0)
+    ? `\n\nHALLMARK DECODING (from date-letter tables - use these years, not your own reading of the cycle):\n${describeHallmarkDecoding(hallmarkDecoding)}`
+    : '';
+  // Watches: date serial, reference and calibre numbers from the makers' charts
+  const watchDecoding = triage.domainExpert === 'watches'
+    ? decodeWatchNumbers(parseCasebackReading([triage.visibleBranding, ...(triage.allVisibleText || [])].filter(Boolean) as string[]))
+    : null;
+  const watchNumbersContext = watchDecoding && watchDecoding.readings.length > 0
+    ? `\n\nCASEBACK NUMBERS (from serial and reference tables - date the watch from these, and treat conflicts as replaced parts):\n${describeWatchNumbers(watchDecoding)}`
+    : '';
+
+  const markMatchContext = markCandidates.length > 0
+    ? `\n\nMAKER MARKS MATCHED FROM VISIBLE TEXT (text lookup - confirm against the photos before relying on it):\n${markCandidates.map(c =>
+        `• ${c.maker} (${c.activeYears}, ${c.origin}) - ${Math.round(c.score * 100)}% match: ${c.matches.slice(0, 2).map(m => `read "${m.text}" ~ "${m.phrase}"`).join('; ')}`
+      ).join('\n')}`
+    : '';
+
   const patternContext = patterns.length > 0
     ? `\n\nIDENTIFICATION PATTERNS:\n${patterns.map(p =>
         `${p.itemType}:\n  - Look for: ${p.keyIdentifiers.slice(0, 3).join(', ')}\n  - Red flags: ${p.redFlags.slice(0, 2).join(', ')}`
       ).join('\n')}`
     : '';
-  const imageContents = images.map((img, idx) => ({
-    type: 'image_url' as const,
-    image_url: { url: img.dataUrl, detail: 'high' as const },
-  }));
+  const imageContents: VisionImage[] = images.map(img => ({ url: img.dataUrl, detail: 'high' }));
 
   const imageDescriptions = images.map((img, idx) =>
     `Image ${idx + 1}: ${img.label} (${img.role})`
@@ -1006,15 +1041,18 @@ Calculate actual profit potential considering fees and time.` : '';
   "resaleChannels": ["eBay", "1stDibs", "specialty dealers"]
 }`;
 
-  const response = await openai.chat.completions.create({
-    model: VISION_MODEL,
+  const provider = getVisionProvider();
+  const response = await provider.deepAnalysis({
     messages: [
       {
         role: 'system',
-        content: `You are a world-class ${triage.domainExpert} expert providing brutally honest analysis.
+        text: `You are a world-class ${triage.domainExpert} expert providing brutally honest analysis.
 
 ${domainPrompt}
 ${makerContext}
+${markMatchContext}
+${hallmarkContext}
+${watchNumbersContext}
 ${patternContext}
 ${triageContext}
 ${learningContext}
@@ -1066,10 +1104,7 @@ All fields should be filled with real data based on your analysis. Do NOT leave
       },
       {
         role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: `Analyze this ${triage.itemType} in detail.
+        text: `Analyze this ${triage.itemType} in detail.
 
 STEP 1: Look at the PRIMARY OBJECT in this image. What is it? (furniture, ceramics, silver, glass, painting, watch, etc.)
 
@@ -1087,18 +1122,17 @@ STEP 4: Provide:
 - What you know for certain vs what you're inferring
 
 Fill in ALL fields with real data based on what you observe.`,
-          },
-          ...imageContents,
-        ],
+        images: imageContents,
       },
     ],
-    max_tokens: 4500,
+    maxTokens: 4500,
     temperature: 0.2,
-    response_format: { type: 'json_object' },
+    json: true,
   });
+  await recordModelUsage('deep_analysis', response);
 
-  const content = response.choices[0]?.message?.content;
-  if (!content) throw new ExternalServiceError('No analysis response', 'OpenAI');
+  const content = response.content;
+  if (!content) throw new ExternalServiceError('No analysis response', provider.name);
 
   const parsed = safeJsonParse(content, 'analysis') as Record<string, unknown>;
 
@@ -1196,6 +1230,33 @@ Fill in ALL fields with real data based on what you observe.`,
     result.knownFakeIndicators = result.itemAuthentication.criticalIssues;
   }
 
+  // Feed the decoded hallmarks into the silver "Hallmarks" authentication checkpoint
+  if (hallmarkDecoding) {
+    result.hallmarks = {
+      ...hallmarkDecoding,
+      check: checkHallmarks(hallmarkDecoding, getAuthenticationCriteria('silver'), {
+        start: result.periodStart ?? null,
+        end: result.periodEnd ?? null,
+      }),
+    };
+  }
+
+  // Cross-check the caseback numbers against the period the model attributed
+  if (watchDecoding && watchDecoding.readings.length > 0) {
+    const flags = checkWatchPeriod(watchDecoding, {
+      start: result.periodStart ?? null,
+      end: result.periodEnd ?? null,
+    });
+    result.watchNumbers = { ...watchDecoding, redFlags: flags };
+    result.redFlags = Array.from(new Set([...(result.redFlags ?? []), ...flags]));
+  }
+
+  // Regulated materials: warn, and stop recommending marketplaces that ban them
+  result.compliance = evaluateCompliance(result);
+  if (result.compliance.warnings.length > 0) {
+    result.resaleChannels = filterResaleChannels(result.resaleChannels ?? [], result.compliance);
+  }
+
   // Fetch real market data from auction databases
   try {
     const searchQuery = `${result.maker || ''} ${result.name}`.trim();
@@ -1214,10 +1275,11 @@ Fill in ALL fields with real data based on what you observe.`,
       // Convert to our comparableSales format
       result.comparableSales = marketData.allResults.slice(0, 5).map(sale => ({
         description: sale.title,
-        venue: sale.marketplace,
+        venue: sale.venue ?? sale.marketplace,
         price: sale.soldPrice,
         date: sale.soldDate,
         relevance: `${Math.round(sale.similarity * 100)}% match`,
+        dataProvenance: sale.dataProvenance,
       }));
 
       // Optionally adjust estimates based on real market data
@@ -1364,16 +1426,10 @@ export async function analyzeAntiqueImage(
 // ============================================================================
 
 /**
- * Check OpenAI API health
+ * Check the configured vision provider's health
  */
 export async function checkOpenAIHealth(): Promise<boolean> {
-  try {
-    const response = await openai.models.list();
-    return response.data.length > 0;
-  } catch (error) {
-    console.error('OpenAI health check failed:', error);
-    return false;
-  }
+  return getVisionProvider().healthCheck();
 }
 
 /**
@@ -1387,13 +1443,14 @@ export function generateMarketplaceLinks(
   productCategory?: ProductCategory,
   brand?: string | null,
   modelNumber?: string | null,
-  domainExpert?: string
+  domainExpert?: string,
+  compliance?: ComplianceAssessment | null
 ): { marketplaceName: string; linkUrl: string }[] {
   // Build search terms with available info
   const searchTerms = [brand, name].filter(Boolean).join(' ');
   const encoded = encodeURIComponent(searchTerms);
 
-  return [
+  const links = [
     {
       marketplaceName: 'eBay',
       linkUrl: `https://www.ebay.com/sch/i.html?_nkw=${encoded}&_sop=12&LH_Complete=1&LH_Sold=1`,
@@ -1415,23 +1472,42 @@ export function generateMarketplaceLinks(
       linkUrl: `https://www.etsy.com/search?q=${encoded}`,
     },
   ];
+
+  // Don't point users at marketplaces that ban the item's materials
+  return compliance ? links.filter(link => isChannelAllowed(link.marketplaceName, compliance)) : links;
+}
+
+/**
+ * What the follow-up photo prompt needs to know about the saved analysis
+ */
+export interface AdditionalPhotoContext {
+  name: string;
+  maker: string | null;
+  confidence: number;
 }
 
 /**
- * Analyze additional photo to update existing analysis
+ * Analyze additional photo to update existing analysis. The model may only
+ * answer with the keys in fieldGuide (key -> expected value); the caller
+ * validates whatever comes back.
  */
 export async function analyzeAdditionalPhoto(
-  existingAnalysis: WorldClassResult,
-  newImage: CapturedImage
-): Promise<Partial<WorldClassResult>> {
+  existingAnalysis: AdditionalPhotoContext,
+  newImage: CapturedImage,
+  fieldGuide: Record<string, string>
+): Promise<Record<string, unknown>> {
+  const keyList = Object.entries(fieldGuide)
+    .map(([key, expected]) => `  "${key}": ${expected}`)
+    .join('\n');
+
   console.log(`📸 Analyzing additional ${newImage.role} image...`);
 
-  const response = await openai.chat.completions.create({
-    model: VISION_MODEL,
+  const provider = getVisionProvider();
+  const response = await provider.analyzeAdditionalPhoto({
     messages: [
       {
         role: 'system',
-        content: `You previously analyzed this item:
+        text: `You previously analyzed this item:
 Name: ${existingAnalysis.name}
 Maker: ${existingAnalysis.maker || 'Unknown'}
 Confidence: ${existingAnalysis.confidence}
@@ -1444,25 +1520,29 @@ Analyze this new image and provide:
 3. Resolution of any "needs verification" items
 4. New visual markers for this image
 
-Respond in JSON with only the CHANGED fields.`,
+Respond with a single JSON object containing only the fields this image changes,
+using exactly these keys and value types - omit unchanged fields and add no others:
+{
+${keyList}
+}`,
       },
       {
         role: 'user',
-        content: [
-          { type: 'text', text: `Analyze this ${newImage.label} and tell me what new information it provides:` },
-          { type: 'image_url', image_url: { url: newImage.dataUrl, detail: 'high' } },
-        ],
+        text: `Analyze this ${newImage.label} and tell me what new information it provides:`,
+        images: [{ url: newImage.dataUrl, detail: 'high' }],
       },
     ],
-    max_tokens: 2000,
+    maxTokens: 2000,
     temperature: 0.2,
-    response_format: { type: 'json_object' },
+    json: true,
   });
+  await recordModelUsage('additional_photo', response);
 
-  const content = response.choices[0]?.message?.content;
-  if (!content) throw new ExternalServiceError('No response', 'OpenAI');
+  const content = response.content;
+  if (!content) throw new ExternalServiceError('No response', provider.name);
 
-  return safeJsonParse(content, 'additional_photo') as Partial<WorldClassResult>;
+  const parsed = safeJsonParse(content, 'additional_photo');
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
 }
 
 // Type alias for external use
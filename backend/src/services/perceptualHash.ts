@@ -0,0 +1,123 @@
+/**
+ * Perceptual Hashing
+ * pHash and dHash fingerprints that survive re-encoding, resizing and small shifts
+ * October 2026
+ *
+ * Pickers re-upload the same photo, or re-shoot the same piece a little
+ * differently. Byte hashes miss both; these 64-bit hashes stay within a few
+ * bits of each other, so the Hamming distance says how alike two images look.
+ * pHash (low DCT frequencies against their median) tolerates tone and
+ * compression changes, dHash (brightness gradients) is cheap and sharp on
+ * crops. Both are stored as 16 hex digits.
+ */
+
+import sharp from 'sharp';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ImageHashes {
+  perceptualHash: string;
+  differenceHash: string;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const PHASH_SIZE = 32; // Downscaled side the DCT runs on
+const PHASH_FREQUENCIES = 8; // Lowest frequencies kept per axis
+const DHASH_WIDTH = 9; // 8 comparisons per row
+const DHASH_HEIGHT = 8;
+
+// ============================================================================
+// HASHES
+// ============================================================================
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((+bits[i] << 3) | (+bits[i + 1] << 2) | (+bits[i + 2] << 1) | +bits[i + 3]).toString(16);
+  }
+  return hex;
+}
+
+/**
+ * dHash of a 9x8 grayscale image: one bit per pixel brighter than its
+ * right-hand neighbour
+ */
+export function differenceHashFromPixels(pixels: ArrayLike<number>): string {
+  const bits: boolean[] = [];
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      bits.push(pixels[y * DHASH_WIDTH + x] > pixels[y * DHASH_WIDTH + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+/**
+ * pHash of a 32x32 grayscale image: the 8x8 lowest DCT frequencies, one bit
+ * per coefficient above their median (the DC term is left out of the median)
+ */
+export function perceptualHashFromPixels(pixels: ArrayLike<number>): string {
+  const n = PHASH_SIZE;
+  const k = PHASH_FREQUENCIES;
+  const cosines = Array.from({ length: k }, (_, u) =>
+    Array.from({ length: n }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * n)))
+  );
+
+  // Separable 2D DCT-II, rows first, only the frequencies kept
+  const rows: number[][] = Array.from({ length: n }, (_, y) =>
+    cosines.map(cos => cos.reduce((sum, c, x) => sum + c * pixels[y * n + x], 0))
+  );
+  const coefficients: number[] = [];
+  for (let v = 0; v < k; v++) {
+    for (let u = 0; u < k; u++) {
+      coefficients.push(cosines[v].reduce((sum, c, y) => sum + c * rows[y][u], 0));
+    }
+  }
+
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  return bitsToHex(coefficients.map(c => c > median));
+}
+
+async function grayscalePixels(image: sharp.Sharp, width: number, height: number): Promise<Buffer> {
+  return image
+    .clone()
+    .flatten({ background: '#ffffff' })
+    .resize(width, height, { fit: 'fill' })
+    .grayscale()
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * Hash an oriented image pipeline - ingestion hashes what it stores, so a
+ * rotated re-upload of the same photo hashes the same
+ */
+export async function computeImageHashes(image: sharp.Sharp): Promise<ImageHashes> {
+  const [phashPixels, dhashPixels] = await Promise.all([
+    grayscalePixels(image, PHASH_SIZE, PHASH_SIZE),
+    grayscalePixels(image, DHASH_WIDTH, DHASH_HEIGHT),
+  ]);
+  return {
+    perceptualHash: perceptualHashFromPixels(phashPixels),
+    differenceHash: differenceHashFromPixels(dhashPixels),
+  };
+}
+
+/**
+ * Number of differing bits between two hex hashes of the same length
+ */
+export function hammingDistance(a: string, b: string): number {
+  let xor = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (xor > 0n) {
+    distance += Number(xor & 1n);
+    xor >>= 1n;
+  }
+  return distance;
+}
@@ -0,0 +1,415 @@
+/**
+ * Market Price Alerts
+ * Watches items or categories and notifies when market prices cross a target
+ * October 2026
+ *
+ * A scheduler re-prices due alerts via getMarketIntelligence every
+ * PRICE_ALERT_CHECK_HOURS. Only real sold listings count - alerts are never
+ * evaluated against estimate-derived prices. Conditions are edge-triggered:
+ * 'above'/'below' fire when the price crosses the target (not on every check
+ * while it stays there), and 'any_change' fires when the price moves by
+ * changeThreshold percent from the value at the last notification.
+ */
+
+import { db } from '../db/client.js';
+import { priceAlerts, users } from '../db/schema.js';
+import type { PriceAlert } from '../db/schema.js';
+import { and, asc, count, eq, inArray, lte } from 'drizzle-orm';
+import { env } from '../config/env.js';
+import { NotFoundError, ValidationError, QuotaExceededError } from '../middleware/error.js';
+import { getMarketIntelligence } from './marketData.js';
+import { sendNotification } from './notifications.js';
+import { hasFeature } from './entitlements.js';
+import { getViewableAnalysis } from './analysisAccess.js';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const MAX_PRICE_ALERTS = 10;
+const EVALUATION_BATCH_SIZE = 25;
+const SCHEDULER_INTERVAL_MS = 5 * 60 * 1000;
+const RETRY_AFTER_ERROR_MS = 60 * 60 * 1000;
+
+export type AlertCondition = 'above' | 'below' | 'any_change';
+
+function checkIntervalMs(): number {
+  return Math.max(1, parseFloat(env.PRICE_ALERT_CHECK_HOURS) || 24) * 60 * 60 * 1000;
+}
+
+// ============================================================================
+// CONDITION EVALUATION
+// ============================================================================
+
+export interface AlertState {
+  condition: AlertCondition;
+  targetValue: number | null;
+  changeThreshold: number;
+  lastValue: number | null;
+  baselineValue: number | null;
+}
+
+export interface AlertEvaluation {
+  triggered: boolean;
+  percentChange: number | null; // vs. the previous check
+  baselineValue: number; // baseline to store after this check
+}
+
+function percentBetween(from: number | null, to: number): number | null {
+  return from ? Math.round(((to - from) / from) * 1000) / 10 : null;
+}
+
+/**
+ * Decide whether a new market value fires the alert
+ */
+export function evaluateAlertCondition(alert: AlertState, currentValue: number): AlertEvaluation {
+  const percentChange = percentBetween(alert.lastValue, currentValue);
+
+  switch (alert.condition) {
+    case 'above': {
+      const crossed = currentValue > alert.targetValue! && (alert.lastValue === null || alert.lastValue <= alert.targetValue!);
+      return { triggered: crossed, percentChange, baselineValue: currentValue };
+    }
+    case 'below': {
+      const crossed = currentValue < alert.targetValue! && (alert.lastValue === null || alert.lastValue >= alert.targetValue!);
+      return { triggered: crossed, percentChange, baselineValue: currentValue };
+    }
+    case 'any_change': {
+      // First observation only establishes the baseline
+      if (alert.baselineValue === null) {
+        return { triggered: false, percentChange, baselineValue: currentValue };
+      }
+      const moved = Math.abs(percentBetween(alert.baselineValue, currentValue) ?? 0) >= alert.changeThreshold;
+      return { triggered: moved, percentChange, baselineValue: moved ? currentValue : alert.baselineValue };
+    }
+  }
+}
+
+function describeTrigger(alert: PriceAlert, previous: number | null, current: number): { title: string; body: string } {
+  const fmt = (n: number) => `$${n.toLocaleString('en-US')}`;
+  const subject = [alert.maker, alert.itemName].filter(Boolean).join(' ');
+
+  switch (alert.condition) {
+    case 'above':
+      return {
+        title: `${subject} is above ${fmt(alert.targetValue!)}`,
+        body: `Recent sales of ${subject} now average ${fmt(current)}, above your ${fmt(alert.targetValue!)} target.`,
+      };
+    case 'below':
+      return {
+        title: `${subject} dropped below ${fmt(alert.targetValue!)}`,
+        body: `Recent sales of ${subject} now average ${fmt(current)}, below your ${fmt(alert.targetValue!)} target.`,
+      };
+    default: {
+      const change = percentBetween(previous, current) ?? 0;
+      return {
+        title: `${subject} ${change >= 0 ? 'up' : 'down'} ${Math.abs(change)}%`,
+        body: `Recent sales of ${subject} moved from ${fmt(previous!)} to ${fmt(current)}.`,
+      };
+    }
+  }
+}
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+export interface CreatePriceAlertInput {
+  itemAnalysisId?: string;
+  itemName?: string;
+  maker?: string | null;
+  era?: string | null;
+  category?: string | null;
+  condition: AlertCondition;
+  targetValue?: number | null;
+  changeThreshold?: number;
+}
+
+function assertTarget(condition: AlertCondition, targetValue: number | null | undefined): void {
+  if (condition !== 'any_change' && (targetValue === null || targetValue === undefined)) {
+    throw new ValidationError(`A target value is required for '${condition}' alerts`);
+  }
+}
+
+export async function listPriceAlerts(userId: string): Promise<PriceAlert[]> {
+  return db
+    .select()
+    .from(priceAlerts)
+    .where(eq(priceAlerts.userId, userId))
+    .orderBy(asc(priceAlerts.createdAt));
+}
+
+async function getOwnedAlert(id: string, userId: string): Promise<PriceAlert> {
+  const [alert] = await db
+    .select()
+    .from(priceAlerts)
+    .where(and(eq(priceAlerts.id, id), eq(priceAlerts.userId, userId)))
+    .limit(1);
+
+  if (!alert) {
+    throw new NotFoundError('Price alert not found');
+  }
+  return alert;
+}
+
+/**
+ * Create an alert for a free-text item/category, or for one of the user's analyses
+ * (name, maker and era are taken from the analysis)
+ */
+export async function createPriceAlert(userId: string, input: CreatePriceAlertInput): Promise<PriceAlert> {
+  assertTarget(input.condition, input.targetValue);
+
+  const [{ existing }] = await db
+    .select({ existing: count() })
+    .from(priceAlerts)
+    .where(eq(priceAlerts.userId, userId));
+
+  if (existing >= MAX_PRICE_ALERTS) {
+    throw new QuotaExceededError(`You can have up to ${MAX_PRICE_ALERTS} price alerts. Delete one to add another.`);
+  }
+
+  let subject = {
+    itemName: input.itemName?.trim(),
+    maker: input.maker || null,
+    era: input.era || null,
+    category: input.category || null,
+  };
+
+  if (input.itemAnalysisId) {
+    const analysis = await getViewableAnalysis(input.itemAnalysisId, userId);
+    subject = {
+      itemName: subject.itemName || analysis.name,
+      maker: subject.maker ?? analysis.maker,
+      era: subject.era ?? analysis.era,
+      category: subject.category ?? analysis.productCategory,
+    };
+  }
+
+  if (!subject.itemName) {
+    throw new ValidationError('Item or category name is required');
+  }
+
+  const [alert] = await db
+    .insert(priceAlerts)
+    .values({
+      userId,
+      itemAnalysisId: input.itemAnalysisId ?? null,
+      ...subject,
+      itemName: subject.itemName,
+      condition: input.condition,
+      targetValue: input.condition === 'any_change' ? null : input.targetValue,
+      changeThreshold: input.changeThreshold ?? 5,
+    })
+    .returning();
+
+  console.log(`🔔 Price alert created: ${alert.itemName} (${alert.condition})`);
+  return alert;
+}
+
+export async function updatePriceAlert(
+  id: string,
+  userId: string,
+  updates: { isActive?: boolean; condition?: AlertCondition; targetValue?: number | null; changeThreshold?: number }
+): Promise<PriceAlert> {
+  const alert = await getOwnedAlert(id, userId);
+  const condition = updates.condition ?? alert.condition as AlertCondition;
+  const targetValue = updates.targetValue !== undefined ? updates.targetValue : alert.targetValue;
+  assertTarget(condition, targetValue);
+
+  // A changed rule starts fresh so it can fire on the next check
+  const ruleChanged = updates.condition !== undefined || updates.targetValue !== undefined || updates.changeThreshold !== undefined;
+
+  const [updated] = await db
+    .update(priceAlerts)
+    .set({
+      ...updates,
+      condition,
+      targetValue: condition === 'any_change' ? null : targetValue,
+      ...(ruleChanged ? { lastValue: null, baselineValue: null, nextCheckAt: new Date() } : {}),
+      ...(updates.isActive ? { nextCheckAt: new Date() } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(priceAlerts.id, alert.id))
+    .returning();
+
+  return updated;
+}
+
+export async function deletePriceAlert(id: string, userId: string): Promise<void> {
+  const alert = await getOwnedAlert(id, userId);
+  await db.delete(priceAlerts).where(eq(priceAlerts.id, alert.id));
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Re-price one alert and notify if it fires
+ */
+async function evaluateAlert(alert: PriceAlert): Promise<PriceAlert> {
+  const now = new Date();
+  const market = await getMarketIntelligence(alert.itemName, alert.maker, alert.era);
+
+  // No real comparables - nothing to compare against, try again next cycle
+  if (market.dataProvenance !== 'real' || market.averageSoldPrice <= 0) {
+    const [updated] = await db
+      .update(priceAlerts)
+      .set({ lastCheckedAt: now, nextCheckAt: new Date(now.getTime() + checkIntervalMs()), updatedAt: now })
+      .where(eq(priceAlerts.id, alert.id))
+      .returning();
+    return updated;
+  }
+
+  const current = market.averageSoldPrice;
+  const evaluation = evaluateAlertCondition({
+    condition: alert.condition as AlertCondition,
+    targetValue: alert.targetValue,
+    changeThreshold: alert.changeThreshold,
+    lastValue: alert.lastValue,
+    baselineValue: alert.baselineValue,
+  }, current);
+
+  if (evaluation.triggered) {
+    const previous = alert.condition === 'any_change' ? alert.baselineValue : alert.lastValue;
+    const { title, body } = describeTrigger(alert, previous, current);
+
+    await sendNotification({
+      userId: alert.userId,
+      type: 'price_alert',
+      title,
+      body,
+      data: {
+        alertId: alert.id,
+        itemAnalysisId: alert.itemAnalysisId,
+        condition: alert.condition,
+        targetValue: alert.targetValue,
+        previousValue: previous,
+        currentValue: current,
+        sampleSize: market.recentSales.length,
+      },
+    });
+    console.log(`🔔 Price alert fired: ${title}`);
+  }
+
+  const [updated] = await db
+    .update(priceAlerts)
+    .set({
+      lastValue: current,
+      baselineValue: evaluation.baselineValue,
+      lastPercentChange: evaluation.percentChange,
+      lastCheckedAt: now,
+      ...(evaluation.triggered ? { lastTriggeredAt: now } : {}),
+      nextCheckAt: new Date(now.getTime() + checkIntervalMs()),
+      updatedAt: now,
+    })
+    .where(eq(priceAlerts.id, alert.id))
+    .returning();
+
+  return updated;
+}
+
+/**
+ * Check an alert now instead of waiting for the schedule
+ */
+export async function checkPriceAlertNow(id: string, userId: string): Promise<PriceAlert> {
+  const alert = await getOwnedAlert(id, userId);
+  return evaluateAlert(alert);
+}
+
+/**
+ * Claim and evaluate due alerts. Claiming pushes nextCheckAt forward inside a
+ * SKIP LOCKED update so concurrent schedulers don't re-price the same alert.
+ */
+export async function evaluateDueAlerts(): Promise<{ checked: number; triggered: number }> {
+  const due = db
+    .select({ id: priceAlerts.id })
+    .from(priceAlerts)
+    .where(and(eq(priceAlerts.isActive, true), lte(priceAlerts.nextCheckAt, new Date())))
+    .orderBy(asc(priceAlerts.nextCheckAt))
+    .limit(EVALUATION_BATCH_SIZE)
+    .for('update', { skipLocked: true });
+
+  const claimed = await db
+    .update(priceAlerts)
+    .set({ nextCheckAt: new Date(Date.now() + RETRY_AFTER_ERROR_MS) })
+    .where(inArray(priceAlerts.id, due))
+    .returning();
+
+  if (claimed.length === 0) {
+    return { checked: 0, triggered: 0 };
+  }
+
+  const owners = await db
+    .select({ id: users.id, subscriptionTier: users.subscriptionTier })
+    .from(users)
+    .where(inArray(users.id, [...new Set(claimed.map(a => a.userId))]));
+  const tierByUser = new Map(owners.map(o => [o.id, o.subscriptionTier]));
+
+  // Downgraded plans keep their alerts, paused so they aren't claimed again;
+  // the user can resume them after upgrading
+  const eligible = claimed.filter(alert => hasFeature(tierByUser.get(alert.userId), 'priceAlerts'));
+  const paused = claimed.filter(alert => !eligible.includes(alert)).map(alert => alert.id);
+  if (paused.length > 0) {
+    await db
+      .update(priceAlerts)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(inArray(priceAlerts.id, paused));
+    console.log(`⏸️ Paused ${paused.length} price alert(s) whose owners no longer have the feature`);
+  }
+
+  let checked = 0;
+  let triggered = 0;
+
+  // Sequential - each check queries marketplace APIs
+  for (const alert of eligible) {
+    try {
+      const updated = await evaluateAlert(alert);
+      checked++;
+      if (updated.lastTriggeredAt && updated.lastTriggeredAt.getTime() === updated.lastCheckedAt?.getTime()) {
+        triggered++;
+      }
+    } catch (error) {
+      // Claim already pushed nextCheckAt out, so this retries in an hour
+      console.error(`❌ Price alert ${alert.id} check failed:`, error);
+    }
+  }
+
+  if (checked > 0) {
+    console.log(`📈 Price alerts: ${checked} checked, ${triggered} triggered`);
+  }
+  return { checked, triggered };
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let evaluating = false;
+
+async function tick(): Promise<void> {
+  if (evaluating) return;
+  evaluating = true;
+  try {
+    await evaluateDueAlerts();
+  } catch (error) {
+    console.error('❌ Price alert scheduler failed:', error);
+  } finally {
+    evaluating = false;
+  }
+}
+
+export function startPriceAlertScheduler(): void {
+  if (schedulerTimer) return;
+  schedulerTimer = setInterval(() => void tick(), SCHEDULER_INTERVAL_MS);
+  console.log(`✅ Price alert scheduler started (every ${env.PRICE_ALERT_CHECK_HOURS}h per alert)`);
+  void tick();
+}
+
+export function stopPriceAlertScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -12,6 +12,9 @@
  */
 
 import { createLogger } from '../utils/logger.js'
+import { db } from '../db/client.js'
+import { learningFeedback, learningInsights, learningPromptAdjustments } from '../db/schema.js'
+import { asc } from 'drizzle-orm'
 import type { ItemAnalysis } from './openai'
 
 const logger = createLogger('self-learning')
@@ -48,6 +51,8 @@ export interface FeedbackEntry {
 
   metadata: {
     verifiedBy?: string
+    submittedBy?: string
+    moderationWeight?: number  // 0-1 submitter trust; scales how much the entry counts, not its confidence
     verificationCount: number
     imageQuality?: 'low' | 'medium' | 'high'
     category?: string
@@ -87,8 +92,10 @@ export interface LearningSystemState {
   topIssues: LearningInsight[]
 }
 
+export type AccuracyTrendGranularity = 'week' | 'month'
+
 // ============================================================================
-// IN-MEMORY STORES (Would be DB in production)
+// DATA STORE (in-memory working set, written through to Postgres)
 // ============================================================================
 
 class LearningDataStore {
@@ -97,8 +104,30 @@ class LearningDataStore {
   private promptAdjustments: PromptAdjustment[] = []
   private analysisHistory: Map<string, { original: Partial<ItemAnalysis>; corrected?: Partial<ItemAnalysis> }> = new Map()
 
-  // Confusion matrix for maker/era combinations
-  private confusionMatrix: Map<string, Map<string, number>> = new Map()
+  // Confusion matrix for maker/era combinations, keeping the entries behind each pattern
+  private confusionMatrix: Map<string, Map<string, FeedbackEntry[]>> = new Map()
+
+  /**
+   * Replace the working set with persisted history. Feedback is replayed in
+   * order so the confusion matrix is rebuilt exactly as it was accumulated.
+   */
+  hydrate(feedback: FeedbackEntry[], insights: LearningInsight[], adjustments: PromptAdjustment[]): void {
+    this.feedback = []
+    this.confusionMatrix = new Map()
+    for (const entry of feedback) {
+      this.feedback.push(entry)
+      this.updateConfusionMatrix(entry)
+    }
+
+    this.insights = [...insights]
+
+    // Persisted adjustments win over in-memory ones with the same ID (e.g. baselines)
+    const persistedIds = new Set(adjustments.map(a => a.id))
+    this.promptAdjustments = [
+      ...this.promptAdjustments.filter(pa => !persistedIds.has(pa.id)),
+      ...adjustments
+    ]
+  }
 
   addFeedback(entry: FeedbackEntry): void {
     this.feedback.push(entry)
@@ -114,7 +143,7 @@ class LearningDataStore {
       }
       const corrections = this.confusionMatrix.get(key)!
       const correctedVal = String(entry.correction.correctedValue)
-      corrections.set(correctedVal, (corrections.get(correctedVal) || 0) + 1)
+      corrections.set(correctedVal, [...(corrections.get(correctedVal) ?? []), entry])
     }
   }
 
@@ -130,8 +159,9 @@ class LearningDataStore {
     const patterns: { original: string; confused_with: string; count: number }[] = []
 
     for (const [original, corrections] of this.confusionMatrix) {
-      for (const [corrected, count] of corrections) {
-        if (count >= 2) {  // Only report patterns seen multiple times
+      for (const [corrected, entries] of corrections) {
+        const count = submitterWeight(entries)
+        if (count >= 2) {  // Only report patterns seen multiple times (weighted)
           patterns.push({ original, confused_with: corrected, count })
         }
       }
@@ -140,7 +170,7 @@ class LearningDataStore {
     return patterns.sort((a, b) => b.count - a.count)
   }
 
-  addInsight(insight: LearningInsight): void {
+  addInsight(insight: LearningInsight): LearningInsight {
     // Merge with existing similar insight if present
     const existing = this.insights.find(
       i => i.type === insight.type && i.description === insight.description
@@ -150,9 +180,11 @@ class LearningDataStore {
       existing.frequency += 1
       existing.lastOccurred = new Date()
       existing.evidence = [...new Set([...existing.evidence, ...insight.evidence])]
-    } else {
-      this.insights.push(insight)
+      return existing
     }
+
+    this.insights.push(insight)
+    return insight
   }
 
   getInsights(): LearningInsight[] {
@@ -163,6 +195,7 @@ class LearningDataStore {
   }
 
   addPromptAdjustment(adjustment: PromptAdjustment): void {
+    if (this.promptAdjustments.some(pa => pa.id === adjustment.id)) return
     this.promptAdjustments.push(adjustment)
   }
 
@@ -176,6 +209,10 @@ class LearningDataStore {
     this.analysisHistory.set(id, { original: analysis })
   }
 
+  getPromptAdjustment(id: string): PromptAdjustment | undefined {
+    return this.promptAdjustments.find(pa => pa.id === id)
+  }
+
   getState(): LearningSystemState {
     return {
       totalFeedbackEntries: this.feedback.length,
@@ -189,26 +226,30 @@ class LearningDataStore {
     }
   }
 
-  private calculateAccuracyTrend(): { period: string; accuracy: number }[] {
-    // Group feedback by week and calculate correction rate
-    const weeks = new Map<string, { total: number; correct: number }>()
+  calculateAccuracyTrend(
+    granularity: AccuracyTrendGranularity = 'week',
+    periods = 12
+  ): { period: string; accuracy: number }[] {
+    // Group feedback by week (or month) and calculate correction rate
+    const buckets = new Map<string, { total: number; correct: number }>()
 
     for (const entry of this.feedback) {
-      const week = this.getWeekKey(entry.timestamp)
-      if (!weeks.has(week)) {
-        weeks.set(week, { total: 0, correct: 0 })
+      const key = granularity === 'month' ? this.getMonthKey(entry.timestamp) : this.getWeekKey(entry.timestamp)
+      if (!buckets.has(key)) {
+        buckets.set(key, { total: 0, correct: 0 })
       }
-      const w = weeks.get(week)!
-      w.total += 1
+      const b = buckets.get(key)!
+      const weight = feedbackWeight(entry)
+      b.total += weight
       // Count as correct if correction confidence was low (original was right)
       if (entry.correction.confidence < 0.5) {
-        w.correct += 1
+        b.correct += weight
       }
     }
 
-    return Array.from(weeks.entries())
+    return Array.from(buckets.entries())
       .sort((a, b) => a[0].localeCompare(b[0]))
-      .slice(-12)  // Last 12 weeks
+      .slice(-periods)  // Most recent periods (12 weeks by default)
       .map(([period, data]) => ({
         period,
         accuracy: data.total > 0 ? (1 - (data.correct / data.total)) * 100 : 100
@@ -221,17 +262,246 @@ class LearningDataStore {
     d.setDate(d.getDate() - d.getDay())
     return d.toISOString().split('T')[0]
   }
+
+  private getMonthKey(date: Date): string {
+    return new Date(date).toISOString().slice(0, 7)
+  }
+}
+
+/**
+ * How much an entry counts in aggregates - the moderation weight for user
+ * corrections, full weight for everything else
+ */
+function feedbackWeight(entry: FeedbackEntry): number {
+  return entry.metadata.moderationWeight ?? 1
+}
+
+function totalWeight(entries: FeedbackEntry[]): number {
+  return entries.reduce((sum, entry) => sum + feedbackWeight(entry), 0)
+}
+
+// Patterns that reach prompts need this many different people behind them
+const MIN_DISTINCT_SUBMITTERS = 3
+
+/**
+ * Weight of the entries behind a pattern with each submitter's share capped
+ * at one vote, so repeating a correction doesn't add up. Patterns with fewer
+ * than MIN_DISTINCT_SUBMITTERS submitters count for nothing. Entries without a
+ * submitter (experts, auctions, ground truth) each count on their own.
+ */
+function submitterWeight(entries: FeedbackEntry[]): number {
+  const bySubmitter = new Map<string, number>()
+  for (const entry of entries) {
+    const submitter = entry.metadata.submittedBy ?? entry.id
+    bySubmitter.set(submitter, (bySubmitter.get(submitter) ?? 0) + feedbackWeight(entry))
+  }
+  if (bySubmitter.size < MIN_DISTINCT_SUBMITTERS) return 0
+
+  let weight = 0
+  for (const submitted of bySubmitter.values()) {
+    weight += Math.min(1, submitted)
+  }
+  return weight
+}
+
+// Learned terms come from user corrections and end up in every analysis
+// prompt, so only short plain names, dates and places get through
+const PROMPT_TERM_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} .,'&()/-]*$/u
+const MAX_PROMPT_TERM_LENGTH = 60
+const MAX_PROMPT_TERM_WORDS = 8
+
+/**
+ * A correction value fit to quote in a prompt, or null
+ */
+export function promptSafeTerm(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  const term = String(value).replace(/\s+/g, ' ').trim()
+  if (term.length === 0 || term.length > MAX_PROMPT_TERM_LENGTH) return null
+  if (term.split(' ').length > MAX_PROMPT_TERM_WORDS) return null
+  return PROMPT_TERM_PATTERN.test(term) ? term : null
 }
 
 // Singleton instance
 const dataStore = new LearningDataStore()
 
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+// Persistence failures are logged, never thrown - learning must not break analysis
+
+async function persistFeedback(entry: FeedbackEntry): Promise<void> {
+  try {
+    await db
+      .insert(learningFeedback)
+      .values({
+        id: entry.id,
+        analysisId: entry.analysisId,
+        imageHash: entry.imageHash,
+        source: entry.source,
+        field: entry.correction.field,
+        original: entry.original,
+        correction: entry.correction,
+        metadata: entry.metadata,
+        recordedAt: entry.timestamp
+      })
+      .onConflictDoNothing()
+  } catch (error) {
+    logger.warn('Failed to persist feedback entry', { id: entry.id, error: String(error) })
+  }
+}
+
+async function persistInsight(insight: LearningInsight): Promise<void> {
+  try {
+    await db
+      .insert(learningInsights)
+      .values({
+        type: insight.type,
+        severity: insight.severity,
+        description: insight.description,
+        evidence: insight.evidence,
+        suggestedAction: insight.suggestedAction,
+        frequency: insight.frequency,
+        lastOccurred: insight.lastOccurred
+      })
+      .onConflictDoUpdate({
+        target: [learningInsights.type, learningInsights.description],
+        set: {
+          severity: insight.severity,
+          evidence: insight.evidence,
+          suggestedAction: insight.suggestedAction,
+          frequency: insight.frequency,
+          lastOccurred: insight.lastOccurred
+        }
+      })
+  } catch (error) {
+    logger.warn('Failed to persist insight', { description: insight.description, error: String(error) })
+  }
+}
+
+async function persistPromptAdjustment(adjustment: PromptAdjustment): Promise<void> {
+  try {
+    await db
+      .insert(learningPromptAdjustments)
+      .values({
+        id: adjustment.id,
+        category: adjustment.category ?? null,
+        condition: adjustment.condition,
+        adjustment: adjustment.adjustment,
+        effectiveness: adjustment.effectiveness,
+        active: adjustment.active,
+        createdAt: adjustment.createdAt,
+        updatedAt: adjustment.updatedAt
+      })
+      .onConflictDoUpdate({
+        target: learningPromptAdjustments.id,
+        set: {
+          effectiveness: adjustment.effectiveness,
+          active: adjustment.active,
+          updatedAt: adjustment.updatedAt
+        }
+      })
+  } catch (error) {
+    logger.warn('Failed to persist prompt adjustment', { id: adjustment.id, error: String(error) })
+  }
+}
+
+/**
+ * Add an insight to the working set and write the merged result through
+ */
+async function recordInsight(insight: LearningInsight): Promise<void> {
+  await persistInsight(dataStore.addInsight(insight))
+}
+
+/**
+ * Reload feedback, insights and prompt adjustments from Postgres and rebuild
+ * the confusion matrix and accuracy trend from the full stored history.
+ */
+export async function rebuildLearningState(): Promise<{
+  feedback: number
+  insights: number
+  promptAdjustments: number
+}> {
+  const [feedbackRows, insightRows, adjustmentRows] = await Promise.all([
+    db.select().from(learningFeedback).orderBy(asc(learningFeedback.recordedAt)),
+    db.select().from(learningInsights),
+    db.select().from(learningPromptAdjustments)
+  ])
+
+  const feedback: FeedbackEntry[] = feedbackRows.map(row => ({
+    id: row.id,
+    analysisId: row.analysisId,
+    imageHash: row.imageHash,
+    timestamp: row.recordedAt,
+    source: row.source as FeedbackEntry['source'],
+    original: row.original as FeedbackEntry['original'],
+    correction: row.correction as FeedbackEntry['correction'],
+    metadata: row.metadata as FeedbackEntry['metadata']
+  }))
+
+  const insights: LearningInsight[] = insightRows.map(row => ({
+    type: row.type as LearningInsight['type'],
+    severity: row.severity as LearningInsight['severity'],
+    description: row.description,
+    evidence: row.evidence as string[],
+    suggestedAction: row.suggestedAction,
+    frequency: row.frequency,
+    lastOccurred: row.lastOccurred
+  }))
+
+  const adjustments: PromptAdjustment[] = adjustmentRows.map(row => ({
+    id: row.id,
+    category: row.category ?? undefined,
+    condition: row.condition,
+    adjustment: row.adjustment,
+    effectiveness: row.effectiveness,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    active: row.active
+  }))
+
+  dataStore.hydrate(feedback, insights, adjustments)
+
+  return {
+    feedback: feedback.length,
+    insights: insights.length,
+    promptAdjustments: adjustments.length
+  }
+}
+
 // ============================================================================
 // FEEDBACK COLLECTION
 // ============================================================================
 
+/**
+ * Build the FeedbackEntry snapshot from a stored item_analyses row
+ */
+export function learningOriginalFromRecord(record: {
+  name: string
+  maker: string | null
+  era: string | null
+  style: string | null
+  estimatedValueMin: number | null
+  estimatedValueMax: number | null
+  confidence: number
+  domainExpert: string | null
+}): FeedbackEntry['original'] {
+  return {
+    name: record.name,
+    maker: record.maker,
+    era: record.era || '',
+    style: record.style || '',
+    valueMin: record.estimatedValueMin || 0,
+    valueMax: record.estimatedValueMax || 0,
+    confidence: record.confidence,
+    category: record.domainExpert || undefined
+  }
+}
+
 /**
  * Record user correction of an analysis
+ * Moderation weight (0-1) is kept with the entry and scales how much it counts
+ * in accuracy and pattern aggregates
  */
 export async function recordUserCorrection(
   analysisId: string,
@@ -239,8 +509,11 @@ export async function recordUserCorrection(
   original: FeedbackEntry['original'],
   field: string,
   correctedValue: unknown,
-  notes?: string
+  notes?: string,
+  moderation?: { submittedBy: string; weight: number }
 ): Promise<void> {
+  const weight = moderation ? Math.max(0, Math.min(1, moderation.weight)) : 1
+
   const entry: FeedbackEntry = {
     id: `fb-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     analysisId,
@@ -250,18 +523,23 @@ export async function recordUserCorrection(
     original,
     correction: {
       field,
-      originalValue: original[field as keyof typeof original],
+      originalValue: field === 'value'
+        ? { min: original.valueMin, max: original.valueMax }
+        : original[field as keyof typeof original],
       correctedValue,
       confidence: 0.6, // User corrections start with moderate confidence
       notes
     },
     metadata: {
+      submittedBy: moderation?.submittedBy,
+      moderationWeight: moderation ? weight : undefined,
       verificationCount: 1,
       category: original.category
     }
   }
 
   dataStore.addFeedback(entry)
+  await persistFeedback(entry)
   logger.info('Recorded user correction', { analysisId, field })
 
   // Trigger pattern analysis if we have enough data
@@ -302,6 +580,7 @@ export async function recordExpertCorrection(
   }
 
   dataStore.addFeedback(entry)
+  await persistFeedback(entry)
   logger.info('Recorded expert correction', { analysisId, field, expertId })
 
   // Expert corrections immediately trigger insight generation
@@ -345,6 +624,7 @@ export async function recordSaleOutcome(
     }
 
     dataStore.addFeedback(entry)
+    await persistFeedback(entry)
     logger.info('Recorded sale outcome correction', {
       analysisId,
       predicted: midpoint,
@@ -399,6 +679,7 @@ export async function recordGroundTruthResult(
       }
 
       dataStore.addFeedback(entry)
+      await persistFeedback(entry)
     }
   }
 
@@ -415,7 +696,7 @@ export async function recordGroundTruthResult(
 async function analyzePatterns(): Promise<void> {
   const feedback = dataStore.getFeedback()
 
-  if (feedback.length < 10) {
+  if (totalWeight(feedback) < 10) {
     logger.debug('Not enough feedback for pattern analysis', { count: feedback.length })
     return
   }
@@ -433,12 +714,12 @@ async function analyzePatterns(): Promise<void> {
   // Identify patterns
   for (const [field, entries] of fieldCorrections) {
     // Check for systematic under/over estimation
-    if (field === 'value' && entries.length >= 5) {
+    if (field === 'value' && totalWeight(entries) >= 5) {
       await analyzeValueBias(entries)
     }
 
     // Check for confusion patterns (maker/era/style)
-    if (['maker', 'era', 'style'].includes(field) && entries.length >= 3) {
+    if (['maker', 'era', 'style'].includes(field) && totalWeight(entries) >= 3) {
       await analyzeConfusionPatterns(field, entries)
     }
 
@@ -449,25 +730,30 @@ async function analyzePatterns(): Promise<void> {
 
 async function analyzeValueBias(entries: FeedbackEntry[]): Promise<void> {
   let totalBias = 0
+  let biasWeight = 0
   let overCount = 0
   let underCount = 0
 
   for (const entry of entries) {
     const original = entry.original.valueMin + (entry.original.valueMax - entry.original.valueMin) / 2
-    const corrected = entry.correction.correctedValue as number
+    const corrected = entry.correction.correctedValue
+    if (typeof corrected !== 'number' || original <= 0) continue
     const bias = (corrected - original) / original
+    const weight = feedbackWeight(entry)
 
-    totalBias += bias
-    if (bias > 0) underCount++  // We underestimated
-    else overCount++  // We overestimated
+    totalBias += bias * weight
+    biasWeight += weight
+    if (bias > 0) underCount += weight  // We underestimated
+    else overCount += weight  // We overestimated
   }
 
-  const avgBias = totalBias / entries.length
+  if (biasWeight === 0) return
+  const avgBias = totalBias / biasWeight
 
   if (Math.abs(avgBias) > 0.15) {  // More than 15% systematic bias
     const direction = avgBias > 0 ? 'under' : 'over'
 
-    dataStore.addInsight({
+    await recordInsight({
       type: 'calibration',
       severity: Math.abs(avgBias) > 0.3 ? 'high' : 'medium',
       description: `Systematic ${direction}estimation of values by ${(Math.abs(avgBias) * 100).toFixed(0)}%`,
@@ -477,7 +763,7 @@ async function analyzeValueBias(entries: FeedbackEntry[]): Promise<void> {
       suggestedAction: direction === 'under'
         ? 'Increase value estimates, especially for high-demand categories'
         : 'Be more conservative with value estimates',
-      frequency: entries.length,
+      frequency: Math.round(biasWeight),
       lastOccurred: entries[entries.length - 1].timestamp
     })
 
@@ -487,36 +773,36 @@ async function analyzeValueBias(entries: FeedbackEntry[]): Promise<void> {
 
 async function analyzeConfusionPatterns(field: string, entries: FeedbackEntry[]): Promise<void> {
   // Group by original value
-  const confusions = new Map<string, Map<string, number>>()
+  const confusions = new Map<string, Map<string, FeedbackEntry[]>>()
 
   for (const entry of entries) {
-    const original = String(entry.correction.originalValue)
-    const corrected = String(entry.correction.correctedValue)
+    // Terms that can't be quoted safely in a prompt never become insights
+    const original = promptSafeTerm(entry.correction.originalValue)
+    const corrected = promptSafeTerm(entry.correction.correctedValue)
+    if (!original || !corrected) continue
 
     if (!confusions.has(original)) {
       confusions.set(original, new Map())
     }
     const corrections = confusions.get(original)!
-    corrections.set(corrected, (corrections.get(corrected) || 0) + 1)
+    corrections.set(corrected, [...(corrections.get(corrected) ?? []), entry])
   }
 
   // Find significant confusion patterns
   for (const [original, corrections] of confusions) {
-    for (const [corrected, count] of corrections) {
+    for (const [corrected, patternEntries] of corrections) {
+      const count = submitterWeight(patternEntries)
       if (count >= 2) {
-        dataStore.addInsight({
+        await recordInsight({
           type: 'confusion',
           severity: count >= 5 ? 'high' : count >= 3 ? 'medium' : 'low',
           description: `${field}: "${original}" frequently confused with "${corrected}"`,
-          evidence: entries
-            .filter(e => e.correction.originalValue === original && e.correction.correctedValue === corrected)
+          evidence: patternEntries
             .slice(0, 3)
             .map(e => `Item: ${e.original.name}`),
           suggestedAction: `Add disambiguation guidance for ${field} when "${original}" or "${corrected}" is detected`,
-          frequency: count,
-          lastOccurred: entries.find(e =>
-            e.correction.originalValue === original && e.correction.correctedValue === corrected
-          )?.timestamp || new Date()
+          frequency: Math.round(count),
+          lastOccurred: patternEntries[0].timestamp
         })
       }
     }
@@ -537,16 +823,17 @@ async function analyzeCategoryIssues(field: string, entries: FeedbackEntry[]): P
 
   // Find categories with high error rates
   for (const [category, catEntries] of byCategory) {
-    if (catEntries.length >= 3) {
-      dataStore.addInsight({
+    const weight = submitterWeight(catEntries)
+    if (weight >= 3) {
+      await recordInsight({
         type: 'gap',
-        severity: catEntries.length >= 10 ? 'high' : catEntries.length >= 5 ? 'medium' : 'low',
+        severity: weight >= 10 ? 'high' : weight >= 5 ? 'medium' : 'low',
         description: `${field} errors concentrated in "${category}" category`,
         evidence: catEntries.slice(0, 3).map(e =>
           `${e.original.name}: ${e.correction.originalValue} → ${e.correction.correctedValue}`
         ),
         suggestedAction: `Enhance ${category} domain knowledge for ${field} identification`,
-        frequency: catEntries.length,
+        frequency: Math.round(weight),
         lastOccurred: catEntries[catEntries.length - 1].timestamp
       })
     }
@@ -556,7 +843,7 @@ async function analyzeCategoryIssues(field: string, entries: FeedbackEntry[]): P
 async function generateInsightFromCorrection(entry: FeedbackEntry): Promise<void> {
   // Expert corrections get immediate attention
   if (entry.source === 'expert') {
-    dataStore.addInsight({
+    await recordInsight({
       type: 'pattern',
       severity: 'medium',
       description: `Expert correction on ${entry.correction.field}`,
@@ -595,10 +882,13 @@ export function getPromptEnhancements(category?: string): string[] {
   for (const insight of insights.filter(i => i.severity !== 'low')) {
     if (insight.type === 'confusion') {
       // Extract the confused terms from the description
+      // Re-checked here too: insights stored before terms were screened
       const match = insight.description.match(/"([^"]+)" frequently confused with "([^"]+)"/)
-      if (match) {
+      const first = match && promptSafeTerm(match[1])
+      const second = match && promptSafeTerm(match[2])
+      if (first && second) {
         enhancements.push(
-          `IMPORTANT: "${match[1]}" and "${match[2]}" are commonly confused. ` +
+          `IMPORTANT: "${first}" and "${second}" are commonly confused. ` +
           `Look carefully at distinguishing features before assigning either.`
         )
       }
@@ -636,10 +926,14 @@ export function getConfusionWarnings(detectedTerms: string[]): string[] {
 
   for (const term of detectedTerms) {
     for (const pattern of patterns) {
+      const original = promptSafeTerm(pattern.original.split(':').slice(1).join(':'))
+      const confusedWith = promptSafeTerm(pattern.confused_with)
+      if (!original || !confusedWith) continue
+
       if (pattern.original.includes(term) || pattern.confused_with === term) {
         warnings.push(
-          `"${pattern.original.split(':')[1]}" is often confused with "${pattern.confused_with}" ` +
-          `(${pattern.count} occurrences). Verify carefully.`
+          `"${original}" is often confused with "${confusedWith}" ` +
+          `(${Math.round(pattern.count)} occurrences). Verify carefully.`
         )
       }
     }
@@ -669,7 +963,10 @@ export function getAllInsights(): LearningInsight[] {
 /**
  * Get accuracy report
  */
-export function getAccuracyReport(): {
+export function getAccuracyReport(options: {
+  granularity?: AccuracyTrendGranularity
+  periods?: number
+} = {}): {
   totalFeedback: number
   bySource: Record<string, number>
   byField: Record<string, number>
@@ -677,7 +974,6 @@ export function getAccuracyReport(): {
   accuracyTrend: { period: string; accuracy: number }[]
 } {
   const feedback = dataStore.getFeedback()
-  const state = dataStore.getState()
 
   const bySource: Record<string, number> = {}
   const byField: Record<string, number> = {}
@@ -692,7 +988,7 @@ export function getAccuracyReport(): {
     bySource,
     byField,
     confusionPatterns: dataStore.getConfusionPatterns(),
-    accuracyTrend: state.overallAccuracyTrend
+    accuracyTrend: dataStore.calculateAccuracyTrend(options.granularity, options.periods)
   }
 }
 
@@ -723,9 +1019,8 @@ export function addPromptAdjustment(
   adjustment: string,
   category?: string
 ): string {
-  const id = `pa-${Date.now()}`
-
-  dataStore.addPromptAdjustment({
+  const id = `pa-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+  const promptAdjustment: PromptAdjustment = {
     id,
     category,
     condition,
@@ -734,7 +1029,10 @@ export function addPromptAdjustment(
     createdAt: new Date(),
     updatedAt: new Date(),
     active: true
-  })
+  }
+
+  dataStore.addPromptAdjustment(promptAdjustment)
+  void persistPromptAdjustment(promptAdjustment)
 
   logger.info('Added prompt adjustment', { id, condition })
   return id
@@ -744,10 +1042,9 @@ export function addPromptAdjustment(
  * Update effectiveness score based on test results
  */
 export function updateAdjustmentEffectiveness(id: string, effectivenessChange: number): void {
-  const adjustments = dataStore.getActivePromptAdjustments()
-  const adjustment = adjustments.find(a => a.id === id)
+  const adjustment = dataStore.getPromptAdjustment(id)
 
-  if (adjustment) {
+  if (adjustment?.active) {
     adjustment.effectiveness = Math.max(0, Math.min(1, adjustment.effectiveness + effectivenessChange))
     adjustment.updatedAt = new Date()
 
@@ -756,6 +1053,8 @@ export function updateAdjustmentEffectiveness(id: string, effectivenessChange: n
       adjustment.active = false
       logger.info('Deactivated ineffective prompt adjustment', { id })
     }
+
+    void persistPromptAdjustment(adjustment)
   }
 }
 
@@ -763,37 +1062,58 @@ export function updateAdjustmentEffectiveness(id: string, effectivenessChange: n
 // INITIALIZATION
 // ============================================================================
 
+// Baseline prompt adjustments for known challenges. IDs are stable so that
+// effectiveness changes persisted for a baseline survive restarts.
+const BASELINE_ADJUSTMENTS: { condition: string; adjustment: string; category: string }[] = [
+  {
+    condition: 'furniture_victorian',
+    adjustment: 'Victorian furniture spans 1837-1901. Early Victorian (1837-1860) features heavier ornamentation than Late Victorian. Check for machine vs hand carving.',
+    category: 'furniture'
+  },
+  {
+    condition: 'ceramics_marks',
+    adjustment: 'Ceramic marks can be deceptive. Look for wear patterns consistent with age. Modern reproductions often have too-perfect marks.',
+    category: 'ceramics'
+  },
+  {
+    condition: 'jewelry_hallmarks',
+    adjustment: 'Precious metal hallmarks vary by country and period. British hallmarks include date letters. Continental marks differ significantly.',
+    category: 'jewelry'
+  },
+  {
+    condition: 'art_signature',
+    adjustment: 'Artist signatures should show appropriate age. Beware of signatures added to unsigned works. Compare style to documented examples.',
+    category: 'art'
+  }
+]
+
+function seedBaselineAdjustments(): void {
+  for (const baseline of BASELINE_ADJUSTMENTS) {
+    dataStore.addPromptAdjustment({
+      id: `pa-baseline-${baseline.condition}`,
+      ...baseline,
+      effectiveness: 0.5,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      active: true
+    })
+  }
+}
+
 /**
- * Initialize with some baseline adjustments based on domain knowledge
+ * Seed baseline adjustments and rehydrate learned state from Postgres.
+ * Called at startup; falls back to baseline-only state if the DB is unavailable.
  */
-export function initializeLearningSystem(): void {
-  // Add baseline prompt adjustments for known challenges
-  addPromptAdjustment(
-    'furniture_victorian',
-    'Victorian furniture spans 1837-1901. Early Victorian (1837-1860) features heavier ornamentation than Late Victorian. Check for machine vs hand carving.',
-    'furniture'
-  )
-
-  addPromptAdjustment(
-    'ceramics_marks',
-    'Ceramic marks can be deceptive. Look for wear patterns consistent with age. Modern reproductions often have too-perfect marks.',
-    'ceramics'
-  )
-
-  addPromptAdjustment(
-    'jewelry_hallmarks',
-    'Precious metal hallmarks vary by country and period. British hallmarks include date letters. Continental marks differ significantly.',
-    'jewelry'
-  )
-
-  addPromptAdjustment(
-    'art_signature',
-    'Artist signatures should show appropriate age. Beware of signatures added to unsigned works. Compare style to documented examples.',
-    'art'
-  )
-
-  logger.info('Self-learning system initialized with baseline adjustments')
-}
-
-// Initialize on module load
-initializeLearningSystem()
+export async function initializeLearningSystem(): Promise<void> {
+  seedBaselineAdjustments()
+
+  try {
+    const counts = await rebuildLearningState()
+    logger.info('Self-learning system rehydrated from database', counts)
+  } catch (error) {
+    logger.warn('Self-learning rehydration failed, continuing with baseline adjustments', { error: String(error) })
+  }
+}
+
+// Seed on module load so prompts have baselines before startup rehydration runs
+seedBaselineAdjustments()
@@ -72,6 +72,14 @@ export function isRedisConnected(): boolean {
   return isConnected && redisClient?.isOpen;
 }
 
+/**
+ * Get the shared Redis client for other caches
+ * Returns null when Redis is unavailable so callers can fall back to Postgres
+ */
+export function getRedisClient(): ReturnType<typeof createClient> | null {
+  return isRedisConnected() ? redisClient : null;
+}
+
 /**
  * Create session token
  */
@@ -0,0 +1,390 @@
+/**
+ * Sold Listings Archive
+ * Imported auction results, searchable as real comparables
+ * October 2026
+ *
+ * The team's historical auction results (spreadsheets exported as CSV or
+ * JSON) are imported here and searched with trigram + full-text similarity.
+ * Every row is a recorded hammer price, so results from this store are real
+ * comparables and are labelled as such in market data - never estimates.
+ * Prices are imported in whole currency units and stored in cents.
+ */
+
+import crypto from 'crypto';
+import { db } from '../db/client.js';
+import { soldListings } from '../db/schema.js';
+import type { NewSoldListingRecord, SoldListingRecord } from '../db/schema.js';
+import { and, desc, eq, gte, ilike, lte, or, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import { z } from 'zod';
+import { ValidationError } from '../middleware/error.js';
+import type { ProviderListing } from './marketData.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const MAX_IMPORT_ROWS = 50000;
+const INSERT_CHUNK = 500;
+const MAX_REPORTED_ERRORS = 100;
+
+export interface ImportRowError {
+  row: number; // 1-based data row (CSV header excluded)
+  message: string;
+}
+
+export interface ImportResult {
+  importId: string;
+  received: number;
+  imported: number;
+  duplicates: number;
+  rejected: number;
+  errors: ImportRowError[];
+}
+
+export interface SoldListingSearch {
+  query: string;
+  category?: string;
+  maker?: string;
+  minPrice?: number; // Cents
+  maxPrice?: number; // Cents
+  soldAfter?: Date;
+  currency?: string;
+  limit?: number;
+}
+
+export interface SoldListingMatch {
+  listing: SoldListingRecord;
+  similarity: number; // 0-1 word similarity of the query to title + maker
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, doubled quotes, CRLF or LF line ends)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Spreadsheet column names we accept for each field
+ */
+const COLUMN_ALIASES: Record<string, string> = {
+  title: 'title',
+  lot_title: 'title',
+  description: 'description',
+  lot_description: 'description',
+  hammer_price: 'hammerPrice',
+  hammer: 'hammerPrice',
+  price: 'hammerPrice',
+  sold_price: 'hammerPrice',
+  currency: 'currency',
+  sold_date: 'soldDate',
+  sale_date: 'soldDate',
+  date: 'soldDate',
+  auction_house: 'auctionHouse',
+  house: 'auctionHouse',
+  category: 'category',
+  maker: 'maker',
+  manufacturer: 'maker',
+  artist: 'maker',
+  era: 'era',
+  period: 'era',
+  lot_number: 'lotNumber',
+  lot: 'lotNumber',
+  lot_url: 'lotUrl',
+  url: 'lotUrl',
+};
+
+function normalizeColumn(name: string): string | undefined {
+  const key = name
+    .trim()
+    .replace(/([a-z])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+  return COLUMN_ALIASES[key];
+}
+
+/**
+ * Turn CSV text into records keyed by field name. Unknown columns are ignored.
+ */
+export function csvToRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const columns = header.map(normalizeColumn);
+  if (!columns.includes('hammerPrice') || !columns.includes('soldDate')) {
+    throw new ValidationError('CSV needs a hammer price column and a sold date column');
+  }
+
+  return rows.map(values => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, idx) => {
+      if (column && values[idx] !== undefined && values[idx].trim() !== '') {
+        record[column] = values[idx].trim();
+      }
+    });
+    return record;
+  });
+}
+
+/**
+ * Normalize JSON import keys (snake_case or camelCase) to field names
+ */
+export function jsonToRecords(items: unknown[]): Record<string, unknown>[] {
+  return items.map(item => {
+    const record: Record<string, unknown> = {};
+    if (item && typeof item === 'object') {
+      for (const [key, value] of Object.entries(item)) {
+        const column = normalizeColumn(key);
+        if (column && value !== null && value !== '') record[column] = value;
+      }
+    }
+    return record;
+  });
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const optionalText = (max: number) => z.string().trim().max(max).optional();
+
+/**
+ * "$1,250.50", "1250.5" or 1250.5 - whole currency units
+ */
+const PriceSchema = z.union([
+  z.number(),
+  z.string().transform(value => Number(value.replace(/[^0-9.\-]/g, ''))),
+]).pipe(z.number({ invalid_type_error: 'Hammer price must be a number' }).positive('Hammer price must be positive').finite());
+
+const SoldDateSchema = z.union([z.string(), z.number(), z.date()])
+  .transform(value => new Date(value))
+  .refine(date => !isNaN(date.getTime()), 'Sold date is not a valid date')
+  .refine(date => date.getTime() <= Date.now() + 24 * 60 * 60 * 1000, 'Sold date is in the future');
+
+const ListingRowSchema = z.object({
+  title: optionalText(300),
+  description: optionalText(5000),
+  hammerPrice: PriceSchema,
+  currency: z.string().trim().toUpperCase().length(3, 'Currency must be a 3-letter code').optional(),
+  soldDate: SoldDateSchema,
+  auctionHouse: optionalText(200),
+  category: optionalText(100),
+  maker: optionalText(200),
+  era: optionalText(100),
+  lotNumber: optionalText(50),
+  lotUrl: z.string().trim().url('Lot URL must be a URL').optional(),
+}).refine(row => row.title || row.description, 'A title or description is required');
+
+type ListingRow = Omit<NewSoldListingRecord, 'id' | 'fingerprint' | 'importId' | 'importedBy' | 'createdAt'>;
+
+function fingerprintListing(row: ListingRow): string {
+  const normalize = (value: string | null | undefined) => (value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+  // A house's lot number identifies the sale; otherwise title + date + price do
+  const parts = row.auctionHouse && row.lotNumber
+    ? ['lot', normalize(row.auctionHouse), normalize(row.lotNumber), row.soldDate.toISOString().slice(0, 10)]
+    : ['sale', normalize(row.title), row.soldDate.toISOString().slice(0, 10), String(row.hammerPrice), normalize(row.auctionHouse)];
+
+  return crypto.createHash('sha1').update(parts.join('|')).digest('hex');
+}
+
+/**
+ * Validate one import record. Throws ValidationError with a readable message.
+ */
+export function normalizeListing(record: Record<string, unknown>): ListingRow & { fingerprint: string } {
+  const parsed = ListingRowSchema.safeParse(record);
+  if (!parsed.success) {
+    throw new ValidationError(parsed.error.errors[0]?.message || 'Invalid row');
+  }
+
+  const data = parsed.data;
+  const row: ListingRow = {
+    title: data.title || data.description!.slice(0, 120),
+    description: data.description ?? null,
+    hammerPrice: Math.round(data.hammerPrice * 100),
+    currency: data.currency ?? 'USD',
+    soldDate: data.soldDate,
+    auctionHouse: data.auctionHouse ?? null,
+    category: data.category ?? null,
+    maker: data.maker ?? null,
+    era: data.era ?? null,
+    lotNumber: data.lotNumber ?? null,
+    lotUrl: data.lotUrl ?? null,
+  };
+
+  return { ...row, fingerprint: fingerprintListing(row) };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Import parsed records. Invalid rows are reported and skipped; rows already
+ * in the archive (same fingerprint) count as duplicates.
+ */
+export async function importSoldListings(
+  records: Record<string, unknown>[],
+  importedBy: string | null
+): Promise<ImportResult> {
+  if (records.length === 0) {
+    throw new ValidationError('The import contains no rows');
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`An import can contain at most ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const importId = crypto.randomUUID();
+  const errors: ImportRowError[] = [];
+  const valid: NewSoldListingRecord[] = [];
+  let rejected = 0;
+
+  records.forEach((record, idx) => {
+    try {
+      valid.push({ ...normalizeListing(record), importId, importedBy });
+    } catch (error) {
+      rejected++;
+      if (errors.length < MAX_REPORTED_ERRORS) {
+        errors.push({ row: idx + 1, message: error instanceof Error ? error.message : 'Invalid row' });
+      }
+    }
+  });
+
+  let imported = 0;
+  for (let i = 0; i < valid.length; i += INSERT_CHUNK) {
+    const inserted = await db
+      .insert(soldListings)
+      .values(valid.slice(i, i + INSERT_CHUNK))
+      .onConflictDoNothing()
+      .returning({ id: soldListings.id });
+    imported += inserted.length;
+  }
+
+  console.log(`🏛️ Sold listings import ${importId}: ${imported} imported, ${valid.length - imported} duplicates, ${rejected} rejected`);
+
+  return {
+    importId,
+    received: records.length,
+    imported,
+    duplicates: valid.length - imported,
+    rejected,
+    errors,
+  };
+}
+
+/**
+ * Remove everything a single import added
+ */
+export async function deleteImport(importId: string): Promise<number> {
+  const deleted = await db
+    .delete(soldListings)
+    .where(eq(soldListings.importId, importId))
+    .returning({ id: soldListings.id });
+
+  return deleted.length;
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/**
+ * Find recorded sales similar to the query: trigram word similarity on the
+ * title, or a full-text match on title, maker and description
+ */
+export async function searchSoldListings(search: SoldListingSearch): Promise<SoldListingMatch[]> {
+  const query = search.query.trim();
+  if (!query) return [];
+
+  const document = sql`${soldListings.title} || ' ' || coalesce(${soldListings.maker}, '') || ' ' || coalesce(${soldListings.description}, '')`;
+  const vector = sql`to_tsvector('english', ${document})`;
+  const tsQuery = sql`plainto_tsquery('english', ${query})`;
+  const similarity = sql<number>`word_similarity(${query}, ${soldListings.title} || ' ' || coalesce(${soldListings.maker}, ''))`;
+
+  const conditions: SQL[] = [
+    or(sql`${query} <% ${soldListings.title}`, sql`${vector} @@ ${tsQuery}`)!,
+    eq(soldListings.currency, search.currency ?? 'USD'),
+  ];
+  if (search.category) conditions.push(ilike(soldListings.category, search.category));
+  if (search.maker) conditions.push(ilike(soldListings.maker, `%${search.maker}%`));
+  if (search.minPrice) conditions.push(gte(soldListings.hammerPrice, search.minPrice));
+  if (search.maxPrice) conditions.push(lte(soldListings.hammerPrice, search.maxPrice));
+  if (search.soldAfter) conditions.push(gte(soldListings.soldDate, search.soldAfter));
+
+  const rows = await db
+    .select({ listing: soldListings, similarity })
+    .from(soldListings)
+    .where(and(...conditions))
+    .orderBy(desc(sql`${similarity} + ts_rank(${vector}, ${tsQuery})`), desc(soldListings.soldDate))
+    .limit(Math.min(search.limit ?? 20, 100));
+
+  return rows.map(row => ({ listing: row.listing, similarity: Number(row.similarity) }));
+}
+
+/**
+ * Present an archive match as a market-data comparable
+ */
+export function toSoldListing(match: SoldListingMatch): ProviderListing {
+  const { listing } = match;
+  const lot = listing.lotNumber ? `, lot ${listing.lotNumber}` : '';
+
+  return {
+    id: `archive-${listing.id}`,
+    title: listing.title,
+    soldPrice: listing.hammerPrice,
+    soldDate: listing.soldDate.toISOString(),
+    marketplace: 'auction_archive',
+    venue: listing.auctionHouse ?? undefined,
+    condition: 'As recorded at sale',
+    listingUrl: listing.lotUrl ?? '',
+    similarity: Math.round(match.similarity * 100) / 100,
+    notes: `Recorded hammer price${listing.auctionHouse ? ` - ${listing.auctionHouse}${lot}` : lot}`,
+  };
+}
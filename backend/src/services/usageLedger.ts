@@ -0,0 +1,244 @@
+/**
+ * Model Usage Ledger
+ * Records tokens, latency and cost of every model call, and caps monthly spend
+ * October 2026
+ *
+ * Each provider call site records its VisionResponse usage against the
+ * request's usage context - the caller's user and tier, plus the analysis or
+ * Vera session when already known. The context rides along in
+ * AsyncLocalStorage, so the pipeline (triage, deep analysis, consensus runs,
+ * reasoning synthesis) needs no extra parameters. A new analysis has no ID
+ * until it is saved, so its calls share a trace ID and are linked afterwards.
+ * Calls made outside a context (scripts, the evaluation harness) aren't
+ * recorded. Once a user's spend this month passes their plan's allowance,
+ * consensus is turned off and analyses fall back to a single run.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { db } from '../db/client.js';
+import { modelUsage } from '../db/schema.js';
+import { and, eq, gte, lt, sql, SQL } from 'drizzle-orm';
+import type { VisionResponse, VisionTask } from './visionProvider.js';
+import { currentUsagePeriod, getEntitlements, periodBounds, resolveTier, SubscriptionTier } from './entitlements.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface UsageContext {
+  traceId: string;
+  userId: string | null;
+  tier: SubscriptionTier;
+  analysisId: string | null;
+  sessionId: string | null;
+  domainExpert: string | null;
+}
+
+export interface UsageContextInit {
+  userId: string | null;
+  tier: string | null | undefined;
+  analysisId?: string | null;
+  sessionId?: string | null;
+  domainExpert?: string | null;
+}
+
+export interface ModelPrice {
+  prompt: number; // USD per 1M prompt tokens
+  completion: number; // USD per 1M completion tokens
+}
+
+export interface SpendBudget {
+  spentCents: number;
+  allowanceCents: number | null; // null = uncapped
+  exceeded: boolean;
+}
+
+export type CostGroupBy = 'day' | 'tier' | 'domainExpert';
+
+export interface CostAggregate {
+  key: string;
+  calls: number;
+  users: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+// List prices; dated snapshots (gpt-4o-2024-08-06) match their family by
+// prefix. Self-hosted and fixture models are free.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'o1': { prompt: 15, completion: 60 },
+  'o1-mini': { prompt: 1.1, completion: 4.4 },
+};
+
+export function modelPrice(model: string): ModelPrice | null {
+  const family = Object.keys(MODEL_PRICES)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? MODEL_PRICES[family] : null;
+}
+
+/**
+ * Cost of one call in millionths of a USD
+ */
+export function computeCallCost(model: string, usage: VisionResponse['usage']): number {
+  const price = modelPrice(model);
+  if (!price || !usage) return 0;
+  return Math.round(usage.promptTokens * price.prompt + usage.completionTokens * price.completion);
+}
+
+// ============================================================================
+// CONTEXT
+// ============================================================================
+
+const usageStorage = new AsyncLocalStorage<UsageContext>();
+
+export function createUsageContext(init: UsageContextInit): UsageContext {
+  return {
+    traceId: randomUUID(),
+    userId: init.userId,
+    tier: resolveTier(init.tier),
+    analysisId: init.analysisId ?? null,
+    sessionId: init.sessionId ?? null,
+    domainExpert: init.domainExpert ?? null,
+  };
+}
+
+/**
+ * Run fn with every model call inside it recorded against context
+ */
+export function withUsageContext<T>(context: UsageContext, fn: () => Promise<T>): Promise<T> {
+  return usageStorage.run(context, fn);
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Record one completion against the active usage context. Never throws - a
+ * ledger outage must not fail the analysis that paid for the call.
+ */
+export async function recordModelUsage(task: VisionTask, response: VisionResponse): Promise<void> {
+  const context = usageStorage.getStore();
+  if (!context) return;
+
+  try {
+    await db.insert(modelUsage).values({
+      traceId: context.traceId,
+      userId: context.userId,
+      tier: context.tier,
+      itemAnalysisId: context.analysisId,
+      sessionId: context.sessionId,
+      domainExpert: context.domainExpert,
+      task,
+      provider: response.provider,
+      model: response.model,
+      promptTokens: response.usage?.promptTokens ?? 0,
+      completionTokens: response.usage?.completionTokens ?? 0,
+      latencyMs: Math.round(response.latencyMs),
+      costMicros: computeCallCost(response.model, response.usage),
+    });
+  } catch (error) {
+    console.warn(`⚠️ Failed to record ${task} model usage:`, error);
+  }
+}
+
+/**
+ * Link the calls of a trace to the analysis they produced. Never throws.
+ */
+export async function attachUsageToAnalysis(
+  context: UsageContext,
+  analysisId: string,
+  domainExpert: string | null | undefined
+): Promise<void> {
+  try {
+    await db
+      .update(modelUsage)
+      .set({ itemAnalysisId: analysisId, domainExpert: domainExpert ?? null })
+      .where(eq(modelUsage.traceId, context.traceId));
+  } catch (error) {
+    console.warn(`⚠️ Failed to link model usage to analysis ${analysisId}:`, error);
+  }
+}
+
+// ============================================================================
+// BUDGET
+// ============================================================================
+
+export async function getMonthlySpendMicros(userId: string, period: string = currentUsagePeriod()): Promise<number> {
+  const { start, resetsAt } = periodBounds(period);
+  const [{ total }] = await db
+    .select({ total: sql<number>`coalesce(sum(${modelUsage.costMicros}), 0)`.mapWith(Number) })
+    .from(modelUsage)
+    .where(and(eq(modelUsage.userId, userId), gte(modelUsage.createdAt, start), lt(modelUsage.createdAt, resetsAt)));
+  return total;
+}
+
+export function spendBudget(spentMicros: number, tier: string | null | undefined): SpendBudget {
+  const allowanceCents = getEntitlements(tier).monthlySpendAllowance;
+  const spentCents = spentMicros / 10_000;
+  return {
+    spentCents,
+    allowanceCents,
+    exceeded: allowanceCents !== null && spentCents >= allowanceCents,
+  };
+}
+
+/**
+ * This month's model spend against the plan's allowance. Anonymous callers
+ * never reach consensus, so they aren't tracked.
+ */
+export async function getSpendBudget(userId: string | null, tier: string | null | undefined): Promise<SpendBudget> {
+  return spendBudget(userId ? await getMonthlySpendMicros(userId) : 0, tier);
+}
+
+/**
+ * The consensus mode to actually run with - single runs once the budget is spent
+ */
+export function guardConsensusMode<T extends 'auto' | 'always' | 'never'>(mode: T, budget: SpendBudget): T | 'never' {
+  return budget.exceeded ? 'never' : mode;
+}
+
+// ============================================================================
+// AGGREGATES
+// ============================================================================
+
+function groupColumn(groupBy: CostGroupBy): SQL<string> {
+  switch (groupBy) {
+    case 'day': return sql<string>`to_char(${modelUsage.createdAt} at time zone 'UTC', 'YYYY-MM-DD')`;
+    case 'tier': return sql<string>`${modelUsage.tier}`;
+    case 'domainExpert': return sql<string>`coalesce(${modelUsage.domainExpert}, 'unlinked')`;
+  }
+}
+
+/**
+ * Calls, tokens and cost per day, tier or domain expert over [from, to)
+ */
+export async function getCostAggregates(groupBy: CostGroupBy, from: Date, to: Date): Promise<CostAggregate[]> {
+  const key = groupColumn(groupBy);
+  const rows = await db
+    .select({
+      key,
+      calls: sql<number>`count(*)`.mapWith(Number),
+      users: sql<number>`count(distinct ${modelUsage.userId})`.mapWith(Number),
+      promptTokens: sql<number>`coalesce(sum(${modelUsage.promptTokens}), 0)`.mapWith(Number),
+      completionTokens: sql<number>`coalesce(sum(${modelUsage.completionTokens}), 0)`.mapWith(Number),
+      costMicros: sql<number>`coalesce(sum(${modelUsage.costMicros}), 0)`.mapWith(Number),
+      avgLatencyMs: sql<number>`round(avg(${modelUsage.latencyMs}))`.mapWith(Number),
+    })
+    .from(modelUsage)
+    .where(and(gte(modelUsage.createdAt, from), lt(modelUsage.createdAt, to)))
+    .groupBy(key)
+    .orderBy(key);
+
+  return rows.map(({ costMicros, ...row }) => ({ ...row, costUsd: costMicros / 1_000_000 }));
+}
@@ -0,0 +1,434 @@
+/**
+ * Vision Provider Layer
+ * One interface for every model call the analysis pipeline makes
+ * October 2026
+ *
+ * Prompts stay with the services that own them (openai.ts, consensusAnalysis.ts,
+ * interactiveAnalysis.ts); providers only decide where a request goes and which
+ * model answers it. Selected by VISION_PROVIDER:
+ * - openai:            api.openai.com with the production models
+ * - openai-compatible: any server speaking the chat completions API
+ *                      (vLLM, Ollama, LM Studio, llama.cpp) at VISION_BASE_URL
+ * - fixture:           replays recorded responses from VISION_FIXTURE_PATH and
+ *                      falls back to deterministic stub answers, so tests and
+ *                      the evaluation harness run offline
+ *
+ * Set VISION_RECORD_FIXTURES=true with a live provider to capture fixtures.
+ */
+
+import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { env } from '../config/env.js';
+import { ExternalServiceError } from '../middleware/error.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VisionTask =
+  | 'triage'
+  | 'deep_analysis'
+  | 'additional_photo'
+  | 'reasoning_synthesis'
+  | 'conversation';
+
+export interface VisionImage {
+  url: string; // data URL or https URL
+  detail?: 'low' | 'high' | 'auto';
+}
+
+export interface VisionMessage {
+  role: 'system' | 'user' | 'assistant';
+  text: string;
+  images?: VisionImage[];
+}
+
+export interface VisionRequest {
+  messages: VisionMessage[];
+  maxTokens: number;
+  temperature?: number;
+  json?: boolean; // ask for a JSON object response
+  model?: string; // override the provider's model for this task, where supported
+}
+
+export interface VisionResponse {
+  content: string;
+  model: string;
+  provider: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+  } | null;
+  latencyMs: number;
+}
+
+export interface VisionProvider {
+  readonly name: string;
+  triage(request: VisionRequest): Promise<VisionResponse>;
+  deepAnalysis(request: VisionRequest): Promise<VisionResponse>;
+  analyzeAdditionalPhoto(request: VisionRequest): Promise<VisionResponse>;
+  synthesizeReasoning(request: VisionRequest): Promise<VisionResponse>;
+  converse(request: VisionRequest): Promise<VisionResponse>;
+  healthCheck(): Promise<boolean>;
+}
+
+/**
+ * Route each interface method through a single task-aware completion
+ */
+abstract class TaskVisionProvider implements VisionProvider {
+  abstract readonly name: string;
+
+  protected abstract complete(task: VisionTask, request: VisionRequest): Promise<VisionResponse>;
+
+  abstract healthCheck(): Promise<boolean>;
+
+  triage(request: VisionRequest): Promise<VisionResponse> {
+    return this.complete('triage', request);
+  }
+
+  deepAnalysis(request: VisionRequest): Promise<VisionResponse> {
+    return this.complete('deep_analysis', request);
+  }
+
+  analyzeAdditionalPhoto(request: VisionRequest): Promise<VisionResponse> {
+    return this.complete('additional_photo', request);
+  }
+
+  synthesizeReasoning(request: VisionRequest): Promise<VisionResponse> {
+    return this.complete('reasoning_synthesis', request);
+  }
+
+  converse(request: VisionRequest): Promise<VisionResponse> {
+    return this.complete('conversation', request);
+  }
+}
+
+// ============================================================================
+// OPENAI / OPENAI-COMPATIBLE
+// ============================================================================
+
+export const OPENAI_TASK_MODELS: Record<VisionTask, string> = {
+  triage: 'gpt-4o',
+  deep_analysis: 'gpt-4o',
+  additional_photo: 'gpt-4o',
+  reasoning_synthesis: 'o1',
+  conversation: 'gpt-4o-mini', // Fast, cheap, good for conversation
+};
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  apiKey: string;
+  baseURL?: string;
+  models: Record<VisionTask, string>;
+  // Local servers only serve the models they were started with, so per-request
+  // overrides (e.g. ConsensusConfig.reasoningModel) are ignored there
+  allowModelOverride: boolean;
+  // OpenAI reasoning models take max_completion_tokens and no temperature
+  reasoningTokenParam: boolean;
+}
+
+export class OpenAICompatibleVisionProvider extends TaskVisionProvider {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(private options: OpenAICompatibleOptions) {
+    super();
+    this.name = options.name;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+    });
+  }
+
+  protected async complete(task: VisionTask, request: VisionRequest): Promise<VisionResponse> {
+    const model = (this.options.allowModelOverride && request.model) || this.options.models[task];
+    const isReasoning = task === 'reasoning_synthesis' && this.options.reasoningTokenParam;
+    const startedAt = Date.now();
+
+    const response = await this.client.chat.completions.create({
+      model,
+      messages: request.messages.map(toChatMessage),
+      ...(isReasoning
+        ? { max_completion_tokens: request.maxTokens }
+        : { max_tokens: request.maxTokens, temperature: request.temperature }),
+      ...(request.json && !isReasoning && { response_format: { type: 'json_object' as const } }),
+    });
+
+    return {
+      content: response.choices[0]?.message?.content ?? '',
+      model: response.model || model,
+      provider: this.name,
+      usage: response.usage
+        ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+        : null,
+      latencyMs: Date.now() - startedAt,
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await this.client.models.list();
+      return response.data.length > 0;
+    } catch (error) {
+      console.error(`${this.name} health check failed:`, error);
+      return false;
+    }
+  }
+}
+
+function toChatMessage(message: VisionMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+  if (message.role === 'user' && message.images?.length) {
+    return {
+      role: 'user',
+      content: [
+        { type: 'text', text: message.text },
+        ...message.images.map(image => ({
+          type: 'image_url' as const,
+          image_url: { url: image.url, detail: image.detail ?? 'high' },
+        })),
+      ],
+    };
+  }
+  return { role: message.role, content: message.text };
+}
+
+// ============================================================================
+// FIXTURE REPLAY
+// ============================================================================
+
+interface FixtureFile {
+  version: 1;
+  responses: Record<string, Array<Pick<VisionResponse, 'content' | 'model'>>>;
+}
+
+/**
+ * Fixtures are keyed by task and the images sent (or the last user message for
+ * text-only calls), not the full prompt - prompts change with learned
+ * enhancements, the item in the photo doesn't. Repeated calls with the same key
+ * (consensus runs) replay the recorded responses in order.
+ */
+export function fixtureKey(task: VisionTask, request: VisionRequest): string {
+  const images = request.messages.flatMap(m => m.images ?? []).map(i => i.url);
+  const basis = images.length > 0
+    ? images.join('\n')
+    : [...request.messages].reverse().find(m => m.role === 'user')?.text ?? '';
+  return `${task}:${createHash('sha256').update(basis).digest('hex').slice(0, 16)}`;
+}
+
+function readFixtureFile(path: string): FixtureFile {
+  if (!existsSync(path)) {
+    return { version: 1, responses: {} };
+  }
+  return JSON.parse(readFileSync(path, 'utf-8')) as FixtureFile;
+}
+
+// Deterministic answers for requests with no recording - valid for every parser
+const STUB_RESPONSES: Record<VisionTask, unknown> = {
+  triage: {
+    category: 'vintage',
+    domainExpert: 'general',
+    itemType: 'Unidentified item',
+    estimatedEra: null,
+    qualityTier: 'unknown',
+    confidence: 0.3,
+    reasoning: 'Stub response - no recorded fixture for this image',
+    visibleBranding: null,
+    allVisibleText: [],
+  },
+  deep_analysis: {
+    name: 'Unidentified item',
+    maker: null,
+    brand: null,
+    modelNumber: null,
+    era: null,
+    style: null,
+    description: 'Stub analysis - no recorded fixture for this image.',
+    historicalContext: 'Not available in offline mode.',
+    estimatedValueMin: null,
+    estimatedValueMax: null,
+    confidence: 0.3,
+    identificationConfidence: 0.3,
+    makerConfidence: null,
+    evidenceFor: [],
+    evidenceAgainst: [],
+    verificationTips: [],
+    redFlags: [],
+    resaleChannels: [],
+  },
+  additional_photo: {},
+  reasoning_synthesis: {
+    synthesizedName: '',
+    synthesizedMaker: null,
+    synthesizedEra: '',
+    synthesizedValueMin: 0,
+    synthesizedValueMax: 0,
+    finalConfidence: 0,
+    reasoning: 'Stub synthesis - no recorded fixture for these runs.',
+    agreementLevel: 'low',
+    recommendExpert: false,
+  },
+  conversation: "I'm running in offline mode, so I can only give a scripted answer. Could you tell me more about your item?",
+};
+
+export class FixtureVisionProvider extends TaskVisionProvider {
+  readonly name = 'fixture';
+  private fixtures: FixtureFile;
+  private cursors = new Map<string, number>();
+
+  constructor(fixtures: FixtureFile | string, private options: { strict?: boolean } = {}) {
+    super();
+    this.fixtures = typeof fixtures === 'string' ? readFixtureFile(fixtures) : fixtures;
+  }
+
+  protected async complete(task: VisionTask, request: VisionRequest): Promise<VisionResponse> {
+    const key = fixtureKey(task, request);
+    const recorded = this.fixtures.responses[key];
+
+    if (recorded?.length) {
+      const cursor = this.cursors.get(key) ?? 0;
+      this.cursors.set(key, cursor + 1);
+      const response = recorded[cursor % recorded.length];
+      return { ...response, provider: this.name, usage: null, latencyMs: 0 };
+    }
+
+    if (this.options.strict) {
+      throw new ExternalServiceError(`No recorded vision response for ${key}`, this.name);
+    }
+
+    const stub = STUB_RESPONSES[task];
+    return {
+      content: typeof stub === 'string' ? stub : JSON.stringify(stub),
+      model: 'stub',
+      provider: this.name,
+      usage: null,
+      latencyMs: 0,
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+}
+
+/**
+ * Wrap a live provider and append every response to a fixture file
+ */
+export class RecordingVisionProvider extends TaskVisionProvider {
+  readonly name: string;
+
+  constructor(private inner: VisionProvider, private fixturePath: string) {
+    super();
+    this.name = inner.name;
+  }
+
+  protected async complete(task: VisionTask, request: VisionRequest): Promise<VisionResponse> {
+    const response = await dispatch(this.inner, task, request);
+
+    try {
+      const fixtures = readFixtureFile(this.fixturePath);
+      const key = fixtureKey(task, request);
+      fixtures.responses[key] = [
+        ...(fixtures.responses[key] ?? []),
+        { content: response.content, model: response.model },
+      ];
+      mkdirSync(dirname(this.fixturePath), { recursive: true });
+      writeFileSync(this.fixturePath, JSON.stringify(fixtures, null, 2));
+    } catch (error) {
+      console.warn(`⚠️ Failed to record vision fixture to ${this.fixturePath}:`, error);
+    }
+
+    return response;
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.inner.healthCheck();
+  }
+}
+
+function dispatch(provider: VisionProvider, task: VisionTask, request: VisionRequest): Promise<VisionResponse> {
+  switch (task) {
+    case 'triage': return provider.triage(request);
+    case 'deep_analysis': return provider.deepAnalysis(request);
+    case 'additional_photo': return provider.analyzeAdditionalPhoto(request);
+    case 'reasoning_synthesis': return provider.synthesizeReasoning(request);
+    case 'conversation': return provider.converse(request);
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+let activeProvider: VisionProvider | null = null;
+
+function createProviderFromEnv(): VisionProvider {
+  let provider: VisionProvider;
+
+  switch (env.VISION_PROVIDER) {
+    case 'fixture':
+      return new FixtureVisionProvider(env.VISION_FIXTURE_PATH, { strict: env.VISION_FIXTURE_STRICT });
+
+    case 'openai-compatible': {
+      const visionModel = env.VISION_MODEL ?? 'llava';
+      provider = new OpenAICompatibleVisionProvider({
+        name: 'openai-compatible',
+        apiKey: env.VISION_API_KEY ?? 'not-needed',
+        baseURL: env.VISION_BASE_URL,
+        models: {
+          triage: visionModel,
+          deep_analysis: visionModel,
+          additional_photo: visionModel,
+          reasoning_synthesis: env.VISION_REASONING_MODEL ?? visionModel,
+          conversation: env.VISION_CHAT_MODEL ?? visionModel,
+        },
+        allowModelOverride: false,
+        reasoningTokenParam: false,
+      });
+      break;
+    }
+
+    case 'openai':
+    default:
+      provider = new OpenAICompatibleVisionProvider({
+        name: 'openai',
+        apiKey: env.VISION_API_KEY ?? env.OPENAI_API_KEY!,
+        models: {
+          ...OPENAI_TASK_MODELS,
+          ...(env.VISION_MODEL && {
+            triage: env.VISION_MODEL,
+            deep_analysis: env.VISION_MODEL,
+            additional_photo: env.VISION_MODEL,
+          }),
+          ...(env.VISION_REASONING_MODEL && { reasoning_synthesis: env.VISION_REASONING_MODEL }),
+          ...(env.VISION_CHAT_MODEL && { conversation: env.VISION_CHAT_MODEL }),
+        },
+        allowModelOverride: true,
+        reasoningTokenParam: true,
+      });
+  }
+
+  return env.VISION_RECORD_FIXTURES
+    ? new RecordingVisionProvider(provider, env.VISION_FIXTURE_PATH)
+    : provider;
+}
+
+/**
+ * The configured provider (created on first use)
+ */
+export function getVisionProvider(): VisionProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+    console.log(`👁️ Vision provider: ${activeProvider.name}${env.VISION_RECORD_FIXTURES ? ' (recording fixtures)' : ''}`);
+  }
+  return activeProvider;
+}
+
+/**
+ * Swap the provider at runtime (tests, evaluation harness). Pass null to go
+ * back to the environment configuration.
+ */
+export function setVisionProvider(provider: VisionProvider | null): void {
+  activeProvider = provider;
+}
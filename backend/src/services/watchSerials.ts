@@ -0,0 +1,489 @@
+/**
+ * Watch Serial Decoder
+ * Serial, reference and calibre numbers to production years
+ * October 2026
+ *
+ * Watches are a high-risk category, but dating the case and movement was
+ * left entirely to the model. The makers' published serial charts (Rolex
+ * case serials, Omega and Longines movement serials), reference number
+ * formats and calibre production spans are tabled here. Each number read
+ * off the caseback gives a year span on its own; spans that don't overlap
+ * mean a replaced case or movement, and a span outside the attributed
+ * period is raised as a red flag. Serial charts are accurate to about a
+ * year, so comparisons allow for that.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WatchMakerId = 'rolex' | 'omega' | 'longines';
+
+export type WatchNumberKind = 'serial' | 'reference' | 'calibre';
+
+export interface WatchNumbersInput {
+  maker?: string; // As read or attributed, e.g. "ROLEX", "Omega SA"
+  serial?: string;
+  reference?: string;
+  calibre?: string;
+}
+
+export interface WatchYearRange {
+  start: number;
+  end: number | null; // null = still in production
+}
+
+export interface WatchNumberReading {
+  kind: WatchNumberKind;
+  value: string; // Normalized, e.g. "ST 145.022", "3135"
+  label: string; // "Serial R123456", "Reference 16610"
+  yearRange: WatchYearRange;
+  description: string; // What the number says, e.g. "Submariner Date"
+}
+
+export interface WatchNumbersDecoding {
+  input: WatchNumbersInput;
+  maker: WatchMakerId | null;
+  makerName: string | null;
+  readings: WatchNumberReading[];
+  yearRange: WatchYearRange | null; // Where every reading agrees
+  conflicts: string[]; // Readings that can't belong to the same watch
+  notes: string[];
+}
+
+// ============================================================================
+// MAKER TABLES
+// ============================================================================
+
+const MAKER_NAMES: Record<WatchMakerId, string> = {
+  rolex: 'Rolex',
+  omega: 'Omega',
+  longines: 'Longines',
+};
+
+const MAKER_WORDS: Array<[RegExp, WatchMakerId]> = [
+  [/\brolex\b/i, 'rolex'],
+  [/\bomega\b/i, 'omega'],
+  [/\blongines\b/i, 'longines'],
+];
+
+// Makers collectors ask about that have no tables here yet
+const UNTABLED_MAKERS = /\b(tudor|patek|audemars|vacheron|heuer|breitling|cartier|jaeger|iwc|zenith|universal|hamilton|elgin|waltham|seiko)\b/i;
+
+// [first year, first serial of that year] - from the makers' published charts
+const ROLEX_SERIALS: Array<[number, number]> = [
+  [1955, 100000], [1957, 224000], [1958, 328000], [1959, 399453], [1960, 516000],
+  [1961, 643153], [1962, 744000], [1963, 824000], [1964, 1008000], [1965, 1100000],
+  [1966, 1200000], [1967, 1538435], [1968, 1752000], [1969, 1900000], [1970, 2241882],
+  [1971, 2589295], [1972, 2890459], [1973, 3200268], [1974, 3567927], [1975, 3862196],
+  [1976, 4115299], [1977, 5008000], [1978, 5482000], [1979, 5958000], [1980, 6434000],
+  [1981, 6910000], [1982, 7386000], [1983, 7862000], [1984, 8338000], [1985, 8814000],
+  [1986, 9290000], [1987, 9766000],
+];
+
+// Letter-prefixed serials after the numeric series ran out
+const ROLEX_SERIAL_LETTERS: Record<string, [number, number]> = {
+  R: [1987, 1988], L: [1988, 1990], E: [1990, 1991], X: [1991, 1991], N: [1991, 1992],
+  C: [1992, 1993], S: [1993, 1994], W: [1994, 1995], T: [1996, 1996], U: [1997, 1998],
+  A: [1998, 1999], P: [2000, 2000], K: [2001, 2001], Y: [2002, 2002], F: [2003, 2004],
+  D: [2005, 2005], Z: [2006, 2006], M: [2007, 2008], V: [2008, 2009], G: [2010, 2010],
+};
+
+const OMEGA_SERIALS: Array<[number, number]> = [
+  [1895, 1000000], [1902, 2000000], [1908, 3000000], [1912, 4000000], [1916, 5000000],
+  [1923, 6000000], [1929, 7000000], [1935, 8000000], [1939, 9000000], [1944, 10000000],
+  [1947, 11000000], [1950, 12000000], [1952, 13000000], [1954, 14000000], [1956, 15000000],
+  [1958, 16000000], [1959, 17000000], [1961, 18000000], [1962, 19000000], [1963, 20000000],
+  [1964, 21000000], [1965, 22000000], [1966, 23000000], [1967, 25000000], [1968, 26000000],
+  [1969, 29000000], [1970, 32000000], [1971, 33000000], [1972, 34000000], [1973, 35000000],
+  [1974, 37000000], [1975, 38000000], [1976, 39000000], [1977, 40000000], [1978, 41000000],
+  [1979, 42000000], [1980, 43000000], [1981, 44000000], [1982, 45000000], [1984, 46000000],
+  [1985, 47000000], [1988, 49000000], [1990, 50000000], [1993, 51000000], [1995, 52000000],
+  [1996, 53000000], [1997, 54000000], [1999, 55000000],
+];
+
+const LONGINES_SERIALS: Array<[number, number]> = [
+  [1867, 1], [1870, 20000], [1875, 100000], [1882, 250000], [1888, 500000],
+  [1893, 750000], [1899, 1000000], [1901, 1250000], [1904, 1500000], [1905, 1750000],
+  [1907, 2000000], [1911, 2500000], [1913, 3000000], [1917, 3500000], [1922, 4000000],
+  [1925, 4500000], [1928, 5000000], [1934, 5500000], [1937, 6000000], [1940, 6500000],
+  [1945, 7000000], [1950, 8000000], [1953, 9000000], [1956, 10000000], [1959, 11000000],
+  [1962, 12000000], [1966, 14000000], [1967, 15000000], [1969, 16000000],
+];
+
+interface KnownReference {
+  maker: WatchMakerId;
+  reference: string;
+  model: string;
+  years: [number, number | null];
+}
+
+const KNOWN_REFERENCES: KnownReference[] = [
+  { maker: 'rolex', reference: '5512', model: 'Submariner', years: [1959, 1978] },
+  { maker: 'rolex', reference: '5513', model: 'Submariner', years: [1962, 1989] },
+  { maker: 'rolex', reference: '1680', model: 'Submariner Date', years: [1969, 1980] },
+  { maker: 'rolex', reference: '16800', model: 'Submariner Date', years: [1979, 1988] },
+  { maker: 'rolex', reference: '16610', model: 'Submariner Date', years: [1988, 2010] },
+  { maker: 'rolex', reference: '116610', model: 'Submariner Date', years: [2003, 2020] },
+  { maker: 'rolex', reference: '1675', model: 'GMT-Master', years: [1959, 1980] },
+  { maker: 'rolex', reference: '16750', model: 'GMT-Master', years: [1981, 1988] },
+  { maker: 'rolex', reference: '16700', model: 'GMT-Master', years: [1988, 1999] },
+  { maker: 'rolex', reference: '16710', model: 'GMT-Master II', years: [1989, 2007] },
+  { maker: 'rolex', reference: '1016', model: 'Explorer', years: [1963, 1989] },
+  { maker: 'rolex', reference: '1655', model: 'Explorer II', years: [1971, 1985] },
+  { maker: 'rolex', reference: '16570', model: 'Explorer II', years: [1989, 2011] },
+  { maker: 'rolex', reference: '1665', model: 'Sea-Dweller', years: [1967, 1983] },
+  { maker: 'rolex', reference: '16600', model: 'Sea-Dweller', years: [1988, 2008] },
+  { maker: 'rolex', reference: '6263', model: 'Cosmograph Daytona', years: [1969, 1987] },
+  { maker: 'rolex', reference: '16520', model: 'Cosmograph Daytona', years: [1988, 2000] },
+  { maker: 'rolex', reference: '116520', model: 'Cosmograph Daytona', years: [2000, 2016] },
+  { maker: 'rolex', reference: '1601', model: 'Datejust', years: [1959, 1977] },
+  { maker: 'rolex', reference: '16014', model: 'Datejust', years: [1977, 1988] },
+  { maker: 'rolex', reference: '1803', model: 'Day-Date', years: [1959, 1978] },
+  { maker: 'omega', reference: 'CK 2915', model: 'Speedmaster', years: [1957, 1959] },
+  { maker: 'omega', reference: 'CK 2998', model: 'Speedmaster', years: [1959, 1963] },
+  { maker: 'omega', reference: 'ST 105.012', model: 'Speedmaster Professional', years: [1964, 1969] },
+  { maker: 'omega', reference: 'ST 145.012', model: 'Speedmaster Professional', years: [1967, 1969] },
+  { maker: 'omega', reference: 'ST 145.022', model: 'Speedmaster Professional', years: [1968, 1988] },
+  { maker: 'omega', reference: 'ST 165.024', model: 'Seamaster 300', years: [1964, 1970] },
+  { maker: 'omega', reference: '3570.50', model: 'Speedmaster Professional', years: [1996, 2014] },
+  { maker: 'omega', reference: '2531.80', model: 'Seamaster Professional 300M', years: [1993, 2006] },
+  { maker: 'omega', reference: '311.30.42.30.01.005', model: 'Speedmaster Professional', years: [2014, 2021] },
+];
+
+interface ReferenceFormat {
+  maker: WatchMakerId;
+  pattern: RegExp;
+  description: string;
+  years: [number, number | null];
+}
+
+// When the exact reference isn't tabled, its format still gives an era
+const REFERENCE_FORMATS: ReferenceFormat[] = [
+  { maker: 'rolex', pattern: /^\d{4}$/, description: 'Four-digit Rolex reference', years: [1930, 1990] },
+  { maker: 'rolex', pattern: /^\d{5}$/, description: 'Five-digit Rolex reference', years: [1977, 2012] },
+  { maker: 'rolex', pattern: /^\d{6}$/, description: 'Six-digit Rolex reference', years: [2000, null] },
+  { maker: 'omega', pattern: /^CK \d{4}$/, description: 'Omega "CK" reference', years: [1930, 1962] },
+  { maker: 'omega', pattern: /^[A-Z]{2} \d{3}\.\d{3}$/, description: 'Omega two-letter reference', years: [1962, 1990] },
+  { maker: 'omega', pattern: /^\d{4}\.\d{2}(\.\d{2})?$/, description: 'Omega eight-digit reference', years: [1988, 2016] },
+  { maker: 'omega', pattern: /^\d{3}\.\d{2}\.\d{2}\.\d{2}\.\d{2}\.\d{3}$/, description: 'Omega fourteen-digit reference', years: [2008, null] },
+];
+
+interface KnownCalibre {
+  maker: WatchMakerId | null; // null = ebauche found in many brands
+  calibre: string;
+  years: [number, number | null];
+  note?: string;
+}
+
+const KNOWN_CALIBRES: KnownCalibre[] = [
+  { maker: 'rolex', calibre: '1030', years: [1950, 1959] },
+  { maker: 'rolex', calibre: '1530', years: [1957, 1965] },
+  { maker: 'rolex', calibre: '1560', years: [1959, 1965] },
+  { maker: 'rolex', calibre: '1520', years: [1963, 2000] },
+  { maker: 'rolex', calibre: '1570', years: [1965, 1990] },
+  { maker: 'rolex', calibre: '1575', years: [1965, 1990] },
+  { maker: 'rolex', calibre: '727', years: [1969, 1987], note: 'Valjoux 72 based' },
+  { maker: 'rolex', calibre: '3035', years: [1977, 1988] },
+  { maker: 'rolex', calibre: '4030', years: [1988, 2000], note: 'Zenith El Primero based' },
+  { maker: 'rolex', calibre: '3135', years: [1988, 2020] },
+  { maker: 'rolex', calibre: '3130', years: [1999, 2020] },
+  { maker: 'rolex', calibre: '3185', years: [1999, 2008] },
+  { maker: 'rolex', calibre: '3186', years: [2007, 2018] },
+  { maker: 'rolex', calibre: '4130', years: [2000, 2023] },
+  { maker: 'rolex', calibre: '3235', years: [2015, null] },
+  { maker: 'rolex', calibre: '3285', years: [2018, null] },
+  { maker: 'omega', calibre: '321', years: [1942, 1968] },
+  { maker: 'omega', calibre: '550', years: [1958, 1970] },
+  { maker: 'omega', calibre: '552', years: [1958, 1970] },
+  { maker: 'omega', calibre: '561', years: [1958, 1970] },
+  { maker: 'omega', calibre: '562', years: [1958, 1970] },
+  { maker: 'omega', calibre: '564', years: [1958, 1970] },
+  { maker: 'omega', calibre: '861', years: [1968, 1996] },
+  { maker: 'omega', calibre: '1120', years: [1993, 2013] },
+  { maker: 'omega', calibre: '1861', years: [1996, 2021] },
+  { maker: 'omega', calibre: '8500', years: [2007, null] },
+  { maker: 'omega', calibre: '9300', years: [2011, null] },
+  { maker: 'omega', calibre: '3861', years: [2021, null] },
+  { maker: 'longines', calibre: '12.68Z', years: [1937, 1951] },
+  { maker: 'longines', calibre: '13ZN', years: [1936, 1967] },
+  { maker: 'longines', calibre: '30CH', years: [1947, 1974] },
+  { maker: null, calibre: 'VALJOUX 72', years: [1938, 1974] },
+  { maker: null, calibre: 'VALJOUX 7750', years: [1974, null] },
+  { maker: null, calibre: 'ETA 2824', years: [1971, null] },
+  { maker: null, calibre: 'ETA 2892', years: [1975, null] },
+];
+
+// Published charts are accurate to about a year
+const CHART_TOLERANCE_YEARS = 1;
+// Attributed periods are estimates too
+const PERIOD_TOLERANCE_YEARS = 2;
+
+// ============================================================================
+// READING NUMBERS FROM TEXT
+// ============================================================================
+
+function normalizeReference(raw: string): string {
+  const value = raw.trim().toUpperCase().replace(/\s+/g, ' ').replace(/\.+$/, '');
+  const prefixed = value.match(/^([A-Z]{2})\s?(\d{3,4}(?:\.\d{3})?)$/);
+  if (prefixed) return `${prefixed[1]} ${prefixed[2]}`;
+  // Rolex bezel and bracelet suffixes ("16610LN", "116520 T") don't change the era
+  return value.replace(/^(\d{4,6})\s?[A-Z]{1,4}$/, '$1');
+}
+
+function normalizeCalibre(raw: string): string {
+  const value = raw.trim().toUpperCase().replace(/\s+/g, ' ').replace(/\.+$/, '').replace(/-\d$/, '');
+  return value.replace(/^(VALJOUX|ETA)\s?/, '$1 ');
+}
+
+function resolveMaker(text: string | undefined): WatchMakerId | null {
+  if (!text) return null;
+  return MAKER_WORDS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+/**
+ * Pull maker, serial, reference and calibre out of a caseback reading
+ * (triage's visible text, or what the user typed). `fallbackMaker` is the
+ * attributed maker, used when the reading doesn't name one.
+ */
+export function parseCasebackReading(texts: string[], fallbackMaker?: string | null): WatchNumbersInput {
+  const input: WatchNumbersInput = {};
+  const text = texts.join('\n');
+
+  const maker = text.match(/\b(rolex|omega|longines)\b/i)?.[0] ?? text.match(UNTABLED_MAKERS)?.[0] ?? fallbackMaker;
+  if (maker) input.maker = maker;
+
+  const calibre = text.match(/\bcal(?:ibre|iber)?\.?\s*(?:no\.?\s*)?[:#]?\s*((?:valjoux|eta)\s?\d{2,4}(?:-\d)?|[A-Z]*\d[A-Z0-9.]*)/i)?.[1];
+  if (calibre) input.calibre = normalizeCalibre(calibre);
+
+  const reference = text.match(/\b(?:ref(?:erence)?|model)\.?\s*(?:no\.?\s*|number\s*)?[:#]?\s*((?:[A-Z]{2}\s?)?\d[\d.]*(?:[A-Z]{1,4}\b)?)/i)?.[1];
+  if (reference) input.reference = normalizeReference(reference);
+
+  const serial = text.match(/\b(?:serial|s\/n|sn|(?:case|movement)\s(?:no|number))\.?\s*(?:no\.?\s*|number\s*)?[:#]?\s*([A-Z0-9]{5,8})\b/i)?.[1];
+  if (serial) input.serial = serial.toUpperCase();
+
+  // Unlabelled numbers, only where the format leaves no doubt
+  const upper = text.toUpperCase();
+  input.reference ??= upper.match(/\b[A-Z]{2} ?\d{3}\.\d{3}\b/)?.[0].replace(/^([A-Z]{2}) ?/, '$1 ');
+  for (const token of upper.match(/[A-Z0-9][A-Z0-9.]*[A-Z0-9]/g) ?? []) {
+    if (!input.serial && (/^[A-Z]\d{6}$/.test(token) || /^\d{7,8}$/.test(token))) {
+      input.serial = token;
+    } else if (!input.reference && (/^\d{5}[A-Z]*$/.test(token) || /^1[12]\d{4}[A-Z]*$/.test(token) || /^\d{4}\.\d{2}$/.test(token))) {
+      input.reference = normalizeReference(token);
+    }
+  }
+
+  return input;
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+const currentYear = () => new Date().getFullYear();
+
+function spanLabel({ start, end }: WatchYearRange): string {
+  if (end === null) return `${start}-present`;
+  return start === end ? `${start}` : `${start}-${end}`;
+}
+
+function chartYear(table: Array<[number, number]>, serial: number): WatchYearRange | null {
+  let index = -1;
+  for (let i = 0; i < table.length && table[i][1] <= serial; i++) index = i;
+  if (index < 0) return null;
+  const start = table[index][0];
+  const next = table[index + 1];
+  return { start, end: next ? Math.max(start, next[0] - 1) : null };
+}
+
+function decodeSerial(maker: WatchMakerId, serial: string, notes: string[]): WatchNumberReading | null {
+  const label = `Serial ${serial}`;
+
+  if (maker === 'rolex') {
+    const prefix = serial.match(/^([A-Z])\d{6}$/)?.[1];
+    if (prefix) {
+      const years = ROLEX_SERIAL_LETTERS[prefix];
+      if (!years) {
+        notes.push(`"${prefix}" is not a Rolex serial prefix`);
+        return null;
+      }
+      return { kind: 'serial', value: serial, label, yearRange: { start: years[0], end: years[1] }, description: `Rolex "${prefix}" serial series` };
+    }
+    if (/^[A-Z0-9]{8}$/.test(serial) && /[A-Z]/.test(serial)) {
+      return { kind: 'serial', value: serial, label, yearRange: { start: 2010, end: null }, description: 'Rolex scrambled serial (late 2010 onwards) - does not encode a year' };
+    }
+    const number = /^\d{5,7}$/.test(serial) ? Number(serial) : NaN;
+    if (Number.isNaN(number)) {
+      notes.push(`Serial ${serial} doesn't match any Rolex serial format`);
+      return null;
+    }
+    const years = chartYear(ROLEX_SERIALS, number);
+    // Rolex restarted its numbering in the mid-1950s, so short serials are ambiguous
+    if (number < 1000000) {
+      return {
+        kind: 'serial', value: serial, label,
+        yearRange: { start: 1926, end: years?.end ?? 1954 },
+        description: `Six-digit Rolex serial: first series (1926-1954)${years ? ` or second series (${spanLabel(years)})` : ''} - the reference decides`,
+      };
+    }
+    return years && { kind: 'serial', value: serial, label, yearRange: { start: years.start, end: years.end ?? 1987 }, description: 'Rolex case serial' };
+  }
+
+  const number = /^\d{1,8}$/.test(serial) ? Number(serial) : NaN;
+  if (Number.isNaN(number)) {
+    notes.push(`Serial ${serial} isn't a ${MAKER_NAMES[maker]} movement number - those are digits only`);
+    return null;
+  }
+  const table = maker === 'omega' ? OMEGA_SERIALS : LONGINES_SERIALS;
+  const years = chartYear(table, number);
+  if (!years) {
+    notes.push(`Serial ${serial} is below the start of ${MAKER_NAMES[maker]}'s chart`);
+    return null;
+  }
+  if (years.end === null) {
+    notes.push(`${MAKER_NAMES[maker]} movement numbers after ${years.start} aren't tabled - the serial only gives a lower bound`);
+  }
+  return { kind: 'serial', value: serial, label, yearRange: years, description: `${MAKER_NAMES[maker]} movement serial` };
+}
+
+function findKnownReference(reference: string, maker?: WatchMakerId | null): KnownReference | undefined {
+  const key = reference.replace(/\s/g, '');
+  return KNOWN_REFERENCES.find(r => r.reference.replace(/\s/g, '') === key && (!maker || r.maker === maker));
+}
+
+function decodeReference(maker: WatchMakerId | null, reference: string): WatchNumberReading | null {
+  const label = `Reference ${reference}`;
+  const known = findKnownReference(reference, maker);
+  if (known) {
+    return { kind: 'reference', value: reference, label, yearRange: { start: known.years[0], end: known.years[1] }, description: `${MAKER_NAMES[known.maker]} ${known.model}` };
+  }
+  const format = maker && REFERENCE_FORMATS.find(f => f.maker === maker && f.pattern.test(reference));
+  if (format) {
+    return { kind: 'reference', value: reference, label, yearRange: { start: format.years[0], end: format.years[1] }, description: format.description };
+  }
+  return null;
+}
+
+/**
+ * Year spans for each number read off the watch, where they agree, and
+ * which ones can't belong to the same watch
+ */
+export function decodeWatchNumbers(input: WatchNumbersInput): WatchNumbersDecoding {
+  const readings: WatchNumberReading[] = [];
+  const conflicts: string[] = [];
+  const notes: string[] = [];
+
+  const reference = input.reference && normalizeReference(input.reference);
+  const calibre = input.calibre && normalizeCalibre(input.calibre);
+  const knownCalibre = calibre ? KNOWN_CALIBRES.find(c => c.calibre === calibre) : undefined;
+
+  // A tabled reference or calibre names the maker when the reading doesn't
+  let maker = resolveMaker(input.maker);
+  const untabled = !maker && !!input.maker && UNTABLED_MAKERS.test(input.maker);
+  const knownReference = reference && !untabled ? findKnownReference(reference) : undefined;
+  if (untabled) {
+    notes.push(`No serial or reference tables for ${input.maker} - only ebauche calibres can be dated`);
+  } else if (!maker) {
+    maker = knownReference?.maker ?? knownCalibre?.maker ?? null;
+    if (maker) notes.push(`Maker taken as ${MAKER_NAMES[maker]} from the ${knownReference ? 'reference' : 'calibre'}`);
+  }
+
+  if (input.serial) {
+    const serial = input.serial.trim().toUpperCase().replace(/\s/g, '');
+    const reading = maker ? decodeSerial(maker, serial, notes) : null;
+    if (reading) readings.push(reading);
+    else if (!maker && !untabled) notes.push('Serial charts are per maker - name the maker to date the serial');
+  }
+
+  if (reference && !untabled) {
+    const reading = decodeReference(maker, reference);
+    if (reading) readings.push(reading);
+    else notes.push(`Reference ${reference} isn't in the tables`);
+  }
+
+  if (calibre) {
+    if (!knownCalibre) {
+      notes.push(`Calibre ${calibre} isn't in the tables`);
+    } else {
+      if (knownCalibre.maker && maker && knownCalibre.maker !== maker) {
+        conflicts.push(`Calibre ${calibre} is a movement by ${MAKER_NAMES[knownCalibre.maker]}, not ${MAKER_NAMES[maker]}`);
+      }
+      readings.push({
+        kind: 'calibre',
+        value: calibre,
+        label: `Calibre ${calibre}`,
+        yearRange: { start: knownCalibre.years[0], end: knownCalibre.years[1] },
+        description: [knownCalibre.maker ? `${MAKER_NAMES[knownCalibre.maker]} calibre` : 'Ebauche calibre used by many brands', knownCalibre.note].filter(Boolean).join(', '),
+      });
+    }
+  }
+
+  // Every pair of readings must overlap for case and movement to belong together
+  for (let i = 0; i < readings.length; i++) {
+    for (let j = i + 1; j < readings.length; j++) {
+      const a = readings[i];
+      const b = readings[j];
+      if (!rangesOverlap(a.yearRange, b.yearRange, CHART_TOLERANCE_YEARS)) {
+        conflicts.push(`${a.label} (${spanLabel(a.yearRange)}) and ${b.label} (${spanLabel(b.yearRange)}) don't overlap - the case, movement or both may not be original`);
+      }
+    }
+  }
+
+  let yearRange: WatchYearRange | null = null;
+  if (readings.length > 0 && conflicts.length === 0) {
+    const start = Math.max(...readings.map(r => r.yearRange.start));
+    const ends = readings.map(r => r.yearRange.end).filter((end): end is number => end !== null);
+    const end = ends.length > 0 ? Math.min(...ends) : null;
+    // Charts are approximate - readings a year apart still agree
+    yearRange = end !== null && end < start ? { start: end, end: start } : { start, end };
+  }
+
+  return {
+    input,
+    maker,
+    makerName: maker ? MAKER_NAMES[maker] : null,
+    readings,
+    yearRange,
+    conflicts,
+    notes,
+  };
+}
+
+function rangesOverlap(a: WatchYearRange, b: WatchYearRange, tolerance: number): boolean {
+  const aEnd = a.end ?? currentYear();
+  const bEnd = b.end ?? currentYear();
+  return a.start <= bEnd + tolerance && b.start <= aEnd + tolerance;
+}
+
+// ============================================================================
+// CROSS-CHECK
+// ============================================================================
+
+/**
+ * Red flags from the caseback numbers: readings that can't belong to the
+ * same watch, and a span outside the period the analysis attributed
+ */
+export function checkWatchPeriod(
+  decoding: WatchNumbersDecoding,
+  period?: { start: number | null; end: number | null }
+): string[] {
+  const flags = [...decoding.conflicts];
+
+  if (decoding.yearRange && period?.start && period.end) {
+    const attributed = { start: period.start, end: period.end };
+    if (!rangesOverlap(decoding.yearRange, attributed, PERIOD_TOLERANCE_YEARS)) {
+      flags.push(`Caseback numbers date this watch to ${spanLabel(decoding.yearRange)}, outside the attributed period ${period.start}-${period.end}`);
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Short text for the deep-analysis prompt and for Vera
+ */
+export function describeWatchNumbers(decoding: WatchNumbersDecoding): string {
+  const lines = decoding.readings.map(r => `• ${r.label}: ${r.description} (${spanLabel(r.yearRange)})`);
+  if (decoding.yearRange) lines.push(`• Numbers agree on ${spanLabel(decoding.yearRange)}`);
+  return [...lines, ...decoding.conflicts.map(c => `⚠️ ${c}`)].join('\n');
+}
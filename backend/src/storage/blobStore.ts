@@ -0,0 +1,441 @@
+/**
+ * Blob Store
+ * One interface for every object the API keeps outside the database
+ * October 2026
+ *
+ * storage/client.ts picks a driver by STORAGE_DRIVER:
+ * - s3:    an S3-compatible bucket - MinIO in docker-compose - from MINIO_*
+ * - local: files under STORAGE_LOCAL_PATH, so the API and CI run without
+ *          a MinIO container
+ *
+ * Drivers behave alike down to the edge cases callers rely on: missing keys
+ * and unsatisfiable ranges raise BlobNotFoundError and BlobRangeError, and
+ * metadata names come back lowercased, as S3 returns them.
+ */
+
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  CreateBucketCommand,
+  HeadBucketCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createHash } from 'crypto';
+import { constants, createReadStream } from 'fs';
+import { access, mkdir, readFile, readdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { Readable } from 'stream';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PutBlobOptions {
+  contentType: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StoredBlob {
+  buffer: Buffer;
+  contentType: string;
+  metadata: Record<string, string>;
+}
+
+// Range and If-None-Match take the raw request header values
+export interface BlobStreamOptions {
+  range?: string;
+  ifNoneMatch?: string;
+}
+
+export interface BlobStream {
+  status: 200 | 206 | 304;
+  body: ReadableStream | null;
+  contentType: string;
+  contentLength?: number;
+  contentRange?: string;
+  etag?: string;
+  lastModified?: Date;
+}
+
+export interface BlobStore {
+  readonly name: string;
+  /** Create the bucket or directory if needed */
+  initialize(): Promise<void>;
+  put(key: string, body: Buffer, options: PutBlobOptions): Promise<void>;
+  get(key: string): Promise<StoredBlob>;
+  stream(key: string, options?: BlobStreamOptions): Promise<BlobStream>;
+  /** Deleting a missing key is not an error */
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  /** URL that reads the key without credentials until it expires */
+  presign(key: string, expiresInSeconds: number): Promise<string>;
+  /** Keys starting with prefix, sorted */
+  list(prefix: string): Promise<string[]>;
+  healthCheck(): Promise<boolean>;
+}
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export class BlobNotFoundError extends Error {
+  constructor(public key: string) {
+    super(`Blob not found: ${key}`);
+    this.name = 'BlobNotFoundError';
+  }
+}
+
+export class BlobRangeError extends Error {
+  constructor(public key: string, public range: string) {
+    super(`Range ${range} not satisfiable for ${key}`);
+    this.name = 'BlobRangeError';
+  }
+}
+
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+
+// ============================================================================
+// S3 DRIVER
+// ============================================================================
+
+export interface S3BlobStoreOptions {
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucket: string;
+}
+
+function s3Status(error: any): number | undefined {
+  return error?.$metadata?.httpStatusCode;
+}
+
+function isS3NotFound(error: any): boolean {
+  return error?.name === 'NoSuchKey' || error?.name === 'NotFound' || s3Status(error) === 404;
+}
+
+export class S3BlobStore implements BlobStore {
+  readonly name = 's3';
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(options: S3BlobStoreOptions) {
+    this.client = new S3Client({
+      endpoint: options.endpoint,
+      region: 'us-east-1', // MinIO doesn't use regions but SDK requires it
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      },
+      forcePathStyle: true, // Required for MinIO
+    });
+    this.bucket = options.bucket;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+      console.log(`✅ MinIO bucket "${this.bucket}" exists`);
+    } catch (error) {
+      if (!isS3NotFound(error)) throw error;
+      await this.client.send(new CreateBucketCommand({ Bucket: this.bucket }));
+      console.log(`✅ Created MinIO bucket "${this.bucket}"`);
+    }
+  }
+
+  async put(key: string, body: Buffer, options: PutBlobOptions): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      Metadata: options.metadata,
+    }));
+  }
+
+  async get(key: string): Promise<StoredBlob> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return {
+        buffer: Buffer.from(await response.Body!.transformToByteArray()),
+        contentType: response.ContentType || DEFAULT_CONTENT_TYPE,
+        metadata: response.Metadata ?? {},
+      };
+    } catch (error) {
+      if (isS3NotFound(error)) throw new BlobNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async stream(key: string, options: BlobStreamOptions = {}): Promise<BlobStream> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Range: options.range,
+        IfNoneMatch: options.ifNoneMatch,
+      }));
+
+      return {
+        status: response.ContentRange ? 206 : 200,
+        body: response.Body?.transformToWebStream() ?? null,
+        contentType: response.ContentType || DEFAULT_CONTENT_TYPE,
+        contentLength: response.ContentLength,
+        contentRange: response.ContentRange,
+        etag: response.ETag,
+        lastModified: response.LastModified,
+      };
+    } catch (error) {
+      const status = s3Status(error);
+      if (status === 304) {
+        return { status: 304, body: null, contentType: DEFAULT_CONTENT_TYPE, etag: options.ifNoneMatch };
+      }
+      if (status === 416) throw new BlobRangeError(key, options.range ?? '');
+      if (isS3NotFound(error)) throw new BlobNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (error) {
+      if (isS3NotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  async presign(key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(this.client, new GetObjectCommand({ Bucket: this.bucket, Key: key }), { expiresIn: expiresInSeconds });
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }));
+      keys.push(...(response.Contents ?? []).flatMap(object => object.Key ? [object.Key] : []));
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return keys.sort();
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+      return true;
+    } catch (error) {
+      console.error('❌ Storage health check failed:', error);
+      return false;
+    }
+  }
+}
+
+// ============================================================================
+// LOCAL FILESYSTEM DRIVER
+// ============================================================================
+
+export interface LocalBlobStoreOptions {
+  root: string;
+  // There's no server in front of the directory, so the caller supplies one
+  presign?: (key: string, expiresInSeconds: number) => string;
+}
+
+interface LocalBlobInfo {
+  contentType: string;
+  metadata: Record<string, string>;
+  etag: string;
+}
+
+/**
+ * Parse a single byte range as S3 does: malformed or multi-part ranges are
+ * ignored (whole object), ranges starting past the end are refused
+ */
+export function parseByteRange(range: string, size: number): { start: number; end: number } | null | 'unsatisfiable' {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : Infinity;
+  if (end < start) return null;
+  if (start >= size) return 'unsatisfiable';
+  return { start, end: Math.min(end, size - 1) };
+}
+
+function etagMatches(ifNoneMatch: string, etag: string): boolean {
+  return ifNoneMatch.split(',').some(tag => {
+    const candidate = tag.trim().replace(/^W\//, '');
+    return candidate === '*' || candidate === etag;
+  });
+}
+
+/**
+ * Objects live under <root>/blobs/<key>, with content type, metadata and
+ * ETag in <root>/meta/<key>.json so keys can't collide with the sidecars
+ */
+export class LocalBlobStore implements BlobStore {
+  readonly name = 'local';
+  private root: string;
+  private presignUrl?: (key: string, expiresInSeconds: number) => string;
+
+  constructor(options: LocalBlobStoreOptions) {
+    this.root = resolve(options.root);
+    this.presignUrl = options.presign;
+  }
+
+  private pathsFor(key: string): { blob: string; meta: string } {
+    const segments = key.split('/');
+    if (!key || key.includes('\\') || key.includes('\0') || segments.some(s => s === '' || s === '.' || s === '..')) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return {
+      blob: join(this.root, 'blobs', ...segments),
+      meta: `${join(this.root, 'meta', ...segments)}.json`,
+    };
+  }
+
+  private async readInfo(key: string): Promise<{ path: string; info: LocalBlobInfo; size: number; modified: Date }> {
+    const paths = this.pathsFor(key);
+    try {
+      const [raw, stats] = await Promise.all([readFile(paths.meta, 'utf-8'), stat(paths.blob)]);
+      return { path: paths.blob, info: JSON.parse(raw) as LocalBlobInfo, size: stats.size, modified: stats.mtime };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT' || error?.code === 'ENOTDIR') throw new BlobNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async initialize(): Promise<void> {
+    await mkdir(join(this.root, 'blobs'), { recursive: true });
+    await mkdir(join(this.root, 'meta'), { recursive: true });
+    console.log(`✅ Local blob storage at ${this.root}`);
+  }
+
+  async put(key: string, body: Buffer, options: PutBlobOptions): Promise<void> {
+    const paths = this.pathsFor(key);
+    const info: LocalBlobInfo = {
+      contentType: options.contentType,
+      metadata: Object.fromEntries(Object.entries(options.metadata ?? {}).map(([name, value]) => [name.toLowerCase(), value])),
+      etag: `"${createHash('md5').update(body).digest('hex')}"`,
+    };
+
+    await Promise.all([
+      mkdir(dirname(paths.blob), { recursive: true }),
+      mkdir(dirname(paths.meta), { recursive: true }),
+    ]);
+    await writeFile(paths.blob, body);
+    await writeFile(paths.meta, JSON.stringify(info));
+  }
+
+  async get(key: string): Promise<StoredBlob> {
+    const { path, info } = await this.readInfo(key);
+    return { buffer: await readFile(path), contentType: info.contentType, metadata: info.metadata };
+  }
+
+  async stream(key: string, options: BlobStreamOptions = {}): Promise<BlobStream> {
+    const { path, info, size, modified } = await this.readInfo(key);
+    const headers = { contentType: info.contentType, etag: info.etag, lastModified: modified };
+
+    if (options.ifNoneMatch && etagMatches(options.ifNoneMatch, info.etag)) {
+      return { ...headers, status: 304, body: null };
+    }
+
+    const range = options.range ? parseByteRange(options.range, size) : null;
+    if (range === 'unsatisfiable') {
+      throw new BlobRangeError(key, options.range!);
+    }
+
+    const body = Readable.toWeb(createReadStream(path, range ?? undefined)) as ReadableStream;
+    if (!range) {
+      return { ...headers, status: 200, body, contentLength: size };
+    }
+    return {
+      ...headers,
+      status: 206,
+      body,
+      contentLength: range.end - range.start + 1,
+      contentRange: `bytes ${range.start}-${range.end}/${size}`,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const paths = this.pathsFor(key);
+    await Promise.all([rm(paths.blob, { force: true }), rm(paths.meta, { force: true })]);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.readInfo(key);
+      return true;
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) return false;
+      throw error;
+    }
+  }
+
+  async presign(key: string, expiresInSeconds: number): Promise<string> {
+    if (!this.presignUrl) {
+      throw new Error('Local blob store has no URL to presign against');
+    }
+    return this.presignUrl(key, expiresInSeconds);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const blobsDir = join(this.root, 'blobs');
+    const keys: string[] = [];
+
+    const walk = async (dir: string, keyPrefix: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await readdir(dir, { withFileTypes: true });
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return;
+        throw error;
+      }
+      for (const entry of entries) {
+        const key = `${keyPrefix}${entry.name}`;
+        if (entry.isDirectory()) {
+          // Only descend where keys could still match the prefix
+          const childPrefix = `${key}/`;
+          if (childPrefix.startsWith(prefix) || prefix.startsWith(childPrefix)) {
+            await walk(join(dir, entry.name), childPrefix);
+          }
+        } else if (key.startsWith(prefix)) {
+          keys.push(key);
+        }
+      }
+    };
+
+    await walk(blobsDir, '');
+    return keys.sort();
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await access(this.root, constants.R_OK | constants.W_OK);
+      return true;
+    } catch (error) {
+      console.error('❌ Storage health check failed:', error);
+      return false;
+    }
+  }
+}
+
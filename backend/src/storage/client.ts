@@ -1,56 +1,75 @@
-// MinIO Storage Client (S3-Compatible)
+// Storage Client
 // October 2025 - AWS SDK v3
+// October 2026 - Goes through a BlobStore driver (S3/MinIO or local filesystem), see blobStore.ts
 
-import {
-  S3Client,
-  PutObjectCommand,
-  GetObjectCommand,
-  DeleteObjectCommand,
-  HeadObjectCommand,
-  CreateBucketCommand,
-  HeadBucketCommand,
-} from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { env } from '../config/env.js';
 import { v4 as uuidv4 } from 'uuid';
+import { BlobStore, BlobStream, BlobStreamOptions, LocalBlobStore, S3BlobStore } from './blobStore.js';
+import { signImageUrl } from './signedUrls.js';
+
+// ============================================================================
+// DRIVER
+// ============================================================================
+
+let activeStore: BlobStore | null = null;
+
+function createBlobStoreFromEnv(): BlobStore {
+  switch (env.STORAGE_DRIVER) {
+    case 'local':
+      // Presigned URLs point at the API's image route, which serves images/ keys
+      return new LocalBlobStore({
+        root: env.STORAGE_LOCAL_PATH,
+        presign: (key, expiresIn) => `${env.API_URL}${signImageUrl(key, expiresIn)}`,
+      });
+
+    case 's3':
+      return new S3BlobStore({
+        endpoint: env.MINIO_ENDPOINT!,
+        accessKeyId: env.MINIO_ACCESS_KEY!,
+        secretAccessKey: env.MINIO_SECRET_KEY!,
+        bucket: env.MINIO_BUCKET_NAME,
+      });
+  }
+}
 
-// S3 Client Configuration
-export const s3Client = new S3Client({
-  endpoint: env.MINIO_ENDPOINT,
-  region: 'us-east-1', // MinIO doesn't use regions but SDK requires it
-  credentials: {
-    accessKeyId: env.MINIO_ACCESS_KEY,
-    secretAccessKey: env.MINIO_SECRET_KEY,
-  },
-  forcePathStyle: true, // Required for MinIO
-});
+export function getBlobStore(): BlobStore {
+  if (!activeStore) {
+    activeStore = createBlobStoreFromEnv();
+    console.log(`✅ Storage driver: ${activeStore.name}`);
+  }
+  return activeStore;
+}
 
-const BUCKET_NAME = env.MINIO_BUCKET_NAME;
+/**
+ * Swap the store at runtime (tests, scripts). Pass null to go back to the
+ * environment configuration.
+ */
+export function setBlobStore(store: BlobStore | null): void {
+  activeStore = store;
+}
 
-// Ensure bucket exists on startup
+// Ensure bucket (or storage directory) exists on startup
 export async function initializeBucket(): Promise<void> {
   try {
-    // Check if bucket exists
-    await s3Client.send(new HeadBucketCommand({ Bucket: BUCKET_NAME }));
-    console.log(`✅ MinIO bucket "${BUCKET_NAME}" exists`);
-  } catch (error: any) {
-    if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
-      // Create bucket if it doesn't exist
-      await s3Client.send(new CreateBucketCommand({ Bucket: BUCKET_NAME }));
-      console.log(`✅ Created MinIO bucket "${BUCKET_NAME}"`);
-    } else {
-      console.error('❌ Error checking/creating bucket:', error);
-      throw error;
-    }
+    await getBlobStore().initialize();
+  } catch (error) {
+    console.error('❌ Error checking/creating storage:', error);
+    throw error;
   }
 }
 
-// Upload image to MinIO
+// ============================================================================
+// IMAGES
+// ============================================================================
+
+// Upload image to storage
 export interface UploadImageOptions {
   buffer: Buffer;
   contentType: string;
   userId?: string;
   originalName?: string;
+  key?: string; // Explicit key, for derivatives stored next to their original
+  metadata?: Record<string, string>;
 }
 
 export async function uploadImage(options: UploadImageOptions): Promise<string> {
@@ -58,20 +77,18 @@ export async function uploadImage(options: UploadImageOptions): Promise<string>
 
   // Generate unique filename
   const ext = originalName?.split('.').pop() || 'jpg';
-  const key = `images/${userId || 'anonymous'}/${uuidv4()}.${ext}`;
+  const key = options.key ?? `images/${userId || 'anonymous'}/${uuidv4()}.${ext}`;
 
   try {
-    await s3Client.send(new PutObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-      Body: buffer,
-      ContentType: contentType,
-      Metadata: {
+    await getBlobStore().put(key, buffer, {
+      contentType,
+      metadata: {
         uploadedAt: new Date().toISOString(),
         userId: userId || 'anonymous',
         originalName: originalName || 'unknown',
+        ...options.metadata,
       },
-    }));
+    });
 
     console.log(`✅ Image uploaded: ${key}`);
     return key;
@@ -84,31 +101,23 @@ export async function uploadImage(options: UploadImageOptions): Promise<string>
 // Get presigned URL for image (valid for 1 hour)
 export async function getImageUrl(key: string, expiresIn: number = 3600): Promise<string> {
   try {
-    const command = new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    });
-
-    const url = await getSignedUrl(s3Client, command, { expiresIn });
-    return url;
+    return await getBlobStore().presign(key, expiresIn);
   } catch (error) {
     console.error('❌ Error generating presigned URL:', error);
     throw new Error('Failed to generate image URL');
   }
 }
 
-// Get image directly (for serving)
-export async function getImage(key: string): Promise<{ body: any; contentType: string }> {
+// Stream an image with range and conditional support (for serving).
+// Missing keys and bad ranges raise BlobNotFoundError and BlobRangeError.
+export async function getImageStream(key: string, options: BlobStreamOptions = {}): Promise<BlobStream> {
+  return getBlobStore().stream(key, options);
+}
+
+// Get image as a buffer (for re-analysis from storage)
+export async function getImageBuffer(key: string): Promise<{ buffer: Buffer; contentType: string; metadata: Record<string, string> }> {
   try {
-    const response = await s3Client.send(new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    }));
-
-    return {
-      body: response.Body,
-      contentType: response.ContentType || 'image/jpeg',
-    };
+    return await getBlobStore().get(key);
   } catch (error) {
     console.error('❌ Error fetching image:', error);
     throw new Error('Failed to fetch image');
@@ -118,11 +127,7 @@ export async function getImage(key: string): Promise<{ body: any; contentType: s
 // Delete image
 export async function deleteImage(key: string): Promise<void> {
   try {
-    await s3Client.send(new DeleteObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    }));
-
+    await getBlobStore().delete(key);
     console.log(`✅ Image deleted: ${key}`);
   } catch (error) {
     console.error('❌ Error deleting image:', error);
@@ -132,29 +137,10 @@ export async function deleteImage(key: string): Promise<void> {
 
 // Check if image exists
 export async function imageExists(key: string): Promise<boolean> {
-  try {
-    await s3Client.send(new HeadObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-    }));
-    return true;
-  } catch (error: any) {
-    if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
-      return false;
-    }
-    throw error;
-  }
+  return getBlobStore().exists(key);
 }
 
 // Health check
 export async function checkStorageHealth(): Promise<boolean> {
-  try {
-    await s3Client.send(new HeadBucketCommand({ Bucket: BUCKET_NAME }));
-    return true;
-  } catch (error) {
-    console.error('❌ Storage health check failed:', error);
-    return false;
-  }
+  return getBlobStore().healthCheck();
 }
-
-console.log('✅ MinIO storage client initialized');
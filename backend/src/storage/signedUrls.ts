@@ -0,0 +1,40 @@
+/**
+ * Signed Image URLs
+ * Time-limited links to the image route for viewers without a session
+ * October 2026
+ *
+ * Lives with storage rather than the image route so the local blob store can
+ * hand out the same links MinIO presigning would otherwise provide.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { env } from '../config/env.js';
+
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+function signature(key: string, expires: number): string {
+  return createHmac('sha256', env.SESSION_SECRET).update(`image:${key}:${expires}`).digest('hex');
+}
+
+/**
+ * Proxy URL for a storage key that works without a session until it expires.
+ * size/format can be appended - the signature covers the key only.
+ */
+export function signImageUrl(key: string, ttlSeconds: number = SIGNED_URL_TTL_SECONDS, now: number = Date.now()): string {
+  const expires = Math.floor(now / 1000) + ttlSeconds;
+  return `/api/${key}?expires=${expires}&sig=${signature(key, expires)}`;
+}
+
+export function verifyImageSignature(
+  key: string,
+  expires: string | undefined,
+  sig: string | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!expires || !sig || !/^\d+$/.test(expires) || !/^[0-9a-f]{64}$/.test(sig)) return false;
+
+  const expiresAt = Number(expires);
+  if (expiresAt * 1000 < now) return false;
+
+  return timingSafeEqual(Buffer.from(sig, 'hex'), Buffer.from(signature(key, expiresAt), 'hex'));
+}
@@ -14,9 +14,7 @@
  */
 
 import { GROUND_TRUTH_ITEMS, GroundTruthItem } from './groundTruth.js'
-import { s3Client, initializeBucket, getImageUrl } from '../storage/client.js'
-import { PutObjectCommand } from '@aws-sdk/client-s3'
-import { env } from '../config/env.js'
+import { getBlobStore, initializeBucket, getImageUrl } from '../storage/client.js'
 import { writeFileSync, mkdirSync, existsSync } from 'fs'
 import { join } from 'path'
 
@@ -324,18 +322,15 @@ async function uploadToMinIO(buffer: Buffer, mimeType: string, itemId: string):
     const extension = mimeType.includes('png') ? 'png' : 'jpg'
     const key = `test-images/${itemId}.${extension}`
 
-    // Upload directly using S3 client
-    await s3Client.send(new PutObjectCommand({
-      Bucket: env.MINIO_BUCKET_NAME,
-      Key: key,
-      Body: buffer,
-      ContentType: mimeType,
-      Metadata: {
+    // Upload directly to the blob store, outside the images/ layout
+    await getBlobStore().put(key, buffer, {
+      contentType: mimeType,
+      metadata: {
         itemId: itemId,
         uploadedAt: new Date().toISOString(),
         source: 'ground-truth-test-set'
       }
-    }))
+    })
 
     // Get presigned URL (valid for 7 days)
     const url = await getImageUrl(key, 7 * 24 * 60 * 60)
@@ -1,6 +1,10 @@
 #!/usr/bin/env npx tsx
 /**
  * Run VintageVision Evaluation Harness
+ *
+ * Record once against the live model, then replay offline:
+ *   VISION_RECORD_FIXTURES=true npx tsx src/testing/runEvaluation.ts smoke
+ *   VISION_PROVIDER=fixture VISION_FIXTURE_STRICT=true npx tsx src/testing/runEvaluation.ts smoke
  */
 
 import { runFullEvaluation, runSmokeTest, testSingleItem, formatReport } from './evaluationHarness.js'
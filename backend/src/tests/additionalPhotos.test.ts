@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { mergePhotoDelta, getCaptureStatus, CaptureRequest } from '../services/additionalPhotos.js';
+
+const analysis = {
+    name: 'Omega Seamaster',
+    maker: 'Omega',
+    modelNumber: null,
+    brand: null,
+    era: '1960s',
+    style: null,
+    periodStart: 1960,
+    periodEnd: 1969,
+    originRegion: null,
+    description: 'Steel automatic wristwatch',
+    historicalContext: 'Popular mid-century sports watch',
+    attributionNotes: null,
+    estimatedValueMin: 80000,
+    estimatedValueMax: 150000,
+    confidence: 0.6,
+    identificationConfidence: null,
+    makerConfidence: 0.7,
+    verificationTips: null,
+    redFlags: null,
+    authenticationConfidence: null,
+    authenticityRisk: null,
+    knownFakeIndicators: null,
+    expertReferralRecommended: null,
+    expertReferralReason: null,
+    authenticationAssessment: null,
+    evidenceFor: ['Dial signed Omega'],
+    evidenceAgainst: null,
+};
+
+describe('Follow-up Photo Merge', () => {
+    it('keeps valid changed fields and drops invalid or unchanged ones', () => {
+        const merge = mergePhotoDelta(analysis, {
+            confidence: 0.85,
+            maker: 'Omega',
+            makerConfidence: 4, // out of range
+            authenticityRisk: 'low',
+            visualMarkers: [{ id: 'x' }], // not mergeable
+        });
+
+        expect(merge.changes).toEqual({ confidence: 0.85, authenticityRisk: 'low' });
+    });
+
+    it('appends new evidence without duplicates and records the per-photo findings', () => {
+        const merge = mergePhotoDelta(analysis, {
+            evidenceFor: ['Dial signed Omega', 'Caseback reference 166.010'],
+            evidenceAgainst: ['Crown is a replacement'],
+        });
+
+        expect(merge.changes.evidenceFor).toEqual(['Dial signed Omega', 'Caseback reference 166.010']);
+        expect(merge.changes.evidenceAgainst).toEqual(['Crown is a replacement']);
+        expect(merge.findingsFor).toEqual(['Dial signed Omega', 'Caseback reference 166.010']);
+        expect(merge.findingsAgainst).toEqual(['Crown is a replacement']);
+    });
+
+    it('ignores a value change that would invert the range', () => {
+        const merge = mergePhotoDelta(analysis, { estimatedValueMin: 200000 });
+        expect(merge.changes).toEqual({});
+    });
+});
+
+describe('Suggested Capture Status', () => {
+    const captures: CaptureRequest[] = [
+        { role: 'marks', priority: 'required', label: 'Caseback', instruction: 'Photograph the caseback' },
+        { role: 'marks', priority: 'recommended', label: 'Movement', instruction: 'Open the caseback' },
+        { role: 'underside', priority: 'optional', label: 'Lugs', instruction: 'Show the lug ends' },
+    ];
+
+    it('matches labelled photos first, then untagged photos by role', () => {
+        const status = getCaptureStatus(captures, [
+            { id: 'p1', photoType: 'marks', captureLabel: null },
+            { id: 'p2', photoType: 'detail', captureLabel: 'Caseback' },
+        ]);
+
+        expect(status.map(s => [s.label, s.satisfied, s.photoId])).toEqual([
+            ['Caseback', true, 'p2'],
+            ['Movement', true, 'p1'],
+            ['Lugs', false, null],
+        ]);
+    });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import type { ItemAnalysis } from '../db/schema.js';
+
+vi.mock('../db/client.js', () => {
+    const mockDb = {
+        select: vi.fn().mockReturnThis(),
+        from: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        limit: vi.fn(),
+    };
+    return { db: mockDb };
+});
+
+import { db } from '../db/client.js';
+import {
+    canModifyAnalysis,
+    canViewAnalysis,
+    createClaimToken,
+    defaultVisibility,
+    getModifiableAnalysis,
+    getViewableAnalysis,
+    toViewerAnalysis,
+} from '../services/analysisAccess.js';
+import { AuthorizationError, NotFoundError } from '../middleware/error.js';
+
+const mockDb = db as unknown as { limit: Mock };
+
+function analysis(overrides: Partial<ItemAnalysis>): ItemAnalysis {
+    return {
+        id: 'analysis-1',
+        name: 'Sterling Teapot',
+        userId: 'owner',
+        visibility: 'private',
+        claimTokenHash: null,
+        askingPrice: 25000,
+        dealRating: 'good',
+        dealExplanation: 'Priced under recent sales',
+        profitPotentialMin: 10000,
+        profitPotentialMax: 20000,
+        ...overrides,
+    } as ItemAnalysis;
+}
+
+describe('Analysis Access Control', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('lets only the owner read private analyses', () => {
+        const owned = analysis({ visibility: 'private' });
+        expect(canViewAnalysis(owned, 'owner')).toBe(true);
+        expect(canViewAnalysis(owned, 'someone-else')).toBe(false);
+        expect(canViewAnalysis(owned, null)).toBe(false);
+
+        expect(canViewAnalysis(analysis({ visibility: 'unlisted' }), null)).toBe(true);
+        expect(canViewAnalysis(analysis({ visibility: 'public' }), 'someone-else')).toBe(true);
+
+        // Ownerless rows from before ownership was recorded stay private
+        expect(canViewAnalysis(analysis({ userId: null, visibility: 'private' }), 'anyone')).toBe(false);
+
+        expect(defaultVisibility('owner')).toBe('private');
+        expect(defaultVisibility(null)).toBe('unlisted');
+    });
+
+    it('lets only the owner modify an owned analysis', () => {
+        expect(canModifyAnalysis(analysis({}), 'owner')).toBe(true);
+        expect(canModifyAnalysis(analysis({}), 'someone-else')).toBe(false);
+    });
+
+    it('lets only the creator holding the claim token modify an anonymous analysis', () => {
+        const { token, hash } = createClaimToken();
+        const anonymous = analysis({ userId: null, visibility: 'unlisted', claimTokenHash: hash });
+
+        expect(canModifyAnalysis(anonymous, 'someone-else', token)).toBe(true);
+        expect(canModifyAnalysis(anonymous, null, token)).toBe(true);
+        // The link alone isn't enough
+        expect(canModifyAnalysis(anonymous, 'someone-else')).toBe(false);
+        expect(canModifyAnalysis(anonymous, null, createClaimToken().token)).toBe(false);
+        // Once claimed, the token no longer counts
+        expect(canModifyAnalysis({ ...anonymous, userId: 'owner' }, null, token)).toBe(false);
+    });
+
+    it('reports unreadable analyses as not found', async () => {
+        mockDb.limit.mockResolvedValueOnce([analysis({ visibility: 'private' })]);
+        await expect(getViewableAnalysis('analysis-1', 'someone-else')).rejects.toBeInstanceOf(NotFoundError);
+
+        mockDb.limit.mockResolvedValueOnce([]);
+        await expect(getViewableAnalysis('missing', 'owner')).rejects.toBeInstanceOf(NotFoundError);
+
+        // Readable but not the caller's to change
+        mockDb.limit.mockResolvedValueOnce([analysis({ visibility: 'public' })]);
+        await expect(getModifiableAnalysis('analysis-1', 'someone-else')).rejects.toBeInstanceOf(AuthorizationError);
+    });
+
+    it('hides deal data from other viewers', () => {
+        const shared = analysis({ visibility: 'public' });
+
+        expect(toViewerAnalysis(shared, 'owner')).toMatchObject({ askingPrice: 25000, dealRating: 'good' });
+
+        const viewed = toViewerAnalysis(shared, 'someone-else');
+        expect(viewed).toMatchObject({ id: 'analysis-1', name: 'Sterling Teapot', visibility: 'public' });
+        for (const field of ['userId', 'askingPrice', 'dealRating', 'dealExplanation', 'profitPotentialMin', 'profitPotentialMax']) {
+            expect(viewed).not.toHaveProperty(field);
+        }
+    });
+
+    it('hides deal data of anonymous analyses from link holders', () => {
+        const { token, hash } = createClaimToken();
+        const anonymous = analysis({ userId: null, visibility: 'unlisted', claimTokenHash: hash });
+
+        expect(toViewerAnalysis(anonymous, null)).not.toHaveProperty('askingPrice');
+        expect(toViewerAnalysis(anonymous, null, token)).toMatchObject({ askingPrice: 25000 });
+        expect(toViewerAnalysis(anonymous, null, token)).not.toHaveProperty('claimTokenHash');
+    });
+});
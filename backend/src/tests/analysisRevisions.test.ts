@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { diffSnapshots, RevisionSnapshot } from '../services/analysisRevisions.js';
+
+const base: RevisionSnapshot = {
+    name: 'Victorian Mantel Clock',
+    maker: null,
+    estimatedValueMin: 20000,
+    estimatedValueMax: 40000,
+    confidence: 0.55,
+    evidenceFor: ['Slate case typical of 1880s'],
+    authenticityRisk: 'medium',
+};
+
+describe('Analysis Revision Diffs', () => {
+    it('reports only changed fields, grouped, in tracked-field order', () => {
+        const changes = diffSnapshots(base, {
+            ...base,
+            confidence: 0.82,
+            maker: 'Japy Frères',
+            estimatedValueMax: 60000,
+        });
+
+        expect(changes.map(c => [c.field, c.group])).toEqual([
+            ['maker', 'identification'],
+            ['estimatedValueMax', 'valuation'],
+            ['confidence', 'confidence'],
+        ]);
+        expect(changes[0]).toMatchObject({ before: null, after: 'Japy Frères' });
+    });
+
+    it('lists added and removed entries for list fields', () => {
+        const [change] = diffSnapshots(base, {
+            ...base,
+            evidenceFor: ['Movement stamped Japy Frères'],
+        });
+
+        expect(change.field).toBe('evidenceFor');
+        expect(change.added).toEqual(['Movement stamped Japy Frères']);
+        expect(change.removed).toEqual(['Slate case typical of 1880s']);
+    });
+
+    it('treats missing and null as the same value', () => {
+        const { maker: _maker, ...withoutMaker } = base;
+        expect(diffSnapshots(base, withoutMaker)).toEqual([]);
+    });
+});
@@ -27,6 +27,7 @@ vi.mock('../db/client.js', () => {
     const mockDb = {
         insert: vi.fn().mockReturnThis(),
         values: vi.fn().mockReturnThis(),
+        onConflictDoUpdate: vi.fn().mockReturnThis(),
         returning: vi.fn().mockResolvedValue([{
             id: 'test-id',
             name: 'Test Antique',
@@ -12,4 +12,10 @@ describe('Auth Routes', () => {
         const res = await app.request('/api/auth/me');
         expect(res.status).toBe(401);
     });
+
+    it('GET /api/analyze/batch should require sign-in rather than look up an analysis', async () => {
+        const res = await app.request('/api/analyze/batch');
+        expect(res.status).toBe(401);
+        expect(res.headers.get('RateLimit-Limit')).toBe('10');
+    });
 });
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+
+vi.mock('../db/client.js', () => {
+    // Every awaited query resolves to the next queued result, in call order
+    const results: unknown[][] = [];
+    const chain: Record<string, unknown> = { results };
+    for (const method of ['select', 'from', 'where', 'orderBy', 'limit', 'for', 'leftJoin', 'insert', 'values', 'update', 'set', 'returning']) {
+        chain[method] = vi.fn(() => chain);
+    }
+    chain.then = (resolve: (rows: unknown[]) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve(results.shift() ?? []).then(resolve, reject);
+    return { db: chain };
+});
+
+vi.mock('../services/session.js', () => ({ getRedisClient: () => null }));
+vi.mock('../storage/client.js', () => ({ getImageBuffer: vi.fn() }));
+vi.mock('../services/openai.js', () => ({ analyzeAntiqueImage: vi.fn() }));
+vi.mock('../services/analysisPersistence.js', () => ({ saveAnalysis: vi.fn() }));
+vi.mock('../services/entitlements.js', () => ({
+    consumeUsage: vi.fn(),
+    refundUsage: vi.fn(),
+    getEntitlements: vi.fn(),
+    countCollectionItems: vi.fn(),
+}));
+vi.mock('../services/usageLedger.js', () => ({
+    createUsageContext: vi.fn(() => ({})),
+    withUsageContext: vi.fn((_context: unknown, fn: () => unknown) => fn()),
+    attachUsageToAnalysis: vi.fn(),
+}));
+
+import { db } from '../db/client.js';
+import { getImageBuffer } from '../storage/client.js';
+import { analyzeAntiqueImage } from '../services/openai.js';
+import { saveAnalysis } from '../services/analysisPersistence.js';
+import { refundUsage } from '../services/entitlements.js';
+import { csvField, startBatchWorker, stopBatchWorker } from '../services/batchAnalysis.js';
+
+const mockDb = db as unknown as { results: unknown[][]; set: Mock };
+
+const job = {
+    id: 'job-1',
+    userId: 'user-1',
+    name: 'Henderson estate sale',
+    status: 'running',
+    totalItems: 2,
+    completedItems: 0,
+    failedItems: 0,
+};
+
+function claimedItem(attempts: number) {
+    return {
+        id: 'item-1',
+        jobId: 'job-1',
+        position: 1,
+        label: 'lot-1.jpg',
+        imageKey: 'images/lot-1.jpg',
+        status: 'processing',
+        attempts,
+        lastError: null,
+        itemAnalysisId: null,
+        nextAttemptAt: new Date(),
+        startedAt: new Date(),
+        completedAt: null,
+    };
+}
+
+/**
+ * Start the worker against queued query results and wait for it to drain them
+ */
+async function runWorker(...results: unknown[][]) {
+    mockDb.results.push(...results);
+    await startBatchWorker();
+    await vi.waitFor(() => expect(mockDb.results).toHaveLength(0));
+    // Let the follow-up poll after the item finishes settle before stopping
+    await new Promise(resolve => setTimeout(resolve, 10));
+    stopBatchWorker();
+}
+
+describe('Batch Analysis', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockDb.results.length = 0;
+    });
+
+    afterEach(() => {
+        stopBatchWorker();
+    });
+
+    it('neutralizes formulas in CSV cells', () => {
+        expect(csvField('=HYPERLINK("http://evil.example","Click")')).toBe(`"'=HYPERLINK(""http://evil.example"",""Click"")"`);
+        expect(csvField('+1 555 0100')).toBe("'+1 555 0100");
+        expect(csvField('-2+3')).toBe("'-2+3");
+        expect(csvField('@SUM(A1:A9)')).toBe("'@SUM(A1:A9)");
+
+        expect(csvField('Georgian silver teapot, c. 1790')).toBe('"Georgian silver teapot, c. 1790"');
+        expect(csvField(1200)).toBe('1200');
+        expect(csvField(null)).toBe('');
+    });
+
+    it('puts a failed item back in the queue with backoff', async () => {
+        (getImageBuffer as Mock).mockRejectedValue(new Error('storage unavailable'));
+        const before = Date.now();
+
+        await runWorker(
+            [], // stale sweep: nothing out of attempts
+            [], // stale sweep: nothing left from cancelled jobs
+            [], // stale sweep: nothing to re-queue
+            [claimedItem(1)], // claim
+            [job],
+            [{ ...claimedItem(1), status: 'pending', lastError: 'storage unavailable' }],
+            [], // completeJobIfDone
+            [job],
+        );
+
+        const requeue = mockDb.set.mock.calls.map(([values]) => values).find(values => values.status === 'pending' && values.lastError);
+        expect(requeue).toMatchObject({ status: 'pending', lastError: 'storage unavailable' });
+        expect(requeue.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 15_000);
+        expect(refundUsage).not.toHaveBeenCalled();
+    });
+
+    it('fails an item after its last attempt and refunds its quota', async () => {
+        (getImageBuffer as Mock).mockRejectedValue(new Error('storage unavailable'));
+
+        await runWorker(
+            [],
+            [],
+            [],
+            [claimedItem(3)],
+            [job],
+            [{ ...claimedItem(3), status: 'failed', lastError: 'storage unavailable' }],
+            [], // failedItems + 1
+            [],
+            [{ ...job, failedItems: 1 }],
+        );
+
+        const updates = mockDb.set.mock.calls.map(([values]) => values);
+        expect(updates).toContainEqual(expect.objectContaining({ status: 'failed', lastError: 'storage unavailable' }));
+        expect(updates).toContainEqual(expect.objectContaining({ failedItems: expect.anything() }));
+        expect(refundUsage).toHaveBeenCalledWith('user-1', 'analyses');
+    });
+
+    it('fails stale items that are out of attempts instead of re-queueing them', async () => {
+        const stuck = { ...claimedItem(3), status: 'failed', lastError: 'Analysis did not finish' };
+
+        await runWorker(
+            [stuck], // stale sweep: out of attempts
+            [{ id: 'job-1', userId: 'user-1' }],
+            [], // failedItems + 1
+            [], // completeJobIfDone
+            [{ ...job, failedItems: 1 }],
+            [], // stale sweep: nothing left from cancelled jobs
+            [], // stale sweep: nothing left to re-queue
+        );
+
+        const updates = mockDb.set.mock.calls.map(([values]) => values);
+        expect(updates[0]).toMatchObject({ status: 'failed', lastError: 'Analysis did not finish' });
+        expect(updates).toContainEqual(expect.objectContaining({ failedItems: expect.anything() }));
+        expect(refundUsage).toHaveBeenCalledWith('user-1', 'analyses', 1);
+    });
+
+    it('cancels and refunds a failed item of a job cancelled while it ran', async () => {
+        (getImageBuffer as Mock).mockRejectedValue(new Error('storage unavailable'));
+
+        await runWorker(
+            [],
+            [],
+            [],
+            [claimedItem(1)],
+            [job],
+            [], // not re-queued: the job is no longer active
+            [{ ...claimedItem(1), status: 'cancelled', lastError: 'storage unavailable' }],
+        );
+
+        const updates = mockDb.set.mock.calls.map(([values]) => values);
+        expect(updates).toContainEqual(expect.objectContaining({ status: 'cancelled', lastError: 'storage unavailable' }));
+        expect(updates).not.toContainEqual(expect.objectContaining({ failedItems: expect.anything() }));
+        expect(refundUsage).toHaveBeenCalledWith('user-1', 'analyses');
+    });
+
+    it('cancels and refunds stale items of cancelled jobs instead of re-queueing them', async () => {
+        const orphaned = { ...claimedItem(1), status: 'cancelled' };
+
+        await runWorker(
+            [],
+            [orphaned], // stale sweep: left from a cancelled job
+            [{ id: 'job-1', userId: 'user-1' }],
+            [], // stale sweep: nothing left to re-queue
+        );
+
+        const updates = mockDb.set.mock.calls.map(([values]) => values);
+        expect(updates[1]).toMatchObject({ status: 'cancelled' });
+        expect(updates).not.toContainEqual(expect.objectContaining({ failedItems: expect.anything() }));
+        expect(refundUsage).toHaveBeenCalledWith('user-1', 'analyses', 1);
+    });
+
+    it('keeps the newer attempt when the stale sweep re-queued a running item', async () => {
+        (getImageBuffer as Mock).mockResolvedValue({ buffer: Buffer.from('image'), contentType: 'image/jpeg', metadata: {} });
+        (analyzeAntiqueImage as Mock).mockResolvedValue({ name: 'Sterling Teapot', domainExpert: 'silver' });
+        (saveAnalysis as Mock).mockResolvedValue({ savedAnalysis: { id: 'analysis-1', name: 'Sterling Teapot' } });
+
+        await runWorker(
+            [],
+            [],
+            [],
+            [claimedItem(1)],
+            [job],
+            [{ tier: 'collector' }],
+            [], // the completion matched no row still claimed by this attempt
+        );
+
+        const updates = mockDb.set.mock.calls.map(([values]) => values);
+        expect(updates).toContainEqual(expect.objectContaining({ status: 'completed', itemAnalysisId: 'analysis-1' }));
+        expect(updates).not.toContainEqual(expect.objectContaining({ completedItems: expect.anything() }));
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { BlobNotFoundError, BlobRangeError, BlobStore, LocalBlobStore, S3BlobStore } from '../storage/blobStore.js';
+
+async function readAll(body: ReadableStream | null): Promise<string> {
+    return Buffer.from(await new Response(body).arrayBuffer()).toString();
+}
+
+/**
+ * The same behaviour is expected of every driver. The S3 driver runs when
+ * TEST_MINIO_ENDPOINT points at a MinIO (or other S3-compatible) server.
+ */
+function conformance(name: string, createStore: () => BlobStore, options: { skip?: boolean; cleanup?: () => void } = {}) {
+    describe.skipIf(!!options.skip)(`Blob Store conformance: ${name}`, () => {
+        let store: BlobStore;
+        const prefix = `conformance/${randomUUID()}/`;
+        const key = `${prefix}item/original.jpg`;
+
+        beforeAll(async () => {
+            store = createStore();
+            await store.initialize();
+            await store.put(key, Buffer.from('0123456789'), {
+                contentType: 'image/jpeg',
+                metadata: { 'content-hash': 'abc', uploadedBy: 'user-1' },
+            });
+        });
+
+        afterAll(async () => {
+            for (const stored of await store.list(prefix)) {
+                await store.delete(stored);
+            }
+            options.cleanup?.();
+        });
+
+        it('round-trips bytes, content type and lowercased metadata', async () => {
+            const blob = await store.get(key);
+            expect(blob.buffer.toString()).toBe('0123456789');
+            expect(blob.contentType).toBe('image/jpeg');
+            expect(blob.metadata).toEqual({ 'content-hash': 'abc', uploadedby: 'user-1' });
+            expect(await store.healthCheck()).toBe(true);
+        });
+
+        it('streams whole objects, byte ranges and not-modified responses', async () => {
+            const whole = await store.stream(key);
+            expect(whole).toMatchObject({ status: 200, contentType: 'image/jpeg', contentLength: 10 });
+            expect(whole.etag).toMatch(/^"[0-9a-f]{32}"$/);
+            expect(await readAll(whole.body)).toBe('0123456789');
+
+            const range = await store.stream(key, { range: 'bytes=2-5' });
+            expect(range).toMatchObject({ status: 206, contentLength: 4, contentRange: 'bytes 2-5/10' });
+            expect(await readAll(range.body)).toBe('2345');
+
+            const suffix = await store.stream(key, { range: 'bytes=-3' });
+            expect(suffix).toMatchObject({ status: 206, contentRange: 'bytes 7-9/10' });
+            expect(await readAll(suffix.body)).toBe('789');
+
+            await expect(store.stream(key, { range: 'bytes=20-' })).rejects.toBeInstanceOf(BlobRangeError);
+
+            const cached = await store.stream(key, { ifNoneMatch: whole.etag });
+            expect(cached).toMatchObject({ status: 304, body: null });
+        });
+
+        it('treats missing keys alike', async () => {
+            const missing = `${prefix}missing.jpg`;
+            expect(await store.exists(key)).toBe(true);
+            expect(await store.exists(missing)).toBe(false);
+            await expect(store.get(missing)).rejects.toBeInstanceOf(BlobNotFoundError);
+            await expect(store.stream(missing)).rejects.toBeInstanceOf(BlobNotFoundError);
+            await expect(store.delete(missing)).resolves.toBeUndefined();
+        });
+
+        it('lists by prefix and forgets deleted keys', async () => {
+            const other = `${prefix}item/thumb.jpg`;
+            await store.put(other, Buffer.from('thumb'), { contentType: 'image/jpeg' });
+            await store.put(`${prefix}items.json`, Buffer.from('{}'), { contentType: 'application/json' });
+
+            expect(await store.list(`${prefix}item/`)).toEqual([key, other]);
+            expect(await store.list(`${prefix}item`)).toEqual([key, other, `${prefix}items.json`]);
+
+            await store.delete(other);
+            expect(await store.exists(other)).toBe(false);
+            expect(await store.list(`${prefix}item/`)).toEqual([key]);
+        });
+
+        it('presigns a URL for the key', async () => {
+            const url = await store.presign(key, 600);
+            expect(url).toMatch(/^https?:\/\//);
+            expect(decodeURIComponent(url)).toContain(key);
+        });
+    });
+}
+
+const localRoot = mkdtempSync(join(tmpdir(), 'blob-store-'));
+
+conformance('local', () => new LocalBlobStore({
+    root: localRoot,
+    presign: (key, expiresIn) => `http://localhost:3000/api/${key}?expires=${expiresIn}`,
+}), { cleanup: () => rmSync(localRoot, { recursive: true, force: true }) });
+
+conformance('s3', () => new S3BlobStore({
+    endpoint: process.env.TEST_MINIO_ENDPOINT!,
+    accessKeyId: process.env.TEST_MINIO_ACCESS_KEY ?? 'minioadmin',
+    secretAccessKey: process.env.TEST_MINIO_SECRET_KEY ?? 'minioadmin',
+    bucket: process.env.TEST_MINIO_BUCKET ?? 'vintagevision-test',
+}), { skip: !process.env.TEST_MINIO_ENDPOINT });
+
+describe('Local Blob Store', () => {
+    it('refuses keys that would leave its directory', async () => {
+        const store = new LocalBlobStore({ root: join(tmpdir(), 'blob-store-unused') });
+        for (const key of ['../outside.jpg', 'images/../../outside.jpg', '/etc/passwd', 'images//x.jpg', '']) {
+            await expect(store.put(key, Buffer.from('x'), { contentType: 'image/jpeg' })).rejects.toThrow('Invalid blob key');
+        }
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+
+vi.mock('../db/client.js', () => {
+    // Every awaited query resolves to the next queued result, in call order
+    const results: unknown[][] = [];
+    const chain: Record<string, unknown> = { results };
+    for (const method of ['select', 'from', 'innerJoin', 'where', 'orderBy', 'limit', 'for', 'insert', 'values', 'update', 'set', 'returning']) {
+        chain[method] = vi.fn(() => chain);
+    }
+    chain.then = (resolve: (rows: unknown[]) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve(results.shift() ?? []).then(resolve, reject);
+    return { db: chain };
+});
+
+vi.mock('../services/marketData.js', () => ({ getMarketIntelligence: vi.fn() }));
+
+import { db } from '../db/client.js';
+import { getMarketIntelligence } from '../services/marketData.js';
+import { reappraiseStaleItems } from '../services/collectionValuation.js';
+
+const mockDb = db as unknown as { results: unknown[][]; select: Mock; set: Mock; values: Mock };
+
+function staleRow(id: string) {
+    return {
+        item: { id, userId: 'user-1' },
+        analysis: { name: 'Sterling Teapot', maker: 'Gorham', era: 'Victorian', estimatedValueMin: 40000, estimatedValueMax: 60000, confidence: 0.7 },
+    };
+}
+
+describe('Collection Valuation', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockDb.results.length = 0;
+    });
+
+    it('claims stale items before re-appraising them', async () => {
+        mockDb.results.push([]); // another scheduler holds every stale item
+
+        expect(await reappraiseStaleItems()).toEqual({ reappraised: 0, failed: 0 });
+
+        const claim = mockDb.set.mock.calls[0][0];
+        expect(claim.valuationClaimedUntil.getTime()).toBeGreaterThan(Date.now());
+        // Only the claiming update ran - nothing was loaded or appraised
+        expect(getMarketIntelligence).not.toHaveBeenCalled();
+        expect(mockDb.values).not.toHaveBeenCalled();
+    });
+
+    it('values claimed items from sold comparables, or carries the estimate forward', async () => {
+        (getMarketIntelligence as Mock)
+            .mockResolvedValueOnce({ dataProvenance: 'real', priceRange: { low: 45000, high: 70000 }, dataConfidence: 0.8, recentSales: [{}, {}, {}] })
+            .mockResolvedValueOnce({ dataProvenance: 'estimated', priceRange: { low: 0, high: 0 }, dataConfidence: 0.2, recentSales: [] });
+        mockDb.results.push(
+            [{ id: 'item-1' }, { id: 'item-2' }], // claimed
+            [staleRow('item-1'), staleRow('item-2')],
+            [{ id: 'snapshot-1' }],
+            [{ id: 'snapshot-2' }],
+        );
+
+        expect(await reappraiseStaleItems()).toEqual({ reappraised: 2, failed: 0 });
+
+        expect(mockDb.values.mock.calls[0][0]).toMatchObject({
+            collectionItemId: 'item-1',
+            estimatedValueMin: 45000,
+            estimatedValueMax: 70000,
+            source: 'market',
+            sampleSize: 3,
+        });
+        expect(mockDb.values.mock.calls[1][0]).toMatchObject({
+            collectionItemId: 'item-2',
+            estimatedValueMin: 40000,
+            estimatedValueMax: 60000,
+            source: 'analysis',
+        });
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { detectRegulatedMaterials, evaluateCompliance, filterResaleChannels } from '../services/compliance.js';
+import { generateMarketplaceLinks } from '../services/openai.js';
+
+describe('Protected Materials Compliance', () => {
+    it('detects named materials and ignores colours, glazes and substitutes', () => {
+        expect(detectRegulatedMaterials({
+            name: 'Victorian Card Case',
+            description: 'Card case veneered in tortoiseshell with silver piqué. Possibly ivory hinges.',
+        })).toEqual([
+            { material: 'ivory', likelihood: 'possible', evidence: 'Possibly ivory hinges.' },
+            { material: 'tortoiseshell', likelihood: 'likely', evidence: 'Card case veneered in tortoiseshell with silver piqué.' },
+        ]);
+
+        expect(detectRegulatedMaterials({
+            name: 'Whieldon Tortoiseshell Plate',
+            description: 'Creamware with tortoiseshell glaze on an ivory ground. French ivory dresser set. Rosewood-grained finish.',
+        })).toEqual([]);
+    });
+
+    it('picks the rule for the jurisdiction and the latest year the item could be', () => {
+        const netsuke = { name: 'Ivory Netsuke of a Rat', description: 'Carved elephant ivory, signed.', periodStart: 1880, periodEnd: 1900 };
+        expect(evaluateCompliance(netsuke).warnings[0]).toMatchObject({ jurisdiction: 'US', status: 'requires_documentation' });
+        expect(evaluateCompliance({ ...netsuke, periodEnd: 1950 }, 'UK').warnings[0].status).toBe('prohibited');
+
+        // Unknown age gets the strictest rule
+        const undated = evaluateCompliance({ name: 'Ivory Figure', description: 'Carved ivory figure of a sage.' });
+        expect(undated).toMatchObject({ saleProhibited: true });
+        expect(undated.warnings[0].status).toBe('prohibited');
+    });
+
+    it('drops marketplaces that ban likely materials from channels and links', () => {
+        const compliance = evaluateCompliance({
+            name: 'Georgian Tortoiseshell Tea Caddy',
+            description: 'Tortoiseshell veneered tea caddy with ivory stringing.',
+            periodStart: 1800,
+            periodEnd: 1820,
+        });
+
+        expect(compliance.saleProhibited).toBe(false);
+        expect(filterResaleChannels(['eBay', 'Local antique dealer', '1stDibs', 'Specialist auction house'], compliance))
+            .toEqual(['Local antique dealer', 'Specialist auction house']);
+        expect(generateMarketplaceLinks('Tea Caddy', undefined, undefined, undefined, null, null, 'furniture', compliance)).toEqual([]);
+
+        // A guess warns but keeps the channels
+        const guess = evaluateCompliance({ name: 'Letter Opener', description: 'Bone or ivory blade.', periodEnd: 1900 });
+        expect(guess.warnings[0].likelihood).toBe('possible');
+        expect(filterResaleChannels(['eBay', 'Etsy'], guess)).toEqual(['eBay', 'Etsy']);
+    });
+});
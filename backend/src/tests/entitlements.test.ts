@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import { Hono } from 'hono';
+
+vi.mock('../db/client.js', () => {
+    const mockDb = {
+        insert: vi.fn().mockReturnThis(),
+        values: vi.fn().mockReturnThis(),
+        onConflictDoUpdate: vi.fn().mockReturnThis(),
+        returning: vi.fn(),
+    };
+    return { db: mockDb };
+});
+
+import { db } from '../db/client.js';
+import { getClientIp, requireEntitlement, type AuthUser } from '../middleware/auth.js';
+import { consumeUsage, usageSubject } from '../services/entitlements.js';
+import { QuotaExceededError } from '../middleware/error.js';
+
+const mockDb = db as unknown as { insert: Mock; returning: Mock };
+
+describe('Entitlements', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('keys anonymous usage on the address the trusted proxy saw', async () => {
+        const app = new Hono();
+        app.get('/ip', c => c.json({ ip: getClientIp(c), subject: usageSubject(null, getClientIp(c)) }));
+
+        // One trusted hop: the last entry is the one our proxy appended
+        const proxied = await app.request('/ip', { headers: { 'x-forwarded-for': '203.0.113.9' } });
+        expect(await proxied.json()).toEqual({ ip: '203.0.113.9', subject: 'ip:203.0.113.9' });
+
+        // Entries the client sent itself are ignored, so rotating them doesn't reset quota
+        const spoofed = await app.request('/ip', { headers: { 'x-forwarded-for': '198.51.100.1, 203.0.113.9' } });
+        expect(await spoofed.json()).toMatchObject({ ip: '203.0.113.9' });
+
+        // No forwarded chain and no socket
+        const direct = await app.request('/ip');
+        expect(await direct.json()).toEqual({ ip: null, subject: 'ip:unknown' });
+    });
+
+    it('blocks features the plan does not include', async () => {
+        const app = new Hono<{ Variables: { user: Partial<AuthUser> } }>();
+        app.use('*', async (c, next) => {
+            c.set('user', { id: 'user-1', subscriptionTier: c.req.header('x-tier') });
+            await next();
+        });
+        app.post('/consensus', requireEntitlement('consensusAnalysis'), c => c.json({ success: true }));
+
+        const free = await app.request('/consensus', { method: 'POST', headers: { 'x-tier': 'free' } });
+        expect(free.status).toBe(403);
+        expect(await free.json()).toMatchObject({ success: false, feature: 'consensusAnalysis' });
+
+        // Unknown tiers are treated as free
+        const unknown = await app.request('/consensus', { method: 'POST', headers: { 'x-tier': 'enterprise' } });
+        expect(unknown.status).toBe(403);
+
+        const collector = await app.request('/consensus', { method: 'POST', headers: { 'x-tier': 'collector' } });
+        expect(collector.status).toBe(200);
+    });
+
+    it('only reserves quota that fits under the monthly limit', async () => {
+        mockDb.returning.mockResolvedValueOnce([{ count: 3 }]);
+        await expect(consumeUsage('user-1', 'free', 'analyses')).resolves.toBeUndefined();
+
+        // The conditional upsert wrote nothing: the counter is already at the limit
+        mockDb.returning.mockResolvedValueOnce([]);
+        await expect(consumeUsage('user-1', 'free', 'analyses')).rejects.toBeInstanceOf(QuotaExceededError);
+
+        // More than the whole allowance is rejected without touching the counter
+        mockDb.insert.mockClear();
+        await expect(consumeUsage('user-1', 'free', 'consensus_runs')).rejects.toBeInstanceOf(QuotaExceededError);
+        expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+});
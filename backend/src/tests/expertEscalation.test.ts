@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import type { ExpertCorrection, ExpertFeedback } from '../services/expertEscalation.js';
+
+vi.mock('../db/client.js', () => {
+    const mockDb: Record<string, Mock> = {
+        select: vi.fn().mockReturnThis(),
+        from: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        limit: vi.fn(),
+        insert: vi.fn().mockReturnThis(),
+        values: vi.fn().mockReturnThis(),
+        update: vi.fn().mockReturnThis(),
+        set: vi.fn().mockReturnThis(),
+        returning: vi.fn(),
+    };
+    // The transaction runs against the same chain
+    mockDb.transaction = vi.fn(async (fn: (tx: unknown) => unknown) => fn(mockDb));
+    return { db: mockDb };
+});
+
+vi.mock('../services/selfLearning.js', () => ({
+    recordExpertCorrection: vi.fn(),
+    learningOriginalFromRecord: vi.fn(() => ({})),
+}));
+vi.mock('../services/collectionValuation.js', () => ({ recordExpertValuation: vi.fn() }));
+vi.mock('../services/analysisRevisions.js', () => ({ recordRevision: vi.fn() }));
+
+import { db } from '../db/client.js';
+import { processExpertFeedback } from '../services/expertEscalation.js';
+import { recordExpertCorrection } from '../services/selfLearning.js';
+import { recordExpertValuation } from '../services/collectionValuation.js';
+import { AuthorizationError, ConflictError, ValidationError } from '../middleware/error.js';
+
+const mockDb = db as unknown as Record<string, Mock>;
+
+const request = {
+    id: 'request-1',
+    itemAnalysisId: 'analysis-1',
+    assignedExpertId: 'expert-1',
+    status: 'in_review',
+    submittedAt: new Date('2026-10-01T00:00:00Z'),
+    assignedAt: new Date('2026-10-01T02:00:00Z'),
+};
+
+const analysis = {
+    id: 'analysis-1',
+    imageUrl: '/api/images/analysis-1',
+    maker: 'Gorham',
+    estimatedValueMin: 40000,
+    estimatedValueMax: 60000,
+};
+
+function correction(field: string, correctedValue: unknown): ExpertCorrection {
+    return { field, originalValue: null, correctedValue, explanation: 'Verified in hand', confidence: 0.9 };
+}
+
+function feedback(corrections: ExpertCorrection[], expertId: string = 'expert-1'): ExpertFeedback {
+    return {
+        requestId: 'request-1',
+        expertId,
+        corrections,
+        overallAssessment: 'Period piece, later finial',
+        confidenceLevel: 0.9,
+        authenticityVerified: true,
+        timestamp: '2026-10-02T12:00:00Z',
+    };
+}
+
+describe('Expert Feedback', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        // Drop lookups a test that failed early left unconsumed
+        mockDb.limit.mockReset();
+        mockDb.limit.mockResolvedValueOnce([request]).mockResolvedValueOnce([analysis]);
+        mockDb.returning.mockResolvedValue([{ ...analysis, maker: 'Whiting' }]);
+    });
+
+    it('writes corrections back to the analysis, its value history and self-learning', async () => {
+        const result = await processExpertFeedback(feedback([
+            correction('maker', '  Whiting '),
+            correction('value', { min: 30000.4, max: 45000 }),
+            correction('condition', 'Light wear'), // no column - learning only
+        ]));
+
+        expect(result).toEqual({ success: true, learningUpdated: true, corrections: 3 });
+
+        expect(mockDb.set.mock.calls[0][0]).toMatchObject({ status: 'completed' });
+        const analysisUpdate = mockDb.set.mock.calls[1][0];
+        expect(analysisUpdate).toMatchObject({
+            maker: 'Whiting',
+            estimatedValueMin: 30000,
+            estimatedValueMax: 45000,
+            authenticationAssessment: 'Period piece, later finial',
+            expertReferralRecommended: false,
+        });
+        expect(analysisUpdate).not.toHaveProperty('condition');
+
+        expect(recordExpertValuation).toHaveBeenCalledWith('analysis-1', { min: 30000, max: 45000 }, 0.9);
+        expect(recordExpertCorrection).toHaveBeenCalledTimes(3);
+        // Ranges are learned as their midpoint
+        expect((recordExpertCorrection as Mock).mock.calls[1][4]).toBe(37500.2);
+    });
+
+    it.each([
+        ['a year that is not a number', correction('periodStart', '1880s')],
+        ['a negative value', correction('value', -100)],
+        ['an inverted range', correction('value', { min: 500, max: 100 })],
+        ['an unknown risk level', correction('authenticityRisk', 'certain')],
+        ['an empty name', correction('name', '   ')],
+    ])('rejects %s before writing anything', async (_label, bad) => {
+        await expect(processExpertFeedback(feedback([correction('maker', 'Whiting'), bad])))
+            .rejects.toBeInstanceOf(ValidationError);
+        expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects a min above the max across separate corrections', async () => {
+        await expect(processExpertFeedback(feedback([
+            correction('estimatedValueMin', 90000),
+            correction('estimatedValueMax', 50000),
+        ]))).rejects.toBeInstanceOf(ValidationError);
+        expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+
+    it('only accepts answers from the assigned expert', async () => {
+        await expect(processExpertFeedback(feedback([correction('maker', 'Whiting')], 'expert-2')))
+            .rejects.toBeInstanceOf(AuthorizationError);
+        expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+
+    it('changes nothing when the request was completed or reassigned in the meantime', async () => {
+        mockDb.returning.mockResolvedValueOnce([]); // the completion matched no row
+
+        await expect(processExpertFeedback(feedback([correction('maker', 'Whiting')])))
+            .rejects.toBeInstanceOf(ConflictError);
+
+        expect(mockDb.insert).not.toHaveBeenCalled();
+        expect(mockDb.set).toHaveBeenCalledTimes(1);
+        expect(recordExpertCorrection).not.toHaveBeenCalled();
+        expect(recordExpertValuation).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+    KNOWLEDGE_KINDS,
+    changedKnowledgeFields,
+    getEnhancedDomainPrompt,
+    getMakerByName,
+    parseKnowledgeData,
+} from '../services/expertKnowledgeBase.js';
+import {
+    SEED_MAKER_MARKS,
+    SEED_IDENTIFICATION_PATTERNS,
+    SEED_AUTHENTICATION_CRITERIA,
+    SEED_VALUE_RANGES,
+    SEED_FAMOUS_ITEMS,
+    SEED_DOMAIN_PROMPTS,
+} from '../services/expertKnowledgeSeed.js';
+
+const seeds = {
+    maker_mark: SEED_MAKER_MARKS,
+    identification_pattern: SEED_IDENTIFICATION_PATTERNS,
+    authentication_criteria: SEED_AUTHENTICATION_CRITERIA,
+    value_range: SEED_VALUE_RANGES,
+    famous_item: SEED_FAMOUS_ITEMS,
+    domain_prompt: Object.entries(SEED_DOMAIN_PROMPTS).map(([domain, prompt]) => ({ domain, prompt })),
+};
+
+describe('Expert Knowledge Base', () => {
+    it('seeds every built-in entry under a unique key', () => {
+        for (const kind of KNOWLEDGE_KINDS) {
+            const keys = seeds[kind].map(data => parseKnowledgeData(kind, data).key);
+            expect(new Set(keys).size, kind).toBe(keys.length);
+        }
+    });
+
+    it('derives keys and categories and rejects invalid entries', () => {
+        const pattern = parseKnowledgeData('identification_pattern', {
+            ...SEED_IDENTIFICATION_PATTERNS[0],
+            category: ' Furniture ',
+        });
+        expect(pattern.key).toBe('furniture-eames-lounge-chair');
+        expect(pattern.category).toBe('furniture');
+
+        expect(() => parseKnowledgeData('maker_mark', { ...SEED_MAKER_MARKS[0], id: 'Not A Slug' }))
+            .toThrow(/id: IDs use lowercase/);
+        expect(() => parseKnowledgeData('value_range', {
+            category: 'watches',
+            itemType: 'Omega Speedmaster',
+            conditions: { excellent: { min: 5000, max: 4000, notes: '' } },
+        })).toThrow(/minimum must not exceed/);
+    });
+
+    it('reports changed top-level fields between versions', () => {
+        const before = SEED_MAKER_MARKS[0];
+        expect(changedKnowledgeFields(before, { ...before, notes: 'Updated', variations: [...before.variations, 'x'] }))
+            .toEqual(['variations', 'notes']);
+        expect(changedKnowledgeFields(before, { ...before })).toEqual([]);
+    });
+
+    it('serves built-in entries before the database is loaded', () => {
+        expect(getMakerByName('Gustav Stickley')?.id).toBe('furniture-stickley-gustav');
+        expect(getEnhancedDomainPrompt('watches')).toContain('WATCH EXPERTISE');
+        expect(getEnhancedDomainPrompt('unknown-domain')).toBe(SEED_DOMAIN_PROMPTS.furniture);
+    });
+});
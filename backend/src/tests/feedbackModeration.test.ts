@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../db/client.js', () => {
+    // Every awaited query resolves to the next queued result, in call order
+    const results: unknown[][] = [];
+    const chain: Record<string, unknown> = { results };
+    for (const method of ['select', 'from', 'leftJoin', 'where', 'orderBy', 'limit']) {
+        chain[method] = vi.fn(() => chain);
+    }
+    chain.then = (resolve: (rows: unknown[]) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve(results.shift() ?? []).then(resolve, reject);
+    return { db: chain };
+});
+
+import { db } from '../db/client.js';
+import { getFeedbackWeight } from '../services/feedbackModeration.js';
+
+const mockDb = db as unknown as { results: unknown[][] };
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+function submission(itemAnalysisId: string, analysisOwnerId: string | null, corrections: unknown[] | null = [{ field: 'maker', correctedValue: 'Whiting' }]) {
+    return { itemAnalysisId, corrections, createdAt: daysAgo(3), analysisOwnerId };
+}
+
+describe('Feedback Moderation', () => {
+    beforeEach(() => {
+        mockDb.results.length = 0;
+    });
+
+    it('earns no experience from feedback volume alone', async () => {
+        mockDb.results.push(
+            [
+                ...Array.from({ length: 5 }, (_, i) => submission(`own-${i}`, 'user-1')),
+                ...Array.from({ length: 5 }, (_, i) => submission(`praise-${i}`, 'someone-else', null)),
+            ],
+            [], // no other users corrected these analyses
+            [{ createdAt: daysAgo(90) }],
+        );
+
+        const result = await getFeedbackWeight('user-1');
+
+        expect(result.weight).toBe(0.5);
+        expect(result.history).toMatchObject({ priorFeedback: 10, confirmedCorrections: 0 });
+    });
+
+    it('counts corrections other users confirmed on analyses the submitter does not own', async () => {
+        mockDb.results.push(
+            [submission('a-1', 'someone-else'), submission('a-2', 'someone-else'), submission('own-1', 'user-1')],
+            [
+                { itemAnalysisId: 'a-1', corrections: [{ field: 'maker', correctedValue: 'whiting' }] },
+                { itemAnalysisId: 'a-2', corrections: [{ field: 'maker', correctedValue: 'Whiting Mfg' }] },
+                { itemAnalysisId: 'own-1', corrections: [{ field: 'maker', correctedValue: 'Whiting' }] },
+            ],
+            [{ createdAt: daysAgo(90) }],
+        );
+
+        const result = await getFeedbackWeight('user-1');
+
+        // a-2 disagreed, and agreeing on their own analysis raises the agreement rate but not experience
+        expect(result.history).toMatchObject({ confirmedCorrections: 1, comparableCorrections: 3 });
+        expect(result.weight).toBeCloseTo(0.53 * (0.5 + 2 / 3));
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { checkHallmarks, decodeHallmarks, parseHallmarkText } from '../services/hallmarks.js';
+import { SEED_AUTHENTICATION_CRITERIA } from '../services/expertKnowledgeSeed.js';
+
+const silverCriteria = SEED_AUTHENTICATION_CRITERIA.find(c => c.category === 'silver');
+
+describe('British Hallmark Decoder', () => {
+    it('reads office, standard, duty and date letter from transcribed marks', () => {
+        expect(parseHallmarkText(['Lion passant', "Leopard's head", "date letter 'b'", "Queen Victoria's head"])).toEqual({
+            office: 'london',
+            townMarks: ['london'],
+            standard: 'sterling',
+            dutyMark: 'victoria',
+            dateLetter: 'b',
+        });
+        expect(parseHallmarkText(['ANCHOR', 'B']).dateLetter).toBe('B');
+        expect(parseHallmarkText(['letters worn']).dateLetter).toBeUndefined();
+    });
+
+    it('gives one year per cycle and lets the duty mark pick between them', () => {
+        const open = decodeHallmarks({ office: 'london', dateLetter: 'b', standard: 'sterling' });
+        // Capital-B cycles stay in, ranked below, in case the case was misread
+        expect(open.candidates.filter(c => c.score === 1).map(c => c.year)).toEqual([1737, 1777, 1817, 1857, 1897, 1917, 1957, 2001]);
+        expect(open.candidates.find(c => c.year === 1877)).toMatchObject({ letter: 'B', score: 0.3 });
+        expect(open.yearRange).toEqual({ start: 1737, end: 2001 });
+
+        const victorian = decodeHallmarks({ office: 'london', dateLetter: 'b', dutyMark: 'victoria' });
+        expect(victorian.candidates[0]).toMatchObject({ year: 1857, yearLabel: '1857-58', letterStyle: 'old_english', cycle: '1856-1875', score: 1 });
+        expect(victorian.yearRange).toEqual({ start: 1857, end: 1857 });
+        expect(victorian.candidates.find(c => c.year === 1897)).toMatchObject({ score: 0.1, reasons: ['Duty mark was struck 1837-1890'] });
+    });
+
+    it('narrows by typeface when the user knows it and flags impossible combinations', () => {
+        const birmingham = decodeHallmarks({ office: 'birmingham', dateLetter: 'A', letterStyle: 'roman' });
+        expect(birmingham.candidates.filter(c => c.score === 1).map(c => c.year)).toEqual([1773, 1849, 1925]);
+        expect(birmingham.candidates.some(c => c.letterStyle === 'old_english' || c.letterStyle === 'italic')).toBe(false);
+
+        const chester = decodeHallmarks({ office: 'chester', dateLetter: 'v', letterStyle: 'roman' });
+        expect(chester.candidates).toEqual([]);
+        expect(chester.conflicts[0]).toMatch(/doesn't appear in any Chester cycle/);
+
+        const mixed = decodeHallmarks({ office: 'sheffield', dateLetter: 'C', dutyMark: 'victoria', commemorativeMark: 'jubilee_1977' });
+        expect(mixed.conflicts).toEqual(expect.arrayContaining([
+            expect.stringMatching(/duty mark .* commemorative mark/),
+            expect.stringMatching(/marks may be from different periods/),
+        ]));
+    });
+
+    it('feeds the silver hallmark checkpoint', () => {
+        const decoding = decodeHallmarks(parseHallmarkText(['lion passant', 'leopard', 'letter b', 'victoria head']));
+
+        const matching = checkHallmarks(decoding, silverCriteria, { start: 1850, end: 1870 });
+        expect(matching).toMatchObject({ checkpoint: 'Hallmarks', weight: 10, failed: [] });
+        expect(matching.passed).toHaveLength(2);
+
+        const outside = checkHallmarks(decoding, silverCriteria, { start: 1900, end: 1920 });
+        expect(outside.failed[0]).toMatch(/Date letter gives 1857, outside the attributed period 1900-1920/);
+    });
+});
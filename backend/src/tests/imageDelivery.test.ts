@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { imageAccessFor, imageCacheControl } from '../services/imageDelivery.js';
+import { signImageUrl, verifyImageSignature } from '../storage/signedUrls.js';
+import { imageOriginalKeys } from '../services/imageIngestion.js';
+
+const KEY = 'images/user-1/0f8fad5b-d9cb-469f-a165-70867728950e/original.jpg';
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+function signedParams(url: string) {
+    const params = new URL(url, 'http://localhost').searchParams;
+    return { expires: params.get('expires') ?? undefined, sig: params.get('sig') ?? undefined };
+}
+
+describe('Image Delivery', () => {
+    it('signs a key for a limited time and rejects tampering', () => {
+        const url = signImageUrl(KEY, 600, NOW);
+        expect(url.startsWith(`/api/${KEY}?expires=`)).toBe(true);
+
+        const { expires, sig } = signedParams(url);
+        expect(verifyImageSignature(KEY, expires, sig, NOW)).toBe(true);
+        expect(verifyImageSignature(KEY, expires, sig, NOW + 601 * 1000)).toBe(false);
+        expect(verifyImageSignature(KEY.replace('user-1', 'user-2'), expires, sig, NOW)).toBe(false);
+        expect(verifyImageSignature(KEY, String(Number(expires) + 3600), sig, NOW)).toBe(false);
+        expect(verifyImageSignature(KEY, expires, 'abc', NOW)).toBe(false);
+        expect(verifyImageSignature(KEY, undefined, undefined, NOW)).toBe(false);
+    });
+
+    it('lets derivatives find the analysis that records their original', () => {
+        const prefix = KEY.replace('/original.jpg', '');
+        expect(imageOriginalKeys(`${prefix}/thumb.webp`)).toEqual([
+            `${prefix}/original.jpg`, `${prefix}/original.png`, `${prefix}/original.webp`,
+        ]);
+        expect(imageOriginalKeys('images/user-1/legacy.jpg')).toEqual(['images/user-1/legacy.jpg']);
+    });
+
+    it('follows the visibility of the analyses that use the image', () => {
+        const privateOwned = { userId: 'user-1', visibility: 'private' };
+
+        expect(imageAccessFor([privateOwned], 'user-1')).toEqual({ allowed: true, scope: 'private' });
+        expect(imageAccessFor([privateOwned], 'user-2')).toEqual({ allowed: false });
+        expect(imageAccessFor([privateOwned], null)).toEqual({ allowed: false });
+        expect(imageAccessFor([{ userId: 'user-1', visibility: 'unlisted' }], null)).toEqual({ allowed: true, scope: 'private' });
+        expect(imageAccessFor([{ userId: null, visibility: 'unlisted' }], null)).toEqual({ allowed: true, scope: 'private' });
+        expect(imageAccessFor([privateOwned, { userId: 'user-1', visibility: 'public' }], null)).toEqual({ allowed: true, scope: 'public' });
+        expect(imageAccessFor([], 'user-1')).toEqual({ allowed: false });
+
+        // Shared caches must let go soon after an analysis is made private
+        expect(imageCacheControl('public')).toBe('public, max-age=300');
+        expect(imageCacheControl('private')).toMatch(/^private, /);
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import sharp from 'sharp';
+import zlib from 'zlib';
+
+vi.mock('../storage/client.js', () => ({
+    uploadImage: vi.fn(async (options: { key: string }) => options.key),
+}));
+
+import { uploadImage } from '../storage/client.js';
+import { fromStorageMetadata, imageVariantKey, ingestImage, sniffImageFormat } from '../services/imageIngestion.js';
+
+function ftyp(...brands: string[]): Buffer {
+    const [major, ...compatible] = brands;
+    const box = Buffer.alloc(16 + compatible.length * 4);
+    box.writeUInt32BE(box.length, 0);
+    box.write('ftyp', 4, 'ascii');
+    box.write(major, 8, 'ascii');
+    compatible.forEach((brand, i) => box.write(brand, 16 + i * 4, 'ascii'));
+    return box;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(zlib.crc32(body));
+    return Buffer.concat([length, body, crc]);
+}
+
+// A few hundred bytes on disk that claim to be width x height pixels
+function oversizedPng(width: number, height: number): Buffer {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 2; // RGB
+    return Buffer.concat([
+        Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', zlib.deflateSync(Buffer.alloc(16))),
+        pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+}
+
+describe('Image Ingestion', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('sniffs the real format from magic bytes', async () => {
+        const png = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#000' } }).png().toBuffer();
+        expect(sniffImageFormat(png)).toBe('png');
+        expect(sniffImageFormat(ftyp('heic', 'mif1', 'heic'))).toBe('heic');
+        expect(sniffImageFormat(ftyp('mif1', 'mif1', 'heic'))).toBe('heic');
+        expect(sniffImageFormat(ftyp('mif1', 'mif1', 'avif'))).toBe('avif');
+        expect(sniffImageFormat(ftyp('isom', 'isom', 'mp41'))).toBeNull();
+        expect(sniffImageFormat(Buffer.from('test'))).toBeNull();
+    });
+
+    it('orients, strips location and stores derivatives under one prefix', async () => {
+        // 400x200 landscape sensor data, flagged to display rotated 90 degrees, with GPS
+        const upload = await sharp({ create: { width: 400, height: 200, channels: 3, background: '#8b5a2b' } })
+            .jpeg()
+            .withMetadata({ orientation: 6 })
+            .withExifMerge({ IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '51/1 30/1 0/1' } })
+            .toBuffer();
+        expect((await sharp(upload).metadata()).exif).toBeDefined();
+
+        const image = await ingestImage({ buffer: upload, userId: 'user-1' });
+
+        expect(image).toMatchObject({ format: 'jpeg', contentType: 'image/jpeg', width: 200, height: 400 });
+        expect(image.contentHash).toMatch(/^[0-9a-f]{64}$/);
+        expect(image.key).toMatch(/^images\/user-1\/[0-9a-f-]{36}\/original\.jpg$/);
+
+        const stored = await sharp(image.buffer).metadata();
+        expect(stored.exif).toBeUndefined();
+        expect(stored.orientation).toBeUndefined();
+
+        const prefix = image.key.replace('/original.jpg', '');
+        expect(image.derivativeKeys).toEqual([
+            `${prefix}/thumb.jpg`, `${prefix}/thumb.webp`, `${prefix}/medium.jpg`, `${prefix}/medium.webp`,
+        ]);
+
+        const calls = vi.mocked(uploadImage).mock.calls.map(([options]) => options);
+        expect(calls).toHaveLength(5);
+        expect(image.perceptualHash).toMatch(/^[0-9a-f]{16}$/);
+        expect(fromStorageMetadata(calls[0].metadata!)).toEqual({
+            width: 200,
+            height: 400,
+            contentHash: image.contentHash,
+            perceptualHash: image.perceptualHash,
+            differenceHash: image.differenceHash,
+        });
+
+        const thumb = await sharp(calls.find(o => o.key === `${prefix}/thumb.webp`)!.buffer).metadata();
+        expect(thumb).toMatchObject({ format: 'webp', width: 160, height: 320 });
+    });
+
+    it('rejects bytes that are not an image, whatever the declared type', async () => {
+        await expect(ingestImage({ buffer: Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>') }))
+            .rejects.toThrow('Unsupported image type');
+        expect(uploadImage).not.toHaveBeenCalled();
+    });
+
+    it('rejects images that declare more pixels than the cap before decoding them', async () => {
+        await expect(ingestImage({ buffer: oversizedPng(10000, 10000) }))
+            .rejects.toThrow('Image dimensions are too large');
+        expect(uploadImage).not.toHaveBeenCalled();
+    });
+
+    it('maps originals to derivative keys and leaves older uploads alone', () => {
+        expect(imageVariantKey('images/u/abc/original.png', 'thumb')).toBe('images/u/abc/thumb.jpg');
+        expect(imageVariantKey('images/u/abc/original.jpg', 'medium', 'webp')).toBe('images/u/abc/medium.webp');
+        expect(imageVariantKey('images/u/abc/original.jpg', 'original', 'webp')).toBe('images/u/abc/original.jpg');
+        expect(imageVariantKey('images/u/0b6e.jpg', 'thumb')).toBe('images/u/0b6e.jpg');
+    });
+});
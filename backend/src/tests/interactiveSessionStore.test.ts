@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import type { InteractiveSession } from '../services/interactiveAnalysis.js';
+import type { ItemAnalysis } from '../services/openai.js';
+
+vi.mock('../db/client.js', () => {
+    const mockDb: Record<string, Mock> = {
+        insert: vi.fn().mockReturnThis(),
+        values: vi.fn().mockReturnThis(),
+        onConflictDoNothing: vi.fn().mockReturnThis(),
+        update: vi.fn().mockReturnThis(),
+        set: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        from: vi.fn().mockReturnThis(),
+        returning: vi.fn(),
+        lastPositions: vi.fn(),
+    };
+    // Awaited directly for the last persisted positions, or chained into returning()
+    mockDb.where = vi.fn(() => Object.assign(Promise.resolve([mockDb.lastPositions()]), { returning: mockDb.returning }));
+    // The transaction runs against the same chain
+    mockDb.transaction = vi.fn(async (fn: (tx: unknown) => unknown) => fn(mockDb));
+    return { db: mockDb };
+});
+
+vi.mock('../services/session.js', () => ({ getRedisClient: vi.fn() }));
+
+import { db } from '../db/client.js';
+import { getRedisClient } from '../services/session.js';
+import { saveSession } from '../services/interactiveSessionStore.js';
+import { ConflictError } from '../middleware/error.js';
+import { interactiveSessionMessages, interactiveSessionResponses } from '../db/schema.js';
+
+const mockDb = db as unknown as Record<string, Mock>;
+const redis = { get: vi.fn(), setEx: vi.fn(), del: vi.fn() };
+
+function session(messageCount: number): InteractiveSession {
+    return {
+        id: 'session-1',
+        analysisId: 'analysis-1',
+        currentAnalysis: { name: 'Sterling Teapot' } as ItemAnalysis,
+        informationNeeds: [],
+        collectedResponses: [{ needId: 'mark', type: 'text', content: 'Lion passant', providedAt: '2026-10-02T10:01:00Z' }],
+        conversationHistory: Array.from({ length: messageCount }, (_, i) => ({
+            role: i % 2 === 0 ? 'assistant' as const : 'user' as const,
+            content: `Message ${i}`,
+            timestamp: '2026-10-02T10:00:00Z',
+        })),
+        confidenceProgress: [],
+        status: 'gathering_info',
+        createdAt: '2026-10-02T10:00:00Z',
+        updatedAt: '2026-10-02T10:00:00Z',
+    };
+}
+
+function insertedInto(table: unknown) {
+    const index = mockDb.insert.mock.calls.findIndex(([target]) => target === table);
+    return index === -1 ? undefined : mockDb.values.mock.calls[index][0];
+}
+
+describe('Interactive Session Store', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        (getRedisClient as Mock).mockReturnValue(redis);
+    });
+
+    it('inserts a new session with all of its messages', async () => {
+        mockDb.returning.mockResolvedValueOnce([{ version: 0 }]);
+        mockDb.lastPositions.mockReturnValue({ lastMessage: null, lastResponse: null });
+
+        const stored = await saveSession(session(2), 'user-1');
+
+        expect(mockDb.onConflictDoNothing).toHaveBeenCalled();
+        expect(stored).toMatchObject({ id: 'session-1', userId: 'user-1', version: 0 });
+        expect(insertedInto(interactiveSessionMessages).map((row: { position: number }) => row.position)).toEqual([0, 1]);
+        expect(insertedInto(interactiveSessionResponses)).toHaveLength(1);
+        expect(redis.setEx).toHaveBeenCalledWith('vera:session:session-1', expect.any(Number), JSON.stringify(stored));
+    });
+
+    it('appends only messages past the persisted position and bumps the version', async () => {
+        mockDb.returning.mockResolvedValueOnce([{ version: 4 }]);
+        mockDb.lastPositions.mockReturnValue({ lastMessage: 1, lastResponse: 0 });
+
+        const stored = await saveSession({ ...session(4), userId: 'user-1', version: 3, expiresAt: '2026-10-09T10:00:00Z' }, 'user-1');
+
+        expect(mockDb.update).toHaveBeenCalled();
+        expect(stored.version).toBe(4);
+        expect(insertedInto(interactiveSessionMessages).map((row: { position: number }) => row.position)).toEqual([2, 3]);
+        expect(insertedInto(interactiveSessionResponses)).toBeUndefined();
+    });
+
+    it('rejects a save from a stale version and drops the cached copy', async () => {
+        mockDb.returning.mockResolvedValueOnce([]);
+
+        await expect(saveSession({ ...session(3), userId: 'user-1', version: 3, expiresAt: '2026-10-09T10:00:00Z' }, 'user-1'))
+            .rejects.toBeInstanceOf(ConflictError);
+
+        expect(mockDb.values).not.toHaveBeenCalled();
+        expect(redis.del).toHaveBeenCalledWith('vera:session:session-1');
+        expect(redis.setEx).not.toHaveBeenCalled();
+    });
+});
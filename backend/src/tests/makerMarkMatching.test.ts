@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { matchMakerMarks, normalizeInscription } from '../services/makerMarkMatching.js';
+import { SEED_MAKER_MARKS } from '../services/expertKnowledgeSeed.js';
+
+describe('Maker Mark Matching', () => {
+    it('normalizes OCR noise, accents and punctuation', () => {
+        expect(normalizeInscription('R0OKWOOD  Pottery, Cincinnati')).toBe('rookwood pottery cincinnati');
+        expect(normalizeInscription('Gebrüder THONET — Wien')).toBe('gebruder thonet wien');
+        expect(normalizeInscription('L. & J.G. Stickley')).toBe('l and jg stickley');
+        // Mostly-digit tokens are numbers, not misread letters
+        expect(normalizeInscription('No. 1915')).toBe('no 1915');
+    });
+
+    it('ranks makers from noisy backstamp text with the matched spans', () => {
+        const [top] = matchMakerMarks(['R0OKWOOD', 'Made in USA', '1915'], SEED_MAKER_MARKS, { category: 'ceramics' });
+
+        expect(top).toMatchObject({ makerId: 'ceramics-rookwood', activeYears: '1880-1967' });
+        expect(top.matches[0]).toMatchObject({ text: 'R0OKWOOD', sourceIndex: 0, field: 'maker', similarity: 1 });
+    });
+
+    it('matches variations and quoted mark text across split OCR entries', () => {
+        const candidates = matchMakerMarks(['ALS', 'IK', 'KAN', 'CRAFTSMAN'], SEED_MAKER_MARKS);
+
+        expect(candidates[0].makerId).toBe('furniture-stickley-gustav');
+        expect(candidates[0].matches.map(m => m.phrase)).toEqual(expect.arrayContaining(['Als Ik Kan', 'Craftsman']));
+    });
+
+    it('does not nominate a maker from generic words', () => {
+        expect(matchMakerMarks(['Made in U.S.A.', 'paper label', 'Sterling'], SEED_MAKER_MARKS)).toEqual([]);
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../services/marketDataProviders.js', () => ({
+    ebayProvider: { id: 'ebay' },
+    auctionArchiveProvider: { id: 'auction_archive' },
+    getMarketDataProviders: () => [],
+    searchProvider: vi.fn().mockResolvedValue([]),
+}));
+
+import { computeDataConfidence, getMarketIntelligence, SoldListing } from '../services/marketData.js';
+
+const now = new Date('2026-10-19T00:00:00Z');
+
+const sale = (daysAgo: number): SoldListing => ({
+    id: `sale-${daysAgo}`,
+    title: 'Omega Seamaster',
+    soldPrice: 120000,
+    soldDate: new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+    marketplace: 'ebay',
+    condition: 'Used',
+    listingUrl: '',
+    similarity: 0.8,
+    dataProvenance: 'real',
+    provenance: { provider: 'ebay', fetchedAt: now.toISOString(), cached: false, query: 'omega seamaster' },
+});
+
+describe('Market Intelligence', () => {
+    it('scores data confidence from sample size and recency', () => {
+        expect(computeDataConfidence([], now)).toBe(0);
+
+        const few = computeDataConfidence([sale(10)], now);
+        const many = computeDataConfidence(Array.from({ length: 12 }, () => sale(10)), now);
+        const stale = computeDataConfidence(Array.from({ length: 12 }, () => sale(900)), now);
+
+        expect(many).toBeGreaterThan(few);
+        expect(many).toBeGreaterThan(stale);
+        expect(stale).toBeGreaterThan(0);
+        expect(many).toBeLessThanOrEqual(0.95);
+    });
+
+    it('models a range from the estimate without inventing sales', async () => {
+        const market = await getMarketIntelligence('Seamaster', 'Omega', null, { min: 80000, max: 150000 });
+
+        expect(market.dataProvenance).toBe('modelled');
+        expect(market.recentSales).toEqual([]);
+        expect(market.sampleSize).toBe(0);
+        expect(market.averageSoldPrice).toBe(0);
+        expect(market.priceRange).toEqual({ low: 80000, high: 150000 });
+        expect(market.dataConfidence).toBe(0);
+
+        const unknown = await getMarketIntelligence('Seamaster', 'Omega');
+        expect(unknown.dataProvenance).toBe('none');
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { join } from 'path';
+import {
+    CircuitBreaker,
+    FixtureMarketDataTransport,
+    TokenBucket,
+    ebayProvider,
+    fixtureKey,
+    liveAuctioneersProvider,
+} from '../services/marketDataProviders.js';
+import { marketDataCacheKey } from '../services/marketDataCache.js';
+
+const fixtures = join(__dirname, 'fixtures', 'market-data.json');
+const query = { searchTerms: 'omega seamaster' };
+
+describe('Market Data Providers', () => {
+    beforeAll(() => {
+        process.env.EBAY_APP_ID = 'test-app';
+        process.env.EBAY_OAUTH_TOKEN = 'test-token';
+        process.env.LIVEAUCTIONEERS_API_KEY = 'test-key';
+    });
+
+    afterAll(() => {
+        delete process.env.EBAY_APP_ID;
+        delete process.env.EBAY_OAUTH_TOKEN;
+        delete process.env.LIVEAUCTIONEERS_API_KEY;
+    });
+
+    it('keys the cache by normalized query', () => {
+        expect(marketDataCacheKey('ebay', { searchTerms: 'Omega  Seamaster, omega' }))
+            .toBe(marketDataCacheKey('ebay', { searchTerms: 'seamaster OMEGA' }));
+        expect(marketDataCacheKey('ebay', query)).not.toBe(marketDataCacheKey('invaluable', query));
+        expect(marketDataCacheKey('ebay', query)).not.toBe(marketDataCacheKey('ebay', { ...query, maxPrice: 500 }));
+        expect(fixtureKey('ebay', 'https://x.test/?end=[2026-10-19]')).toBe(fixtureKey('ebay', 'https://x.test/?end=[2025-01-02]'));
+    });
+
+    it('parses recorded eBay and LiveAuctioneers responses', async () => {
+        const http = new FixtureMarketDataTransport(fixtures);
+
+        const ebay = await ebayProvider.search(query, http);
+        expect(ebay).toHaveLength(2);
+        expect(ebay[0]).toMatchObject({ id: 'v1|315522331234|0', soldPrice: 145000, marketplace: 'ebay', condition: 'Pre-owned' });
+        expect(ebay[1].condition).toBe('Unknown');
+
+        const lots = await liveAuctioneersProvider.search(query, http);
+        expect(lots[0]).toMatchObject({ id: 'la-184402117', soldPrice: 170000, venue: 'Hindman' });
+
+        // The second recording is an outage
+        await expect(liveAuctioneersProvider.search(query, http)).rejects.toThrow('LiveAuctioneers API error: 503');
+        await expect(ebayProvider.search({ searchTerms: 'never recorded' }, http)).rejects.toThrow('No recorded market data response');
+    });
+
+    it('refills the rate limit over time', () => {
+        let now = 0;
+        const bucket = new TokenBucket({ requests: 2, perMs: 1000 }, () => now);
+
+        expect(bucket.tryTake()).toBe(true);
+        expect(bucket.tryTake()).toBe(true);
+        expect(bucket.tryTake()).toBe(false);
+        now = 500;
+        expect(bucket.tryTake()).toBe(true);
+        expect(bucket.tryTake()).toBe(false);
+    });
+
+    it('opens the circuit after repeated failures and closes it after a good trial', () => {
+        let now = 0;
+        const breaker = new CircuitBreaker({ failureThreshold: 3, resetAfterMs: 1000 }, () => now);
+
+        breaker.recordFailure();
+        breaker.recordFailure();
+        expect(breaker.state).toBe('closed');
+        breaker.recordFailure();
+        expect(breaker.canRequest()).toBe(false);
+
+        // One trial at a time once the cool-down is over; a failed trial re-opens
+        now = 1000;
+        expect(breaker.canRequest()).toBe(true);
+        expect(breaker.canRequest()).toBe(false);
+        breaker.recordFailure();
+        expect(breaker.state).toBe('open');
+
+        now = 2000;
+        expect(breaker.canRequest()).toBe(true);
+        breaker.recordSuccess();
+        expect(breaker.state).toBe('closed');
+    });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { assertPublicWebhookUrl, isPublicAddress } from '../services/notifications.js';
+
+describe('Webhook Notifications', () => {
+    it('treats only public addresses as webhook targets', () => {
+        expect(isPublicAddress('93.184.216.34')).toBe(true);
+        expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true);
+
+        for (const address of [
+            '127.0.0.1', '10.1.2.3', '172.20.0.5', '192.168.1.1', '169.254.169.254',
+            '100.64.0.1', '0.0.0.0', '::1', '::ffff:127.0.0.1', 'fd00::1', 'fe80::1',
+        ]) {
+            expect(isPublicAddress(address), address).toBe(false);
+        }
+        expect(isPublicAddress('not-an-ip')).toBe(false);
+    });
+
+    it('rejects webhook URLs on internal IP literals', async () => {
+        await expect(assertPublicWebhookUrl('https://169.254.169.254/latest/meta-data')).rejects.toThrow('public address');
+        await expect(assertPublicWebhookUrl('https://[::1]:8443/hook')).rejects.toThrow('public address');
+        await expect(assertPublicWebhookUrl('https://93.184.216.34/hook')).resolves.toBeUndefined();
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { computeImageHashes, hammingDistance } from '../services/perceptualHash.js';
+import { analysisOptionsKey, compareImageHashes, duplicateMessage } from '../services/duplicateAnalyses.js';
+
+// A piece on a plain background: light left half, dark square off-centre
+function scene(width: number, height: number, squareLeft: number) {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300">
+        <rect width="400" height="300" fill="#ddd"/>
+        <rect x="200" width="200" height="300" fill="#777"/>
+        <rect x="${squareLeft}" y="80" width="120" height="140" fill="#222"/>
+        <circle cx="320" cy="70" r="40" fill="#eee"/>
+    </svg>`;
+    return sharp(Buffer.from(svg)).resize(width, height, { fit: 'fill' });
+}
+
+describe('Perceptual Hashing', () => {
+    it('counts differing bits between hex hashes', () => {
+        expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+        expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+        expect(hammingDistance('8000000000000001', '0000000000000000')).toBe(2);
+    });
+
+    it('keeps a re-encoded, resized copy close and a different photo far', async () => {
+        const original = await computeImageHashes(scene(400, 300, 60));
+        const reencoded = await computeImageHashes(sharp(await scene(800, 600, 60).jpeg({ quality: 40 }).toBuffer()));
+        const different = await computeImageHashes(sharp(await scene(400, 300, 60).flop().png().toBuffer()));
+
+        expect(original.perceptualHash).toMatch(/^[0-9a-f]{16}$/);
+        expect(original.differenceHash).toMatch(/^[0-9a-f]{16}$/);
+
+        const copy = compareImageHashes(original, reencoded);
+        expect(copy.near).toBe(true);
+        expect(copy.distance).toBeLessThanOrEqual(4);
+
+        const other = compareImageHashes(original, different);
+        expect(other.near).toBe(false);
+        expect(other.exact).toBe(false);
+
+        expect(compareImageHashes(original, original).exact).toBe(true);
+    });
+
+    it('reuses results only for identical request options', () => {
+        const base = { askingPrice: 5000, consensusMode: 'auto' as const, useReasoningModel: true };
+
+        expect(analysisOptionsKey(base)).toBe(analysisOptionsKey({ ...base, additionalContext: '  ' }));
+        expect(analysisOptionsKey(base)).not.toBe(analysisOptionsKey({ ...base, askingPrice: 6000 }));
+        expect(analysisOptionsKey(base)).not.toBe(analysisOptionsKey({ ...base, consensusMode: 'always' }));
+        // Multi-run settings don't change a single run
+        expect(analysisOptionsKey({ ...base, consensusMode: 'never' }))
+            .toBe(analysisOptionsKey({ askingPrice: 5000, consensusMode: 'never', forceMultiRun: true }));
+    });
+
+    it('words the notice for the viewer', () => {
+        const date = new Date('2026-10-03T09:30:00Z');
+        expect(duplicateMessage(true, date)).toBe('You analyzed this on October 3, 2026');
+        expect(duplicateMessage(false, date)).toBe('A public analysis of this photo was made on October 3, 2026');
+    });
+});
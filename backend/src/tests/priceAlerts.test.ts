@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateAlertCondition, AlertState } from '../services/priceAlerts.js';
+
+const alert = (overrides: Partial<AlertState>): AlertState => ({
+    condition: 'above',
+    targetValue: 1000,
+    changeThreshold: 5,
+    lastValue: null,
+    baselineValue: null,
+    ...overrides,
+});
+
+describe('Price Alert Conditions', () => {
+    it('fires "above" only when the price crosses the target', () => {
+        expect(evaluateAlertCondition(alert({ lastValue: 900 }), 1100).triggered).toBe(true);
+        expect(evaluateAlertCondition(alert({ lastValue: 1100 }), 1200).triggered).toBe(false);
+        expect(evaluateAlertCondition(alert({ lastValue: null }), 1100).triggered).toBe(true);
+        expect(evaluateAlertCondition(alert({ lastValue: 900 }), 950).triggered).toBe(false);
+    });
+
+    it('fires "below" only when the price crosses the target', () => {
+        const below = { condition: 'below' as const, targetValue: 500 };
+        expect(evaluateAlertCondition(alert({ ...below, lastValue: 600 }), 450).triggered).toBe(true);
+        expect(evaluateAlertCondition(alert({ ...below, lastValue: 450 }), 400).triggered).toBe(false);
+    });
+
+    it('fires "any_change" past the threshold and resets the baseline', () => {
+        const anyChange = { condition: 'any_change' as const, targetValue: null, changeThreshold: 10 };
+
+        const first = evaluateAlertCondition(alert({ ...anyChange }), 1000);
+        expect(first).toMatchObject({ triggered: false, baselineValue: 1000 });
+
+        const small = evaluateAlertCondition(alert({ ...anyChange, lastValue: 1000, baselineValue: 1000 }), 1050);
+        expect(small).toMatchObject({ triggered: false, baselineValue: 1000, percentChange: 5 });
+
+        // Drift accumulates against the baseline, not the previous check
+        const drift = evaluateAlertCondition(alert({ ...anyChange, lastValue: 1050, baselineValue: 1000 }), 900);
+        expect(drift).toMatchObject({ triggered: true, baselineValue: 900 });
+    });
+});
@@ -5,7 +5,10 @@ process.env.MINIO_ENDPOINT = 'http://localhost:9000';
 process.env.MINIO_ACCESS_KEY = 'test-access-key';
 process.env.MINIO_SECRET_KEY = 'test-secret-key';
 process.env.MINIO_BUCKET_NAME = 'test-bucket';
+process.env.STORAGE_DRIVER = 'local'; // Never touch MinIO from tests
 process.env.OPENAI_API_KEY = 'sk-test-key';
+process.env.VISION_PROVIDER = 'fixture'; // Never call a live model from tests
+process.env.MARKET_DATA_TRANSPORT = 'fixture'; // Never call a live marketplace API from tests
 process.env.SESSION_SECRET = 'test-session-secret-at-least-32-chars-long';
 process.env.GOOGLE_CLIENT_ID = 'test-client-id';
 process.env.GOOGLE_CLIENT_SECRET = 'test-client-secret';
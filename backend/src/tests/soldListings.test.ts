@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, csvToRecords, jsonToRecords, normalizeListing } from '../services/soldListings.js';
+
+describe('Sold listings import', () => {
+    it('parses quoted CSV fields with commas, doubled quotes and CRLF', () => {
+        const rows = parseCsv('title,price\r\n"Tiffany ""Dragonfly"" lamp, bronze",12500\r\n\r\nCartier Tank,4200\n');
+
+        expect(rows).toEqual([
+            ['title', 'price'],
+            ['Tiffany "Dragonfly" lamp, bronze', '12500'],
+            ['Cartier Tank', '4200'],
+        ]);
+    });
+
+    it('maps spreadsheet column names to listing fields', () => {
+        const records = csvToRecords('\uFEFFLot Title,Hammer Price,Sale Date,Auction House,Notes\nRolex Submariner,"$9,500",2025-03-14,Bonhams,ignored');
+
+        expect(records).toEqual([{
+            title: 'Rolex Submariner',
+            hammerPrice: '$9,500',
+            soldDate: '2025-03-14',
+            auctionHouse: 'Bonhams',
+        }]);
+        expect(jsonToRecords([{ hammer_price: 100, soldDate: '2025-01-01', maker: '' }])).toEqual([
+            { hammerPrice: 100, soldDate: '2025-01-01' },
+        ]);
+    });
+
+    it('rejects a CSV without price or date columns', () => {
+        expect(() => csvToRecords('title,maker\nChair,Eames')).toThrow(/hammer price/);
+    });
+
+    it('normalizes prices to cents and fingerprints by house and lot', () => {
+        const row = normalizeListing({
+            title: 'Rolex Submariner 5513',
+            hammerPrice: '$9,500.50',
+            soldDate: '2025-03-14',
+            currency: 'gbp',
+            auctionHouse: 'Bonhams',
+            lotNumber: '112',
+        });
+
+        expect(row.hammerPrice).toBe(950050);
+        expect(row.currency).toBe('GBP');
+        expect(row.soldDate.toISOString().slice(0, 10)).toBe('2025-03-14');
+
+        // Re-exported rows with a reworded title are the same sale
+        const again = normalizeListing({
+            title: 'ROLEX Submariner ref. 5513',
+            hammerPrice: 9500.5,
+            soldDate: '2025-03-14',
+            auctionHouse: ' bonhams ',
+            lotNumber: '112',
+        });
+        expect(again.fingerprint).toBe(row.fingerprint);
+
+        expect(() => normalizeListing({ title: 'Chair', hammerPrice: '0', soldDate: '2025-01-01' })).toThrow(/positive/);
+        expect(() => normalizeListing({ title: 'Chair', hammerPrice: '100', soldDate: 'last spring' })).toThrow(/valid date/);
+        expect(() => normalizeListing({ hammerPrice: '100', soldDate: '2025-01-01' })).toThrow(/title or description/);
+    });
+});
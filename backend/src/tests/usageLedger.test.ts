@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import type { VisionResponse } from '../services/visionProvider.js';
+
+vi.mock('../db/client.js', () => {
+    const mockDb = {
+        insert: vi.fn().mockReturnThis(),
+        values: vi.fn().mockResolvedValue(undefined),
+    };
+    return { db: mockDb };
+});
+
+import { db } from '../db/client.js';
+import {
+    computeCallCost,
+    createUsageContext,
+    guardConsensusMode,
+    recordModelUsage,
+    spendBudget,
+    withUsageContext,
+} from '../services/usageLedger.js';
+
+const mockDb = db as unknown as { insert: Mock; values: Mock };
+
+function response(model: string, promptTokens: number, completionTokens: number): VisionResponse {
+    return { content: '{}', model, provider: 'openai', usage: { promptTokens, completionTokens }, latencyMs: 812.4 };
+}
+
+describe('Model Usage Ledger', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('prices calls in millionths of a USD by model family', () => {
+        // gpt-4o: $2.50 / $10 per 1M tokens
+        expect(computeCallCost('gpt-4o', { promptTokens: 1000, completionTokens: 500 })).toBe(7500);
+        // Dated snapshots match their family, and mini isn't priced as gpt-4o
+        expect(computeCallCost('gpt-4o-2024-08-06', { promptTokens: 1000, completionTokens: 500 })).toBe(7500);
+        expect(computeCallCost('gpt-4o-mini-2024-07-18', { promptTokens: 1000, completionTokens: 500 })).toBe(450);
+        // Self-hosted models and missing usage cost nothing
+        expect(computeCallCost('llava', { promptTokens: 1000, completionTokens: 500 })).toBe(0);
+        expect(computeCallCost('o1', null)).toBe(0);
+    });
+
+    it('turns consensus off once the plan allowance is spent', () => {
+        // Collector allowance is $15.00
+        const under = spendBudget(14_990_000, 'collector');
+        expect(under).toEqual({ spentCents: 1499, allowanceCents: 1500, exceeded: false });
+        expect(guardConsensusMode('always', under)).toBe('always');
+
+        const over = spendBudget(15_000_000, 'collector');
+        expect(over.exceeded).toBe(true);
+        expect(guardConsensusMode('auto', over)).toBe('never');
+
+        // Unknown tiers get the free allowance
+        expect(spendBudget(600_000, 'enterprise').exceeded).toBe(true);
+    });
+
+    it('records calls only inside a usage context', async () => {
+        await recordModelUsage('triage', response('gpt-4o', 1000, 500));
+        expect(mockDb.insert).not.toHaveBeenCalled();
+
+        const context = createUsageContext({ userId: 'user-1', tier: 'professional', sessionId: 'vera-1' });
+        await withUsageContext(context, () => recordModelUsage('conversation', response('gpt-4o-mini', 2000, 100)));
+
+        expect(mockDb.insert).toHaveBeenCalledTimes(1);
+        expect(mockDb.values.mock.calls[0][0]).toMatchObject({
+            traceId: context.traceId,
+            userId: 'user-1',
+            tier: 'professional',
+            itemAnalysisId: null,
+            sessionId: 'vera-1',
+            task: 'conversation',
+            model: 'gpt-4o-mini',
+            promptTokens: 2000,
+            completionTokens: 100,
+            latencyMs: 812,
+            costMicros: 360,
+        });
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    FixtureVisionProvider,
+    RecordingVisionProvider,
+    fixtureKey,
+    VisionRequest,
+} from '../services/visionProvider.js';
+
+const image = 'data:image/jpeg;base64,dGVzdA==';
+
+const request = (prompt: string): VisionRequest => ({
+    messages: [
+        { role: 'system', text: prompt },
+        { role: 'user', text: 'Categorize the item:', images: [{ url: image }] },
+    ],
+    maxTokens: 100,
+    json: true,
+});
+
+describe('Vision Provider', () => {
+    it('keys fixtures by task and image, not prompt', () => {
+        expect(fixtureKey('triage', request('prompt A'))).toBe(fixtureKey('triage', request('prompt B')));
+        expect(fixtureKey('triage', request('prompt A'))).not.toBe(fixtureKey('deep_analysis', request('prompt A')));
+    });
+
+    it('replays recorded responses in order', async () => {
+        const key = fixtureKey('deep_analysis', request('x'));
+        const provider = new FixtureVisionProvider({
+            version: 1,
+            responses: {
+                [key]: [
+                    { content: '{"name":"Run 1"}', model: 'gpt-4o' },
+                    { content: '{"name":"Run 2"}', model: 'gpt-4o' },
+                ],
+            },
+        });
+
+        expect((await provider.deepAnalysis(request('x'))).content).toBe('{"name":"Run 1"}');
+        expect((await provider.deepAnalysis(request('x'))).content).toBe('{"name":"Run 2"}');
+        expect((await provider.deepAnalysis(request('x'))).content).toBe('{"name":"Run 1"}');
+    });
+
+    it('falls back to a deterministic stub, or throws in strict mode', async () => {
+        const lenient = new FixtureVisionProvider({ version: 1, responses: {} });
+        const triage = JSON.parse((await lenient.triage(request('x'))).content);
+        expect(triage.domainExpert).toBe('general');
+
+        const strict = new FixtureVisionProvider({ version: 1, responses: {} }, { strict: true });
+        await expect(strict.triage(request('x'))).rejects.toThrow('No recorded vision response');
+    });
+
+    it('records live responses that replay offline', async () => {
+        const fixturePath = join(mkdtempSync(join(tmpdir(), 'vision-')), 'fixtures.json');
+        const live = new FixtureVisionProvider({
+            version: 1,
+            responses: { [fixtureKey('triage', request('x'))]: [{ content: '{"itemType":"Clock"}', model: 'gpt-4o' }] },
+        });
+
+        await new RecordingVisionProvider(live, fixturePath).triage(request('x'));
+        expect(existsSync(fixturePath)).toBe(true);
+
+        const replay = new FixtureVisionProvider(fixturePath, { strict: true });
+        expect((await replay.triage(request('y'))).content).toBe('{"itemType":"Clock"}');
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { checkWatchPeriod, decodeWatchNumbers, parseCasebackReading } from '../services/watchSerials.js';
+import { CASEBACK_NEED_ID, applyCasebackReading, detectInformationNeeds, InteractiveSession } from '../services/interactiveAnalysis.js';
+import type { ItemAnalysis } from '../services/openai.js';
+
+describe('Watch Serial Decoder', () => {
+    it('reads labelled and unlabelled numbers off a caseback', () => {
+        expect(parseCasebackReading(['ROLEX OYSTER', 'Ref. 16610LN', 'R123456', 'Cal. 3135'])).toEqual({
+            maker: 'ROLEX',
+            reference: '16610',
+            serial: 'R123456',
+            calibre: '3135',
+        });
+        expect(parseCasebackReading(['ST145.022', 'movement no 29512345'], 'Omega')).toMatchObject({
+            maker: 'Omega',
+            reference: 'ST 145.022',
+            serial: '29512345',
+        });
+    });
+
+    it('dates serial, reference and calibre and agrees on a year', () => {
+        const rolex = decodeWatchNumbers({ maker: 'Rolex', serial: '1538435', reference: '5513', calibre: '1520' });
+        expect(rolex.readings.map(r => [r.kind, r.yearRange])).toEqual([
+            ['serial', { start: 1967, end: 1967 }],
+            ['reference', { start: 1962, end: 1989 }],
+            ['calibre', { start: 1963, end: 2000 }],
+        ]);
+        expect(rolex.yearRange).toEqual({ start: 1967, end: 1967 });
+        expect(rolex.conflicts).toEqual([]);
+
+        // Reference alone names the maker
+        const omega = decodeWatchNumbers({ reference: 'ST 145.022', serial: '29512345' });
+        expect(omega).toMatchObject({ maker: 'omega', yearRange: { start: 1969, end: 1969 } });
+
+        // Short Rolex serials predate or follow the 1950s renumbering
+        expect(decodeWatchNumbers({ maker: 'Rolex', serial: '400000' }).readings[0].yearRange).toEqual({ start: 1926, end: 1959 });
+    });
+
+    it('flags parts from different decades and a wrong-maker calibre', () => {
+        const mixed = decodeWatchNumbers({ maker: 'Rolex', serial: '2241900', reference: '16610' });
+        expect(mixed.yearRange).toBeNull();
+        expect(mixed.conflicts[0]).toMatch(/Serial 2241900 \(1970\) and Reference 16610 \(1988-2010\) don't overlap/);
+
+        expect(decodeWatchNumbers({ maker: 'Rolex', calibre: '861' }).conflicts).toContain('Calibre 861 is a movement by Omega, not Rolex');
+
+        const period = decodeWatchNumbers({ maker: 'Rolex', serial: 'R123456' });
+        expect(checkWatchPeriod(period, { start: 1986, end: 1990 })).toEqual([]);
+        expect(checkWatchPeriod(period, { start: 1960, end: 1970 })).toEqual([
+            'Caseback numbers date this watch to 1987-1988, outside the attributed period 1960-1970',
+        ]);
+    });
+
+    it('asks Vera for the caseback and turns a conflicting answer into a red flag', () => {
+        const analysis = {
+            domainExpert: 'watches',
+            confidence: 0.8,
+            maker: 'Rolex',
+            periodStart: 1965,
+            periodEnd: 1970,
+            redFlags: [],
+        } as unknown as ItemAnalysis;
+
+        const need = detectInformationNeeds(analysis).find(n => n.id === CASEBACK_NEED_ID);
+        expect(need).toMatchObject({ type: 'question_marks', priority: 'high' });
+
+        const session = { currentAnalysis: analysis } as InteractiveSession;
+        const flags = applyCasebackReading(session, 'ref 16610, serial R123456');
+        expect(flags).toEqual(['Caseback numbers date this watch to 1988, outside the attributed period 1965-1970']);
+        expect(analysis.redFlags).toEqual(flags);
+        expect(detectInformationNeeds(analysis).some(n => n.id === CASEBACK_NEED_ID)).toBe(false);
+    });
+});
@@ -0,0 +1,24 @@
+// heic-decode ships without type declarations
+
+declare module 'heic-decode' {
+  interface DecodedHeic {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray; // RGBA
+  }
+
+  // Parsed but not yet decoded - dimensions are known before paying for pixels
+  interface HeicImage {
+    width: number;
+    height: number;
+    decode(): Promise<DecodedHeic>;
+  }
+
+  function decode(input: { buffer: ArrayBufferLike | Uint8Array }): Promise<DecodedHeic>;
+
+  namespace decode {
+    function all(input: { buffer: ArrayBufferLike | Uint8Array }): Promise<HeicImage[] & { dispose(): void }>;
+  }
+
+  export default decode;
+}
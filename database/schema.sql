@@ -5,6 +5,9 @@
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Trigram similarity for sold_listings search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
 -- Item Analyses (AI analysis results)
 CREATE TABLE item_analyses (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
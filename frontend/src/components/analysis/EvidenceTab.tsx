@@ -29,7 +29,9 @@ import {
   Lightbulb,
   Check,
   X,
-  User
+  User,
+  Stamp,
+  Watch
 } from 'lucide-react'
 import { GlassCard } from '@/components/ui/glass-card'
 import {
@@ -42,6 +44,8 @@ import {
   ConfirmedFact,
   ProbableFact,
   VerificationNeed,
+  HallmarkDecoding,
+  WatchNumbersDecoding,
   getAuthenticityRiskColor,
   getAuthenticityRiskLabel,
   getKnowledgeLabel,
@@ -1277,6 +1281,164 @@ function ItemAuthenticationSection({ authentication, itemName }: ItemAuthenticat
   )
 }
 
+// Hallmark Decoding Section (silver only)
+interface HallmarksSectionProps {
+  hallmarks: HallmarkDecoding
+}
+
+function HallmarksSection({ hallmarks }: HallmarksSectionProps) {
+  const { input, check } = hallmarks
+  const likely = hallmarks.candidates.filter(c => c.score >= 0.5).slice(0, 4)
+  const outliers = hallmarks.candidates.length - likely.length
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+      className="bg-white rounded-xl shadow-sm border border-stone-200 overflow-hidden"
+    >
+      {/* Header */}
+      <div className="p-4 border-b border-stone-100">
+        <div className="flex items-center gap-2">
+          <Stamp className="w-5 h-5 text-amber-600" />
+          <h3 className="font-serif text-lg text-stone-900">Hallmarks</h3>
+        </div>
+        <p className="text-sm text-stone-500 mt-1">
+          {[
+            hallmarks.candidates[0]?.officeName ?? input.office ?? 'Assay office not identified',
+            input.standard === 'britannia' ? 'Britannia standard' : input.standard === 'sterling' ? 'Sterling' : null,
+            input.dateLetter ? `date letter "${input.dateLetter}"` : 'no date letter read'
+          ].filter(Boolean).join(' · ')}
+        </p>
+      </div>
+
+      {/* Candidate Years */}
+      <div className="p-4">
+        {likely.length > 0 ? (
+          <div className="space-y-2">
+            {likely.map((candidate) => (
+              <div
+                key={`${candidate.office}-${candidate.year}`}
+                className="flex items-center justify-between p-3 bg-stone-50 rounded-lg"
+              >
+                <div>
+                  <div className="font-medium text-stone-900">{candidate.yearLabel}</div>
+                  <div className="text-xs text-stone-500">
+                    {candidate.officeName} · cycle {candidate.cycle}
+                    {candidate.reasons.length > 0 && ` · ${candidate.reasons.join('; ')}`}
+                  </div>
+                </div>
+                <span className="text-sm font-medium text-stone-600">{formatConfidence(candidate.score)}</span>
+              </div>
+            ))}
+            {outliers > 0 && (
+              <p className="text-xs text-stone-500">{outliers} less likely year{outliers === 1 ? '' : 's'} not shown</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-stone-500">No year could be read from these marks.</p>
+        )}
+      </div>
+
+      {/* Conflicts */}
+      {hallmarks.conflicts.length > 0 && (
+        <div className="p-4 bg-red-50 border-t border-red-100">
+          <ul className="space-y-1">
+            {hallmarks.conflicts.map((conflict, idx) => (
+              <li key={idx} className="text-sm text-red-700 flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
+                {conflict}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Checkpoint Results */}
+      <div className="p-4 bg-stone-50 border-t border-stone-100 space-y-1.5">
+        {check.passed.map((line, idx) => (
+          <div key={`p${idx}`} className="flex items-start gap-2 text-sm text-green-700">
+            <CheckCircle2 className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            {line}
+          </div>
+        ))}
+        {check.failed.map((line, idx) => (
+          <div key={`f${idx}`} className="flex items-start gap-2 text-sm text-red-700">
+            <XCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            {line}
+          </div>
+        ))}
+        {check.unverified.map((line, idx) => (
+          <div key={`u${idx}`} className="flex items-start gap-2 text-sm text-stone-500">
+            <HelpCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            {line}
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  )
+}
+
+// Watch Numbers Section (watches only)
+interface WatchNumbersSectionProps {
+  watchNumbers: WatchNumbersDecoding
+}
+
+function WatchNumbersSection({ watchNumbers }: WatchNumbersSectionProps) {
+  const span = ({ start, end }: { start: number; end: number | null }) =>
+    end === null ? `${start}-present` : start === end ? `${start}` : `${start}-${end}`
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+      className="bg-white rounded-xl shadow-sm border border-stone-200 overflow-hidden"
+    >
+      {/* Header */}
+      <div className="p-4 border-b border-stone-100">
+        <div className="flex items-center gap-2">
+          <Watch className="w-5 h-5 text-amber-600" />
+          <h3 className="font-serif text-lg text-stone-900">Caseback Numbers</h3>
+        </div>
+        <p className="text-sm text-stone-500 mt-1">
+          {watchNumbers.yearRange
+            ? `${watchNumbers.makerName ?? 'Numbers'} agree on ${span(watchNumbers.yearRange)}`
+            : watchNumbers.makerName ?? 'Maker not identified'}
+        </p>
+      </div>
+
+      {/* Readings */}
+      <div className="p-4 space-y-2">
+        {watchNumbers.readings.map((reading) => (
+          <div key={reading.kind} className="flex items-center justify-between p-3 bg-stone-50 rounded-lg">
+            <div>
+              <div className="font-medium text-stone-900">{reading.label}</div>
+              <div className="text-xs text-stone-500">{reading.description}</div>
+            </div>
+            <span className="text-sm font-medium text-stone-600">{span(reading.yearRange)}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Red Flags */}
+      {watchNumbers.redFlags.length > 0 && (
+        <div className="p-4 bg-red-50 border-t border-red-100">
+          <ul className="space-y-1">
+            {watchNumbers.redFlags.map((flag, idx) => (
+              <li key={idx} className="text-sm text-red-700 flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
+                {flag}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </motion.div>
+  )
+}
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -1285,6 +1447,8 @@ export default function EvidenceTab({ analysis }: EvidenceTabProps) {
   // Extract data from analysis
   const knowledgeState: KnowledgeState | null = analysis.knowledgeState || null
   const itemAuthentication: ItemAuthentication | null = analysis.itemAuthentication || null
+  const hallmarks: HallmarkDecoding | null = analysis.hallmarks || null
+  const watchNumbers: WatchNumbersDecoding | null = analysis.watchNumbers?.readings.length ? analysis.watchNumbers : null
   const hasWorldClassData = knowledgeState !== null || itemAuthentication !== null
 
   const isHighRisk = analysis.authenticityRisk === 'high' || analysis.authenticityRisk === 'very_high'
@@ -1304,6 +1468,12 @@ export default function EvidenceTab({ analysis }: EvidenceTabProps) {
         </div>
       )}
 
+      {/* Hallmarks - Silver only */}
+      {hallmarks && <HallmarksSection hallmarks={hallmarks} />}
+
+      {/* Caseback Numbers - Watches only */}
+      {watchNumbers && <WatchNumbersSection watchNumbers={watchNumbers} />}
+
       {/* Authenticity Risk Assessment - Prominent for High Risk Items */}
       {isHighRisk && <AuthenticityRiskSection analysis={analysis} />}
 
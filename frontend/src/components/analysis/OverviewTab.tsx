@@ -15,7 +15,8 @@ import {
   Calendar,
   Award,
   ThumbsUp,
-  ThumbsDown
+  ThumbsDown,
+  History
 } from 'lucide-react'
 import { GlassCard } from '@/components/ui/glass-card'
 import { Button } from '@/components/ui/button'
@@ -70,6 +71,9 @@ export default function OverviewTab({
       ? 'bg-warning-muted'
       : 'bg-danger-muted'
 
+  // The closest earlier analysis of the same piece, if any
+  const earlierAnalysis = analysis.reusedFrom ?? analysis.duplicates?.[0]
+
   return (
     <GlassCard className="overflow-hidden w-full" variant="brass">
       <div className="relative p-4 sm:p-6 md:p-8">
@@ -146,6 +150,19 @@ export default function OverviewTab({
                   {analysis.name}
                 </h1>
 
+                {/* Earlier analysis of the same piece */}
+                {earlierAnalysis && (
+                  <div className="flex items-start gap-2 mb-3 px-3 py-2 rounded-lg bg-info-muted text-info text-sm">
+                    <History className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      {earlierAnalysis.message}
+                      {analysis.reusedFrom
+                        ? ' - showing that result instead of analyzing again.'
+                        : earlierAnalysis.own && earlierAnalysis.name !== analysis.name && ` (identified then as ${earlierAnalysis.name}).`}
+                    </span>
+                  </div>
+                )}
+
                 {/* Maker Attribution */}
                 {analysis.maker && (
                   <div className="flex items-center gap-2 mb-3">
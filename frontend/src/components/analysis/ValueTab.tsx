@@ -25,11 +25,14 @@ import {
   LineChart
 } from 'lucide-react'
 import { GlassCard } from '@/components/ui/glass-card'
+import { ComplianceWarnings } from '@/components/enhanced/FlipAssessment'
 import {
   ItemAnalysis,
   FlipDifficulty,
   formatPrice,
-  getDemandLevelStyle
+  getDemandLevelStyle,
+  getDataProvenanceLabel,
+  isModelled
 } from '@/types'
 import { cn, trackEvent } from '@/lib/utils'
 
@@ -180,6 +183,7 @@ export default function ValueTab({ analysis }: ValueTabProps) {
     estimatedValueMax,
     marketplaceLinks,
     marketIntelligence,
+    compliance,
     name: itemName
   } = analysis
 
@@ -194,15 +198,17 @@ export default function ValueTab({ analysis }: ValueTabProps) {
     s => s.description && s.description.trim() !== '' && s.price > 0
   ) ?? []
 
-  // Calculate comparable sales statistics
-  const avgPrice = validSales.length > 0
-    ? validSales.reduce((sum, sale) => sum + sale.price, 0) / validSales.length
+  // Statistics come from recorded sales only - modelled entries are shown, never averaged in
+  const recordedSales = validSales.filter(s => !isModelled(s))
+  const modelledCount = validSales.length - recordedSales.length
+  const avgPrice = recordedSales.length > 0
+    ? recordedSales.reduce((sum, sale) => sum + sale.price, 0) / recordedSales.length
     : 0
-  const minPrice = validSales.length > 0 ? Math.min(...validSales.map(s => s.price)) : 0
-  const maxPrice = validSales.length > 0 ? Math.max(...validSales.map(s => s.price)) : 0
+  const minPrice = recordedSales.length > 0 ? Math.min(...recordedSales.map(s => s.price)) : 0
+  const maxPrice = recordedSales.length > 0 ? Math.max(...recordedSales.map(s => s.price)) : 0
 
   // Check if flip assessment has data
-  const hasFlipData = flipDifficulty || flipTimeEstimate || (resaleChannels && resaleChannels.length > 0)
+  const hasFlipData = flipDifficulty || flipTimeEstimate || (resaleChannels && resaleChannels.length > 0) || !!compliance?.warnings.length
 
   // Flip difficulty config
   const diffConfig = flipDifficulty ? difficultyConfig[flipDifficulty] : null
@@ -284,6 +290,8 @@ export default function ValueTab({ analysis }: ValueTabProps) {
                       className="overflow-hidden"
                     >
                       <div className="px-5 pb-5 space-y-4">
+                        <ComplianceWarnings warnings={compliance?.warnings} />
+
                         {/* Difficulty & Time Grid */}
                         <div className="grid grid-cols-2 gap-4">
                           {/* Difficulty */}
@@ -409,7 +417,7 @@ export default function ValueTab({ analysis }: ValueTabProps) {
                     </div>
                     <div className="text-left">
                       <h3 className="font-bold text-foreground">Market Insights</h3>
-                      <p className="text-sm text-muted-foreground">Current market conditions</p>
+                      <p className="text-sm text-muted-foreground">{getDataProvenanceLabel(marketIntelligence)}</p>
                     </div>
                   </div>
                   <div className="flex items-center gap-3">
@@ -433,6 +441,35 @@ export default function ValueTab({ analysis }: ValueTabProps) {
                       className="overflow-hidden"
                     >
                       <div className="px-5 pb-5 space-y-4">
+                        {/* Price Range - sold vs modelled */}
+                        {marketIntelligence.dataProvenance !== 'none' && marketIntelligence.priceRange.high > 0 && (
+                          isModelled(marketIntelligence) ? (
+                            <div className="p-4 rounded-xl border-2 border-dashed border-warning/40 bg-warning-muted/30">
+                              <div className="flex items-center justify-between">
+                                <span className="text-xs text-muted-foreground uppercase tracking-wide">Modelled Range</span>
+                                <span className="font-bold text-lg text-muted-foreground italic">
+                                  {formatPrice(marketIntelligence.priceRange.low)} - {formatPrice(marketIntelligence.priceRange.high)}
+                                </span>
+                              </div>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                No recorded sales found. This range comes from our estimate, not from the market.
+                              </p>
+                            </div>
+                          ) : (
+                            <div className="p-4 rounded-xl border bg-success-muted border-success/30">
+                              <div className="flex items-center justify-between">
+                                <span className="text-xs text-muted-foreground uppercase tracking-wide">Sold Range</span>
+                                <span className="font-bold text-lg text-success">
+                                  {formatPrice(marketIntelligence.priceRange.low)} - {formatPrice(marketIntelligence.priceRange.high)}
+                                </span>
+                              </div>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {getDataProvenanceLabel(marketIntelligence)} - avg {formatPrice(marketIntelligence.averageSoldPrice)}
+                              </p>
+                            </div>
+                          )
+                        )}
+
                         {/* Demand & Trend Grid */}
                         <div className="grid grid-cols-2 gap-4">
                           {/* Demand Level */}
@@ -561,7 +598,10 @@ export default function ValueTab({ analysis }: ValueTabProps) {
                     <div className="text-left">
                       <h3 className="font-bold text-foreground">Market Comparables</h3>
                       <p className="text-sm text-muted-foreground">
-                        {validSales.length} recent {validSales.length === 1 ? 'sale' : 'sales'} - Avg: {formatPrice(avgPrice)}
+                        {recordedSales.length > 0
+                          ? `${recordedSales.length} recorded ${recordedSales.length === 1 ? 'sale' : 'sales'} - Avg: ${formatPrice(avgPrice)}`
+                          : 'No recorded sales'}
+                        {modelledCount > 0 && ` - ${modelledCount} modelled`}
                       </p>
                     </div>
                   </div>
@@ -587,6 +627,7 @@ export default function ValueTab({ analysis }: ValueTabProps) {
                     >
                       <div className="px-5 pb-5 space-y-4">
                         {/* Price Range Visualization */}
+                        {recordedSales.length > 0 && (
                         <div className="bg-info-muted rounded-xl p-4 border border-info/30">
                           <div className="flex items-center justify-between mb-4">
                             <span className="text-sm text-muted-foreground">Price Range from Comparables</span>
@@ -613,11 +654,11 @@ export default function ValueTab({ analysis }: ValueTabProps) {
                             </div>
                           </div>
 
-                          {/* Our Estimate Comparison */}
+                          {/* Our Estimate Comparison - a model output, styled apart from the sales */}
                           {(estimatedValueMin || estimatedValueMax) && (
                             <div className="flex items-center justify-center gap-2 text-sm">
-                              <span className="text-muted-foreground">Our estimate:</span>
-                              <span className="font-bold text-info">
+                              <span className="text-muted-foreground">Our estimate (modelled):</span>
+                              <span className="font-bold text-muted-foreground italic px-2 py-0.5 rounded border border-dashed border-warning/40">
                                 {estimatedValueMin && estimatedValueMax
                                   ? `${formatPrice(estimatedValueMin)} - ${formatPrice(estimatedValueMax)}`
                                   : formatPrice(estimatedValueMin || estimatedValueMax)}
@@ -625,6 +666,7 @@ export default function ValueTab({ analysis }: ValueTabProps) {
                             </div>
                           )}
                         </div>
+                        )}
 
                         {/* Individual Sales */}
                         <div className="space-y-3">
@@ -634,7 +676,12 @@ export default function ValueTab({ analysis }: ValueTabProps) {
                               initial={{ opacity: 0, y: 10 }}
                               animate={{ opacity: 1, y: 0 }}
                               transition={{ delay: 0.1 * index }}
-                              className="bg-card/60 rounded-xl p-4 border border-border hover:border-info/50 transition-colors"
+                              className={cn(
+                                'rounded-xl p-4 transition-colors',
+                                isModelled(sale)
+                                  ? 'bg-warning-muted/30 border-2 border-dashed border-warning/40'
+                                  : 'bg-card/60 border border-border hover:border-info/50'
+                              )}
                             >
                               <div className="flex items-start justify-between gap-4">
                                 <div className="flex-1">
@@ -656,11 +703,14 @@ export default function ValueTab({ analysis }: ValueTabProps) {
                                   )}
                                 </div>
                                 <div className="text-right">
-                                  <div className="flex items-center gap-1 text-lg font-bold text-success">
+                                  <div className={cn(
+                                    'flex items-center gap-1 text-lg font-bold',
+                                    isModelled(sale) ? 'text-muted-foreground italic' : 'text-success'
+                                  )}>
                                     <DollarSign className="w-4 h-4" />
                                     {sale.price?.toLocaleString() ?? 'N/A'}
                                   </div>
-                                  <span className="text-xs text-muted-foreground">Sold</span>
+                                  <span className="text-xs text-muted-foreground">{isModelled(sale) ? 'Modelled' : 'Sold'}</span>
                                 </div>
                               </div>
                             </motion.div>
@@ -668,6 +718,7 @@ export default function ValueTab({ analysis }: ValueTabProps) {
                         </div>
 
                         {/* Market Insight */}
+                        {recordedSales.length > 0 && (
                         <div className="bg-info-muted rounded-xl p-4 border border-info/30">
                           <p className="text-sm text-foreground">
                             <strong>Market Insight:</strong> These comparable sales help establish fair market value.
@@ -676,6 +727,7 @@ export default function ValueTab({ analysis }: ValueTabProps) {
                             {avgPrice < (estimatedValueMin || Infinity) && ' Our estimate may be conservative based on recent sales data.'}
                           </p>
                         </div>
+                        )}
                       </div>
                     </motion.div>
                   )}
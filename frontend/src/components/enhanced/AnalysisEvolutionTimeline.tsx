@@ -0,0 +1,290 @@
+// AnalysisEvolutionTimeline - How an analysis changed, and why
+// VintageVision v2.0 - World-Class Analysis
+
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  History,
+  Sparkles,
+  MessageCircle,
+  Camera,
+  GraduationCap,
+  RefreshCw,
+  ArrowRight,
+  Loader2,
+} from 'lucide-react';
+import { api } from '@/lib/api';
+import {
+  AnalysisRevision,
+  RevisionDiff,
+  RevisionFieldChange,
+  RevisionTrigger,
+  formatConfidence,
+  formatPrice,
+} from '../../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface AnalysisEvolutionTimelineProps {
+  analysisId: string;
+  // Change this (e.g. to the analysis updatedAt) to reload the history
+  refreshKey?: string;
+  className?: string;
+}
+
+type CompareMode = 'previous' | 'original';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const TRIGGER_META: Record<RevisionTrigger, { label: string; icon: typeof History; color: string }> = {
+  initial: { label: 'First analysis', icon: Sparkles, color: 'bg-stone-500' },
+  user_answer: { label: 'Your answers', icon: MessageCircle, color: 'bg-blue-500' },
+  new_photo: { label: 'New photo', icon: Camera, color: 'bg-purple-500' },
+  expert_correction: { label: 'Expert correction', icon: GraduationCap, color: 'bg-green-600' },
+  model_upgrade: { label: 'Model upgrade', icon: RefreshCw, color: 'bg-amber-500' },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Identification',
+  maker: 'Maker',
+  brand: 'Brand',
+  modelNumber: 'Model number',
+  productCategory: 'Category',
+  domainExpert: 'Specialist',
+  era: 'Era',
+  style: 'Style',
+  periodStart: 'Period start',
+  periodEnd: 'Period end',
+  originRegion: 'Origin',
+  estimatedValueMin: 'Value (low)',
+  estimatedValueMax: 'Value (high)',
+  confidence: 'Confidence',
+  identificationConfidence: 'Identification confidence',
+  makerConfidence: 'Maker confidence',
+  evidenceFor: 'Evidence for',
+  evidenceAgainst: 'Evidence against',
+  redFlags: 'Red flags',
+  authenticationConfidence: 'Authentication confidence',
+  authenticityRisk: 'Authenticity risk',
+  authenticationAssessment: 'Authentication verdict',
+  expertReferralRecommended: 'Expert referral',
+};
+
+function fieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? field;
+}
+
+function formatValue(change: RevisionFieldChange, value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (change.group === 'valuation') return formatPrice(value as number);
+  if (change.group === 'confidence' || change.field === 'authenticationConfidence') {
+    return formatConfidence(value as number);
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value).replace(/_/g, ' ');
+}
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+function ChangeRow({ change }: { change: RevisionFieldChange }) {
+  const isList = change.added !== undefined || change.removed !== undefined;
+
+  return (
+    <div className="py-2 border-b border-stone-100 last:border-0">
+      <p className="text-xs font-medium text-stone-500 uppercase tracking-wide">
+        {fieldLabel(change.field)}
+      </p>
+      {isList ? (
+        <ul className="mt-1 space-y-0.5 text-sm">
+          {change.added?.map((item, idx) => (
+            <li key={`added-${idx}`} className="text-green-700">+ {String(item)}</li>
+          ))}
+          {change.removed?.map((item, idx) => (
+            <li key={`removed-${idx}`} className="text-red-600 line-through">{String(item)}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-1 text-sm text-stone-800 flex items-center gap-2 flex-wrap">
+          <span className="text-stone-500 line-through">{formatValue(change, change.before)}</span>
+          <ArrowRight className="w-3 h-3 text-stone-400" />
+          <span className="font-medium">{formatValue(change, change.after)}</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function AnalysisEvolutionTimeline({
+  analysisId,
+  refreshKey,
+  className = '',
+}: AnalysisEvolutionTimelineProps) {
+  const [revisions, setRevisions] = useState<AnalysisRevision[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous');
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    api.getAnalysisRevisions(analysisId)
+      .then((response) => {
+        if (cancelled || !response.data) return;
+        setRevisions(response.data);
+        setSelected(response.data.length > 1 ? response.data[response.data.length - 1].revisionNumber : null);
+      })
+      .catch(() => {
+        // No history available - the timeline stays hidden
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [analysisId, refreshKey]);
+
+  useEffect(() => {
+    if (selected === null || selected <= 1) {
+      setDiff(null);
+      return;
+    }
+    let cancelled = false;
+    const from = compareMode === 'original' ? 1 : selected - 1;
+
+    setLoadingDiff(true);
+    api.getAnalysisRevisionDiff(analysisId, from, selected)
+      .then((response) => {
+        if (!cancelled) setDiff(response.data ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setDiff(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingDiff(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [analysisId, selected, compareMode]);
+
+  // Nothing has changed since the first analysis
+  if (revisions.length < 2) return null;
+
+  const newestFirst = [...revisions].reverse();
+
+  return (
+    <div className={`bg-white rounded-xl shadow-sm border border-stone-200 overflow-hidden ${className}`}>
+      {/* Header */}
+      <div className="p-4 border-b border-stone-100 flex items-center justify-between">
+        <h3 className="font-serif text-lg text-stone-900 flex items-center gap-2">
+          <History className="w-5 h-5 text-amber-500" />
+          How This Analysis Evolved
+        </h3>
+        <span className="text-sm text-stone-500">{revisions.length} versions</span>
+      </div>
+
+      <div className="grid md:grid-cols-2">
+        {/* Timeline */}
+        <ol className="p-4 space-y-3 md:border-r border-stone-100">
+          {newestFirst.map((revision) => {
+            const meta = TRIGGER_META[revision.trigger];
+            const Icon = meta.icon;
+            const isSelected = revision.revisionNumber === selected;
+
+            return (
+              <li key={revision.id}>
+                <button
+                  onClick={() => setSelected(revision.revisionNumber)}
+                  disabled={revision.revisionNumber === 1}
+                  className={`w-full flex gap-3 p-2 rounded-lg text-left transition-colors ${
+                    isSelected ? 'bg-amber-50 ring-1 ring-amber-200' : 'hover:bg-stone-50'
+                  } disabled:cursor-default`}
+                >
+                  <div className={`flex-shrink-0 w-7 h-7 rounded-full flex items-center justify-center ${meta.color}`}>
+                    <Icon className="w-4 h-4 text-white" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-stone-900 text-sm">
+                        v{revision.revisionNumber} · {meta.label}
+                      </span>
+                      <span className="text-xs text-stone-400 whitespace-nowrap">
+                        {new Date(revision.createdAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                    {revision.reason && (
+                      <p className="text-xs text-stone-600 mt-0.5">{revision.reason}</p>
+                    )}
+                    {revision.changedFields.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {revision.changedFields.map((field) => (
+                          <span key={field} className="px-1.5 py-0.5 bg-stone-100 text-stone-600 rounded text-[10px]">
+                            {fieldLabel(field)}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+
+        {/* Diff */}
+        <div className="p-4">
+          <div className="flex gap-2 mb-3">
+            {(['previous', 'original'] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setCompareMode(mode)}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                  compareMode === mode ? 'bg-stone-900 text-white' : 'bg-stone-100 text-stone-600 hover:bg-stone-200'
+                }`}
+              >
+                {mode === 'previous' ? 'vs previous' : 'vs original'}
+              </button>
+            ))}
+          </div>
+
+          <AnimatePresence mode="wait">
+            {loadingDiff ? (
+              <motion.div key="loading" className="flex justify-center py-6" initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+                <Loader2 className="w-5 h-5 text-stone-400 animate-spin" />
+              </motion.div>
+            ) : diff ? (
+              <motion.div
+                key={`${diff.from.revisionNumber}-${diff.to.revisionNumber}`}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0 }}
+              >
+                <p className="text-xs text-stone-500 mb-2">
+                  v{diff.from.revisionNumber} → v{diff.to.revisionNumber}
+                </p>
+                {diff.changes.length === 0 ? (
+                  <p className="text-sm text-stone-500">No differences between these versions.</p>
+                ) : (
+                  diff.changes.map((change) => <ChangeRow key={change.field} change={change} />)
+                )}
+              </motion.div>
+            ) : null}
+          </AnimatePresence>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AnalysisEvolutionTimeline;
@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { toast } from 'sonner'
 import {
@@ -6,7 +6,9 @@ import {
   ChevronRight, ChevronLeft, AlertTriangle, FileText, Upload, X, Loader2
 } from 'lucide-react'
 import { GlassCard } from '@/components/ui/glass-card'
+import { api } from '@/lib/api'
 import {
+  CaptureStatus,
   ItemAnalysis,
   PhotoRequest,
   getAuthenticityRiskColor,
@@ -20,6 +22,7 @@ interface AuthenticationWizardProps {
   analysis: ItemAnalysis
   onClose: () => void
   onSubmitPhotos?: (photos: { photoRequest: PhotoRequest; imageData: string }[]) => Promise<void>
+  onAnalysisUpdated?: (analysis: ItemAnalysis) => void
 }
 
 type WizardStep = 'overview' | 'checklist' | 'photos' | 'report'
@@ -27,7 +30,8 @@ type WizardStep = 'overview' | 'checklist' | 'photos' | 'report'
 export default function AuthenticationWizard({
   analysis,
   onClose,
-  onSubmitPhotos
+  onSubmitPhotos,
+  onAnalysisUpdated
 }: AuthenticationWizardProps) {
   const [currentStep, setCurrentStep] = useState<WizardStep>('overview')
   const [checklistState, setChecklistState] = useState<Record<string, {
@@ -37,6 +41,10 @@ export default function AuthenticationWizard({
   }>>({})
   const [photoSubmissions, setPhotoSubmissions] = useState<Record<string, string>>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [captures, setCaptures] = useState<CaptureStatus[]>(
+    () => (analysis.suggestedCaptures || []).map(c => ({ ...c, satisfied: false, photoId: null }))
+  )
+  const [uploadingCapture, setUploadingCapture] = useState<string | null>(null)
 
   const {
     authenticationConfidence,
@@ -58,6 +66,28 @@ export default function AuthenticationWizard({
   const requiredPhotos = additionalPhotosRequested?.filter(p => p.priority === 'required').length || 0
   const totalPhotoRequests = additionalPhotosRequested?.length || 0
 
+  const satisfiedCaptures = captures.filter(c => c.satisfied).length
+
+  // Load which suggested captures earlier follow-up photos already answered
+  useEffect(() => {
+    if (!analysis.id || !analysis.suggestedCaptures?.length) return
+    let cancelled = false
+
+    api.getAnalysisPhotos(analysis.id)
+      .then(response => {
+        if (!cancelled && response.data) {
+          setCaptures(response.data.captures)
+        }
+      })
+      .catch(() => {
+        // Keep the unsatisfied list from the analysis
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [analysis.id, analysis.suggestedCaptures])
+
   // Handle check toggle
   const handleCheckToggle = (checkId: string, result: 'pass' | 'fail' | 'uncertain') => {
     setChecklistState(prev => ({
@@ -70,8 +100,8 @@ export default function AuthenticationWizard({
     }))
   }
 
-  // Handle photo capture
-  const handlePhotoCapture = useCallback((photoId: string) => {
+  // Open the camera / file picker and read the chosen image as a data URL
+  const pickImage = useCallback((onLoad: (dataUrl: string) => void) => {
     const input = document.createElement('input')
     input.type = 'file'
     input.accept = 'image/*'
@@ -83,11 +113,7 @@ export default function AuthenticationWizard({
 
       const reader = new FileReader()
       reader.onload = (event) => {
-        const dataUrl = event.target?.result as string
-        setPhotoSubmissions(prev => ({
-          ...prev,
-          [photoId]: dataUrl
-        }))
+        onLoad(event.target?.result as string)
       }
       reader.readAsDataURL(file)
     }
@@ -95,6 +121,43 @@ export default function AuthenticationWizard({
     input.click()
   }, [])
 
+  // Handle photo capture
+  const handlePhotoCapture = useCallback((photoId: string) => {
+    pickImage(dataUrl => {
+      setPhotoSubmissions(prev => ({
+        ...prev,
+        [photoId]: dataUrl
+      }))
+    })
+  }, [pickImage])
+
+  // Suggested captures are sent straight away - each one is analyzed on its own
+  const handleCaptureUpload = useCallback((capture: CaptureStatus) => {
+    pickImage(async dataUrl => {
+      setUploadingCapture(capture.label)
+      try {
+        const response = await api.addAnalysisPhoto(analysis.id, {
+          image: dataUrl,
+          role: capture.role,
+          captureLabel: capture.label
+        })
+        if (response.data) {
+          setCaptures(response.data.captures)
+          onAnalysisUpdated?.(response.data.analysis)
+          toast.success(
+            response.data.updatedFields.length > 0
+              ? `${capture.label} analyzed - analysis updated`
+              : `${capture.label} analyzed - no changes to the analysis`
+          )
+        }
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to analyze photo')
+      } finally {
+        setUploadingCapture(null)
+      }
+    })
+  }, [pickImage, analysis.id, onAnalysisUpdated])
+
   // Handle submit
   const handleSubmit = async () => {
     if (!additionalPhotosRequested) {
@@ -434,6 +497,50 @@ export default function AuthenticationWizard({
                     </p>
                   </div>
 
+                  {/* Suggested Captures */}
+                  {captures.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <h4 className="font-semibold text-foreground">Suggested Captures</h4>
+                        <span className="text-sm text-muted-foreground">
+                          {satisfiedCaptures} / {captures.length} satisfied
+                        </span>
+                      </div>
+                      {captures.map(capture => (
+                        <div
+                          key={capture.label}
+                          className={`flex items-center gap-3 p-3 rounded-xl border ${
+                            capture.satisfied ? 'border-green-200 bg-green-50' : getPhotoPriorityColor(capture.priority)
+                          }`}
+                        >
+                          {capture.satisfied ? (
+                            <CheckCircle2 className="w-5 h-5 text-green-500 flex-shrink-0" />
+                          ) : (
+                            <Camera className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-foreground text-sm">{capture.label}</p>
+                            <p className="text-xs text-muted-foreground">{capture.instruction}</p>
+                          </div>
+                          {!capture.satisfied && (
+                            <button
+                              onClick={() => handleCaptureUpload(capture)}
+                              disabled={uploadingCapture !== null}
+                              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium border border-border rounded-lg hover:border-blue-400 hover:text-blue-600 transition-colors disabled:opacity-50"
+                            >
+                              {uploadingCapture === capture.label ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <Upload className="w-4 h-4" />
+                              )}
+                              <span>{uploadingCapture === capture.label ? 'Analyzing...' : 'Upload'}</span>
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Photo Requests */}
                   <div className="grid md:grid-cols-2 gap-4">
                     {additionalPhotosRequested?.map((photo, index) => (
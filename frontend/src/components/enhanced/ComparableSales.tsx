@@ -10,7 +10,7 @@ import {
   TrendingUp
 } from 'lucide-react'
 import { GlassCard } from '@/components/ui/glass-card'
-import { ComparableSale, formatPrice } from '@/types'
+import { ComparableSale, formatPrice, isModelled } from '@/types'
 
 interface ComparableSalesProps {
   sales: ComparableSale[] | null
@@ -32,10 +32,14 @@ export default function ComparableSales({
 
   if (validSales.length === 0) return null
 
-  // Calculate average sale price from valid sales
-  const avgPrice = validSales.reduce((sum, sale) => sum + sale.price, 0) / validSales.length
-  const minPrice = Math.min(...validSales.map(s => s.price))
-  const maxPrice = Math.max(...validSales.map(s => s.price))
+  // Statistics come from recorded sales only - modelled entries are shown, never averaged in
+  const recordedSales = validSales.filter(s => !isModelled(s))
+  const modelledCount = validSales.length - recordedSales.length
+  const avgPrice = recordedSales.length > 0
+    ? recordedSales.reduce((sum, sale) => sum + sale.price, 0) / recordedSales.length
+    : 0
+  const minPrice = recordedSales.length > 0 ? Math.min(...recordedSales.map(s => s.price)) : 0
+  const maxPrice = recordedSales.length > 0 ? Math.max(...recordedSales.map(s => s.price)) : 0
 
   return (
     <motion.div
@@ -58,7 +62,10 @@ export default function ComparableSales({
             <div className="text-left">
               <h3 className="font-bold text-foreground">Market Comparables</h3>
               <p className="text-sm text-muted-foreground">
-                {validSales.length} recent {validSales.length === 1 ? 'sale' : 'sales'} • Avg: {formatPrice(avgPrice)}
+                {recordedSales.length > 0
+                  ? `${recordedSales.length} recorded ${recordedSales.length === 1 ? 'sale' : 'sales'} • Avg: ${formatPrice(avgPrice)}`
+                  : 'No recorded sales'}
+                {modelledCount > 0 && ` • ${modelledCount} modelled`}
               </p>
             </div>
           </div>
@@ -84,6 +91,7 @@ export default function ComparableSales({
             >
               <div className="px-5 pb-5 space-y-4">
                 {/* Price Range Visualization */}
+                {recordedSales.length > 0 && (
                 <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-4 border border-blue-200">
                   <div className="flex items-center justify-between mb-4">
                     <span className="text-sm text-muted-foreground">Price Range from Comparables</span>
@@ -116,8 +124,8 @@ export default function ComparableSales({
                   {/* Our Estimate Comparison */}
                   {(estimatedMin || estimatedMax) && (
                     <div className="flex items-center justify-center gap-2 text-sm">
-                      <span className="text-muted-foreground">Our estimate:</span>
-                      <span className="font-bold text-indigo-600">
+                      <span className="text-muted-foreground">Our estimate (modelled):</span>
+                      <span className="font-bold text-muted-foreground italic px-2 py-0.5 rounded border border-dashed border-amber-300">
                         {estimatedMin && estimatedMax
                           ? `${formatPrice(estimatedMin)} - ${formatPrice(estimatedMax)}`
                           : formatPrice(estimatedMin || estimatedMax)}
@@ -125,6 +133,7 @@ export default function ComparableSales({
                     </div>
                   )}
                 </div>
+                )}
 
                 {/* Individual Sales */}
                 <div className="space-y-3">
@@ -134,7 +143,9 @@ export default function ComparableSales({
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
                       transition={{ delay: 0.1 * index }}
-                      className="bg-white/60 rounded-xl p-4 border border-border hover:border-blue-300 transition-colors"
+                      className={isModelled(sale)
+                        ? 'bg-amber-50/40 rounded-xl p-4 border-2 border-dashed border-amber-300'
+                        : 'bg-white/60 rounded-xl p-4 border border-border hover:border-blue-300 transition-colors'}
                     >
                       <div className="flex items-start justify-between gap-4">
                         <div className="flex-1">
@@ -156,11 +167,13 @@ export default function ComparableSales({
                           )}
                         </div>
                         <div className="text-right">
-                          <div className="flex items-center gap-1 text-lg font-bold text-green-600">
+                          <div className={isModelled(sale)
+                            ? 'flex items-center gap-1 text-lg font-bold text-muted-foreground italic'
+                            : 'flex items-center gap-1 text-lg font-bold text-green-600'}>
                             <DollarSign className="w-4 h-4" />
                             {sale.price?.toLocaleString() ?? 'N/A'}
                           </div>
-                          <span className="text-xs text-muted-foreground">Sold</span>
+                          <span className="text-xs text-muted-foreground">{isModelled(sale) ? 'Modelled' : 'Sold'}</span>
                         </div>
                       </div>
                     </motion.div>
@@ -168,6 +181,7 @@ export default function ComparableSales({
                 </div>
 
                 {/* Market Insight */}
+                {recordedSales.length > 0 && (
                 <div className="bg-blue-50 rounded-xl p-4 border border-blue-200">
                   <p className="text-sm text-blue-800">
                     <strong>Market Insight:</strong> These comparable sales help establish fair market value.
@@ -176,6 +190,7 @@ export default function ComparableSales({
                     {avgPrice < (estimatedMin || Infinity) && ' Our estimate may be conservative based on recent sales data.'}
                   </p>
                 </div>
+                )}
               </div>
             </motion.div>
           )}
@@ -10,10 +10,12 @@ import {
   ChevronUp,
   Zap,
   Target,
-  AlertCircle
+  AlertCircle,
+  ShieldAlert,
+  FileText
 } from 'lucide-react'
 import { GlassCard } from '@/components/ui/glass-card'
-import { FlipDifficulty, getFlipDifficultyColor } from '@/types'
+import { ComplianceWarning, FlipDifficulty, getFlipDifficultyColor } from '@/types'
 import { cn } from '@/lib/utils'
 
 interface FlipAssessmentProps {
@@ -22,6 +24,7 @@ interface FlipAssessmentProps {
   resaleChannels: string[] | null
   profitPotentialMin: number | null
   profitPotentialMax: number | null
+  complianceWarnings?: ComplianceWarning[] | null
 }
 
 const difficultyConfig: Record<FlipDifficulty, {
@@ -66,6 +69,66 @@ const difficultyConfig: Record<FlipDifficulty, {
   }
 }
 
+const complianceStatusLabels: Record<ComplianceWarning['status'], string> = {
+  prohibited: 'Sale prohibited',
+  requires_documentation: 'Requires documentation'
+}
+
+/**
+ * Protected-material warnings - shown above channel advice because
+ * the channels have already been filtered by them
+ */
+export function ComplianceWarnings({ warnings }: { warnings: ComplianceWarning[] | null | undefined }) {
+  if (!warnings || warnings.length === 0) return null
+
+  return (
+    <div className="space-y-2" role="alert">
+      {warnings.map((warning) => {
+        const isProhibited = warning.status === 'prohibited'
+        return (
+          <div
+            key={`${warning.material}-${warning.jurisdiction}`}
+            className={cn(
+              'p-4 rounded-xl border',
+              isProhibited ? 'bg-danger-muted border-danger/30' : 'bg-warning-muted border-warning/30'
+            )}
+          >
+            <div className="flex items-start gap-3">
+              <ShieldAlert className={cn('w-5 h-5 mt-0.5 flex-shrink-0', isProhibited ? 'text-danger' : 'text-warning')} />
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-foreground">
+                    {warning.likelihood === 'likely' ? 'Likely' : 'Possibly'} {warning.materialName.toLowerCase()}
+                  </span>
+                  <span className={cn(
+                    'px-2 py-0.5 rounded-full text-xs font-bold',
+                    isProhibited ? 'bg-danger/20 text-danger' : 'bg-warning/20 text-warning'
+                  )}>
+                    {complianceStatusLabels[warning.status]} ({warning.jurisdiction})
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground italic">"{warning.evidence}"</p>
+                <p className="text-sm text-foreground">{warning.rule}</p>
+                {warning.documentation && (
+                  <p className="flex items-start gap-2 text-sm text-foreground">
+                    <FileText className="w-4 h-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                    {warning.documentation}
+                  </p>
+                )}
+                {warning.prohibitedChannels.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {warning.likelihood === 'likely' ? 'Not listed on' : 'Banned on'}: {warning.prohibitedChannels.join(', ')}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
 const channelIcons: Record<string, typeof Store> = {
   'ebay': Globe,
   'etsy': Store,
@@ -80,11 +143,12 @@ export default function FlipAssessment({
   timeEstimate,
   resaleChannels,
   profitPotentialMin,
-  profitPotentialMax
+  profitPotentialMax,
+  complianceWarnings
 }: FlipAssessmentProps) {
   const [isExpanded, setIsExpanded] = useState(true)
 
-  if (!difficulty && !timeEstimate && (!resaleChannels || resaleChannels.length === 0)) {
+  if (!difficulty && !timeEstimate && (!resaleChannels || resaleChannels.length === 0) && !complianceWarnings?.length) {
     return null
   }
 
@@ -161,6 +225,8 @@ export default function FlipAssessment({
               className="overflow-hidden"
             >
               <div className="px-5 pb-5 space-y-4">
+                <ComplianceWarnings warnings={complianceWarnings} />
+
                 {/* Difficulty & Time Grid */}
                 <div className="grid grid-cols-2 gap-4">
                   {/* Difficulty */}
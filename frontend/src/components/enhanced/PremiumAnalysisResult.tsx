@@ -34,9 +34,11 @@ import { Badge } from '@/components/ui/badge'
 import { useNotifications } from '@/components/enhanced/NotificationSystem'
 import ConfidenceVisualization, { AuthenticationFindings } from '@/components/enhanced/ConfidenceVisualization'
 import AuthenticationWizard from '@/components/enhanced/AuthenticationWizard'
+import AnalysisEvolutionTimeline from '@/components/enhanced/AnalysisEvolutionTimeline'
 import ShareAnalysisModal from '@/components/enhanced/ShareAnalysisModal'
 import { ExpertEscalation } from '@/components/enhanced/ExpertEscalation'
 import { useInteractiveSession } from '@/hooks/useInteractiveSession'
+import { api } from '@/lib/api'
 import { exportAnalysisToPDF } from '@/utils/pdfExport'
 import {
   ItemAnalysis,
@@ -87,7 +89,6 @@ export default function PremiumAnalysisResult({
     error: veraError,
     startSession: startVeraSession,
     triggerReanalysis: triggerVeraReanalysis,
-    submitAdditionalPhotos,
   } = useInteractiveSession()
 
   // Use updated analysis if available (after Vera reanalysis)
@@ -230,20 +231,36 @@ export default function PremiumAnalysisResult({
   // Export for Vera integration
   void handleVeraReanalysisCallback
 
+  // Follow-up photos come back as the saved row, which lacks the response-only
+  // fields (visual markers, marketplace links) - keep those from what we have
+  const mergeUpdatedAnalysis = (saved: ItemAnalysis) => {
+    setUpdatedAnalysis(prev => ({ ...(prev || analysis), ...saved }))
+  }
+
   const handleSubmitPhotosFromWizard = async (photos: { photoRequest: PhotoRequest; imageData: string }[]) => {
     trackEvent('auth_wizard_photos_submitted', { count: photos.length })
     notifications.info(`Submitting ${photos.length} photos for analysis...`)
 
-    const result = await submitAdditionalPhotos(displayAnalysis.id, photos)
-    if (result?.analysis) {
-      setUpdatedAnalysis(result.analysis)
-      notifications.premium(
-        'Photos Analyzed!',
-        `Analysis updated with ${photos.length} additional photos`
-      )
-    } else {
-      notifications.error('Failed to analyze photos. Please try again.')
+    // Each photo is analyzed against the result the previous one produced
+    const updatedFields = new Set<string>()
+    for (const photo of photos) {
+      const response = await api.addAnalysisPhoto(displayAnalysis.id, {
+        image: photo.imageData,
+        role: 'detail',
+        captureLabel: photo.photoRequest.area,
+      })
+      if (response.data) {
+        mergeUpdatedAnalysis(response.data.analysis)
+        response.data.updatedFields.forEach(field => updatedFields.add(field))
+      }
     }
+
+    notifications.premium(
+      'Photos Analyzed!',
+      updatedFields.size > 0
+        ? `Analysis updated with ${photos.length} additional photos`
+        : 'No changes to the analysis from these photos'
+    )
   }
 
   // Format value range
@@ -538,6 +555,14 @@ export default function PremiumAnalysisResult({
         </motion.div>
       )}
 
+      {/* Evolution Timeline - only shown once the analysis has changed */}
+      {displayAnalysis.id && (
+        <AnalysisEvolutionTimeline
+          analysisId={displayAnalysis.id}
+          refreshKey={displayAnalysis.updatedAt}
+        />
+      )}
+
       {/* Action Bar - Sticky on mobile */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -806,6 +831,7 @@ export default function PremiumAnalysisResult({
             analysis={displayAnalysis}
             onClose={() => setShowAuthWizard(false)}
             onSubmitPhotos={handleSubmitPhotosFromWizard}
+            onAnalysisUpdated={mergeUpdatedAnalysis}
           />
         )}
       </AnimatePresence>
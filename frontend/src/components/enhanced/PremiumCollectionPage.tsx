@@ -37,6 +37,8 @@ interface CollectionItem {
   estimated_value_min?: number
   estimated_value_max?: number
   image_url: string
+  // Smaller derivatives for gallery tiles - absent on older responses
+  image_variants?: { thumb: string; medium: string }
   notes?: string
   location?: string
   saved_at: string
@@ -101,6 +103,7 @@ export default function PremiumCollectionPage() {
           estimated_value_min: item.analysis?.estimated_value_min,
           estimated_value_max: item.analysis?.estimated_value_max,
           image_url: item.analysis?.image_url,
+          image_variants: item.analysis?.imageVariants,
           notes: item.notes,
           location: item.location,
           saved_at: item.savedAt,
@@ -455,7 +458,8 @@ export default function PremiumCollectionPage() {
                           viewMode === 'grid' ? 'aspect-square' : 'w-32 h-32 flex-shrink-0'
                         )}>
                           <img 
-                            src={item.image_url} 
+                            src={(viewMode === 'grid' ? item.image_variants?.medium : item.image_variants?.thumb) ?? item.image_url}
+                            loading="lazy"
                             alt={item.name}
                             className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
                           />
@@ -3,7 +3,7 @@
  * Bulk analysis for estate sales, collections, and high-volume scanning
  */
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   Upload,
@@ -12,20 +12,24 @@ import {
   Lock,
   X,
   Play,
-  Pause,
+  Square,
+  RotateCcw,
   CheckCircle,
   AlertCircle,
   Loader2,
   Download,
   FileSpreadsheet,
+  FolderPlus,
   Package
 } from 'lucide-react'
 import { useDropzone } from 'react-dropzone'
+import { toast } from 'sonner'
 import { GlassCard } from '@/components/ui/glass-card'
+import { api } from '@/lib/api'
+import type { BatchJob, BatchItem as ServerBatchItem, BatchEvent, BatchJobDetail } from '@/types'
 
 interface BatchItem {
   id: string
-  file: File
   preview: string
   status: 'pending' | 'analyzing' | 'completed' | 'error'
   analysis?: {
@@ -39,6 +43,12 @@ interface BatchItem {
   error?: string
 }
 
+interface StagedFile {
+  id: string
+  file: File
+  preview: string
+}
+
 interface BatchAnalysisProps {
   isPremium?: boolean
   maxItems?: number
@@ -46,37 +56,122 @@ interface BatchAnalysisProps {
   onExport?: (format: 'csv' | 'pdf') => void
 }
 
+function toBatchItem(item: ServerBatchItem): BatchItem {
+  return {
+    id: item.id,
+    preview: item.imageUrl,
+    status: item.status === 'processing'
+      ? 'analyzing'
+      : item.status === 'failed' || item.status === 'cancelled'
+        ? 'error'
+        : item.status,
+    analysis: item.analysis ? {
+      name: item.analysis.name,
+      category: item.analysis.productCategory || 'unknown',
+      era: item.analysis.era || 'Unknown era',
+      confidence: item.analysis.confidence,
+      valueMin: item.analysis.estimatedValueMin ?? undefined,
+      valueMax: item.analysis.estimatedValueMax ?? undefined
+    } : undefined,
+    error: item.status === 'cancelled' ? 'Cancelled' : item.lastError || undefined
+  }
+}
+
+const isFinished = (job: BatchJob | null) => job?.status === 'completed' || job?.status === 'cancelled'
+
 export default function BatchAnalysis({
   isPremium = false,
-  maxItems = 50,
+  maxItems = 100,
   onUpgradeClick,
   onExport
 }: BatchAnalysisProps) {
-  const [items, setItems] = useState<BatchItem[]>([])
-  const [isProcessing, setIsProcessing] = useState(false)
-  const [isPaused, setIsPaused] = useState(false)
-  const [currentIndex, setCurrentIndex] = useState(0)
+  const [staged, setStaged] = useState<StagedFile[]>([])
+  const [job, setJob] = useState<BatchJob | null>(null)
+  const [jobItems, setJobItems] = useState<BatchItem[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const eventSourceRef = useRef<EventSource | null>(null)
+
+  const applyDetail = useCallback((detail: BatchJobDetail) => {
+    setJob(detail.job)
+    setJobItems(detail.items.map(toBatchItem))
+  }, [])
+
+  // Follow server-side progress until the job finishes
+  const watchJob = useCallback((jobId: string) => {
+    eventSourceRef.current?.close()
+    const source = new EventSource(api.batchEventsUrl(jobId), { withCredentials: true })
+    eventSourceRef.current = source
+
+    source.addEventListener('snapshot', (e) => {
+      applyDetail(JSON.parse((e as MessageEvent).data))
+    })
+    source.addEventListener('item', (e) => {
+      const { item } = JSON.parse((e as MessageEvent).data) as Extract<BatchEvent, { type: 'item' }>
+      setJobItems(prev => prev.map(i => i.id === item.id ? toBatchItem(item) : i))
+    })
+    source.addEventListener('job', (e) => {
+      const { job: next } = JSON.parse((e as MessageEvent).data) as Extract<BatchEvent, { type: 'job' }>
+      setJob(next)
+      if (isFinished(next)) {
+        source.close()
+        // Pick up final analysis summaries
+        api.getBatchJob(jobId).then(res => res.data && applyDetail(res.data)).catch(() => {})
+      }
+    })
+    source.onerror = () => {
+      // The server closes the stream when the job finishes; EventSource reconnects otherwise
+      if (source.readyState === EventSource.CLOSED) source.close()
+    }
+  }, [applyDetail])
+
+  // Reattach to a job still running from an earlier visit
+  useEffect(() => {
+    if (!isPremium) return
+    let cancelled = false
+
+    api.getBatchJobs()
+      .then(async (res) => {
+        const active = res.data?.find(j => !isFinished(j))
+        if (!active || cancelled) return
+        const detail = await api.getBatchJob(active.id)
+        if (detail.data && !cancelled) {
+          applyDetail(detail.data)
+          watchJob(active.id)
+        }
+      })
+      .catch(() => {})
+
+    return () => {
+      cancelled = true
+      eventSourceRef.current?.close()
+    }
+  }, [isPremium, applyDetail, watchJob])
+
+  const items: BatchItem[] = job
+    ? jobItems
+    : staged.map(s => ({ id: s.id, preview: s.preview, status: 'pending' }))
+  const isProcessing = !!job && !isFinished(job)
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    const newItems: BatchItem[] = acceptedFiles.slice(0, maxItems - items.length).map(file => ({
+    const newItems: StagedFile[] = acceptedFiles.slice(0, maxItems - staged.length).map(file => ({
       id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       file,
-      preview: URL.createObjectURL(file),
-      status: 'pending'
+      preview: URL.createObjectURL(file)
     }))
-    setItems(prev => [...prev, ...newItems])
-  }, [items.length, maxItems])
+    setStaged(prev => [...prev, ...newItems])
+  }, [staged.length, maxItems])
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'image/*': ['.jpeg', '.jpg', '.png', '.webp', '.heic']
     },
-    disabled: !isPremium || items.length >= maxItems
+    disabled: !isPremium || !!job || staged.length >= maxItems
   })
 
   const removeItem = (id: string) => {
-    setItems(prev => {
+    setStaged(prev => {
       const item = prev.find(i => i.id === id)
       if (item) URL.revokeObjectURL(item.preview)
       return prev.filter(i => i.id !== id)
@@ -84,65 +179,70 @@ export default function BatchAnalysis({
   }
 
   const clearAll = () => {
-    items.forEach(item => URL.revokeObjectURL(item.preview))
-    setItems([])
-    setCurrentIndex(0)
-    setIsProcessing(false)
-    setIsPaused(false)
+    eventSourceRef.current?.close()
+    staged.forEach(item => URL.revokeObjectURL(item.preview))
+    setStaged([])
+    setJob(null)
+    setJobItems([])
   }
 
   const startProcessing = async () => {
-    if (items.length === 0) return
-
-    setIsProcessing(true)
-    setIsPaused(false)
-
-    // Simulate batch analysis
-    for (let i = currentIndex; i < items.length; i++) {
-      if (isPaused) break
-
-      setCurrentIndex(i)
-      setItems(prev => prev.map((item, idx) =>
-        idx === i ? { ...item, status: 'analyzing' } : item
-      ))
-
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 1000))
-
-      // Simulate analysis result (in production this would be actual API response)
-      const mockAnalysis = {
-        name: `Vintage Item ${i + 1}`,
-        category: ['antique', 'vintage', 'modern_branded'][Math.floor(Math.random() * 3)],
-        era: ['Victorian', '1920s', '1950s', '1970s'][Math.floor(Math.random() * 4)],
-        confidence: 0.7 + Math.random() * 0.25,
-        valueMin: Math.round(50 + Math.random() * 500),
-        valueMax: Math.round(200 + Math.random() * 1500)
+    if (staged.length === 0) return
+
+    setIsSubmitting(true)
+    try {
+      const res = await api.createBatchJob(staged.map(s => s.file))
+      if (res.data) {
+        staged.forEach(item => URL.revokeObjectURL(item.preview))
+        setStaged([])
+        applyDetail(res.data)
+        watchJob(res.data.job.id)
       }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not start batch')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
 
-      // 10% chance of error for demo
-      const hasError = Math.random() < 0.1
-
-      setItems(prev => prev.map((item, idx) =>
-        idx === i ? {
-          ...item,
-          status: hasError ? 'error' : 'completed',
-          analysis: hasError ? undefined : mockAnalysis,
-          error: hasError ? 'Could not identify item' : undefined
-        } : item
-      ))
+  const cancelProcessing = async () => {
+    if (!job) return
+    try {
+      const res = await api.cancelBatchJob(job.id)
+      if (res.data) setJob(res.data)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not cancel batch')
     }
+  }
 
-    if (!isPaused) {
-      setIsProcessing(false)
+  const retryFailed = async () => {
+    if (!job) return
+    try {
+      await api.retryBatchJob(job.id)
+      watchJob(job.id)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not retry items')
     }
   }
 
-  const pauseProcessing = () => {
-    setIsPaused(true)
-    setIsProcessing(false)
+  const saveToCollection = async () => {
+    if (!job) return
+    setIsSaving(true)
+    try {
+      const res = await api.saveBatchToCollection(job.id)
+      if (res.data) {
+        toast.success(`Saved ${res.data.saved} items to your collection`)
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not save items')
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   const completedItems = items.filter(i => i.status === 'completed')
+  const failedCount = job?.failedItems ?? 0
+  const finishedCount = completedItems.length + items.filter(i => i.status === 'error').length
   const totalValue = completedItems.reduce((sum, item) => {
     if (item.analysis) {
       return sum + ((item.analysis.valueMin || 0) + (item.analysis.valueMax || 0)) / 2
@@ -189,34 +289,44 @@ export default function BatchAnalysis({
           </div>
           {items.length > 0 && (
             <div className="flex items-center gap-2">
-              <button
-                onClick={clearAll}
-                className="px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
-              >
-                Clear All
-              </button>
-              {!isProcessing ? (
+              {!isProcessing && (
+                <button
+                  onClick={clearAll}
+                  className="px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
+                >
+                  {job ? 'New Batch' : 'Clear All'}
+                </button>
+              )}
+              {!job ? (
                 <button
                   onClick={startProcessing}
-                  disabled={completedItems.length === items.length}
+                  disabled={isSubmitting}
                   className={`
                     flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm
-                    ${completedItems.length === items.length
+                    ${isSubmitting
                       ? 'bg-muted text-muted-foreground cursor-not-allowed'
                       : 'bg-gradient-to-r from-indigo-500 to-purple-500 text-white hover:from-indigo-600 hover:to-purple-600'
                     }
                   `}
                 >
-                  <Play className="w-4 h-4" />
-                  {currentIndex > 0 ? 'Resume' : 'Start Analysis'}
+                  {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                  {isSubmitting ? 'Uploading...' : 'Start Analysis'}
+                </button>
+              ) : isProcessing ? (
+                <button
+                  onClick={cancelProcessing}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm bg-amber-500 text-white hover:bg-amber-600"
+                >
+                  <Square className="w-4 h-4" />
+                  Cancel
                 </button>
-              ) : (
+              ) : failedCount > 0 && job.status === 'completed' && (
                 <button
-                  onClick={pauseProcessing}
+                  onClick={retryFailed}
                   className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm bg-amber-500 text-white hover:bg-amber-600"
                 >
-                  <Pause className="w-4 h-4" />
-                  Pause
+                  <RotateCcw className="w-4 h-4" />
+                  Retry {failedCount} Failed
                 </button>
               )}
             </div>
@@ -229,17 +339,17 @@ export default function BatchAnalysis({
         <div className="space-y-2">
           <div className="flex items-center justify-between text-sm">
             <span className="text-muted-foreground">
-              {completedItems.length} of {items.length} analyzed
+              {completedItems.length} of {items.length} analyzed{failedCount > 0 && ` • ${failedCount} failed`}
             </span>
             <span className="text-muted-foreground">
-              {Math.round((completedItems.length / items.length) * 100)}%
+              {Math.round((finishedCount / items.length) * 100)}%
             </span>
           </div>
           <div className="h-2 bg-muted rounded-full overflow-hidden">
             <motion.div
               className="h-full bg-gradient-to-r from-indigo-500 to-purple-500"
               initial={{ width: 0 }}
-              animate={{ width: `${(completedItems.length / items.length) * 100}%` }}
+              animate={{ width: `${(finishedCount / items.length) * 100}%` }}
               transition={{ duration: 0.3 }}
             />
           </div>
@@ -252,7 +362,7 @@ export default function BatchAnalysis({
         className={`
           relative border-2 border-dashed rounded-xl p-8 transition-all cursor-pointer
           ${isDragActive ? 'border-indigo-500 bg-indigo-50' : 'border-border hover:border-indigo-400 hover:bg-muted/50'}
-          ${items.length >= maxItems ? 'opacity-50 cursor-not-allowed' : ''}
+          ${job || staged.length >= maxItems ? 'opacity-50 cursor-not-allowed' : ''}
         `}
       >
         <input {...getInputProps()} />
@@ -306,7 +416,7 @@ export default function BatchAnalysis({
                   </div>
 
                   {/* Remove Button */}
-                  <button
+                  {!job && <button
                     onClick={(e) => {
                       e.stopPropagation()
                       removeItem(item.id)
@@ -314,7 +424,7 @@ export default function BatchAnalysis({
                     className="absolute top-2 right-2 w-6 h-6 bg-black/50 hover:bg-black/70 rounded-full flex items-center justify-center text-white opacity-0 group-hover:opacity-100 transition-opacity"
                   >
                     <X className="w-4 h-4" />
-                  </button>
+                  </button>}
 
                   {/* Queue Number */}
                   {item.status === 'pending' && (
@@ -324,6 +434,10 @@ export default function BatchAnalysis({
                   )}
                 </div>
 
+                {item.status === 'error' && item.error && (
+                  <p className="mt-2 text-xs text-danger truncate" title={item.error}>{item.error}</p>
+                )}
+
                 {/* Analysis Preview */}
                 {item.status === 'completed' && item.analysis && (
                   <div className="mt-2 p-2 bg-muted/50 rounded-lg">
@@ -383,19 +497,30 @@ export default function BatchAnalysis({
           {/* Export Buttons */}
           <div className="flex gap-3">
             <button
+              onClick={saveToCollection}
+              disabled={isSaving || isProcessing}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-white border border-border rounded-lg text-muted-foreground font-medium hover:bg-muted/50 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <FolderPlus className="w-4 h-4" />}
+              Save All to Collection
+            </button>
+            <a
+              href={job ? api.batchExportUrl(job.id) : undefined}
               onClick={() => onExport?.('csv')}
               className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-white border border-border rounded-lg text-muted-foreground font-medium hover:bg-muted/50 transition-colors"
             >
               <FileSpreadsheet className="w-4 h-4" />
               Export CSV
-            </button>
-            <button
-              onClick={() => onExport?.('pdf')}
-              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-indigo-500 to-purple-500 text-white rounded-lg font-medium hover:from-indigo-600 hover:to-purple-600 transition-colors"
-            >
-              <Download className="w-4 h-4" />
-              Export PDF Report
-            </button>
+            </a>
+            {onExport && (
+              <button
+                onClick={() => onExport('pdf')}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-indigo-500 to-purple-500 text-white rounded-lg font-medium hover:from-indigo-600 hover:to-purple-600 transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                Export PDF Report
+              </button>
+            )}
           </div>
         </GlassCard>
       )}
@@ -3,7 +3,7 @@
  * Portfolio value tracking, appreciation charts, and insights
  */
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect, useCallback } from 'react'
 import { motion } from 'framer-motion'
 import {
   TrendingUp,
@@ -15,9 +15,12 @@ import {
   ArrowDownRight,
   Sparkles,
   Target,
-  AlertTriangle
+  AlertTriangle,
+  RefreshCw
 } from 'lucide-react'
 import { GlassCard } from '@/components/ui/glass-card'
+import { api } from '@/lib/api'
+import type { ValuationHistory, ValuationGroupBy } from '@/types'
 
 interface CollectionItem {
   id: string
@@ -36,21 +39,46 @@ interface CollectionAnalyticsProps {
   onUpgradeClick?: () => void
 }
 
-// Mock historical data for demo - in production this would come from API
-const generateMockHistory = (baseValue: number) => {
-  const months = ['Aug', 'Sep', 'Oct', 'Nov', 'Dec', 'Jan']
-  return months.map((month, i) => ({
-    month,
-    value: Math.round(baseValue * (0.85 + Math.random() * 0.3 + i * 0.02))
-  }))
+const GROUP_LABELS: Record<ValuationGroupBy, string> = {
+  category: 'Category',
+  era: 'Era',
+  location: 'Room'
 }
 
+const monthLabel = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', timeZone: 'UTC' })
+
 export default function CollectionAnalytics({
   items,
   isPremium = false,
   onUpgradeClick
 }: CollectionAnalyticsProps) {
   const [timeRange, setTimeRange] = useState<'6m' | '1y' | 'all'>('6m')
+  const [groupBy, setGroupBy] = useState<ValuationGroupBy>('category')
+  const [valuation, setValuation] = useState<ValuationHistory | null>(null)
+  const [isReappraising, setIsReappraising] = useState(false)
+
+  const loadValuation = useCallback(async () => {
+    const res = await api.getCollectionValuation(timeRange, groupBy)
+    setValuation(res.data ?? null)
+  }, [timeRange, groupBy])
+
+  useEffect(() => {
+    if (!isPremium) return
+    loadValuation().catch(() => setValuation(null))
+  }, [isPremium, loadValuation])
+
+  const reappraiseStale = async () => {
+    setIsReappraising(true)
+    try {
+      await api.reappraiseStaleItems()
+      await loadValuation()
+    } catch (error) {
+      console.error('Failed to re-appraise items:', error)
+    } finally {
+      setIsReappraising(false)
+    }
+  }
 
   // Calculate portfolio metrics
   const metrics = useMemo(() => {
@@ -84,10 +112,14 @@ export default function CollectionAnalytics({
     }
   }, [items])
 
-  // Mock historical data for chart
+  // Month-end portfolio value from valuation snapshots
   const historyData = useMemo(() => {
-    return generateMockHistory((metrics.totalMin + metrics.totalMax) / 2)
-  }, [metrics.totalMin, metrics.totalMax])
+    return (valuation?.points ?? []).map(point => ({
+      date: point.date,
+      month: monthLabel(point.date),
+      value: Math.round((point.totalMin + point.totalMax) / 2)
+    }))
+  }, [valuation])
 
   // Top performers
   const topPerformers = useMemo(() => {
@@ -204,32 +236,104 @@ export default function CollectionAnalytics({
         </div>
 
         {/* Simple Bar Chart */}
-        <div className="h-48 flex items-end justify-between gap-2">
-          {historyData.map((point, idx) => {
-            const maxValue = Math.max(...historyData.map(p => p.value))
-            const height = (point.value / maxValue) * 100
-            const isLast = idx === historyData.length - 1
+        {historyData.some(point => point.value > 0) ? (
+          <div className="h-48 flex items-end justify-between gap-2">
+            {historyData.map((point, idx) => {
+              const maxValue = Math.max(...historyData.map(p => p.value), 1)
+              const height = (point.value / maxValue) * 100
+              const isLast = idx === historyData.length - 1
+
+              return (
+                <motion.div
+                  key={point.date}
+                  className="flex-1 flex flex-col items-center gap-2"
+                  initial={{ height: 0 }}
+                  animate={{ height: 'auto' }}
+                  transition={{ delay: idx * 0.1 }}
+                  title={formatCurrency(point.value)}
+                >
+                  <div
+                    className={`
+                      w-full rounded-t-lg transition-all
+                      ${isLast ? 'bg-gradient-to-t from-blue-600 to-blue-400' : 'bg-muted'}
+                    `}
+                    style={{ height: `${height}%`, minHeight: 20 }}
+                  />
+                  <span className="text-xs text-muted-foreground">{point.month}</span>
+                </motion.div>
+              )
+            })}
+          </div>
+        ) : (
+          <div className="h-48 flex items-center justify-center text-center text-sm text-muted-foreground">
+            Value history builds up as items are saved and re-appraised.
+          </div>
+        )}
+
+        {/* Value by group */}
+        {valuation && valuation.groups.length > 0 && (
+          <div className="mt-6">
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-sm font-medium text-muted-foreground">Value by {GROUP_LABELS[groupBy].toLowerCase()}</span>
+              <div className="flex gap-1">
+                {(Object.keys(GROUP_LABELS) as ValuationGroupBy[]).map(key => (
+                  <button
+                    key={key}
+                    onClick={() => setGroupBy(key)}
+                    className={`
+                      px-2 py-0.5 rounded text-xs font-medium transition-all
+                      ${groupBy === key ? 'bg-blue-600 text-white' : 'bg-muted text-muted-foreground'}
+                    `}
+                  >
+                    {GROUP_LABELS[key]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              {valuation.groups.slice(0, 6).map(group => {
+                const first = group.points.find(p => p.itemCount > 0)
+                const last = group.points[group.points.length - 1]
+                const start = first ? (first.totalMin + first.totalMax) / 2 : 0
+                const end = (last.totalMin + last.totalMax) / 2
+                const change = start > 0 ? ((end - start) / start) * 100 : 0
+
+                return (
+                  <div key={group.key} className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground capitalize truncate">{group.key.replace(/_/g, ' ')}</span>
+                    <span className="flex items-center gap-3">
+                      <span className="text-foreground font-medium">{formatCurrency(end)}</span>
+                      <span className={`w-14 text-right text-xs ${change >= 0 ? 'text-success' : 'text-danger'}`}>
+                        {change >= 0 ? '+' : ''}{change.toFixed(1)}%
+                      </span>
+                    </span>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
 
-            return (
-              <motion.div
-                key={point.month}
-                className="flex-1 flex flex-col items-center gap-2"
-                initial={{ height: 0 }}
-                animate={{ height: 'auto' }}
-                transition={{ delay: idx * 0.1 }}
+        {/* Valuation freshness */}
+        {valuation && valuation.current.itemCount > 0 && (
+          <div className="mt-4 flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              {valuation.current.sources.market} from sold comparables
+              {' • '}{valuation.current.sources.expert} expert
+              {' • '}{valuation.current.sources.analysis} AI estimate
+            </span>
+            {valuation.current.staleItems > 0 && (
+              <button
+                onClick={reappraiseStale}
+                disabled={isReappraising}
+                className="flex items-center gap-1 text-info hover:underline disabled:opacity-50"
               >
-                <div
-                  className={`
-                    w-full rounded-t-lg transition-all
-                    ${isLast ? 'bg-gradient-to-t from-blue-600 to-blue-400' : 'bg-muted'}
-                  `}
-                  style={{ height: `${height}%`, minHeight: 20 }}
-                />
-                <span className="text-xs text-muted-foreground">{point.month}</span>
-              </motion.div>
-            )
-          })}
-        </div>
+                <RefreshCw className={`w-3 h-3 ${isReappraising ? 'animate-spin' : ''}`} />
+                Re-appraise {valuation.current.staleItems} stale
+              </button>
+            )}
+          </div>
+        )}
       </GlassCard>
 
       {/* Two Column Layout */}
@@ -3,7 +3,7 @@
  * Real-time market monitoring with customizable alerts
  */
 
-import { useState } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   Bell,
@@ -17,74 +17,141 @@ import {
   DollarSign,
   Settings,
   Mail,
-  Smartphone
+  Webhook,
+  RefreshCw
 } from 'lucide-react'
+import { toast } from 'sonner'
 import { GlassCard } from '@/components/ui/glass-card'
-
-interface PriceAlert {
-  id: string
-  itemName: string
-  category: string
-  targetType: 'above' | 'below' | 'any_change'
-  targetValue?: number
-  currentValue?: number
-  percentChange?: number
-  isActive: boolean
-  lastTriggered?: string
-  createdAt: string
-}
+import { api } from '@/lib/api'
+import type { PriceAlert, AppNotification, CreatePriceAlertInput } from '@/types'
 
 interface MarketPriceAlertsProps {
-  alerts?: PriceAlert[]
   isPremium?: boolean
   maxAlerts?: number
   onUpgradeClick?: () => void
-  onCreateAlert?: (alert: Partial<PriceAlert>) => Promise<void>
-  onDeleteAlert?: (id: string) => Promise<void>
-  onToggleAlert?: (id: string, isActive: boolean) => Promise<void>
 }
 
-// Mock recent market changes for demo
-const MOCK_MARKET_UPDATES = [
-  { category: 'Mid-Century Furniture', change: 8.2, direction: 'up' as const },
-  { category: 'Art Deco Jewelry', change: -3.1, direction: 'down' as const },
-  { category: 'Vintage Watches', change: 12.5, direction: 'up' as const },
-  { category: 'Victorian Silver', change: 2.8, direction: 'up' as const },
-]
+interface DeliverySettings {
+  email: boolean
+  webhookUrl: string
+  webhookSecret: string | null
+}
+
+interface DeliveryPreferences {
+  alertEmailEnabled?: boolean
+  alertWebhookUrl?: string | null
+  alertWebhookSecret?: string | null
+}
+
+const toDeliverySettings = (prefs?: DeliveryPreferences): DeliverySettings => ({
+  email: prefs?.alertEmailEnabled ?? true,
+  webhookUrl: prefs?.alertWebhookUrl ?? '',
+  webhookSecret: prefs?.alertWebhookSecret ?? null
+})
+
+const formatUsd = (value: number) => `$${value.toLocaleString()}`
 
 export default function MarketPriceAlerts({
-  alerts = [],
   isPremium = false,
   maxAlerts = 10,
-  onUpgradeClick,
-  onCreateAlert,
-  onDeleteAlert,
-  onToggleAlert
+  onUpgradeClick
 }: MarketPriceAlertsProps) {
+  const [alerts, setAlerts] = useState<PriceAlert[]>([])
+  const [feed, setFeed] = useState<AppNotification[]>([])
   const [isCreating, setIsCreating] = useState(false)
   const [showSettings, setShowSettings] = useState(false)
-  const [newAlert, setNewAlert] = useState<Partial<PriceAlert>>({
-    targetType: 'above',
-    isActive: true
-  })
-  const [notifications, setNotifications] = useState({
-    email: true,
-    push: false
+  const [checkingId, setCheckingId] = useState<string | null>(null)
+  const [newAlert, setNewAlert] = useState<CreatePriceAlertInput>({
+    condition: 'above'
   })
+  const [notifications, setNotifications] = useState<DeliverySettings>(toDeliverySettings())
+
+  const loadFeed = useCallback(async () => {
+    const res = await api.getNotifications({ limit: 10 })
+    setFeed(res.data?.notifications ?? [])
+  }, [])
+
+  useEffect(() => {
+    if (!isPremium) return
+
+    api.getPriceAlerts()
+      .then(res => setAlerts(res.data ?? []))
+      .catch(() => {})
+    loadFeed().catch(() => {})
+    api.getPreferences()
+      .then((res) => {
+        setNotifications(toDeliverySettings((res as { preferences?: DeliveryPreferences }).preferences))
+      })
+      .catch(() => {})
+  }, [isPremium, loadFeed])
+
+  const saveSettings = async (next: DeliverySettings) => {
+    setNotifications(next)
+    try {
+      const res = await api.updatePreferences({
+        alertEmailEnabled: next.email,
+        alertWebhookUrl: next.webhookUrl.trim() || null
+      })
+      setNotifications(toDeliverySettings((res as { preferences?: DeliveryPreferences }).preferences))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not save notification settings')
+    }
+  }
+
+  const handleRotateSecret = async () => {
+    try {
+      const res = await api.rotateWebhookSecret()
+      setNotifications(toDeliverySettings((res as { preferences?: DeliveryPreferences }).preferences))
+      toast.success('Webhook signing secret replaced')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not replace the signing secret')
+    }
+  }
 
   const handleCreateAlert = async () => {
     if (!newAlert.itemName || !isPremium) return
 
     try {
-      await onCreateAlert?.({
-        ...newAlert,
-        id: Date.now().toString(),
-        createdAt: new Date().toISOString()
-      })
-      setNewAlert({ targetType: 'above', isActive: true })
+      const res = await api.createPriceAlert(newAlert)
+      if (res.data) setAlerts(prev => [...prev, res.data!])
+      setNewAlert({ condition: 'above' })
       setIsCreating(false)
     } catch (error) {
-      console.error('Failed to create alert:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create alert')
+    }
+  }
+
+  const handleToggleAlert = async (id: string, isActive: boolean) => {
+    try {
+      const res = await api.updatePriceAlert(id, { isActive })
+      if (res.data) setAlerts(prev => prev.map(a => a.id === id ? res.data! : a))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update alert')
+    }
+  }
+
+  const handleDeleteAlert = async (id: string) => {
+    try {
+      await api.deletePriceAlert(id)
+      setAlerts(prev => prev.filter(a => a.id !== id))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete alert')
+    }
+  }
+
+  const handleCheckNow = async (id: string) => {
+    setCheckingId(id)
+    try {
+      const res = await api.checkPriceAlert(id)
+      if (res.data) {
+        setAlerts(prev => prev.map(a => a.id === id ? res.data! : a))
+        if (res.data.lastValue === null) toast.info('No recent sold listings found yet')
+      }
+      await loadFeed()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to check prices')
+    } finally {
+      setCheckingId(null)
     }
   }
 
@@ -160,27 +227,48 @@ export default function MarketPriceAlerts({
           >
             <GlassCard className="p-4">
               <h3 className="font-medium text-foreground mb-3">Notification Preferences</h3>
-              <div className="flex gap-4">
+              <div className="space-y-3">
                 <label className="flex items-center gap-2 cursor-pointer">
                   <input
                     type="checkbox"
                     checked={notifications.email}
-                    onChange={(e) => setNotifications(prev => ({ ...prev, email: e.target.checked }))}
+                    onChange={(e) => saveSettings({ ...notifications, email: e.target.checked })}
                     className="w-4 h-4 rounded border-border text-rose-500 focus:ring-rose-500"
                   />
                   <Mail className="w-4 h-4 text-muted-foreground" />
                   <span className="text-sm text-muted-foreground">Email alerts</span>
                 </label>
-                <label className="flex items-center gap-2 cursor-pointer">
+                <div className="flex items-center gap-2">
+                  <Webhook className="w-4 h-4 text-muted-foreground flex-shrink-0" />
                   <input
-                    type="checkbox"
-                    checked={notifications.push}
-                    onChange={(e) => setNotifications(prev => ({ ...prev, push: e.target.checked }))}
-                    className="w-4 h-4 rounded border-border text-rose-500 focus:ring-rose-500"
+                    type="url"
+                    value={notifications.webhookUrl}
+                    onChange={(e) => setNotifications(prev => ({ ...prev, webhookUrl: e.target.value }))}
+                    onBlur={() => saveSettings(notifications)}
+                    placeholder="Webhook URL (https://...)"
+                    className="flex-1 px-3 py-1.5 text-sm border border-border rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
                   />
-                  <Smartphone className="w-4 h-4 text-muted-foreground" />
-                  <span className="text-sm text-muted-foreground">Push notifications</span>
-                </label>
+                </div>
+                {notifications.webhookUrl && notifications.webhookSecret && (
+                  <div className="pl-6 space-y-1">
+                    <p className="text-xs text-muted-foreground">
+                      Verify the X-VintageVision-Signature header (HMAC-SHA256 of the body) with this secret:
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <code className="flex-1 px-2 py-1 text-xs bg-muted rounded break-all select-all">
+                        {notifications.webhookSecret}
+                      </code>
+                      <button
+                        onClick={handleRotateSecret}
+                        className="p-1.5 hover:bg-muted rounded-lg transition-colors"
+                        title="Replace signing secret"
+                      >
+                        <RefreshCw className="w-4 h-4 text-muted-foreground" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">Alerts always appear in your notification feed below.</p>
               </div>
             </GlassCard>
           </motion.div>
@@ -234,10 +322,10 @@ export default function MarketPriceAlerts({
                     ].map(option => (
                       <button
                         key={option.value}
-                        onClick={() => setNewAlert(prev => ({ ...prev, targetType: option.value as any }))}
+                        onClick={() => setNewAlert(prev => ({ ...prev, condition: option.value as PriceAlert['condition'] }))}
                         className={`
                           flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-all
-                          ${newAlert.targetType === option.value
+                          ${newAlert.condition === option.value
                             ? 'bg-rose-500 text-white'
                             : 'bg-muted text-muted-foreground hover:bg-muted/80'
                           }
@@ -251,7 +339,7 @@ export default function MarketPriceAlerts({
                 </div>
 
                 {/* Target Value */}
-                {newAlert.targetType !== 'any_change' && (
+                {newAlert.condition !== 'any_change' && (
                   <div>
                     <label className="block text-sm font-medium text-muted-foreground mb-2">
                       Target Value
@@ -261,7 +349,7 @@ export default function MarketPriceAlerts({
                       <input
                         type="number"
                         value={newAlert.targetValue || ''}
-                        onChange={(e) => setNewAlert(prev => ({ ...prev, targetValue: Number(e.target.value) }))}
+                        onChange={(e) => setNewAlert(prev => ({ ...prev, targetValue: e.target.value ? Number(e.target.value) : null }))}
                         placeholder="0.00"
                         className="w-full pl-9 pr-3 py-2 border border-border rounded-lg focus:ring-2 focus:ring-rose-500 focus:border-transparent"
                       />
@@ -272,7 +360,7 @@ export default function MarketPriceAlerts({
                 {/* Create Button */}
                 <button
                   onClick={handleCreateAlert}
-                  disabled={!newAlert.itemName}
+                  disabled={!newAlert.itemName || (newAlert.condition !== 'any_change' && !newAlert.targetValue)}
                   className={`
                     w-full flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium
                     ${newAlert.itemName
@@ -308,26 +396,39 @@ export default function MarketPriceAlerts({
                       w-10 h-10 rounded-lg flex items-center justify-center
                       ${alert.isActive ? 'bg-rose-100' : 'bg-muted'}
                     `}>
-                      {alert.targetType === 'above' ? (
+                      {alert.condition === 'above' ? (
                         <TrendingUp className={`w-5 h-5 ${alert.isActive ? 'text-rose-600' : 'text-muted-foreground'}`} />
-                      ) : alert.targetType === 'below' ? (
+                      ) : alert.condition === 'below' ? (
                         <TrendingDown className={`w-5 h-5 ${alert.isActive ? 'text-rose-600' : 'text-muted-foreground'}`} />
                       ) : (
                         <Bell className={`w-5 h-5 ${alert.isActive ? 'text-rose-600' : 'text-muted-foreground'}`} />
                       )}
                     </div>
                     <div>
-                      <p className="font-medium text-foreground">{alert.itemName}</p>
+                      <p className="font-medium text-foreground">{[alert.maker, alert.itemName].filter(Boolean).join(' ')}</p>
                       <p className="text-sm text-muted-foreground">
-                        {alert.targetType === 'above' && `Alert when above $${alert.targetValue?.toLocaleString()}`}
-                        {alert.targetType === 'below' && `Alert when below $${alert.targetValue?.toLocaleString()}`}
-                        {alert.targetType === 'any_change' && 'Alert on any price change'}
+                        {alert.condition === 'above' && `Alert when above ${formatUsd(alert.targetValue ?? 0)}`}
+                        {alert.condition === 'below' && `Alert when below ${formatUsd(alert.targetValue ?? 0)}`}
+                        {alert.condition === 'any_change' && `Alert on a ${alert.changeThreshold}% price change`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {alert.lastValue !== null
+                          ? `Sold average ${formatUsd(alert.lastValue)}${alert.lastPercentChange ? ` (${alert.lastPercentChange > 0 ? '+' : ''}${alert.lastPercentChange}%)` : ''}`
+                          : alert.lastCheckedAt ? 'No recent sold listings found' : 'Not checked yet'}
                       </p>
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
                     <button
-                      onClick={() => onToggleAlert?.(alert.id, !alert.isActive)}
+                      onClick={() => handleCheckNow(alert.id)}
+                      disabled={checkingId === alert.id}
+                      title="Check prices now"
+                      className="p-2 text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
+                    >
+                      <RefreshCw className={`w-4 h-4 ${checkingId === alert.id ? 'animate-spin' : ''}`} />
+                    </button>
+                    <button
+                      onClick={() => handleToggleAlert(alert.id, !alert.isActive)}
                       className={`
                         w-12 h-6 rounded-full transition-colors relative
                         ${alert.isActive ? 'bg-rose-500' : 'bg-muted'}
@@ -340,7 +441,7 @@ export default function MarketPriceAlerts({
                       />
                     </button>
                     <button
-                      onClick={() => onDeleteAlert?.(alert.id)}
+                      onClick={() => handleDeleteAlert(alert.id)}
                       className="p-2 text-muted-foreground hover:text-red-500 hover:bg-danger-muted rounded-lg transition-colors"
                     >
                       <X className="w-4 h-4" />
@@ -353,40 +454,61 @@ export default function MarketPriceAlerts({
         </div>
       )}
 
-      {/* Market Trends */}
-      <GlassCard className="p-4">
-        <div className="flex items-center gap-2 mb-4">
-          <TrendingUp className="w-5 h-5 text-info" />
-          <h3 className="font-bold text-foreground">Market Trends This Week</h3>
-        </div>
-        <div className="grid grid-cols-2 gap-3">
-          {MOCK_MARKET_UPDATES.map((update, idx) => (
-            <motion.div
-              key={update.category}
-              initial={{ opacity: 0, x: -20 }}
-              animate={{ opacity: 1, x: 0 }}
-              transition={{ delay: idx * 0.1 }}
-              className={`
-                p-3 rounded-lg
-                ${update.direction === 'up' ? 'bg-success-muted' : 'bg-danger-muted'}
-              `}
-            >
-              <p className="text-sm font-medium text-muted-foreground truncate">{update.category}</p>
-              <div className={`
-                flex items-center gap-1 text-sm font-bold
-                ${update.direction === 'up' ? 'text-success' : 'text-danger'}
-              `}>
-                {update.direction === 'up' ? (
-                  <TrendingUp className="w-4 h-4" />
-                ) : (
-                  <TrendingDown className="w-4 h-4" />
-                )}
-                {update.direction === 'up' ? '+' : ''}{update.change}%
-              </div>
-            </motion.div>
-          ))}
-        </div>
-      </GlassCard>
+      {/* Recent Alert Activity */}
+      {feed.length > 0 && (
+        <GlassCard className="p-4">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <BellRing className="w-5 h-5 text-info" />
+              <h3 className="font-bold text-foreground">Recent Alerts</h3>
+            </div>
+            {feed.some(n => !n.readAt) && (
+              <button
+                onClick={async () => {
+                  await api.markAllNotificationsRead()
+                  await loadFeed()
+                }}
+                className="text-xs text-muted-foreground hover:text-foreground"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="space-y-2">
+            {feed.map((notification, idx) => {
+              const previous = notification.data?.previousValue
+              const current = notification.data?.currentValue
+              const isUp = previous != null && current != null ? current >= previous : true
+
+              return (
+                <motion.div
+                  key={notification.id}
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: idx * 0.05 }}
+                  className={`
+                    p-3 rounded-lg flex items-start gap-2
+                    ${isUp ? 'bg-success-muted' : 'bg-danger-muted'}
+                    ${notification.readAt ? 'opacity-70' : ''}
+                  `}
+                >
+                  {isUp ? (
+                    <TrendingUp className="w-4 h-4 mt-0.5 text-success flex-shrink-0" />
+                  ) : (
+                    <TrendingDown className="w-4 h-4 mt-0.5 text-danger flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{notification.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {notification.body} • {new Date(notification.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </motion.div>
+              )
+            })}
+          </div>
+        </GlassCard>
+      )}
 
       {/* Empty State */}
       {alerts.length === 0 && !isCreating && (
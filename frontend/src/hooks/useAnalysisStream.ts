@@ -7,6 +7,7 @@
 import { useState, useCallback, useRef } from 'react'
 import { ItemAnalysis } from '@/types'
 import { formatErrorMessage } from '@/lib/utils'
+import { rememberClaimToken } from '@/lib/claimTokens'
 
 export type AnalysisStage = 'idle' | 'upload' | 'triage' | 'evidence' | 'candidates' | 'analysis' | 'complete' | 'error'
 
@@ -108,6 +109,7 @@ export function useAnalysisStream() {
         if (timerRef.current) {
           clearInterval(timerRef.current)
         }
+        rememberClaimToken(result)
         setProgress(prev => ({
           ...prev,
           stage: 'complete',
@@ -7,6 +7,7 @@
 
 import { useState, useCallback } from 'react'
 import { PhotoRequest } from '@/types'
+import { claimTokenHeaders } from '@/lib/claimTokens'
 
 // Types matching backend
 export interface InformationNeed {
@@ -107,6 +108,7 @@ export function useInteractiveSession() {
         credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
+          ...claimTokenHeaders(analysisId),
         },
       })
 
@@ -216,6 +218,7 @@ export function useInteractiveSession() {
         credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
+          ...claimTokenHeaders(session.analysisId),
         },
       })
 
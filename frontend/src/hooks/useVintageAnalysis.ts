@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react'
-import { ItemAnalysis, CapturedImage } from '@/types'
+import { ItemAnalysis, CapturedImage, FieldCorrection } from '@/types'
+import { claimTokenHeaders, forgetClaimToken, rememberClaimToken } from '@/lib/claimTokens'
 
 export function useVintageAnalysis() {
   const [analyzing, setAnalyzing] = useState(false)
@@ -93,6 +94,7 @@ export function useVintageAnalysis() {
 
       // Transform the analysis to include computed properties for compatibility
       const rawAnalysis = data.data
+      rememberClaimToken(rawAnalysis)
       const analysis: ItemAnalysis = {
         ...rawAnalysis,
         historicalContext: rawAnalysis.historical_context || rawAnalysis.historicalContext || '',
@@ -212,6 +214,7 @@ export function useVintageAnalysis() {
 
       // Transform the analysis
       const rawAnalysis = data.data
+      rememberClaimToken(rawAnalysis)
       const analysis: ItemAnalysis = {
         ...rawAnalysis,
         historicalContext: rawAnalysis.historical_context || rawAnalysis.historicalContext || '',
@@ -273,6 +276,7 @@ export function useVintageAnalysis() {
         credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
+          ...claimTokenHeaders(analysisId),
         },
         body: JSON.stringify({
           item_analysis_id: analysisId,
@@ -286,6 +290,7 @@ export function useVintageAnalysis() {
       if (response.ok) {
         const data = await response.json()
         console.log('Save successful:', data)
+        forgetClaimToken(analysisId) // Claimed - the analysis is ours now
 
         // Verify the save by immediately checking the collection
         setTimeout(async () => {
@@ -326,7 +331,8 @@ export function useVintageAnalysis() {
     analysisId: string,
     isCorrect: boolean,
     correctionText?: string,
-    feedbackType?: string
+    feedbackType?: string,
+    corrections?: FieldCorrection[]
   ): Promise<boolean> => {
     try {
       const response = await fetch('/api/feedback', {
@@ -340,6 +346,11 @@ export function useVintageAnalysis() {
           is_correct: isCorrect,
           correction_text: correctionText,
           feedback_type: feedbackType,
+          corrections: corrections?.map(c => ({
+            field: c.field,
+            corrected_value: c.correctedValue,
+            notes: c.notes,
+          })),
         }),
       })
 
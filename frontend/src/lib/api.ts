@@ -2,6 +2,30 @@
 // Self-Hosted Backend Integration
 // October 2025
 
+import type {
+  AddAnalysisPhotoResult,
+  AnalysisPhoto,
+  AnalysisRevision,
+  AnalysisVisibility,
+  AppNotification,
+  BatchJob,
+  BatchJobDetail,
+  CaptureStatus,
+  CreatePriceAlertInput,
+  FieldCorrection,
+  ImageRole,
+  ItemAnalysis,
+  PriceAlert,
+  PriceAlertCondition,
+  RevisionDiff,
+  UsageSummary,
+  ValuationGroupBy,
+  ValuationHistory,
+  ValuationRange,
+  ValuationSnapshot,
+} from '@/types';
+import { claimTokenHeaders, forgetClaimToken, rememberClaimToken } from './claimTokens';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
 
 interface ApiResponse<T = unknown> {
@@ -26,10 +50,13 @@ class ApiClient {
     const config: RequestInit = {
       ...options,
       credentials: 'include', // Important for session cookies
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
+      // Let the browser set the multipart boundary for uploads
+      headers: options.body instanceof FormData
+        ? options.headers
+        : {
+            'Content-Type': 'application/json',
+            ...options.headers,
+          },
     };
 
     try {
@@ -58,14 +85,59 @@ class ApiClient {
 
   // Analysis
   async analyzeImage(imageData: string) {
-    return this.request('/analyze', {
+    const response = await this.request<ItemAnalysis>('/analyze', {
       method: 'POST',
       body: JSON.stringify({ image: imageData }),
     });
+    if (response.data) rememberClaimToken(response.data);
+    return response;
   }
 
   async getAnalysis(id: string) {
-    return this.request(`/analyze/${id}`);
+    return this.request(`/analyze/${id}`, { headers: claimTokenHeaders(id) });
+  }
+
+  async getAnalysisHistory(page: number = 1, limit: number = 20) {
+    return this.request(`/analyze?page=${page}&limit=${limit}`);
+  }
+
+  async setAnalysisVisibility(id: string, visibility: AnalysisVisibility) {
+    return this.request(`/analyze/${id}/visibility`, {
+      method: 'PATCH',
+      body: JSON.stringify({ visibility }),
+    });
+  }
+
+  async getAnalysisPhotos(id: string) {
+    return this.request<{ photos: AnalysisPhoto[]; captures: CaptureStatus[] }>(`/analyze/${id}/photos`);
+  }
+
+  async getAnalysisRevisions(id: string) {
+    return this.request<AnalysisRevision[]>(`/analyze/${id}/revisions`);
+  }
+
+  async getAnalysisRevisionDiff(id: string, from: number, to: number) {
+    return this.request<RevisionDiff>(`/analyze/${id}/revisions/diff?from=${from}&to=${to}`);
+  }
+
+  async rerunAnalysis(id: string) {
+    return this.request<{ analysis: ItemAnalysis; revision: AnalysisRevision | null }>(`/analyze/${id}/rerun`, {
+      method: 'POST',
+      headers: claimTokenHeaders(id),
+    });
+  }
+
+  async addAnalysisPhoto(id: string, photo: { image: string; role?: ImageRole; captureLabel?: string }) {
+    return this.request<AddAnalysisPhotoResult>(`/analyze/${id}/photos`, {
+      method: 'POST',
+      headers: claimTokenHeaders(id),
+      body: JSON.stringify(photo),
+    });
+  }
+
+  // Usage
+  async getUsage() {
+    return this.request<UsageSummary>('/usage');
   }
 
   // Collection
@@ -74,10 +146,13 @@ class ApiClient {
   }
 
   async saveToCollection(itemAnalysisId: string, notes?: string, location?: string) {
-    return this.request('/collection', {
+    const response = await this.request('/collection', {
       method: 'POST',
+      headers: claimTokenHeaders(itemAnalysisId),
       body: JSON.stringify({ itemAnalysisId, notes, location }),
     });
+    forgetClaimToken(itemAnalysisId); // Claimed - the analysis is ours now
+    return response;
   }
 
   async updateCollectionItem(id: string, updates: { notes?: string; location?: string }) {
@@ -87,6 +162,22 @@ class ApiClient {
     });
   }
 
+  async getCollectionValuation(range: ValuationRange = '6m', groupBy: ValuationGroupBy = 'category') {
+    return this.request<ValuationHistory>(`/collection/valuation?range=${range}&groupBy=${groupBy}`);
+  }
+
+  async getItemValuation(id: string) {
+    return this.request<ValuationSnapshot[]>(`/collection/${id}/valuation`);
+  }
+
+  async reappraiseCollectionItem(id: string) {
+    return this.request<ValuationSnapshot>(`/collection/${id}/reappraise`, { method: 'POST' });
+  }
+
+  async reappraiseStaleItems() {
+    return this.request<{ reappraised: number; failed: number }>('/collection/reappraise', { method: 'POST' });
+  }
+
   async removeFromCollection(id: string) {
     return this.request(`/collection/${id}`, {
       method: 'DELETE',
@@ -110,16 +201,127 @@ class ApiClient {
     });
   }
 
+  async rotateWebhookSecret() {
+    return this.request('/preferences/webhook-secret', { method: 'POST' });
+  }
+
+  // Batch analysis
+  async createBatchJob(files: File[], name?: string) {
+    const form = new FormData();
+    files.forEach((file) => form.append('images', file));
+    if (name) form.append('name', name);
+
+    return this.request<BatchJobDetail>('/analyze/batch', {
+      method: 'POST',
+      body: form,
+    });
+  }
+
+  async getBatchJobs() {
+    return this.request<BatchJob[]>('/analyze/batch');
+  }
+
+  async getBatchJob(id: string) {
+    return this.request<BatchJobDetail>(`/analyze/batch/${id}`);
+  }
+
+  async cancelBatchJob(id: string) {
+    return this.request<BatchJob>(`/analyze/batch/${id}/cancel`, { method: 'POST' });
+  }
+
+  async retryBatchJob(id: string) {
+    return this.request<BatchJob>(`/analyze/batch/${id}/retry`, { method: 'POST' });
+  }
+
+  async saveBatchToCollection(id: string, options: { itemIds?: string[]; location?: string } = {}) {
+    return this.request<{ saved: number; alreadySaved: number }>(`/analyze/batch/${id}/save`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  }
+
+  // SSE progress stream - snapshot, then job/item events
+  batchEventsUrl(id: string) {
+    return `${this.baseUrl}/analyze/batch/${id}/events`;
+  }
+
+  batchExportUrl(id: string) {
+    return `${this.baseUrl}/analyze/batch/${id}/export.csv`;
+  }
+
+  // Price alerts
+  async getPriceAlerts() {
+    return this.request<PriceAlert[]>('/alerts');
+  }
+
+  async createPriceAlert(input: CreatePriceAlertInput) {
+    return this.request<PriceAlert>('/alerts', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  async updatePriceAlert(id: string, updates: {
+    isActive?: boolean;
+    condition?: PriceAlertCondition;
+    targetValue?: number | null;
+    changeThreshold?: number;
+  }) {
+    return this.request<PriceAlert>(`/alerts/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deletePriceAlert(id: string) {
+    return this.request(`/alerts/${id}`, { method: 'DELETE' });
+  }
+
+  async checkPriceAlert(id: string) {
+    return this.request<PriceAlert>(`/alerts/${id}/check`, { method: 'POST' });
+  }
+
+  // Notifications
+  async getNotifications(options: { unreadOnly?: boolean; limit?: number } = {}) {
+    const params = new URLSearchParams();
+    if (options.unreadOnly) params.set('unread', 'true');
+    if (options.limit) params.set('limit', String(options.limit));
+    const query = params.toString();
+
+    return this.request<{ notifications: AppNotification[]; unreadCount: number }>(
+      `/notifications${query ? `?${query}` : ''}`
+    );
+  }
+
+  async markNotificationRead(id: string) {
+    return this.request<AppNotification>(`/notifications/${id}/read`, { method: 'POST' });
+  }
+
+  async markAllNotificationsRead() {
+    return this.request<{ updated: number }>('/notifications/read-all', { method: 'POST' });
+  }
+
   // Feedback
   async submitFeedback(data: {
     itemAnalysisId: string;
     isCorrect: boolean;
     correctionText?: string;
     feedbackType: 'accuracy' | 'styling' | 'value';
+    corrections?: FieldCorrection[];
   }) {
     return this.request('/feedback', {
       method: 'POST',
-      body: JSON.stringify(data),
+      body: JSON.stringify({
+        item_analysis_id: data.itemAnalysisId,
+        is_correct: data.isCorrect,
+        correction_text: data.correctionText,
+        feedback_type: data.feedbackType,
+        corrections: data.corrections?.map((c) => ({
+          field: c.field,
+          corrected_value: c.correctedValue,
+          notes: c.notes,
+        })),
+      }),
     });
   }
 }
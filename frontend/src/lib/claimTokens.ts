@@ -0,0 +1,39 @@
+/**
+ * Claim tokens for anonymous analyses
+ *
+ * An analysis run while signed out comes back with a claim token. Only its
+ * creator gets one, and the backend asks for it (X-Claim-Token) before
+ * showing deal data, changing the analysis or saving it to a collection.
+ * Tokens are kept per analysis until the analysis is claimed.
+ */
+
+const STORAGE_PREFIX = 'vintagevision:claim:'
+
+export function rememberClaimToken(analysis: { id?: string; claimToken?: string | null }): void {
+  if (!analysis.id || !analysis.claimToken) return
+  try {
+    localStorage.setItem(STORAGE_PREFIX + analysis.id, analysis.claimToken)
+  } catch {
+    // Storage unavailable - the analysis just can't be claimed later
+  }
+}
+
+export function forgetClaimToken(analysisId: string): void {
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + analysisId)
+  } catch {
+    // Nothing stored
+  }
+}
+
+/**
+ * Headers proving this browser created the analysis, if it did
+ */
+export function claimTokenHeaders(analysisId: string): Record<string, string> {
+  try {
+    const token = localStorage.getItem(STORAGE_PREFIX + analysisId)
+    return token ? { 'X-Claim-Token': token } : {}
+  } catch {
+    return {}
+  }
+}
@@ -3,7 +3,7 @@
  */
 
 import { useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { motion } from 'framer-motion'
 import {
   Crown,
@@ -87,7 +87,12 @@ const FEATURES = [
 
 export default function PremiumFeatures() {
   const navigate = useNavigate()
-  const [activeTab, setActiveTab] = useState<FeatureTab>('analytics')
+  const [searchParams] = useSearchParams()
+  // Deep links from notifications, e.g. /premium?tab=alerts
+  const [activeTab, setActiveTab] = useState<FeatureTab>(() => {
+    const tab = searchParams.get('tab')
+    return FEATURES.some(f => f.id === tab) ? tab as FeatureTab : 'analytics'
+  })
 
   // For demo purposes, treat all users as premium
   // In production, this would check user.isPremium or subscription status
@@ -185,7 +190,6 @@ export default function PremiumFeatures() {
 
           {activeTab === 'alerts' && (
             <MarketPriceAlerts
-              alerts={[]}
               isPremium={isPremium}
               maxAlerts={10}
               onUpgradeClick={handleUpgradeClick}
@@ -195,7 +199,7 @@ export default function PremiumFeatures() {
           {activeTab === 'batch' && (
             <BatchAnalysis
               isPremium={isPremium}
-              maxItems={50}
+              maxItems={100}
               onUpgradeClick={handleUpgradeClick}
             />
           )}
@@ -80,6 +80,67 @@ export interface CaptureRequest {
   targetArea?: string;     // "bottom left corner", "inside lid"
 }
 
+// A suggested capture and whether a follow-up photo has answered it
+export interface CaptureStatus extends CaptureRequest {
+  satisfied: boolean;
+  photoId: string | null;
+}
+
+// Follow-up photo attached to an existing analysis
+export interface AnalysisPhoto {
+  id: string;
+  itemAnalysisId: string;
+  photoType: ImageRole;
+  captureLabel: string | null;
+  imageUrl: string;
+  findingsFor: string[] | null;
+  findingsAgainst: string[] | null;
+  createdAt: string;
+}
+
+export interface AddAnalysisPhotoResult {
+  photo: AnalysisPhoto;
+  updatedFields: string[];
+  analysis: ItemAnalysis;
+  captures: CaptureStatus[];
+}
+
+// ============================================================================
+// ANALYSIS REVISIONS
+// ============================================================================
+
+export type RevisionTrigger = 'initial' | 'user_answer' | 'new_photo' | 'expert_correction' | 'model_upgrade';
+
+export type RevisionFieldGroup = 'identification' | 'valuation' | 'confidence' | 'evidence' | 'authentication';
+
+export interface AnalysisRevision {
+  id: string;
+  itemAnalysisId: string;
+  revisionNumber: number;
+  trigger: RevisionTrigger;
+  reason: string | null;
+  sourceId: string | null;
+  createdBy: string | null;
+  changedFields: string[];
+  createdAt: string;
+}
+
+export interface RevisionFieldChange {
+  field: string;
+  group: RevisionFieldGroup;
+  before: unknown;
+  after: unknown;
+  added?: unknown[];
+  removed?: unknown[];
+}
+
+export interface RevisionDiff {
+  from: AnalysisRevision;
+  to: AnalysisRevision;
+  changes: RevisionFieldChange[];
+  steps: AnalysisRevision[];
+}
+
 // Multi-image analysis request
 export interface MultiImageAnalysisRequest {
   images: CapturedImage[];
@@ -154,18 +215,34 @@ export interface VerificationNeed {
 // REAL MARKET DATA SYSTEM (NEW)
 // ============================================================================
 
+// real: recorded sales from a market source
+// modelled: derived from our own estimate - never shown as a sale
+// none: no market data at all
+export type DataProvenance = 'real' | 'modelled' | 'none';
+
 // Real sold listing from marketplace
 export interface SoldListing {
   id: string;
   title: string;
   soldPrice: number;
   soldDate: string;
-  marketplace: 'ebay' | 'liveauctioneers' | 'christies' | 'sothebys' | 'chairish' | 'firstdibs' | 'other';
+  marketplace: 'ebay' | 'liveauctioneers' | 'christies' | 'sothebys' | 'chairish' | 'firstdibs' | 'auction_archive' | 'other';
+  venue?: string;          // Selling house for aggregated sources (e.g. the auction archive)
   condition: string;
   imageUrl?: string;
   listingUrl: string;
   similarity: number;      // How similar to user's item (0-1)
   notes?: string;          // Why this comp is relevant
+  dataProvenance?: Exclude<DataProvenance, 'none'>;
+  provenance?: ListingProvenance;
+}
+
+// Where a sold listing came from and how fresh it is
+export interface ListingProvenance {
+  provider: string;        // 'ebay' | 'liveauctioneers' | 'invaluable' | 'auction_archive'
+  fetchedAt: string;       // When the source returned it
+  cached: boolean;         // Served from the market data cache
+  query: string;           // Normalized query it answered
 }
 
 // Current active listing
@@ -183,10 +260,14 @@ export interface ActiveListing {
 
 // Complete market intelligence
 export interface MarketIntelligence {
+  // What the prices are based on (older results may not say)
+  dataProvenance?: DataProvenance;
+  sampleSize?: number;
+
   // Real sold data
   recentSales: SoldListing[];
   averageSoldPrice: number;
-  priceRange: { low: number; high: number };
+  priceRange: { low: number; high: number };  // Sold range, or the modelled estimate range
   salesVelocity: string;   // "3-5 similar items sell per month"
 
   // Current market
@@ -243,6 +324,108 @@ export interface ItemAuthentication {
   expertType?: string;     // "Certified Rolex watchmaker"
 }
 
+// ============================================================================
+// HALLMARKS (British silver, decoded from the assay tables)
+// ============================================================================
+
+export interface HallmarkYearCandidate {
+  office: string;          // "london"
+  officeName: string;      // "London"
+  year: number;
+  yearLabel: string;       // "1876-77" while letters changed mid-year
+  letter: string;
+  letterStyle: 'roman' | 'old_english' | 'italic' | 'script' | null;
+  cycle: string;           // "1876-1895"
+  score: number;           // 0-1
+  reasons: string[];       // Why it was ranked down, if it was
+}
+
+export interface HallmarkCheck {
+  checkpoint: string;
+  weight: number;
+  passed: string[];
+  failed: string[];
+  unverified: string[];
+}
+
+export interface HallmarkDecoding {
+  input: {
+    office?: string;
+    dateLetter?: string;
+    letterStyle?: string;
+    standard?: 'sterling' | 'britannia';
+    dutyMark?: string;
+  };
+  candidates: HallmarkYearCandidate[];
+  yearRange: { start: number; end: number } | null;
+  conflicts: string[];     // Marks that can't appear together
+  notes: string[];
+  check: HallmarkCheck;
+}
+
+// ============================================================================
+// WATCH NUMBERS (serial, reference and calibre, decoded from maker charts)
+// ============================================================================
+
+export interface WatchNumberReading {
+  kind: 'serial' | 'reference' | 'calibre';
+  value: string;
+  label: string;           // "Reference 16610"
+  yearRange: { start: number; end: number | null };  // end null = still made
+  description: string;     // "Rolex Submariner Date"
+}
+
+export interface WatchNumbersDecoding {
+  maker: string | null;
+  makerName: string | null;
+  readings: WatchNumberReading[];
+  yearRange: { start: number; end: number | null } | null;
+  conflicts: string[];     // Numbers that can't belong to the same watch
+  notes: string[];
+  redFlags: string[];      // Conflicts plus any clash with the attributed period
+}
+
+// ============================================================================
+// PROTECTED MATERIALS COMPLIANCE
+// ============================================================================
+
+export type ComplianceStatus = 'prohibited' | 'requires_documentation';
+
+export interface ComplianceWarning {
+  material: 'ivory' | 'tortoiseshell' | 'rosewood' | 'whale' | 'rhino_horn';
+  materialName: string;    // "Elephant ivory"
+  likelihood: 'likely' | 'possible';
+  evidence: string;        // Sentence the material was read from
+  jurisdiction: 'US' | 'UK' | 'EU';
+  status: ComplianceStatus;
+  rule: string;            // The law, in one sentence
+  documentation: string | null;  // What a legal sale needs
+  prohibitedChannels: string[];
+}
+
+export interface ComplianceAssessment {
+  jurisdiction: 'US' | 'UK' | 'EU';
+  warnings: ComplianceWarning[];
+  blockedChannels: string[];  // Already removed from resaleChannels and marketplace links
+  saleProhibited: boolean;
+}
+
+// ============================================================================
+// DUPLICATE DETECTION
+// ============================================================================
+
+// An earlier analysis whose image looks like this one (perceptual hashes)
+export interface DuplicateAnalysis {
+  analysisId: string;
+  name: string;
+  analyzedAt: string;
+  imageUrl: string;
+  distance: number;        // Differing pHash bits - 0 is the same photo
+  exact: boolean;
+  own: boolean;            // The viewer's own analysis rather than a public one
+  message: string;         // "You analyzed this on October 3, 2026"
+}
+
 // ============================================================================
 // REFERENCE COMPARISON (NEW)
 // ============================================================================
@@ -330,6 +513,7 @@ export interface ComparableSale {
   price: number;
   date: string;
   relevance: string;
+  dataProvenance?: Exclude<DataProvenance, 'none'>;
 }
 
 export interface AlternativeCandidate {
@@ -357,9 +541,17 @@ export interface MarketplaceLinkSimple {
 // WORLD-CLASS ITEM ANALYSIS (ENHANCED)
 // ============================================================================
 
+// private = owner only, unlisted = anyone with the link, public = anyone
+export type AnalysisVisibility = 'private' | 'unlisted' | 'public';
+
 export interface ItemAnalysis {
   id: string;
 
+  // Ownership (isOwner is set on GET /api/analyze/:id)
+  visibility?: AnalysisVisibility;
+  isOwner?: boolean;
+  claimToken?: string | null; // Anonymous analyses only, returned once to their creator
+
   // Core identification
   name: string;
   maker: string | null;
@@ -431,6 +623,17 @@ export interface ItemAnalysis {
   // === ITEM-SPECIFIC AUTHENTICATION (NEW) ===
   itemAuthentication: ItemAuthentication | null;
 
+  // Deterministic hallmark decoding (silver only)
+  hallmarks?: HallmarkDecoding | null;
+
+  // Deterministic caseback number decoding (watches only)
+  watchNumbers?: WatchNumbersDecoding | null;
+  compliance?: ComplianceAssessment | null;
+
+  // Earlier analyses of the same piece, and the one reused instead of re-running
+  duplicates?: DuplicateAnalysis[];
+  reusedFrom?: DuplicateAnalysis | null;
+
   // Legacy authentication fields (kept for compatibility)
   authenticationConfidence: number | null;
   authenticityRisk: AuthenticityRisk | null;
@@ -445,7 +648,10 @@ export interface ItemAnalysis {
   referenceComparisons: ReferenceComparison[] | null;
 
   // === MULTI-IMAGE SUPPORT ===
-  imageUrl: string;               // Primary image
+  imageUrl: string;               // Primary image (?size=thumb|medium for derivatives)
+  imageWidth?: number | null;     // Stored original, after orientation
+  imageHeight?: number | null;
+  imageContentHash?: string | null;  // sha256 of the uploaded bytes
   additionalImages: CapturedImage[] | null;  // All images used
 
   // === CAPTURE GUIDANCE (NEW) ===
@@ -490,9 +696,16 @@ export interface AnalysisFeedback {
   isCorrect: boolean;
   correctionText: string | null;
   feedbackType: 'accuracy' | 'styling' | 'value';
+  corrections: FieldCorrection[] | null;
+  learningWeight: number | null;
   createdAt: string;
 }
 
+// Structured correction of a single analysis field (value in whole dollars)
+export type FieldCorrection =
+  | { field: 'maker' | 'era' | 'name'; correctedValue: string; notes?: string }
+  | { field: 'value'; correctedValue: number; notes?: string };
+
 export interface UserWishlist {
   id: string;
   userId: string;
@@ -714,6 +927,22 @@ export function getFindingStatusColor(status: AuthenticationFinding['status']):
 }
 
 // NEW: Get demand level styling
+export function isModelled(item: { dataProvenance?: DataProvenance }): boolean {
+  return item.dataProvenance === 'modelled';
+}
+
+export function getDataProvenanceLabel(market: Pick<MarketIntelligence, 'dataProvenance' | 'sampleSize' | 'recentSales'>): string {
+  const count = market.sampleSize ?? market.recentSales.length;
+  switch (market.dataProvenance) {
+    case 'modelled':
+      return 'Modelled from our estimate - no recorded sales';
+    case 'none':
+      return 'No market data available';
+    default:
+      return `Based on ${count} recorded ${count === 1 ? 'sale' : 'sales'}`;
+  }
+}
+
 export function getDemandLevelStyle(level: MarketIntelligence['demandLevel']): { label: string; color: string } {
   switch (level) {
     case 'hot':
@@ -773,7 +1002,7 @@ export const TIER_LIMITS = {
   },
   collector: {
     analysesPerMonth: Infinity,
-    collectionItems: Infinity,
+    collectionItems: 50,
     expertReviews: 2,
     batchAnalysis: true,
     pdfExport: true,
@@ -791,6 +1020,36 @@ export const TIER_LIMITS = {
   },
 } as const;
 
+// Server-side plan usage (GET /api/usage) - limits are null when unlimited
+export type UsageMetric = 'analyses' | 'consensus_runs' | 'multi_image_captures' | 'vera_messages';
+
+export type EntitlementFeature =
+  | 'consensusAnalysis'
+  | 'reasoningModel'
+  | 'multiImageCapture'
+  | 'batchAnalysis'
+  | 'priceAlerts'
+  | 'pdfExport'
+  | 'apiAccess';
+
+export interface UsageMeter {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+export interface UsageSummary {
+  tier: SubscriptionTier;
+  period: {
+    id: string; // 'YYYY-MM'
+    start: string;
+    resetsAt: string;
+  };
+  features: Record<EntitlementFeature, boolean>;
+  usage: Record<UsageMetric, UsageMeter>;
+  collection: UsageMeter | null;
+}
+
 export const TIER_PRICING = {
   free: { monthly: 0, annual: 0 },
   collector: { monthly: 9.99, annual: 99.99 },
@@ -824,3 +1083,139 @@ export function isCollectionFull(tier: SubscriptionTier | undefined, currentCoun
   const limit = TIER_LIMITS[tier || 'free'].collectionItems;
   return limit !== Infinity && currentCount >= limit;
 }
+
+// Batch analysis jobs (/api/analyze/batch)
+export type BatchJobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+export type BatchItemStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface BatchJob {
+  id: string;
+  name: string | null;
+  status: BatchJobStatus;
+  totalItems: number;
+  completedItems: number;
+  failedItems: number;
+  progress: number; // 0-1
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  updatedAt: string;
+}
+
+export interface BatchItem {
+  id: string;
+  position: number;
+  label: string | null;
+  imageUrl: string;
+  status: BatchItemStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null; // set while waiting to retry
+  analysis: {
+    id: string;
+    name: string;
+    maker: string | null;
+    era: string | null;
+    productCategory: string | null;
+    domainExpert: string | null;
+    confidence: number;
+    estimatedValueMin: number | null;
+    estimatedValueMax: number | null;
+  } | null;
+}
+
+export interface BatchJobDetail {
+  job: BatchJob;
+  items: BatchItem[];
+}
+
+export type BatchEvent =
+  | { type: 'job'; job: BatchJob }
+  | { type: 'item'; item: BatchItem };
+
+// Market price alerts (/api/alerts) and the notification feed (/api/notifications)
+export type PriceAlertCondition = 'above' | 'below' | 'any_change';
+
+export interface PriceAlert {
+  id: string;
+  itemAnalysisId: string | null;
+  itemName: string;
+  maker: string | null;
+  era: string | null;
+  category: string | null;
+  condition: PriceAlertCondition;
+  targetValue: number | null;
+  changeThreshold: number; // percent, for any_change
+  isActive: boolean;
+  lastValue: number | null; // average sold price at the last check
+  lastPercentChange: number | null;
+  lastCheckedAt: string | null;
+  lastTriggeredAt: string | null;
+  nextCheckAt: string;
+  createdAt: string;
+}
+
+export interface CreatePriceAlertInput {
+  itemAnalysisId?: string;
+  itemName?: string;
+  maker?: string | null;
+  era?: string | null;
+  category?: string | null;
+  condition: PriceAlertCondition;
+  targetValue?: number | null;
+  changeThreshold?: number;
+}
+
+export interface AppNotification {
+  id: string;
+  type: 'price_alert';
+  title: string;
+  body: string;
+  data: {
+    alertId?: string;
+    itemAnalysisId?: string | null;
+    previousValue?: number | null;
+    currentValue?: number;
+    [key: string]: unknown;
+  } | null;
+  deliveries: Record<string, 'sent' | 'failed' | 'skipped'> | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// Collection valuation history (/api/collection/valuation)
+export type ValuationSource = 'analysis' | 'market' | 'expert';
+export type ValuationGroupBy = 'category' | 'era' | 'location';
+export type ValuationRange = '6m' | '1y' | 'all';
+
+export interface ValuationPoint {
+  date: string; // month end, YYYY-MM-DD
+  totalMin: number;
+  totalMax: number;
+  itemCount: number;
+}
+
+export interface ValuationHistory {
+  range: ValuationRange;
+  groupBy: ValuationGroupBy;
+  points: ValuationPoint[];
+  groups: Array<{ key: string; points: ValuationPoint[] }>;
+  current: {
+    totalMin: number;
+    totalMax: number;
+    itemCount: number;
+    staleItems: number;
+    sources: Record<ValuationSource, number>;
+  };
+}
+
+export interface ValuationSnapshot {
+  id: string;
+  collectionItemId: string;
+  estimatedValueMin: number;
+  estimatedValueMax: number;
+  confidence: number;
+  source: ValuationSource;
+  sampleSize: number | null;
+  capturedAt: string;
+}
@@ -5,7 +5,7 @@
  * This approach works across all browsers without external dependencies.
  */
 
-import { ItemAnalysis, formatPriceRange, formatPrice, getDomainExpertName } from '@/types'
+import { ItemAnalysis, formatPriceRange, formatPrice, getDomainExpertName, getDataProvenanceLabel, isModelled } from '@/types'
 
 interface PDFExportOptions {
   includeImage?: boolean
@@ -242,6 +242,17 @@ function getPrintStyles(confidencePercent: number): string {
       font-size: 20px;
     }
 
+    .stat.modelled {
+      border: 1px dashed #c9a227;
+      border-radius: 6px;
+      padding: 6px 8px;
+    }
+
+    .stat.modelled .stat-value {
+      color: #666;
+      font-style: italic;
+    }
+
     .deal-rating {
       display: inline-block;
       padding: 8px 16px;
@@ -659,8 +670,23 @@ function buildPrintDocument(
     const marketGrid = targetDoc.createElement('div')
     marketGrid.className = 'grid-2'
 
-    const avgSoldStat = createStat(targetDoc, 'Average Sold Price', formatPrice(analysis.marketIntelligence.averageSoldPrice))
-    marketGrid.appendChild(avgSoldStat)
+    const market = analysis.marketIntelligence
+    const { low, high } = market.priceRange
+
+    // Modelled ranges come from our own estimate, so they never print as sold prices
+    if (isModelled(market)) {
+      const modelledStat = createStat(targetDoc, 'Modelled Range', formatPriceRange(low, high))
+      modelledStat.classList.add('modelled')
+      marketGrid.appendChild(modelledStat)
+    } else if (market.dataProvenance !== 'none') {
+      const avgSoldStat = createStat(targetDoc, 'Average Sold Price', formatPrice(market.averageSoldPrice))
+      marketGrid.appendChild(avgSoldStat)
+
+      if (high > 0) {
+        const soldRangeStat = createStat(targetDoc, 'Sold Range', formatPriceRange(low, high))
+        marketGrid.appendChild(soldRangeStat)
+      }
+    }
 
     const demandStat = createStat(targetDoc, 'Market Demand', formatDemandLevel(analysis.marketIntelligence.demandLevel))
     marketGrid.appendChild(demandStat)
@@ -673,6 +699,13 @@ function buildPrintDocument(
 
     marketSection.appendChild(marketGrid)
 
+    const provenanceNote = targetDoc.createElement('p')
+    provenanceNote.style.fontSize = '11px'
+    provenanceNote.style.color = '#666'
+    provenanceNote.style.marginTop = '8px'
+    provenanceNote.textContent = getDataProvenanceLabel(market)
+    marketSection.appendChild(provenanceNote)
+
     if (analysis.marketIntelligence.bestVenues?.length) {
       const venuesDiv = targetDoc.createElement('div')
       venuesDiv.style.marginTop = '12px'